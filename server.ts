@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import 'dotenv/config';
+import express from 'express';
+import path from 'path';
+import { createSnapshotRecorder } from './server/analytics';
+import { createApiRouter } from './server/api';
+import { createAuth } from './server/auth';
+import { openDatabase } from './server/db';
+import { ApiError, errorHandler } from './server/errors';
+import { createEventHub } from './server/events';
+import { createGateCloser } from './server/gates';
+import { createReminderEngine } from './server/reminders';
+import { transportsFromEnv } from './server/transports';
+
+async function startServer() {
+  const app = express();
+  const PORT = Number(process.env.PORT) || 3000;
+  const db = openDatabase();
+  const events = createEventHub(db);
+  const auth = createAuth(db);
+  const reminders = createReminderEngine(db, transportsFromEnv());
+  const gateCloser = createGateCloser(db, events);
+  const snapshots = createSnapshotRecorder(db);
+
+  app.use('/api', createApiRouter(db, events, auth, reminders));
+  app.use('/api', (_req, _res, next) => next(new ApiError(404, 'المسار غير موجود.')));
+  app.use('/api', errorHandler);
+
+  if (process.env.NODE_ENV !== 'production') {
+    const { createServer: createViteServer } = await import('vite');
+    const vite = await createViteServer({
+      server: { middlewareMode: true },
+      appType: 'spa',
+    });
+    app.use(vite.middlewares);
+  } else {
+    const distPath = path.join(process.cwd(), 'dist');
+    app.use(express.static(distPath));
+    app.get('*', (_req, res) => {
+      res.sendFile(path.join(distPath, 'index.html'));
+    });
+  }
+
+  app.listen(PORT, '0.0.0.0', () => {
+    console.log(`Server running on http://localhost:${PORT}`);
+    reminders.start();
+    gateCloser.start();
+    snapshots.start();
+  });
+}
+
+startServer();
@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import { can } from '../src/board';
+import type { Member, Task } from '../src/types';
+import { currentSnapshot, planAnalytics, recordSnapshots } from './analytics';
+import { type DB, openDatabase } from './db';
+import { openWindow } from './gates';
+import { castVote, getTaskCompletionTimes, listMembers, listPhases, listPlans, listTasks, requirePlan, setTaskCompletion } from './store';
+import { reviewTask } from './tasks';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('plan analytics', () => {
+  let db: DB;
+  let planId: number;
+  let chair: Member;
+  let task: Task;
+
+  const today = () => new Date().toISOString().slice(0, 10);
+  const yesterday = () => new Date(Date.now() - DAY_MS);
+
+  beforeEach(() => {
+    db = openDatabase(':memory:');
+    planId = listPlans(db)[0].id;
+    chair = listMembers(db, planId).find(m => m.isAdmin)!;
+    const completedAt = getTaskCompletionTimes(db, planId);
+    task = listTasks(db, planId).find(t => !t.reviewerId && t.assignees.every(id => !completedAt[t.id]?.[id]))!;
+  });
+
+  it('keeps one snapshot per plan and day, with the day\'s latest figures', () => {
+    recordSnapshots(db, yesterday());
+    const before = planAnalytics(db, planId).snapshots[0];
+    setTaskCompletion(db, task.id, task.assignees[0], true);
+    recordSnapshots(db, yesterday());
+    const [recorded, live] = planAnalytics(db, planId).snapshots;
+    assert.equal(recorded.day, yesterday().toISOString().slice(0, 10));
+    assert.equal(recorded.memberCompleted[task.assignees[0]], (before.memberCompleted[task.assignees[0]] ?? 0) + 1);
+    assert.equal(live.day, today());
+  });
+
+  it('leaves today\'s recorded snapshot out in favour of the live figures', () => {
+    recordSnapshots(db);
+    setTaskCompletion(db, task.id, task.assignees[0], true);
+    const { snapshots } = planAnalytics(db, planId);
+    assert.equal(snapshots.length, 1);
+    assert.deepEqual(snapshots[0], currentSnapshot(db, planId, today()));
+  });
+
+  it('counts a task as accepted only once its reviewer accepts it', () => {
+    const accepted = currentSnapshot(db, planId, today()).tasksAccepted;
+    for (const id of task.assignees) setTaskCompletion(db, task.id, id, true);
+    assert.equal(currentSnapshot(db, planId, today()).tasksAccepted, accepted);
+    reviewTask(db, task.id, chair, { decision: 'accepted' });
+    assert.equal(currentSnapshot(db, planId, today()).tasksAccepted, accepted + 1);
+  });
+
+  it('plans the burn-up from the task dates, with actual figures on recorded days only', () => {
+    recordSnapshots(db, yesterday());
+    const plan = requirePlan(db, planId);
+    const { tasksTotal, burnUp } = planAnalytics(db, planId);
+    assert.equal(burnUp[0].day, plan.startDate);
+    assert.ok(burnUp.every((point, i) => i === 0 || point.planned >= burnUp[i - 1].planned));
+    const lastEnd = listTasks(db, planId).map(t => t.endDate).sort().at(-1)!;
+    assert.equal(burnUp.find(point => point.day === lastEnd)?.planned, tasksTotal);
+    const withActual = burnUp.filter(point => point.actual !== undefined).map(point => point.day);
+    assert.deepEqual(withActual, [yesterday().toISOString().slice(0, 10), today()].filter(day => day >= plan.startDate));
+  });
+
+  it('times a gate from its first voting window to its approval, and the next gate so far', () => {
+    const [first, second] = listPhases(db, planId);
+    const window = openWindow(db, first.id, { closesAt: new Date(Date.now() + DAY_MS).toISOString() }, chair);
+    const voters = listMembers(db, planId).filter(m => m.active && can(m, 'vote'));
+    for (const voter of voters) castVote(db, first.id, voter.id, 'approve', voter);
+
+    const [gate, next] = planAnalytics(db, planId).approvals;
+    assert.equal(gate.phaseId, first.id);
+    assert.equal(gate.openedAt, window.opensAt);
+    assert.ok(gate.approvedAt && gate.approvedAt >= window.opensAt);
+    assert.equal(next.phaseId, second.id);
+    assert.equal(next.approvedAt, undefined);
+    assert.equal(next.openedAt, gate.approvedAt);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { gateApprovedAt, getActivePhase, isTaskAccepted } from '../src/board';
+import { fromDay, toDay } from '../src/schedule';
+import type { BurnUpPoint, GateApprovalTime, PlanAnalytics, PlanSnapshot } from '../src/types';
+import type { DB } from './db';
+import {
+  getTaskCompletionTimes, getTaskReviews, getVotes, listMembers, listPhases, listPlans, listReopenings, listTasks, requirePlan,
+} from './store';
+
+// Progress over time. Current figures can always be derived from the board,
+// but yesterday's cannot, so each open plan's figures are recorded once an
+// hour into that day's snapshot. Trends start from when recording began.
+
+const SNAPSHOT_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type SnapshotRow = { day: string; tasks_total: number; tasks_accepted: number; member_completed: string };
+
+const toSnapshot = (row: SnapshotRow): PlanSnapshot => ({
+  day: row.day,
+  tasksTotal: row.tasks_total,
+  tasksAccepted: row.tasks_accepted,
+  memberCompleted: JSON.parse(row.member_completed),
+});
+
+const roundDays = (ms: number) => Math.round((ms / DAY_MS) * 10) / 10;
+
+/** The plan's figures as they stand now, for `day`. */
+export function currentSnapshot(db: DB, planId: number, day: string): PlanSnapshot {
+  const tasks = listTasks(db, planId);
+  const completedAt = getTaskCompletionTimes(db, planId);
+  const reviews = getTaskReviews(db, planId);
+  const memberCompleted: Record<string, number> = {};
+  for (const task of tasks) {
+    for (const memberId of Object.keys(completedAt[task.id] || {})) {
+      if (task.assignees.includes(memberId)) memberCompleted[memberId] = (memberCompleted[memberId] ?? 0) + 1;
+    }
+  }
+  return {
+    day,
+    tasksTotal: tasks.length,
+    tasksAccepted: tasks.filter(task => isTaskAccepted(task, completedAt[task.id], reviews[task.id])).length,
+    memberCompleted,
+  };
+}
+
+/** Rewrites today's snapshot of every plan that is not archived. */
+export function recordSnapshots(db: DB, now = new Date()) {
+  const day = now.toISOString().slice(0, 10);
+  const upsert = db.prepare(`
+    INSERT INTO plan_snapshots (plan_id, day, tasks_total, tasks_accepted, member_completed, recorded_at) VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT (plan_id, day) DO UPDATE SET
+      tasks_total = excluded.tasks_total, tasks_accepted = excluded.tasks_accepted,
+      member_completed = excluded.member_completed, recorded_at = excluded.recorded_at
+  `);
+  db.transaction(() => {
+    for (const plan of listPlans(db).filter(p => !p.archivedAt)) {
+      const snapshot = currentSnapshot(db, plan.id, day);
+      upsert.run(plan.id, day, snapshot.tasksTotal, snapshot.tasksAccepted, JSON.stringify(snapshot.memberCompleted), now.toISOString());
+    }
+  })();
+}
+
+/**
+ * Planned burn-up from the task dates: each task is expected to progress
+ * evenly from its start date to its end date, so the curve reaches the full
+ * task count on the last end date.
+ */
+function plannedBurnUp(tasks: { startDate: string; endDate: string }[], day: number): number {
+  const planned = tasks.reduce((sum, task) => {
+    const start = toDay(task.startDate);
+    const span = toDay(task.endDate) - start + 1;
+    return sum + Math.min(1, Math.max(0, (day - start + 1) / span));
+  }, 0);
+  return Math.round(planned * 10) / 10;
+}
+
+/**
+ * How long each gate took from opening to approval. A gate opens with its
+ * first voting window since it was last reopened; gates approved before
+ * voting windows existed count from the previous gate's approval, or the
+ * plan's start.
+ */
+function approvalTimes(db: DB, planId: number, now: Date): GateApprovalTime[] {
+  const plan = requirePlan(db, planId);
+  const phases = listPhases(db, planId);
+  const votes = getVotes(db, planId);
+  const members = listMembers(db, planId);
+  const reopenings = listReopenings(db, planId);
+  const activeId = getActivePhase(phases, votes, members);
+  const firstWindow = db.prepare('SELECT MIN(opens_at) AS opens_at FROM voting_windows WHERE phase_id = ? AND opens_at >= ?');
+
+  const times: GateApprovalTime[] = [];
+  let previousApproval = `${plan.startDate}T00:00:00.000Z`;
+  for (const phase of phases) {
+    const approvedAt = gateApprovedAt(phase, votes[phase.id], members);
+    if (!approvedAt && phase.id !== activeId) break;
+    const reopenedAt = reopenings.filter(r => r.phaseId === phase.id).at(-1)?.createdAt ?? '';
+    const { opens_at } = firstWindow.get(phase.id, reopenedAt) as { opens_at: string | null };
+    const openedAt = opens_at ?? (reopenedAt || previousApproval);
+    const end = approvedAt ? new Date(approvedAt) : now;
+    times.push({ phaseId: phase.id, openedAt, ...(approvedAt ? { approvedAt } : {}), days: Math.max(0, roundDays(end.getTime() - new Date(openedAt).getTime())) });
+    if (approvedAt) previousApproval = approvedAt;
+  }
+  return times;
+}
+
+/** Burn-up over the plan's days, approval times and recorded snapshots, with today's figures taken live. */
+export function planAnalytics(db: DB, planId: number, now = new Date()): PlanAnalytics {
+  const plan = requirePlan(db, planId);
+  const tasks = listTasks(db, planId);
+  const today = now.toISOString().slice(0, 10);
+  const recorded = (db.prepare('SELECT * FROM plan_snapshots WHERE plan_id = ? AND day < ? ORDER BY day').all(planId, today) as SnapshotRow[])
+    .map(toSnapshot);
+  const snapshots = plan.archivedAt ? recorded : [...recorded, currentSnapshot(db, planId, today)];
+  const actual = new Map(snapshots.map(s => [s.day, s.tasksAccepted]));
+
+  // A plan running late keeps its curve going until the last recorded day.
+  const lastDay = Math.max(toDay(plan.endDate), ...snapshots.map(s => toDay(s.day)));
+  const burnUp: BurnUpPoint[] = [];
+  for (let day = toDay(plan.startDate); day <= lastDay; day++) {
+    const date = fromDay(day);
+    burnUp.push({ day: date, planned: plannedBurnUp(tasks, day), ...(actual.has(date) ? { actual: actual.get(date) } : {}) });
+  }
+  return { tasksTotal: tasks.length, burnUp, approvals: approvalTimes(db, planId, now), snapshots };
+}
+
+export type SnapshotRecorder = ReturnType<typeof createSnapshotRecorder>;
+
+export function createSnapshotRecorder(db: DB) {
+  let timer: ReturnType<typeof setInterval> | undefined;
+
+  const start = () => {
+    if (timer) return;
+    const tick = () => {
+      try {
+        recordSnapshots(db);
+      } catch (err) {
+        console.error('Recording progress snapshots failed', err);
+      }
+    };
+    timer = setInterval(tick, SNAPSHOT_INTERVAL_MS);
+    timer.unref();
+    tick();
+  };
+
+  const stop = () => {
+    clearInterval(timer);
+    timer = undefined;
+  };
+
+  return { start, stop };
+}
@@ -0,0 +1,831 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import express, { Response, Router } from 'express';
+import type { DiscussionThread, VoteDecision } from '../src/types';
+import * as analytics from './analytics';
+import { AUDIT_ACTIONS, type AuditInput, listAudit, recordAudit, verifyAudit } from './audit';
+import { type Auth, currentUser } from './auth';
+import * as calendar from './calendar';
+import * as config from './config';
+import type { DB } from './db';
+import * as discussions from './discussions';
+import * as drafts from './drafts';
+import { ApiError } from './errors';
+import type { EventHub } from './events';
+import * as exchange from './exchange';
+import * as gates from './gates';
+import * as notices from './notifications';
+import * as plans from './plans';
+import * as proxies from './proxies';
+import type { ReminderEngine } from './reminders';
+import { SHEET_TYPES } from './sheets';
+import * as store from './store';
+import * as taskReviews from './tasks';
+import { optionalString, parseIntParam, requireOption, requireString } from './validate';
+
+const VOTE_DECISIONS: VoteDecision[] = ['approve', 'reject', 'abstain', 'recuse'];
+
+const parsePhaseId = (raw: string) => parseIntParam(raw, 'رقم المرحلة غير صالح.');
+const parseDraftId = (raw: string) => parseIntParam(raw, 'رقم المسودة غير صالح.');
+const parsePlanId = (raw: string) => parseIntParam(raw, 'رقم الخطة غير صالح.');
+
+function parseDecision(value: unknown): VoteDecision {
+  const decision = value ?? 'approve';
+  if (!VOTE_DECISIONS.includes(decision as VoteDecision)) throw new ApiError(400, 'نوع التصويت غير معروف.');
+  return decision as VoteDecision;
+}
+
+/** Members act for themselves; only the admin may act on someone else's behalf. */
+function actingFor(res: Response, memberId: string | undefined): string {
+  const user = currentUser(res);
+  if (memberId && memberId !== user.id && !user.isAdmin) {
+    throw new ApiError(403, 'لا يمكنك تنفيذ هذا الإجراء نيابة عن عضو آخر.');
+  }
+  return memberId || user.id;
+}
+
+/** The plan the client is looking at, sent with every request in the `X-Plan-Id` header. */
+function currentPlan(db: DB, res: Response) {
+  return plans.planFor(db, currentUser(res), res.req.header('X-Plan-Id'));
+}
+
+/** Role capabilities are board-wide, but a member uses them only on the plans they belong to. */
+function requirePlanAccess(db: DB, res: Response, planId: number) {
+  plans.planFor(db, currentUser(res), String(planId));
+}
+
+/**
+ * REST API for shared board state. Every mutation responds with the full
+ * `BoardState` of the client's current plan so clients can replace their copy
+ * instead of patching it, writes an audit entry in the same transaction as the
+ * change, and publishes a `BoardEvent` so other open dashboards can follow along.
+ */
+export function createApiRouter(db: DB, events: EventHub, auth: Auth, reminders: ReminderEngine): Router {
+  const router = express.Router();
+  // Draft attachments travel base64-encoded inside the JSON body.
+  router.use(express.json({ limit: '40mb' }));
+  router.use(auth.authenticate);
+
+  const boardState = (res: Response, planId = currentPlan(db, res).id) => ({
+    ...store.getBoardState(db, planId),
+    plans: plans.visiblePlans(db, currentUser(res)),
+    lastEventId: events.lastEventId(),
+  });
+  const actor = (res: Response) => ({ actorId: currentUser(res).id, actorName: currentUser(res).name });
+  const transaction = <T>(change: () => T): T => db.transaction(change)();
+  const audit = (res: Response, entry: Omit<AuditInput, 'actor'>) => recordAudit(db, { ...entry, actor: currentUser(res) });
+  // For changes that can approve or reopen a gate: members are notified when the active phase moves.
+  const gateTransaction = <T>(res: Response, change: () => T): T => transaction(() => {
+    const activeBefore = notices.activePhases(db);
+    const result = change();
+    notices.phaseOpened(db, activeBefore, currentUser(res));
+    return result;
+  });
+
+  // --- Session ---
+  router.post('/auth/login', (req, res) => {
+    const memberId = requireString(req.body?.memberId, 'رقم الهوية مطلوب.');
+    const pin = requireString(req.body?.pin, 'رمز الدخول مطلوب.');
+    res.json(auth.login(memberId, pin, res));
+  });
+
+  router.post('/auth/logout', auth.logout);
+
+  // Calendar apps cannot log in, so the subscription link carries its own secret token.
+  router.get('/calendar/feed/:file', (req, res) => {
+    const member = calendar.feedMember(db, req.params.file.replace(/\.ics$/, ''));
+    if (!member) throw new ApiError(404, 'رابط التقويم غير صالح أو أُلغي.');
+    res.type('text/calendar; charset=utf-8').send(calendar.buildCalendar(db, member));
+  });
+
+  router.use(auth.requireUser);
+
+  router.get('/auth/me', (_req, res) => {
+    res.json(currentUser(res));
+  });
+
+  router.put('/auth/pin', (req, res) => {
+    const user = currentUser(res);
+    const currentPin = requireString(req.body?.currentPin, 'رمز الدخول الحالي مطلوب.');
+    const newPin = requireString(req.body?.newPin, 'رمز الدخول الجديد مطلوب.');
+    if (!auth.checkPin(user.id, currentPin)) throw new ApiError(403, 'رمز الدخول الحالي غير صحيح.');
+    transaction(() => {
+      auth.setPin(user.id, newPin);
+      audit(res, { action: 'member.pin_set', memberId: user.id });
+    });
+    auth.login(user.id, newPin, res);
+    res.status(204).end();
+  });
+
+  // --- Member Credentials (admin) ---
+  router.get('/members/credentials', auth.requireAdmin, (_req, res) => {
+    res.json(store.listMembers(db).map(m => ({ id: m.id, hasPin: auth.hasPin(m.id) })));
+  });
+
+  router.put('/members/:memberId/pin', auth.requireAdmin, (req, res) => {
+    const { memberId } = req.params;
+    const pin = requireString(req.body?.pin, 'رمز الدخول مطلوب.');
+    transaction(() => {
+      auth.setPin(memberId, pin);
+      audit(res, { action: 'member.pin_set', memberId });
+    });
+    res.status(204).end();
+  });
+
+  // --- Audit Trail (secretary, as keeper of the minutes) ---
+  router.get('/audit', auth.requireCapability('manage_minutes'), (req, res) => {
+    const action = optionalString(req.query.action);
+    res.json(listAudit(db, {
+      memberId: optionalString(req.query.memberId),
+      phaseId: req.query.phaseId ? parsePhaseId(String(req.query.phaseId)) : undefined,
+      action: action === undefined ? undefined : requireOption(action, AUDIT_ACTIONS, 'نوع الإجراء غير معروف.'),
+      beforeId: req.query.beforeId ? parseIntParam(String(req.query.beforeId), 'رقم القيد غير صالح.') : undefined,
+    }));
+  });
+
+  router.get('/audit/verify', auth.requireCapability('manage_minutes'), (_req, res) => {
+    res.json(verifyAudit(db));
+  });
+
+  // --- Notification Inbox ---
+  router.get('/notifications', (req, res) => {
+    const beforeId = req.query.beforeId ? parseIntParam(String(req.query.beforeId), 'رقم الإشعار غير صالح.') : undefined;
+    res.json(notices.listInbox(db, currentUser(res).id, beforeId));
+  });
+
+  router.put('/notifications/read', (req, res) => {
+    const ids = req.body?.ids;
+    if (ids !== undefined && (!Array.isArray(ids) || ids.some(id => !Number.isInteger(id)))) throw new ApiError(400, 'أرقام الإشعارات غير صالحة.');
+    notices.markRead(db, currentUser(res).id, ids);
+    res.json(notices.listInbox(db, currentUser(res).id));
+  });
+
+  // --- Calendar ---
+  router.get('/calendar.ics', (_req, res) => {
+    const member = store.requireMember(db, currentUser(res).id);
+    res.type('text/calendar; charset=utf-8')
+      .attachment('board-calendar.ics')
+      .send(calendar.buildCalendar(db, member));
+  });
+
+  router.get('/calendar/feed', (_req, res) => {
+    res.json(calendar.getFeed(db, currentUser(res).id));
+  });
+
+  router.post('/calendar/feed', (_req, res) => {
+    const user = currentUser(res);
+    const feed = transaction(() => {
+      const feed = calendar.createFeed(db, user.id);
+      audit(res, { action: 'member.calendar_linked', memberId: user.id });
+      return feed;
+    });
+    res.json(feed);
+  });
+
+  router.delete('/calendar/feed', (_req, res) => {
+    const user = currentUser(res);
+    transaction(() => {
+      if (calendar.deleteFeed(db, user.id)) audit(res, { action: 'member.calendar_unlinked', memberId: user.id });
+    });
+    res.json(calendar.getFeed(db, user.id));
+  });
+
+  // --- Reminders ---
+  router.get('/reminders', (_req, res) => {
+    res.json(reminders.settings(currentUser(res).id));
+  });
+
+  router.put('/reminders', (req, res) => {
+    const user = currentUser(res);
+    const input = reminders.parsePreferences(req.body);
+    transaction(() => {
+      const before = reminders.getPreferences(user.id);
+      reminders.setPreferences(user.id, input);
+      audit(res, { action: 'member.reminders_updated', memberId: user.id, before, after: input });
+    });
+    res.json(reminders.settings(user.id));
+  });
+
+  router.post('/reminders/test', (_req, res, next) => {
+    reminders.sendTest(currentUser(res).id).then(() => res.status(204).end(), next);
+  });
+
+  router.post('/reminders/run', auth.requireCapability('manage_reminders'), (_req, res, next) => {
+    reminders.run().then(summary => res.json(summary), next);
+  });
+
+  router.get('/state', (_req, res) => {
+    res.json(boardState(res));
+  });
+
+  router.get('/events', events.stream);
+
+  router.get('/analytics', (_req, res) => {
+    res.json(analytics.planAnalytics(db, currentPlan(db, res).id));
+  });
+
+  // --- Board Configuration (admin) ---
+  // Member changes concern every plan, so their events carry no plan id.
+  const configChanged = (res: Response, planId?: number, responsePlanId?: number) => {
+    events.publish('config.updated', { ...actor(res), planId });
+    res.json(boardState(res, responsePlanId));
+  };
+
+  // --- Plans (admin) ---
+  // Creating or cloning a plan responds with the new plan's state, so the client switches to it.
+  router.post('/plans', auth.requireAdmin, (req, res) => {
+    const input = plans.parsePlanInput(req.body);
+    const plan = transaction(() => {
+      const after = plans.createPlan(db, input);
+      audit(res, { action: 'plan.created', after });
+      return after;
+    });
+    configChanged(res, plan.id, plan.id);
+  });
+
+  router.put('/plans/:planId', auth.requireAdmin, (req, res) => {
+    const planId = parsePlanId(req.params.planId);
+    const input = plans.parsePlanInput(req.body);
+    gateTransaction(res, () => {
+      const before = store.requirePlan(db, planId);
+      const after = plans.updatePlan(db, planId, input);
+      audit(res, { action: 'plan.updated', before, after });
+    });
+    configChanged(res, planId);
+  });
+
+  router.put('/plans/:planId/archive', auth.requireAdmin, (req, res) => {
+    const planId = parsePlanId(req.params.planId);
+    transaction(() => {
+      const before = store.requirePlan(db, planId);
+      const after = plans.archivePlan(db, planId);
+      audit(res, { action: 'plan.archived', before, after });
+    });
+    configChanged(res, planId);
+  });
+
+  router.delete('/plans/:planId/archive', auth.requireAdmin, (req, res) => {
+    const planId = parsePlanId(req.params.planId);
+    gateTransaction(res, () => {
+      const before = store.requirePlan(db, planId);
+      const after = plans.restorePlan(db, planId);
+      audit(res, { action: 'plan.restored', before, after });
+    });
+    configChanged(res, planId);
+  });
+
+  router.post('/plans/:planId/clone', auth.requireAdmin, (req, res) => {
+    const sourceId = parsePlanId(req.params.planId);
+    const input = plans.parseCloneInput(req.body);
+    const plan = transaction(() => {
+      const after = plans.clonePlan(db, sourceId, input);
+      audit(res, { action: 'plan.created', after });
+      return after;
+    });
+    configChanged(res, plan.id, plan.id);
+  });
+
+  // New members join the plan they were added from.
+  router.post('/members', auth.requireAdmin, (req, res) => {
+    const id = requireString(req.body?.id, 'رقم الهوية مطلوب.');
+    const input = config.parseMemberInput(req.body);
+    const { id: planId } = currentPlan(db, res);
+    transaction(() => {
+      const after = config.createMember(db, id, input, planId);
+      audit(res, { action: 'member.created', memberId: id, after });
+    });
+    configChanged(res);
+  });
+
+  router.put('/members/:memberId', auth.requireAdmin, (req, res) => {
+    const { memberId } = req.params;
+    const input = config.parseMemberInput(req.body);
+    gateTransaction(res, () => {
+      const before = store.requireMember(db, memberId);
+      const after = config.updateMember(db, memberId, input, currentUser(res).id);
+      audit(res, { action: 'member.updated', memberId, before, after });
+    });
+    configChanged(res);
+  });
+
+  router.post('/phases', auth.requireAdmin, (req, res) => {
+    const input = config.parsePhaseInput(req.body);
+    const { id: planId } = currentPlan(db, res);
+    gateTransaction(res, () => {
+      const after = config.createPhase(db, planId, input);
+      audit(res, { action: 'phase.created', phaseId: after.id, after });
+    });
+    configChanged(res, planId);
+  });
+
+  router.put('/phases/:phaseId', auth.requireAdmin, (req, res) => {
+    const phaseId = parsePhaseId(req.params.phaseId);
+    const input = config.parsePhaseInput(req.body);
+    gateTransaction(res, () => {
+      const before = store.requirePhase(db, phaseId);
+      const after = config.updatePhase(db, phaseId, input);
+      audit(res, { action: 'phase.updated', phaseId, before, after });
+    });
+    configChanged(res, store.planOfPhase(db, phaseId));
+  });
+
+  router.delete('/phases/:phaseId', auth.requireAdmin, (req, res) => {
+    const phaseId = parsePhaseId(req.params.phaseId);
+    const planId = store.planOfPhase(db, phaseId);
+    gateTransaction(res, () => {
+      const before = store.requirePhase(db, phaseId);
+      config.deletePhase(db, phaseId);
+      audit(res, { action: 'phase.deleted', phaseId, before });
+    });
+    configChanged(res, planId);
+  });
+
+  router.post('/tasks', auth.requireAdmin, (req, res) => {
+    const input = config.parseTaskInput(req.body);
+    const { id: planId } = currentPlan(db, res);
+    transaction(() => {
+      const after = config.createTask(db, planId, input);
+      audit(res, { action: 'task.created', taskId: after.id, phaseId: after.phaseId, after });
+      notices.taskAssigned(db, after, after.assignees, currentUser(res));
+    });
+    configChanged(res, planId);
+  });
+
+  router.put('/tasks/:taskId', auth.requireAdmin, (req, res) => {
+    const { taskId } = req.params;
+    const input = config.parseTaskInput(req.body);
+    transaction(() => {
+      const before = store.requireTask(db, taskId);
+      const after = config.updateTask(db, taskId, input);
+      audit(res, { action: 'task.updated', taskId, phaseId: after.phaseId, before, after });
+      notices.taskAssigned(db, after, after.assignees.filter(id => !before.assignees.includes(id)), currentUser(res));
+    });
+    configChanged(res, store.planOfTask(db, taskId));
+  });
+
+  router.delete('/tasks/:taskId', auth.requireAdmin, (req, res) => {
+    const { taskId } = req.params;
+    const planId = store.planOfTask(db, taskId);
+    transaction(() => {
+      const before = store.requireTask(db, taskId);
+      config.deleteTask(db, taskId);
+      audit(res, { action: 'task.deleted', taskId, phaseId: before.phaseId, before });
+    });
+    configChanged(res, planId);
+  });
+
+  // Importing is all or nothing: the preview shows every row's problems, and nothing is created until there are none.
+  router.post('/tasks/import/preview', auth.requireAdmin, (req, res) => {
+    const input = exchange.parseImportInput(req.body);
+    res.json(exchange.previewImport(db, currentPlan(db, res).id, input));
+  });
+
+  router.post('/tasks/import', auth.requireAdmin, (req, res) => {
+    const input = exchange.parseImportInput(req.body);
+    const { id: planId } = currentPlan(db, res);
+    transaction(() => {
+      for (const after of exchange.importTasks(db, planId, input)) {
+        audit(res, { action: 'task.created', taskId: after.id, phaseId: after.phaseId, after });
+        notices.taskAssigned(db, after, after.assignees, currentUser(res));
+      }
+    });
+    configChanged(res, planId);
+  });
+
+  // --- Spreadsheet export ---
+  router.get('/export/:file', (req, res) => {
+    const { dataset, format } = exchange.parseExportFile(req.params.file);
+    const { id: planId } = currentPlan(db, res);
+    res.type(SHEET_TYPES[format])
+      .attachment(`plan-${planId}-${dataset}.${format}`)
+      .send(exchange.exportFile(db, planId, dataset, format));
+  });
+
+  // --- Draft Documents ---
+  router.get('/drafts/:draftId/versions', (req, res) => {
+    const draftId = parseDraftId(req.params.draftId);
+    requirePlanAccess(db, res, store.planOfPhase(db, store.requireDraft(db, draftId).phaseId));
+    res.json(drafts.listVersions(db, draftId));
+  });
+
+  router.get('/attachments/:attachmentId', (req, res) => {
+    const file = drafts.getAttachment(db, parseIntParam(req.params.attachmentId, 'رقم المرفق غير صالح.'));
+    requirePlanAccess(db, res, store.planOfPhase(db, store.requireDraft(db, file.draftId).phaseId));
+    res.setHeader('Content-Type', file.mimeType);
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(file.fileName)}`);
+    res.send(file.data);
+  });
+
+  router.post('/phases/:phaseId/drafts', auth.requireCapability('edit_drafts'), (req, res) => {
+    const phaseId = parsePhaseId(req.params.phaseId);
+    const title = requireString(req.body?.title, 'عنوان المسودة مطلوب.');
+    transaction(() => {
+      requirePlanAccess(db, res, store.planOfPhase(db, phaseId));
+      const after = drafts.createDraft(db, phaseId, title);
+      audit(res, { action: 'draft.created', phaseId, draftId: after.id, after });
+    });
+    configChanged(res, store.planOfPhase(db, phaseId));
+  });
+
+  router.put('/drafts/:draftId', auth.requireCapability('edit_drafts'), (req, res) => {
+    const draftId = parseDraftId(req.params.draftId);
+    const title = requireString(req.body?.title, 'عنوان المسودة مطلوب.');
+    const draft = transaction(() => {
+      const before = store.requireDraft(db, draftId);
+      requirePlanAccess(db, res, store.planOfPhase(db, before.phaseId));
+      const after = drafts.renameDraft(db, draftId, title);
+      audit(res, { action: 'draft.renamed', phaseId: after.phaseId, draftId, before, after });
+      return after;
+    });
+    configChanged(res, store.planOfPhase(db, draft.phaseId));
+  });
+
+  router.delete('/drafts/:draftId', auth.requireCapability('edit_drafts'), (req, res) => {
+    const draftId = parseDraftId(req.params.draftId);
+    const draft = transaction(() => {
+      const before = store.requireDraft(db, draftId);
+      requirePlanAccess(db, res, store.planOfPhase(db, before.phaseId));
+      drafts.deleteDraft(db, draftId);
+      audit(res, { action: 'draft.deleted', phaseId: before.phaseId, draftId, before });
+      return before;
+    });
+    configChanged(res, store.planOfPhase(db, draft.phaseId));
+  });
+
+  router.post('/drafts/:draftId/versions', auth.requireCapability('edit_drafts'), (req, res) => {
+    const draftId = parseDraftId(req.params.draftId);
+    const input = drafts.parseVersionInput(req.body);
+    const draft = transaction(() => {
+      const before = store.requireDraft(db, draftId);
+      requirePlanAccess(db, res, store.planOfPhase(db, before.phaseId));
+      drafts.publishVersion(db, draftId, input, currentUser(res));
+      const after = store.requireDraft(db, draftId);
+      // The text itself is kept immutably in draft_versions; the log records
+      // which version was published and a fingerprint of what it said.
+      audit(res, {
+        action: 'draft.published', phaseId: after.phaseId, draftId, before: { currentVersion: before.currentVersion },
+        after: { currentVersion: after.currentVersion, sha256: drafts.fingerprint(input), attachments: input.attachments.map(a => a.fileName) },
+      });
+      return after;
+    });
+    const version = draft.currentVersion;
+    events.publish('draft.published', { planId: store.planOfPhase(db, draft.phaseId), phaseId: draft.phaseId, draftId, draftTitle: draft.title, version, ...actor(res) });
+    res.json(boardState(res));
+  });
+
+  // --- Votes ---
+  // Members vote for themselves, for whoever gave them a current proxy on the phase, or (admins) for anyone.
+  const voterFor = (res: Response, phaseId: number, memberId: string | undefined) => {
+    const user = currentUser(res);
+    if (!memberId || memberId === user.id) return { memberId: user.id };
+    const proxy = proxies.usableProxy(db, phaseId, memberId, user.id);
+    return proxy ? { memberId, proxyId: proxy.id } : { memberId: actingFor(res, memberId) };
+  };
+
+  router.post('/phases/:phaseId/votes', (req, res) => {
+    const phaseId = parsePhaseId(req.params.phaseId);
+    const { memberId, proxyId } = voterFor(res, phaseId, optionalString(req.body?.memberId));
+    const decision = parseDecision(req.body?.decision);
+    const comment = optionalString(req.body?.comment);
+    const outcome = gateTransaction(res, () => {
+      const before = store.findVote(db, phaseId, memberId);
+      const outcome = store.castVote(db, phaseId, memberId, decision, currentUser(res), comment, proxyId);
+      const action = outcome === 'commented' ? 'vote.commented' : decision === 'recuse' ? 'vote.recused' : 'vote.cast';
+      if (outcome) audit(res, { action, phaseId, memberId, before, after: store.findVote(db, phaseId, memberId) });
+      if (outcome && comment) notices.voteCommented(db, phaseId, memberId, comment, currentUser(res));
+      return outcome;
+    });
+    if (outcome === 'cast') {
+      const vote = store.findVote(db, phaseId, memberId)!;
+      events.publish('vote.cast', {
+        planId: store.planOfPhase(db, phaseId), phaseId, memberId, memberName: vote.name, decision, comment, draftVersions: vote.draftVersions,
+        proxyHolderId: vote.proxyHolderId, proxyHolderName: vote.proxyHolderName, ...actor(res),
+      });
+    } else if (outcome === 'commented') {
+      events.publish('vote.commented', { planId: store.planOfPhase(db, phaseId), phaseId, memberId, memberName: store.requireMember(db, memberId).name, comment, ...actor(res) });
+    }
+    res.json(boardState(res));
+  });
+
+  router.get('/phases/:phaseId/votes/history', (req, res) => {
+    const phaseId = parsePhaseId(req.params.phaseId);
+    requirePlanAccess(db, res, store.planOfPhase(db, phaseId));
+    res.json(store.listVoteHistory(db, phaseId));
+  });
+
+  // Members change or withdraw their own vote, with a reason, until the gate is decided.
+  router.put('/phases/:phaseId/votes/:memberId', (req, res) => {
+    const phaseId = parsePhaseId(req.params.phaseId);
+    const { memberId, proxyId } = voterFor(res, phaseId, req.params.memberId);
+    const decision = parseDecision(req.body?.decision);
+    const comment = optionalString(req.body?.comment);
+    const reason = requireString(req.body?.reason, 'اذكر سبب تغيير التصويت.');
+    const changed = gateTransaction(res, () => {
+      const before = store.findVote(db, phaseId, memberId);
+      const changed = store.changeVote(db, phaseId, memberId, decision, reason, currentUser(res), comment, proxyId);
+      if (changed) audit(res, { action: 'vote.changed', phaseId, memberId, before, after: { ...store.findVote(db, phaseId, memberId), reason } });
+      return changed;
+    });
+    if (changed) {
+      const vote = store.findVote(db, phaseId, memberId)!;
+      events.publish('vote.changed', {
+        planId: store.planOfPhase(db, phaseId), phaseId, memberId, memberName: vote.name, decision, comment, reason, draftVersions: vote.draftVersions,
+        proxyHolderId: vote.proxyHolderId, proxyHolderName: vote.proxyHolderName, ...actor(res),
+      });
+    }
+    res.json(boardState(res));
+  });
+
+  router.post('/phases/:phaseId/votes/:memberId/withdrawal', (req, res) => {
+    const phaseId = parsePhaseId(req.params.phaseId);
+    const { memberId } = voterFor(res, phaseId, req.params.memberId);
+    const reason = requireString(req.body?.reason, 'اذكر سبب سحب التصويت.');
+    const vote = gateTransaction(res, () => {
+      const vote = store.withdrawVote(db, phaseId, memberId, reason, currentUser(res));
+      audit(res, { action: 'vote.withdrawn', phaseId, memberId, before: vote, after: { reason } });
+      return vote;
+    });
+    events.publish('vote.withdrawn', { planId: store.planOfPhase(db, phaseId), phaseId, memberId, memberName: vote.name, reason, ...actor(res) });
+    res.json(boardState(res));
+  });
+
+  // --- Proxies ---
+  router.post('/proxies', (req, res) => {
+    const grantorId = actingFor(res, optionalString(req.body?.grantorId));
+    const input = proxies.parseProxyInput(req.body);
+    const proxy = transaction(() => {
+      const proxy = proxies.grantProxy(db, grantorId, input);
+      audit(res, { action: 'proxy.granted', phaseId: proxy.phaseId, memberId: grantorId, after: proxy });
+      notices.proxyGranted(db, proxy, currentUser(res));
+      return proxy;
+    });
+    const holder = store.requireMember(db, proxy.holderId);
+    events.publish('proxy.granted', {
+      planId: store.planOfPhase(db, proxy.phaseId), phaseId: proxy.phaseId, memberId: grantorId, memberName: store.requireMember(db, grantorId).name,
+      proxyHolderId: holder.id, proxyHolderName: holder.name, ...actor(res),
+    });
+    res.json(boardState(res));
+  });
+
+  router.delete('/proxies/:proxyId', (req, res) => {
+    const proxyId = parseIntParam(req.params.proxyId, 'رقم التوكيل غير صالح.');
+    const proxy = transaction(() => {
+      const before = proxies.requireProxy(db, proxyId);
+      const proxy = proxies.revokeProxy(db, proxyId, currentUser(res));
+      audit(res, { action: 'proxy.revoked', phaseId: proxy.phaseId, memberId: proxy.grantorId, before, after: proxy });
+      notices.proxyRevoked(db, proxy, currentUser(res));
+      return proxy;
+    });
+    const holder = store.requireMember(db, proxy.holderId);
+    events.publish('proxy.revoked', {
+      planId: store.planOfPhase(db, proxy.phaseId), phaseId: proxy.phaseId, memberId: proxy.grantorId, memberName: store.requireMember(db, proxy.grantorId).name,
+      proxyHolderId: holder.id, proxyHolderName: holder.name, ...actor(res),
+    });
+    res.json(boardState(res));
+  });
+
+  // --- Discussions ---
+  const parseThreadId = (raw: string) => parseIntParam(raw, 'رقم النقاش غير صالح.');
+  const threadEvent = (thread: DiscussionThread) => ({
+    planId: store.planOfPhase(db, thread.phaseId), phaseId: thread.phaseId, draftId: thread.draftId, threadId: thread.id, threadTitle: thread.title,
+  });
+
+  router.post('/discussions', (req, res) => {
+    const input = discussions.parseThreadInput(req.body);
+    const thread = transaction(() => {
+      const thread = discussions.startThread(db, currentUser(res), input);
+      audit(res, { action: 'discussion.started', phaseId: thread.phaseId, draftId: thread.draftId, after: thread });
+      notices.discussionMentioned(db, thread, thread.posts[0], input.mentions, currentUser(res));
+      return thread;
+    });
+    events.publish('discussion.posted', { ...threadEvent(thread), ...actor(res) });
+    res.json(boardState(res));
+  });
+
+  router.post('/discussions/:threadId/posts', (req, res) => {
+    const threadId = parseThreadId(req.params.threadId);
+    const input = discussions.parsePostInput(req.body);
+    const thread = transaction(() => {
+      const post = discussions.reply(db, threadId, currentUser(res), input);
+      const thread = discussions.requireThread(db, threadId);
+      audit(res, { action: 'discussion.replied', phaseId: thread.phaseId, draftId: thread.draftId, after: { threadId, ...post } });
+      notices.discussionReplied(db, thread, post, currentUser(res));
+      return thread;
+    });
+    events.publish('discussion.posted', { ...threadEvent(thread), ...actor(res) });
+    res.json(boardState(res));
+  });
+
+  router.put('/discussions/:threadId/posts/:postId', (req, res) => {
+    const threadId = parseThreadId(req.params.threadId);
+    const postId = parseIntParam(req.params.postId, 'رقم المشاركة غير صالح.');
+    const input = discussions.parsePostInput(req.body);
+    const thread = transaction(() => {
+      const before = discussions.requirePost(db, threadId, postId);
+      const post = discussions.editPost(db, threadId, postId, currentUser(res), input);
+      if (!post) return null;
+      const thread = discussions.requireThread(db, threadId);
+      audit(res, {
+        action: 'discussion.edited', phaseId: thread.phaseId, draftId: thread.draftId,
+        before: { threadId, postId, body: before.body, mentions: before.mentions }, after: { threadId, postId, ...input },
+      });
+      notices.discussionMentioned(db, thread, post, post.mentions.filter(id => !before.mentions.includes(id)), currentUser(res));
+      return thread;
+    });
+    if (thread) events.publish('discussion.edited', { ...threadEvent(thread), ...actor(res) });
+    res.json(boardState(res));
+  });
+
+  const setResolution = (resolved: boolean): express.RequestHandler => (req, res) => {
+    const threadId = parseThreadId(req.params.threadId);
+    const thread = transaction(() => {
+      const thread = discussions.setResolved(db, threadId, currentUser(res), resolved);
+      if (thread) {
+        audit(res, {
+          action: resolved ? 'discussion.resolved' : 'discussion.reopened', phaseId: thread.phaseId, draftId: thread.draftId,
+          before: { threadId, resolved: !resolved }, after: { threadId, resolved },
+        });
+      }
+      return thread;
+    });
+    if (thread) events.publish(resolved ? 'discussion.resolved' : 'discussion.reopened', { ...threadEvent(thread), ...actor(res) });
+    res.json(boardState(res));
+  };
+
+  router.put('/discussions/:threadId/resolution', setResolution(true));
+  router.delete('/discussions/:threadId/resolution', setResolution(false));
+
+  // --- Gate Management (chair) ---
+  router.delete('/phases/:phaseId/votes/:memberId', auth.requireCapability('manage_gates'), (req, res) => {
+    const phaseId = parsePhaseId(req.params.phaseId);
+    const { memberId } = req.params;
+    const removed = gateTransaction(res, () => {
+      requirePlanAccess(db, res, store.planOfPhase(db, phaseId));
+      const before = store.findVote(db, phaseId, memberId);
+      const removed = store.removeVote(db, phaseId, memberId, currentUser(res));
+      if (removed) {
+        audit(res, { action: 'vote.removed', phaseId, memberId, before });
+        notices.votesRemoved(db, phaseId, [memberId], currentUser(res));
+      }
+      return removed;
+    });
+    if (removed) {
+      events.publish('vote.removed', { planId: store.planOfPhase(db, phaseId), phaseId, memberId, memberName: store.requireMember(db, memberId).name, ...actor(res) });
+    }
+    res.json(boardState(res));
+  });
+
+  router.delete('/phases/:phaseId/votes', auth.requireCapability('manage_gates'), (req, res) => {
+    const phaseId = parsePhaseId(req.params.phaseId);
+    const cleared = gateTransaction(res, () => {
+      requirePlanAccess(db, res, store.planOfPhase(db, phaseId));
+      const before = store.getVotes(db, store.planOfPhase(db, phaseId))[phaseId] ?? [];
+      const cleared = store.resetPhase(db, phaseId, currentUser(res));
+      if (cleared > 0) {
+        audit(res, { action: 'phase.reset', phaseId, before, after: [] });
+        notices.votesRemoved(db, phaseId, before.map(v => v.id), currentUser(res));
+      }
+      return cleared;
+    });
+    if (cleared > 0) events.publish('phase.reset', { planId: store.planOfPhase(db, phaseId), phaseId, ...actor(res) });
+    res.json(boardState(res));
+  });
+
+  router.post('/phases/:phaseId/window', auth.requireCapability('manage_gates'), (req, res) => {
+    const phaseId = parsePhaseId(req.params.phaseId);
+    const input = gates.parseWindowInput(req.body);
+    const window = transaction(() => {
+      requirePlanAccess(db, res, store.planOfPhase(db, phaseId));
+      const window = gates.openWindow(db, phaseId, input, currentUser(res));
+      audit(res, { action: 'gate.opened', phaseId, after: window });
+      notices.votingWindowChanged(db, store.requirePhase(db, phaseId), currentUser(res));
+      return window;
+    });
+    events.publish('gate.opened', { planId: store.planOfPhase(db, phaseId), phaseId, closesAt: window.closesAt, ...actor(res) });
+    res.json(boardState(res));
+  });
+
+  router.post('/phases/:phaseId/window/extensions', auth.requireCapability('manage_gates'), (req, res) => {
+    const phaseId = parsePhaseId(req.params.phaseId);
+    const input = gates.parseExtensionInput(req.body);
+    const window = transaction(() => {
+      requirePlanAccess(db, res, store.planOfPhase(db, phaseId));
+      const before = store.requirePhase(db, phaseId).votingWindow;
+      const window = gates.extendWindow(db, phaseId, input, currentUser(res));
+      audit(res, { action: 'gate.extended', phaseId, before, after: window });
+      notices.votingWindowChanged(db, store.requirePhase(db, phaseId), currentUser(res), input.reason);
+      return window;
+    });
+    events.publish('gate.extended', {
+      planId: store.planOfPhase(db, phaseId), phaseId, closesAt: window.closesAt, reason: input.reason, ...actor(res),
+    });
+    res.json(boardState(res));
+  });
+
+  router.post('/phases/:phaseId/reopening', auth.requireCapability('manage_gates'), (req, res) => {
+    const phaseId = parsePhaseId(req.params.phaseId);
+    const input = gates.parseReopenInput(req.body);
+    const reopening = gateTransaction(res, () => {
+      const planId = store.planOfPhase(db, phaseId);
+      requirePlanAccess(db, res, planId);
+      const before = store.getVotes(db, planId);
+      const reopening = gates.reopenGate(db, phaseId, input, currentUser(res));
+      audit(res, {
+        action: 'phase.reopened', phaseId,
+        before: Object.fromEntries([phaseId, ...reopening.affectedPhaseIds].map(id => [id, before[id] ?? []])), after: reopening,
+      });
+      notices.phaseReopened(db, reopening, before, currentUser(res));
+      return reopening;
+    });
+    events.publish('phase.reopened', { planId: store.planOfPhase(db, phaseId), phaseId, reason: reopening.reason, ...actor(res) });
+    res.json(boardState(res));
+  });
+
+  // --- Task Completion ---
+  const setCompletion = (completed: boolean): express.RequestHandler => (req, res) => {
+    const { taskId } = req.params;
+    const memberId = actingFor(res, req.params.memberId);
+    const changed = transaction(() => {
+      const changed = store.setTaskCompletion(db, taskId, memberId, completed);
+      if (changed) {
+        const { phaseId } = store.requireTask(db, taskId);
+        audit(res, { action: completed ? 'task.completed' : 'task.reopened', taskId, phaseId, memberId, before: { completed: !completed }, after: { completed } });
+        if (completed) notices.taskAwaitingReview(db, store.requireTask(db, taskId), currentUser(res));
+      }
+      return changed;
+    });
+    if (changed) {
+      events.publish(completed ? 'task.completed' : 'task.reopened', { planId: store.planOfTask(db, taskId), taskId, memberId, memberName: store.requireMember(db, memberId).name, ...actor(res) });
+    }
+    res.json(boardState(res));
+  };
+
+  router.put('/tasks/:taskId/completion/:memberId', setCompletion(true));
+  router.delete('/tasks/:taskId/completion/:memberId', setCompletion(false));
+
+  // --- Task Progress, Evidence & Review ---
+  router.get('/tasks/:taskId/activity', (req, res) => {
+    requirePlanAccess(db, res, store.planOfTask(db, req.params.taskId));
+    res.json(taskReviews.getTaskActivity(db, req.params.taskId));
+  });
+
+  router.get('/evidence/:evidenceId', (req, res) => {
+    const file = taskReviews.getEvidenceFile(db, parseIntParam(req.params.evidenceId, 'رقم الدليل غير صالح.'));
+    requirePlanAccess(db, res, store.planOfTask(db, file.taskId));
+    res.setHeader('Content-Type', file.mimeType);
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(file.fileName)}`);
+    res.send(file.data);
+  });
+
+  router.post('/tasks/:taskId/progress/:memberId', (req, res) => {
+    const { taskId } = req.params;
+    const memberId = actingFor(res, req.params.memberId);
+    const input = taskReviews.parseProgressInput(req.body);
+    const phaseId = transaction(() => {
+      const before = store.getTaskProgress(db)[taskId]?.[memberId];
+      const completionChanged = taskReviews.reportProgress(db, taskId, memberId, input);
+      const { phaseId } = store.requireTask(db, taskId);
+      audit(res, { action: 'task.progress', taskId, phaseId, memberId, before: before && { percent: before.percent }, after: input });
+      if (completionChanged) {
+        const completed = input.percent === 100;
+        audit(res, { action: completed ? 'task.completed' : 'task.reopened', taskId, phaseId, memberId, before: { completed: !completed }, after: { completed } });
+        if (completed) notices.taskAwaitingReview(db, store.requireTask(db, taskId), currentUser(res));
+      }
+      return phaseId;
+    });
+    events.publish('task.progress', { planId: store.planOfTask(db, taskId), taskId, phaseId, memberId, memberName: store.requireMember(db, memberId).name, percent: input.percent, ...actor(res) });
+    res.json(boardState(res));
+  });
+
+  router.post('/tasks/:taskId/evidence', (req, res) => {
+    const { taskId } = req.params;
+    const input = taskReviews.parseEvidenceInput(req.body);
+    transaction(() => {
+      const id = taskReviews.addEvidence(db, taskId, currentUser(res), input);
+      audit(res, {
+        action: 'task.evidence_added', taskId, phaseId: store.requireTask(db, taskId).phaseId,
+        after: input.kind === 'file' ? { id, fileName: input.fileName, sha256: taskReviews.fingerprint(input.data) } : { id, url: input.url },
+      });
+    });
+    res.json(taskReviews.getTaskActivity(db, taskId));
+  });
+
+  router.post('/tasks/:taskId/review', (req, res) => {
+    const { taskId } = req.params;
+    const input = taskReviews.parseReviewInput(req.body);
+    const task = transaction(() => {
+      taskReviews.reviewTask(db, taskId, currentUser(res), input);
+      const task = store.requireTask(db, taskId);
+      audit(res, { action: input.decision === 'accepted' ? 'task.accepted' : 'task.returned', taskId, phaseId: task.phaseId, after: input });
+      notices.taskReviewed(db, task, input.decision, input.note, currentUser(res));
+      return task;
+    });
+    events.publish('task.reviewed', { planId: store.planOfTask(db, taskId), taskId, phaseId: task.phaseId, reviewDecision: input.decision, comment: input.note, ...actor(res) });
+    res.json(boardState(res));
+  });
+
+  return router;
+}
@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import crypto from 'crypto';
+import type { AuditAction, AuditEntry, AuditFilter, AuditVerification } from '../src/types';
+import type { DB } from './db';
+
+// Append-only governance record. Each entry's hash covers its own fields and
+// the previous entry's hash, so editing, reordering or deleting any entry
+// breaks every hash after it. Triggers reject UPDATE and DELETE outright; the
+// chain is what catches changes made around them.
+
+const GENESIS_HASH = '0'.repeat(64);
+const PAGE_SIZE = 100;
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  'vote.cast', 'vote.recused', 'vote.commented', 'vote.changed', 'vote.withdrawn', 'vote.removed', 'phase.reset',
+  'phase.reopened', 'proxy.granted', 'proxy.revoked', 'gate.opened', 'gate.extended', 'gate.closed',
+  'discussion.started', 'discussion.replied', 'discussion.edited', 'discussion.resolved', 'discussion.reopened',
+  'task.completed', 'task.reopened', 'task.progress', 'task.evidence_added', 'task.accepted', 'task.returned',
+  'member.created', 'member.updated', 'member.pin_set', 'member.reminders_updated', 'member.calendar_linked',
+  'member.calendar_unlinked', 'plan.created', 'plan.updated', 'plan.archived', 'plan.restored', 'phase.created',
+  'phase.updated', 'phase.deleted', 'task.created', 'task.updated', 'task.deleted', 'draft.created', 'draft.renamed',
+  'draft.deleted', 'draft.published',
+];
+
+type AuditRow = {
+  id: number;
+  action: AuditAction;
+  actor_id: string;
+  actor_name: string;
+  phase_id: number | null;
+  member_id: string | null;
+  task_id: string | null;
+  draft_id: number | null;
+  before: string | null;
+  after: string | null;
+  created_at: string;
+  prev_hash: string;
+  hash: string;
+};
+
+export type AuditInput = {
+  action: AuditAction;
+  actor: { id: string; name: string };
+  phaseId?: number;
+  memberId?: string;
+  taskId?: string;
+  draftId?: number;
+  before?: unknown;
+  after?: unknown;
+};
+
+// Hashes the stored column values, not re-serialized objects, so verification
+// does not depend on JSON key order surviving a round trip.
+function hashRow(row: Omit<AuditRow, 'hash'>): string {
+  const fields = [
+    row.id, row.action, row.actor_id, row.actor_name, row.phase_id, row.member_id,
+    row.task_id, row.draft_id, row.before, row.after, row.created_at, row.prev_hash,
+  ];
+  return crypto.createHash('sha256').update(JSON.stringify(fields)).digest('hex');
+}
+
+const toEntry = (row: AuditRow): AuditEntry => ({
+  id: row.id,
+  action: row.action,
+  actorId: row.actor_id,
+  actorName: row.actor_name,
+  ...(row.phase_id !== null ? { phaseId: row.phase_id } : {}),
+  ...(row.member_id !== null ? { memberId: row.member_id } : {}),
+  ...(row.task_id !== null ? { taskId: row.task_id } : {}),
+  ...(row.draft_id !== null ? { draftId: row.draft_id } : {}),
+  ...(row.before !== null ? { before: JSON.parse(row.before) } : {}),
+  ...(row.after !== null ? { after: JSON.parse(row.after) } : {}),
+  time: row.created_at,
+  prevHash: row.prev_hash,
+  hash: row.hash,
+});
+
+/** Appends an entry. Call it inside the same transaction as the change it records. */
+export function recordAudit(db: DB, input: AuditInput) {
+  const last = db.prepare('SELECT id, hash FROM audit_log ORDER BY id DESC LIMIT 1').get() as { id: number; hash: string } | undefined;
+  const row: Omit<AuditRow, 'hash'> = {
+    id: (last?.id ?? 0) + 1,
+    action: input.action,
+    actor_id: input.actor.id,
+    actor_name: input.actor.name,
+    phase_id: input.phaseId ?? null,
+    member_id: input.memberId ?? null,
+    task_id: input.taskId ?? null,
+    draft_id: input.draftId ?? null,
+    before: input.before !== undefined ? JSON.stringify(input.before) : null,
+    after: input.after !== undefined ? JSON.stringify(input.after) : null,
+    created_at: new Date().toISOString(),
+    prev_hash: last?.hash ?? GENESIS_HASH,
+  };
+  db.prepare(`
+    INSERT INTO audit_log (id, action, actor_id, actor_name, phase_id, member_id, task_id, draft_id, before, after, created_at, prev_hash, hash)
+    VALUES (@id, @action, @actor_id, @actor_name, @phase_id, @member_id, @task_id, @draft_id, @before, @after, @created_at, @prev_hash, @hash)
+  `).run({ ...row, hash: hashRow(row) });
+}
+
+/** Newest first, one page at a time; pass the last id seen as `beforeId` for the next page. */
+export function listAudit(db: DB, filter: AuditFilter): AuditEntry[] {
+  const where: string[] = [];
+  const params: unknown[] = [];
+  if (filter.memberId) {
+    where.push('(member_id = ? OR actor_id = ?)');
+    params.push(filter.memberId, filter.memberId);
+  }
+  if (filter.phaseId !== undefined) {
+    where.push('phase_id = ?');
+    params.push(filter.phaseId);
+  }
+  if (filter.action) {
+    where.push('action = ?');
+    params.push(filter.action);
+  }
+  if (filter.beforeId !== undefined) {
+    where.push('id < ?');
+    params.push(filter.beforeId);
+  }
+  const sql = `SELECT * FROM audit_log ${where.length ? `WHERE ${where.join(' AND ')}` : ''} ORDER BY id DESC LIMIT ${PAGE_SIZE}`;
+  return (db.prepare(sql).all(...params) as AuditRow[]).map(toEntry);
+}
+
+export function verifyAudit(db: DB): AuditVerification {
+  let prevHash = GENESIS_HASH;
+  let expectedId = 1;
+  let checked = 0;
+  for (const row of db.prepare('SELECT * FROM audit_log ORDER BY id').iterate() as IterableIterator<AuditRow>) {
+    const { hash, ...fields } = row;
+    if (row.id !== expectedId || row.prev_hash !== prevHash || hashRow(fields) !== hash) {
+      return { valid: false, checked, headHash: prevHash, brokenAt: row.id };
+    }
+    prevHash = hash;
+    expectedId++;
+    checked++;
+  }
+  return { valid: true, checked, headHash: prevHash };
+}
@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import type { Response } from 'express';
+import { type Auth, createAuth } from './auth';
+import { openDatabase } from './db';
+import { listMembers } from './store';
+
+const MAX_FAILED_LOGINS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+const res = {} as Response;
+
+describe('login lockout', () => {
+  let auth: Auth;
+  let memberId: string;
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'] });
+    const db = openDatabase(':memory:');
+    auth = createAuth(db);
+    memberId = listMembers(db).find(m => m.active)!.id;
+    auth.setPin(memberId, '123456');
+  });
+
+  afterEach(() => mock.timers.reset());
+
+  const failTimes = (id: string, times: number) => {
+    for (let i = 0; i < times; i++) assert.throws(() => auth.login(id, '000000', res), { status: 401 });
+  };
+
+  it('locks a member out after repeated wrong PINs until the window passes', () => {
+    failTimes(memberId, MAX_FAILED_LOGINS);
+    assert.throws(() => auth.login(memberId, '000000', res), { status: 429 });
+    mock.timers.tick(LOCKOUT_MS);
+    assert.throws(() => auth.login(memberId, '000000', res), { status: 401 });
+  });
+
+  it('counts the window from the first failure, so later guesses do not extend it', () => {
+    failTimes(memberId, 1);
+    mock.timers.tick(LOCKOUT_MS - 60_000);
+    failTimes(memberId, MAX_FAILED_LOGINS - 1);
+    assert.throws(() => auth.login(memberId, '000000', res), { status: 429 });
+    mock.timers.tick(60_000);
+    assert.throws(() => auth.login(memberId, '000000', res), { status: 401 });
+  });
+
+  it('forgets failures once their window has passed', () => {
+    failTimes(memberId, 2);
+    assert.equal(auth.failedLoginCount(), 1);
+    mock.timers.tick(LOCKOUT_MS);
+    failTimes(memberId, MAX_FAILED_LOGINS - 1);
+    assert.throws(() => auth.login(memberId, '000000', res), { status: 401 });
+  });
+
+  it('does not track ids that are not registered', () => {
+    failTimes('0000000000', MAX_FAILED_LOGINS * 2);
+    failTimes('0000000001', MAX_FAILED_LOGINS * 2);
+    assert.equal(auth.failedLoginCount(), 0);
+  });
+});
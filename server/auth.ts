@@ -0,0 +1,190 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import crypto from 'crypto';
+import type { RequestHandler, Response } from 'express';
+import { can, CAPABILITY_LABELS } from '../src/board';
+import type { Capability, Member, User } from '../src/types';
+import type { DB } from './db';
+import { ApiError } from './errors';
+import { findMember, listMembers, requireMember } from './store';
+
+const COOKIE_NAME = 'board_session';
+const SESSION_TTL_MS = (Number(process.env.SESSION_TTL_HOURS) || 12) * 60 * 60 * 1000;
+const MIN_PIN_LENGTH = 6;
+const MAX_FAILED_LOGINS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+const toUser = (member: Member): User => ({ id: member.id, name: member.name, isAdmin: member.isAdmin, role: member.role });
+
+// --- PIN hashing (scrypt, per-PIN random salt) ---
+function hashPin(pin: string): string {
+  const salt = crypto.randomBytes(16);
+  const hash = crypto.scryptSync(pin, salt, 64);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+function verifyPin(pin: string, stored: string): boolean {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'base64');
+  const actual = crypto.scryptSync(pin, Buffer.from(salt, 'base64'), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+function readCookie(header: string | undefined, name: string): string | undefined {
+  for (const part of (header || '').split(';')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name) return decodeURIComponent(rest.join('='));
+  }
+  return undefined;
+}
+
+/** The member behind the current request; only valid after `requireUser`. */
+export function currentUser(res: Response): User {
+  return res.locals.user as User;
+}
+
+export type Auth = ReturnType<typeof createAuth>;
+
+/**
+ * PIN login with signed, expiring server sessions. The cookie carries a random
+ * token plus its HMAC; only the token's SHA-256 is stored, so a leaked
+ * database cannot be replayed as a session.
+ */
+export function createAuth(db: DB) {
+  let secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') throw new Error('SESSION_SECRET must be set in production.');
+    console.warn('SESSION_SECRET is not set; sessions will not survive a server restart.');
+    secret = crypto.randomBytes(32).toString('hex');
+  }
+  const sign = (token: string) => crypto.createHmac('sha256', secret!).update(token).digest('base64url');
+
+  // Failed logins of registered members only, so unknown ids cannot grow the
+  // map. The window is fixed from a member's first failure: further guesses do
+  // not extend it, and the entry is forgotten once it has passed.
+  const failedLogins = new Map<string, { count: number; expiresAt: number }>();
+
+  const forgetExpiredLogins = (now: number) => {
+    for (const [memberId, attempts] of failedLogins) {
+      if (attempts.expiresAt <= now) failedLogins.delete(memberId);
+    }
+  };
+
+  const setPin = (memberId: string, pin: string) => {
+    requireMember(db, memberId);
+    if (pin.length < MIN_PIN_LENGTH) throw new ApiError(400, `يجب ألا يقل رمز الدخول عن ${MIN_PIN_LENGTH} خانات.`);
+    db.prepare(`
+      INSERT INTO member_credentials (member_id, pin_hash, updated_at) VALUES (?, ?, ?)
+      ON CONFLICT (member_id) DO UPDATE SET pin_hash = excluded.pin_hash, updated_at = excluded.updated_at
+    `).run(memberId, hashPin(pin), new Date().toISOString());
+    // A new PIN ends every existing session for that member.
+    db.prepare('DELETE FROM sessions WHERE member_id = ?').run(memberId);
+  };
+
+  const hasPin = (memberId: string): boolean =>
+    !!db.prepare('SELECT 1 FROM member_credentials WHERE member_id = ?').get(memberId);
+
+  const checkPin = (memberId: string, pin: string): boolean => {
+    const row = db.prepare('SELECT pin_hash FROM member_credentials WHERE member_id = ?').get(memberId) as { pin_hash: string } | undefined;
+    return !!row && verifyPin(pin, row.pin_hash);
+  };
+
+  // First run: admins have no PIN yet, so nobody could log in to hand out the
+  // others. BOOTSTRAP_ADMIN_PIN seeds it once; change it after the first login.
+  const bootstrapPin = process.env.BOOTSTRAP_ADMIN_PIN;
+  if (bootstrapPin) {
+    for (const admin of listMembers(db).filter(m => m.isAdmin && !hasPin(m.id))) setPin(admin.id, bootstrapPin);
+  }
+
+  const startSession = (res: Response, memberId: string) => {
+    const token = crypto.randomBytes(32).toString('base64url');
+    const now = Date.now();
+    db.prepare('DELETE FROM sessions WHERE expires_at < ?').run(new Date(now).toISOString());
+    db.prepare('INSERT INTO sessions (token_hash, member_id, created_at, expires_at) VALUES (?, ?, ?, ?)')
+      .run(sha256(token), memberId, new Date(now).toISOString(), new Date(now + SESSION_TTL_MS).toISOString());
+    res.cookie(COOKIE_NAME, `${token}.${sign(token)}`, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: SESSION_TTL_MS,
+      path: '/',
+    });
+  };
+
+  const sessionToken = (cookieHeader: string | undefined): string | undefined => {
+    const value = readCookie(cookieHeader, COOKIE_NAME);
+    if (!value) return undefined;
+    const [token, signature] = value.split('.');
+    if (!token || !signature) return undefined;
+    const expected = Buffer.from(sign(token));
+    const actual = Buffer.from(signature);
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected) ? token : undefined;
+  };
+
+  // --- Handlers & middleware ---
+  const login = (memberId: string, pin: string, res: Response): User => {
+    const now = Date.now();
+    forgetExpiredLogins(now);
+    const attempts = failedLogins.get(memberId);
+    if (attempts && attempts.count >= MAX_FAILED_LOGINS) {
+      throw new ApiError(429, 'تم إيقاف الدخول مؤقتاً بسبب محاولات خاطئة متكررة. حاول لاحقاً.');
+    }
+    const member = findMember(db, memberId);
+    if (!member || !member.active || !checkPin(memberId, pin)) {
+      if (member) failedLogins.set(memberId, { count: (attempts?.count ?? 0) + 1, expiresAt: attempts?.expiresAt ?? now + LOCKOUT_MS });
+      throw new ApiError(401, 'رقم الهوية أو رمز الدخول غير صحيح.');
+    }
+    failedLogins.delete(memberId);
+    startSession(res, memberId);
+    return toUser(member);
+  };
+
+  const logout: RequestHandler = (req, res) => {
+    const token = sessionToken(req.headers.cookie);
+    if (token) db.prepare('DELETE FROM sessions WHERE token_hash = ?').run(sha256(token));
+    res.clearCookie(COOKIE_NAME, { path: '/' });
+    res.status(204).end();
+  };
+
+  /** Resolves the session cookie into `res.locals.user`, if any. */
+  const authenticate: RequestHandler = (req, res, next) => {
+    const token = sessionToken(req.headers.cookie);
+    if (token) {
+      const row = db.prepare('SELECT member_id FROM sessions WHERE token_hash = ? AND expires_at > ?')
+        .get(sha256(token), new Date().toISOString()) as { member_id: string } | undefined;
+      const member = row && findMember(db, row.member_id);
+      if (member?.active) res.locals.user = toUser(member);
+    }
+    next();
+  };
+
+  const requireUser: RequestHandler = (_req, res, next) => {
+    next(res.locals.user ? undefined : new ApiError(401, 'يجب تسجيل الدخول أولاً.'));
+  };
+
+  const requireAdmin: RequestHandler = (_req, res, next) => {
+    const user = res.locals.user as User | undefined;
+    if (!user) return next(new ApiError(401, 'يجب تسجيل الدخول أولاً.'));
+    next(user.isAdmin ? undefined : new ApiError(403, 'هذا الإجراء متاح لمدير النظام فقط.'));
+  };
+
+  /** Lets through users whose role grants the capability (admins hold every capability but voting). */
+  const requireCapability = (capability: Capability): RequestHandler => (_req, res, next) => {
+    const user = res.locals.user as User | undefined;
+    if (!user) return next(new ApiError(401, 'يجب تسجيل الدخول أولاً.'));
+    next(can(user, capability) ? undefined : new ApiError(403, `هذا الإجراء يتطلب صلاحية ${CAPABILITY_LABELS[capability]}.`));
+  };
+
+  /** How many members currently have failed logins on record. */
+  const failedLoginCount = () => failedLogins.size;
+
+  return { login, logout, authenticate, requireUser, requireAdmin, requireCapability, setPin, hasPin, checkPin, failedLoginCount };
+}
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import { can } from '../src/board';
+import type { Member, Phase, Task } from '../src/types';
+import { buildCalendar } from './calendar';
+import { type DB, openDatabase } from './db';
+import { openWindow } from './gates';
+import { castVote, listMembers, listPhases, listPlans, listTasks } from './store';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The calendar's events as property maps, with folded lines joined back. */
+function parseEvents(ics: string): Map<string, string>[] {
+  const lines = ics.replace(/\r\n /g, '').split('\r\n');
+  const events: Map<string, string>[] = [];
+  let current: Map<string, string> | undefined;
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      current = new Map();
+    } else if (line === 'END:VEVENT') {
+      events.push(current!);
+      current = undefined;
+    } else if (current) {
+      // The alarm's DESCRIPTION comes after the event's own; keep the first.
+      const [key, ...value] = line.split(':');
+      if (!current.has(key)) current.set(key, value.join(':'));
+    }
+  }
+  return events;
+}
+
+const event = (ics: string, uid: string) => parseEvents(ics).find(e => e.get('UID') === `${uid}@azer-board`);
+
+describe('building a member\'s calendar', () => {
+  let db: DB;
+  let phase: Phase;
+  let chair: Member;
+  let member: Member;
+  let task: Task;
+
+  beforeEach(() => {
+    db = openDatabase(':memory:');
+    const planId = listPlans(db)[0].id;
+    phase = listPhases(db, planId)[0];
+    const members = listMembers(db, planId);
+    chair = members.find(m => m.isAdmin)!;
+    task = listTasks(db, planId).find(t => t.phaseId === phase.id)!;
+    member = members.find(m => m.active && can(m, 'vote') && task.assignees.includes(m.id))!;
+  });
+
+  it('writes a calendar of CRLF lines folded at 75 octets', () => {
+    const ics = buildCalendar(db, member);
+    assert.ok(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n'));
+    assert.ok(ics.endsWith('END:VCALENDAR\r\n'));
+    const lines = ics.slice(0, -2).split('\r\n');
+    assert.ok(lines.every(line => Buffer.byteLength(line) <= 75 && !line.includes('\n')));
+    assert.ok(lines.some(line => line.startsWith(' ')), 'long Arabic descriptions are folded');
+  });
+
+  it('writes the member\'s tasks as all-day events ending the day after', () => {
+    const taskEvent = event(buildCalendar(db, member), `task-${task.id}`)!;
+    assert.equal(taskEvent.get('DTSTART;VALUE=DATE'), task.startDate.replace(/-/g, ''));
+    const dayAfter = new Date(new Date(`${task.endDate}T00:00:00Z`).getTime() + DAY_MS).toISOString().slice(0, 10);
+    assert.equal(taskEvent.get('DTEND;VALUE=DATE'), dayAfter.replace(/-/g, ''));
+    assert.equal(taskEvent.get('SUMMARY'), task.title.replace(/,/g, '\\,').replace(/;/g, '\\;'));
+  });
+
+  it('escapes commas, semicolons and line breaks in text values', () => {
+    const ics = buildCalendar(db, { ...member, name: 'سالم, علي; محمد' });
+    assert.ok(ics.includes('X-WR-CALNAME:لوحة القيادة — سالم\\, علي\\; محمد'));
+    assert.match(event(ics, `task-${task.id}`)!.get('DESCRIPTION')!, /^الخطة: [^\n]+\\nالمخرجات: /);
+  });
+
+  it('adds a gate only once its voting window is open, on the day it closes', () => {
+    assert.equal(event(buildCalendar(db, member), `gate-${phase.id}`), undefined);
+    const closesAt = new Date(Date.now() + 3 * DAY_MS).toISOString();
+    openWindow(db, phase.id, { closesAt }, chair);
+    const gate = event(buildCalendar(db, member), `gate-${phase.id}`)!;
+    assert.equal(gate.get('DTSTART;VALUE=DATE'), closesAt.slice(0, 10).replace(/-/g, ''));
+    assert.match(gate.get('DESCRIPTION')!, /التصويت مفتوح حتى/);
+  });
+
+  it('reminds a member the day before only while their vote is still due', () => {
+    openWindow(db, phase.id, { closesAt: new Date(Date.now() + 3 * DAY_MS).toISOString() }, chair);
+    assert.match(buildCalendar(db, member), /BEGIN:VALARM\r\nACTION:DISPLAY\r\n[^]*?TRIGGER:-P1D\r\nEND:VALARM/);
+    castVote(db, phase.id, member.id, 'approve', member);
+    const ics = buildCalendar(db, member);
+    assert.doesNotMatch(ics, /BEGIN:VALARM/);
+    assert.match(event(ics, `gate-${phase.id}`)!.get('DESCRIPTION')!, /سجلت صوتك/);
+  });
+
+  it('describes a window that has passed its deadline as expired', () => {
+    openWindow(db, phase.id, { closesAt: new Date(Date.now() + DAY_MS).toISOString() }, chair);
+    const gate = event(buildCalendar(db, member, new Date(Date.now() + 2 * DAY_MS)), `gate-${phase.id}`)!;
+    assert.match(gate.get('DESCRIPTION')!, /انتهت مهلة التصويت/);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import crypto from 'crypto';
+import { can, isWindowOpen, tallyGate } from '../src/board';
+import { fromDay, phaseWindows, toDay } from '../src/schedule';
+import type { CalendarFeed, Member } from '../src/types';
+import type { DB } from './db';
+import { findMember, getVotes, listMembers, listPhases, listPlans, listTasks } from './store';
+
+// iCalendar (RFC 5545) export of a member's tasks, the phase windows and the
+// gate voting deadlines. A gate appears once the chair opens its voting window,
+// on the day the window closes. UIDs are derived from ids, so a subscribed
+// calendar updates events in place when dates or titles change.
+
+const UID_DOMAIN = 'azer-board';
+const REFRESH_INTERVAL = 'PT1H';
+
+type CalendarEvent = {
+  uid: string;
+  /** Inclusive day numbers; written as all-day events. */
+  start: number;
+  end: number;
+  summary: string;
+  description?: string;
+  category: string;
+  /** Adds a display alarm the day before. */
+  alarm?: boolean;
+};
+
+const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const formatDate = (day: number) => fromDay(day).replace(/-/g, '');
+
+/** Folds a content line at 75 octets without splitting a UTF-8 character. */
+function fold(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatEvent(event: CalendarEvent, stamp: string): string[] {
+  return [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${formatDate(event.start)}`,
+    `DTEND;VALUE=DATE:${formatDate(event.end + 1)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+    `CATEGORIES:${escapeText(event.category)}`,
+    'TRANSP:TRANSPARENT',
+    ...(event.alarm ? ['BEGIN:VALARM', 'ACTION:DISPLAY', `DESCRIPTION:${escapeText(event.summary)}`, 'TRIGGER:-P1D', 'END:VALARM'] : []),
+    'END:VEVENT',
+  ];
+}
+
+/** The member's calendar: their assigned tasks, and the phase windows and gate deadlines of every plan they belong to. */
+export function buildCalendar(db: DB, member: Member, now = new Date()): string {
+  const names = new Map(listMembers(db).map(m => [m.id, m.name]));
+  const events: CalendarEvent[] = [];
+
+  for (const plan of listPlans(db).filter(p => p.memberIds.includes(member.id))) {
+    const members = listMembers(db, plan.id);
+    const phases = listPhases(db, plan.id);
+    const tasks = listTasks(db, plan.id);
+    const votes = getVotes(db, plan.id);
+
+    for (const task of tasks.filter(t => t.assignees.includes(member.id))) {
+      const phase = phases.find(p => p.id === task.phaseId);
+      events.push({
+        uid: `task-${task.id}`,
+        start: toDay(task.startDate),
+        end: toDay(task.endDate),
+        summary: task.title,
+        description: [
+          `الخطة: ${plan.title}`,
+          `المخرجات: ${task.deliverables}`,
+          `المكلفون: ${task.assignees.map(id => names.get(id) ?? id).join('، ')}`,
+          ...(phase ? [`المرحلة: ${phase.number}`] : []),
+        ].join('\n'),
+        category: 'مهام',
+      });
+    }
+
+    for (const { phase, start, end } of phaseWindows(phases, tasks)) {
+      events.push({
+        uid: `phase-${phase.id}`,
+        start,
+        end,
+        summary: `المرحلة ${phase.number}: ${phase.title}`,
+        description: `الخطة: ${plan.title}\nالأدوات: ${phase.tools.join('، ')}`,
+        category: 'المراحل',
+      });
+
+      const window = phase.votingWindow;
+      if (!window) continue;
+      const tally = tallyGate(phase, votes[phase.id], members);
+      const open = !plan.archivedAt && tally.outcome !== 'approved' && isWindowOpen(window, now.toISOString());
+      const voted = (votes[phase.id] || []).some(v => v.id === member.id);
+      const state = tally.outcome === 'approved' ? 'اعتُمدت البوابة.'
+        : window.outcome === 'rejected' ? 'أُغلق التصويت ولم تُعتمد البوابة.'
+        : plan.archivedAt ? 'الخطة مؤرشفة.'
+        : open ? `التصويت مفتوح حتى ${window.closesAt.slice(11, 16)} (UTC).${voted ? ' سجلت صوتك.' : ''}`
+        : window.opensAt > now.toISOString() ? 'لم يُفتح التصويت بعد.'
+        : 'انتهت مهلة التصويت.';
+      const day = toDay(window.closesAt.slice(0, 10));
+      events.push({
+        uid: `gate-${phase.id}`,
+        start: day,
+        end: day,
+        summary: `التصويت على بوابة المرحلة ${phase.number}`,
+        description: `الخطة: ${plan.title}\n${phase.gate}\n${state}`,
+        category: 'بوابات الاعتماد',
+        alarm: open && !voted && can(member, 'vote'),
+      });
+    }
+  }
+
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${UID_DOMAIN}//Strategic Board//AR`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(`لوحة القيادة — ${member.name}`)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+    ...events.flatMap(event => formatEvent(event, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
+
+// --- Subscription links ---
+export function getFeed(db: DB, memberId: string): CalendarFeed {
+  const row = db.prepare('SELECT created_at FROM calendar_feeds WHERE member_id = ?').get(memberId) as { created_at: string } | undefined;
+  return row ? { createdAt: row.created_at } : {};
+}
+
+/** Issues a new secret link for the member, replacing any earlier one. */
+export function createFeed(db: DB, memberId: string): CalendarFeed {
+  const token = crypto.randomBytes(24).toString('base64url');
+  const createdAt = new Date().toISOString();
+  db.prepare(`
+    INSERT INTO calendar_feeds (member_id, token_hash, created_at) VALUES (?, ?, ?)
+    ON CONFLICT (member_id) DO UPDATE SET token_hash = excluded.token_hash, created_at = excluded.created_at
+  `).run(memberId, sha256(token), createdAt);
+  return { token, createdAt };
+}
+
+export function deleteFeed(db: DB, memberId: string): boolean {
+  return db.prepare('DELETE FROM calendar_feeds WHERE member_id = ?').run(memberId).changes > 0;
+}
+
+/** The active member a subscription token belongs to. */
+export function feedMember(db: DB, token: string): Member | undefined {
+  const row = db.prepare('SELECT member_id FROM calendar_feeds WHERE token_hash = ?').get(sha256(token)) as { member_id: string } | undefined;
+  const member = row && findMember(db, row.member_id);
+  return member?.active ? member : undefined;
+}
@@ -0,0 +1,224 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { findDependencyCycle } from '../src/schedule';
+import type { DecisionRule, Member, Phase, Role, Task } from '../src/types';
+import type { DB } from './db';
+import { ApiError } from './errors';
+import { isPlanMember, listMembers, listTasks, planOfPhase, planOfTask, requireMember, requireOpenPlan, requirePhase, requireTask } from './store';
+import { bodyFields, optionalInt, optionalString, requireBoolean, requireDate, requireOption, requireString, stringList } from './validate';
+
+// Board configuration managed from the admin console: members, phases and tasks.
+// Members are shared by all plans; phases and tasks belong to one plan.
+
+export type MemberInput = Omit<Member, 'id'>;
+export type PhaseInput = Omit<Phase, 'id' | 'number' | 'votingWindow'>;
+export type TaskInput = Omit<Task, 'id'>;
+
+// --- Body parsing ---
+const ROLES: Role[] = ['chair', 'secretary', 'strategy_team', 'board_member', 'observer'];
+
+export function parseMemberInput(raw: unknown): MemberInput {
+  const body = bodyFields(raw);
+  const role = requireOption(body.role, ROLES, 'دور العضو غير معروف.', 'board_member');
+  return {
+    name: requireString(body.name, 'اسم العضو مطلوب.'),
+    isAdmin: requireBoolean(body.isAdmin),
+    role,
+    active: requireBoolean(body.active, true),
+  };
+}
+
+const DECISION_RULES: DecisionRule[] = ['unanimous', 'two_thirds', 'majority'];
+
+export function parsePhaseInput(raw: unknown): PhaseInput {
+  const body = bodyFields(raw);
+  const decisionRule = requireOption(body.decisionRule, DECISION_RULES, 'قاعدة الاعتماد غير معروفة.', 'unanimous');
+  const quorumPercent = optionalInt(body.quorumPercent, 'نسبة النصاب غير صالحة.') ?? 50;
+  if (quorumPercent < 1 || quorumPercent > 100) throw new ApiError(400, 'نسبة النصاب يجب أن تكون بين 1 و 100.');
+  return {
+    title: requireString(body.title, 'عنوان المرحلة مطلوب.'),
+    tools: stringList(body.tools, 'الأدوات المنهجية'),
+    gate: requireString(body.gate, 'اسم بوابة الاعتماد مطلوب.'),
+    decisionRule,
+    quorumPercent,
+  };
+}
+
+export function parseTaskInput(raw: unknown): TaskInput {
+  const body = bodyFields(raw);
+  const input: TaskInput = {
+    title: requireString(body.title, 'عنوان المهمة مطلوب.'),
+    assignees: stringList(body.assignees, 'قائمة المكلفين'),
+    startDate: requireDate(body.startDate, 'تاريخ البداية'),
+    endDate: requireDate(body.endDate, 'تاريخ النهاية'),
+    deliverables: typeof body.deliverables === 'string' ? body.deliverables.trim() : '',
+    phaseId: optionalInt(body.phaseId, 'رقم المرحلة غير صالح.'),
+    dependsOn: stringList(body.dependsOn, 'قائمة المهام السابقة'),
+    reviewerId: optionalString(body.reviewerId),
+  };
+  if (input.endDate < input.startDate) throw new ApiError(400, 'تاريخ النهاية يسبق تاريخ البداية.');
+  if (input.assignees.length === 0) throw new ApiError(400, 'يجب إسناد المهمة لعضو واحد على الأقل.');
+  return input;
+}
+
+// --- Members ---
+/** Registers a member and adds them to the plan they were added from. */
+export function createMember(db: DB, id: string, input: MemberInput, planId: number): Member {
+  if (!/^\d{10}$/.test(id)) throw new ApiError(400, 'رقم الهوية يجب أن يتكون من 10 أرقام.');
+  if (db.prepare('SELECT 1 FROM members WHERE id = ?').get(id)) throw new ApiError(409, 'رقم الهوية مسجل مسبقاً.');
+  db.prepare('INSERT INTO members (id, name, is_admin, role, active) VALUES (?, ?, ?, ?, ?)')
+    .run(id, input.name, input.isAdmin ? 1 : 0, input.role, input.active ? 1 : 0);
+  db.prepare('INSERT INTO plan_members (plan_id, member_id) VALUES (?, ?)').run(planId, id);
+  return requireMember(db, id);
+}
+
+/** Updates a member; refuses changes that would leave the board without an active admin. */
+export function updateMember(db: DB, id: string, input: MemberInput, actingUserId: string): Member {
+  requireMember(db, id);
+  if (id === actingUserId && (!input.active || !input.isAdmin)) {
+    throw new ApiError(400, 'لا يمكنك إلغاء صلاحياتك أو تعطيل حسابك بنفسك.');
+  }
+  const otherAdmins = listMembers(db).filter(m => m.id !== id && m.isAdmin && m.active);
+  if (otherAdmins.length === 0 && (!input.active || !input.isAdmin)) {
+    throw new ApiError(400, 'يجب أن يبقى مدير نظام نشط واحد على الأقل.');
+  }
+  db.prepare('UPDATE members SET name = ?, is_admin = ?, role = ?, active = ? WHERE id = ?')
+    .run(input.name, input.isAdmin ? 1 : 0, input.role, input.active ? 1 : 0, id);
+  if (!input.active) db.prepare('DELETE FROM sessions WHERE member_id = ?').run(id);
+  return requireMember(db, id);
+}
+
+// --- Phases ---
+export function createPhase(db: DB, planId: number, input: PhaseInput): Phase {
+  requireOpenPlan(db, planId);
+  const { id } = db.prepare('SELECT COALESCE(MAX(id), 0) + 1 AS id FROM phases').get() as { id: number };
+  db.prepare('INSERT INTO phases (id, plan_id, title, tools, gate, decision_rule, quorum_percent) VALUES (?, ?, ?, ?, ?, ?, ?)')
+    .run(id, planId, input.title, JSON.stringify(input.tools), input.gate, input.decisionRule, input.quorumPercent);
+  return requirePhase(db, id);
+}
+
+export function updatePhase(db: DB, id: number, input: PhaseInput): Phase {
+  requireOpenPlan(db, planOfPhase(db, id));
+  db.prepare('UPDATE phases SET title = ?, tools = ?, gate = ?, decision_rule = ?, quorum_percent = ? WHERE id = ?')
+    .run(input.title, JSON.stringify(input.tools), input.gate, input.decisionRule, input.quorumPercent, id);
+  return requirePhase(db, id);
+}
+
+export function deletePhase(db: DB, id: number) {
+  requireOpenPlan(db, planOfPhase(db, id));
+  if (db.prepare('SELECT 1 FROM votes WHERE phase_id = ?').get(id)) {
+    throw new ApiError(409, 'لا يمكن حذف مرحلة تحتوي على أصوات؛ ألغِ الأصوات أولاً.');
+  }
+  if (db.prepare('SELECT 1 FROM vote_history WHERE phase_id = ?').get(id)) {
+    throw new ApiError(409, 'لا يمكن حذف مرحلة لها سجل تصويت.');
+  }
+  if (db.prepare('SELECT 1 FROM tasks WHERE phase_id = ?').get(id)) {
+    throw new ApiError(409, 'لا يمكن حذف مرحلة مرتبطة بمهام؛ انقل المهام أولاً.');
+  }
+  if (db.prepare('SELECT 1 FROM drafts WHERE phase_id = ?').get(id)) {
+    throw new ApiError(409, 'لا يمكن حذف مرحلة تحتوي على مسودات؛ احذف المسودات أولاً.');
+  }
+  if (db.prepare('SELECT 1 FROM proxies WHERE phase_id = ?').get(id)) {
+    throw new ApiError(409, 'لا يمكن حذف مرحلة سُجلت عليها توكيلات بالتصويت.');
+  }
+  if (db.prepare('SELECT 1 FROM discussion_threads WHERE phase_id = ?').get(id)) {
+    throw new ApiError(409, 'لا يمكن حذف مرحلة دارت عليها نقاشات.');
+  }
+  db.prepare('DELETE FROM phases WHERE id = ?').run(id);
+}
+
+// --- Tasks ---
+function validateTaskReferences(db: DB, planId: number, input: TaskInput) {
+  if (input.phaseId !== undefined && planOfPhase(db, input.phaseId) !== planId) {
+    throw new ApiError(400, 'المرحلة المحددة ليست من مراحل هذه الخطة.');
+  }
+  for (const memberId of input.assignees) {
+    if (!requireMember(db, memberId).active) throw new ApiError(400, 'لا يمكن إسناد مهمة لعضو غير نشط.');
+    if (!isPlanMember(db, planId, memberId)) throw new ApiError(400, 'لا يمكن إسناد مهمة لعضو من خارج الخطة.');
+  }
+  if (input.reviewerId !== undefined) {
+    if (!requireMember(db, input.reviewerId).active) throw new ApiError(400, 'لا يمكن تعيين عضو غير نشط مراجعاً للمهمة.');
+    if (!isPlanMember(db, planId, input.reviewerId)) throw new ApiError(400, 'لا يمكن تعيين مراجع من خارج الخطة.');
+  }
+}
+
+/** Dependencies must name existing tasks of the same plan and must not loop back to the task itself. */
+function validateDependencies(db: DB, planId: number, id: string, dependsOn: string[]) {
+  const tasks = listTasks(db, planId);
+  for (const dep of dependsOn) {
+    if (dep === id) throw new ApiError(400, 'لا يمكن أن تعتمد المهمة على نفسها.');
+    if (!tasks.some(t => t.id === dep)) throw new ApiError(400, `المهمة السابقة ${dep} غير موجودة.`);
+  }
+  const graph = [...tasks.filter(t => t.id !== id), { id, dependsOn }];
+  const cycle = findDependencyCycle(graph);
+  if (cycle) {
+    const titles = cycle.map(taskId => tasks.find(t => t.id === taskId)?.title ?? taskId);
+    throw new ApiError(400, `الاعتماديات تُكوّن حلقة مغلقة: ${titles.join(' ← ')}`);
+  }
+}
+
+export function createTask(db: DB, planId: number, input: TaskInput): Task {
+  requireOpenPlan(db, planId);
+  validateTaskReferences(db, planId, input);
+  const ids = (db.prepare('SELECT id FROM tasks').all() as { id: string }[]).map(r => Number(r.id.replace(/^t/, '')) || 0);
+  const id = `t${Math.max(0, ...ids) + 1}`;
+  validateDependencies(db, planId, id, input.dependsOn);
+  const { sortOrder } = db.prepare('SELECT COALESCE(MAX(sort_order), -1) + 1 AS sortOrder FROM tasks').get() as { sortOrder: number };
+  db.prepare(`
+    INSERT INTO tasks (id, plan_id, title, assignees, start_date, end_date, deliverables, phase_id, sort_order, depends_on, reviewer_id)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    id, planId, input.title, JSON.stringify(input.assignees), input.startDate, input.endDate, input.deliverables, input.phaseId ?? null, sortOrder,
+    JSON.stringify(input.dependsOn), input.reviewerId ?? null,
+  );
+  return requireTask(db, id);
+}
+
+/** Updates a task; completions by members no longer assigned are dropped. */
+export function updateTask(db: DB, id: string, input: TaskInput): Task {
+  const previous = requireTask(db, id);
+  const planId = planOfTask(db, id);
+  requireOpenPlan(db, planId);
+  // Keep existing assignees that were deactivated since; only new ones must be active.
+  validateTaskReferences(db, planId, {
+    ...input,
+    assignees: input.assignees.filter(m => !previous.assignees.includes(m)),
+    reviewerId: input.reviewerId !== previous.reviewerId ? input.reviewerId : undefined,
+  });
+  validateDependencies(db, planId, id, input.dependsOn);
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE tasks SET title = ?, assignees = ?, start_date = ?, end_date = ?, deliverables = ?, phase_id = ?, depends_on = ?, reviewer_id = ?
+      WHERE id = ?
+    `).run(
+      input.title, JSON.stringify(input.assignees), input.startDate, input.endDate, input.deliverables, input.phaseId ?? null,
+      JSON.stringify(input.dependsOn), input.reviewerId ?? null, id,
+    );
+    const removed = previous.assignees.filter(m => !input.assignees.includes(m));
+    const drop = db.prepare('DELETE FROM task_completion WHERE task_id = ? AND member_id = ?');
+    for (const memberId of removed) drop.run(id, memberId);
+  })();
+  return requireTask(db, id);
+}
+
+export function deleteTask(db: DB, id: string) {
+  const planId = planOfTask(db, id);
+  requireOpenPlan(db, planId);
+  const dependents = listTasks(db, planId).filter(t => t.dependsOn.includes(id));
+  if (dependents.length > 0) {
+    throw new ApiError(409, `لا يمكن حذف مهمة تعتمد عليها مهام أخرى: ${dependents.map(t => t.title).join('، ')}`);
+  }
+  // Progress reports, evidence and reviews are part of the record, like published draft versions.
+  const hasHistory = db.prepare(`
+    SELECT 1 FROM task_progress WHERE task_id = ? UNION ALL SELECT 1 FROM task_evidence WHERE task_id = ?
+    UNION ALL SELECT 1 FROM task_reviews WHERE task_id = ? LIMIT 1
+  `).get(id, id, id);
+  if (hasHistory) throw new ApiError(409, 'لا يمكن حذف مهمة سُجّل لها تقدم أو أدلة إنجاز أو مراجعة.');
+  db.transaction(() => {
+    db.prepare('DELETE FROM task_completion WHERE task_id = ?').run(id);
+    db.prepare('DELETE FROM tasks WHERE id = ?').run(id);
+  })();
+}
@@ -0,0 +1,411 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { seedDatabase } from './seed';
+
+export type DB = Database.Database;
+
+// Each entry upgrades the schema by one version; `PRAGMA user_version` tracks
+// how many have been applied. Never edit an entry once shipped — append a new one.
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE votes (
+    phase_id   INTEGER NOT NULL,
+    member_id  TEXT    NOT NULL,
+    name       TEXT    NOT NULL,
+    comment    TEXT,
+    created_at TEXT    NOT NULL,
+    PRIMARY KEY (phase_id, member_id)
+  );
+  CREATE TABLE task_completion (
+    task_id      TEXT NOT NULL,
+    member_id    TEXT NOT NULL,
+    completed_at TEXT NOT NULL,
+    PRIMARY KEY (task_id, member_id)
+  );
+  `,
+  `
+  CREATE TABLE events (
+    id         INTEGER PRIMARY KEY AUTOINCREMENT,
+    type       TEXT NOT NULL,
+    payload    TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  `,
+  `
+  CREATE TABLE member_credentials (
+    member_id  TEXT PRIMARY KEY,
+    pin_hash   TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE sessions (
+    token_hash TEXT PRIMARY KEY,
+    member_id  TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL
+  );
+  CREATE INDEX sessions_member ON sessions (member_id);
+  `,
+  `
+  CREATE TABLE members (
+    id       TEXT PRIMARY KEY,
+    name     TEXT NOT NULL,
+    is_admin INTEGER NOT NULL DEFAULT 0,
+    active   INTEGER NOT NULL DEFAULT 1
+  );
+  CREATE TABLE phases (
+    id     INTEGER PRIMARY KEY,
+    title  TEXT NOT NULL,
+    tools  TEXT NOT NULL DEFAULT '[]',
+    drafts TEXT NOT NULL DEFAULT '[]',
+    gate   TEXT NOT NULL
+  );
+  CREATE TABLE tasks (
+    id           TEXT PRIMARY KEY,
+    title        TEXT NOT NULL,
+    assignees    TEXT NOT NULL DEFAULT '[]',
+    start_date   TEXT NOT NULL,
+    end_date     TEXT NOT NULL,
+    deliverables TEXT NOT NULL DEFAULT '',
+    phase_id     INTEGER REFERENCES phases (id),
+    sort_order   INTEGER NOT NULL DEFAULT 0
+  );
+  `,
+  `
+  ALTER TABLE votes ADD COLUMN decision TEXT NOT NULL DEFAULT 'approve';
+  ALTER TABLE phases ADD COLUMN decision_rule TEXT NOT NULL DEFAULT 'unanimous';
+  ALTER TABLE phases ADD COLUMN quorum_percent INTEGER NOT NULL DEFAULT 50;
+  `,
+  `
+  CREATE TABLE drafts (
+    id         INTEGER PRIMARY KEY AUTOINCREMENT,
+    phase_id   INTEGER NOT NULL REFERENCES phases (id),
+    title      TEXT    NOT NULL,
+    sort_order INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE TABLE draft_versions (
+    id          INTEGER PRIMARY KEY AUTOINCREMENT,
+    draft_id    INTEGER NOT NULL REFERENCES drafts (id),
+    version     INTEGER NOT NULL,
+    body        TEXT    NOT NULL,
+    note        TEXT,
+    author_id   TEXT    NOT NULL,
+    author_name TEXT    NOT NULL,
+    created_at  TEXT    NOT NULL,
+    UNIQUE (draft_id, version)
+  );
+  CREATE TABLE draft_attachments (
+    id         INTEGER PRIMARY KEY AUTOINCREMENT,
+    version_id INTEGER NOT NULL REFERENCES draft_versions (id),
+    file_name  TEXT    NOT NULL,
+    mime_type  TEXT    NOT NULL,
+    size       INTEGER NOT NULL,
+    data       BLOB    NOT NULL
+  );
+  INSERT INTO drafts (phase_id, title, sort_order)
+    SELECT phases.id, label.value, label.key FROM phases, json_each(phases.drafts) AS label;
+  ALTER TABLE phases DROP COLUMN drafts;
+  ALTER TABLE votes ADD COLUMN draft_versions TEXT NOT NULL DEFAULT '{}';
+  `,
+  `
+  CREATE TABLE audit_log (
+    id         INTEGER PRIMARY KEY,
+    action     TEXT NOT NULL,
+    actor_id   TEXT NOT NULL,
+    actor_name TEXT NOT NULL,
+    phase_id   INTEGER,
+    member_id  TEXT,
+    task_id    TEXT,
+    draft_id   INTEGER,
+    before     TEXT,
+    after      TEXT,
+    created_at TEXT NOT NULL,
+    prev_hash  TEXT NOT NULL,
+    hash       TEXT NOT NULL
+  );
+  CREATE INDEX audit_log_member ON audit_log (member_id);
+  CREATE INDEX audit_log_phase ON audit_log (phase_id);
+  CREATE TRIGGER audit_log_no_update BEFORE UPDATE ON audit_log
+    BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
+  CREATE TRIGGER audit_log_no_delete BEFORE DELETE ON audit_log
+    BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
+  `,
+  `
+  ALTER TABLE tasks ADD COLUMN depends_on TEXT NOT NULL DEFAULT '[]';
+  `,
+  `
+  ALTER TABLE tasks ADD COLUMN reviewer_id TEXT REFERENCES members (id);
+  CREATE TABLE task_progress (
+    id         INTEGER PRIMARY KEY AUTOINCREMENT,
+    task_id    TEXT    NOT NULL REFERENCES tasks (id),
+    member_id  TEXT    NOT NULL REFERENCES members (id),
+    percent    INTEGER NOT NULL CHECK (percent BETWEEN 0 AND 100),
+    note       TEXT,
+    created_at TEXT    NOT NULL
+  );
+  CREATE INDEX task_progress_task ON task_progress (task_id);
+  CREATE TABLE task_evidence (
+    id         INTEGER PRIMARY KEY AUTOINCREMENT,
+    task_id    TEXT    NOT NULL REFERENCES tasks (id),
+    member_id  TEXT    NOT NULL REFERENCES members (id),
+    file_name  TEXT,
+    mime_type  TEXT,
+    size       INTEGER,
+    data       BLOB,
+    url        TEXT,
+    note       TEXT,
+    created_at TEXT    NOT NULL,
+    CHECK ((data IS NULL) <> (url IS NULL))
+  );
+  CREATE TABLE task_reviews (
+    id            INTEGER PRIMARY KEY AUTOINCREMENT,
+    task_id       TEXT NOT NULL REFERENCES tasks (id),
+    reviewer_id   TEXT NOT NULL,
+    reviewer_name TEXT NOT NULL,
+    decision      TEXT NOT NULL CHECK (decision IN ('accepted', 'returned')),
+    note          TEXT,
+    created_at    TEXT NOT NULL
+  );
+  -- Completions recorded before reviews existed count as 100% reports, and
+  -- tasks every assignee had finished stay accepted.
+  INSERT INTO task_progress (task_id, member_id, percent, created_at)
+    SELECT task_id, member_id, 100, completed_at FROM task_completion;
+  INSERT INTO task_reviews (task_id, reviewer_id, reviewer_name, decision, note, created_at)
+    SELECT t.id, 'system', 'النظام', 'accepted', 'اعتُمدت تلقائياً عند تفعيل مراجعة المهام',
+      (SELECT MAX(completed_at) FROM task_completion c WHERE c.task_id = t.id)
+    FROM tasks t
+    WHERE json_array_length(t.assignees) > 0 AND NOT EXISTS (
+      SELECT 1 FROM json_each(t.assignees) a
+      WHERE a.value NOT IN (SELECT member_id FROM task_completion c WHERE c.task_id = t.id)
+    );
+  `,
+  `
+  CREATE TABLE notifications (
+    id         INTEGER PRIMARY KEY AUTOINCREMENT,
+    member_id  TEXT NOT NULL REFERENCES members (id),
+    kind       TEXT NOT NULL,
+    message    TEXT NOT NULL,
+    phase_id   INTEGER,
+    task_id    TEXT,
+    read_at    TEXT,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX notifications_member ON notifications (member_id, id);
+  `,
+  `
+  CREATE TABLE reminder_preferences (
+    member_id     TEXT PRIMARY KEY REFERENCES members (id),
+    channel       TEXT    NOT NULL CHECK (channel IN ('email', 'sms', 'off')),
+    frequency     TEXT    NOT NULL CHECK (frequency IN ('immediate', 'daily', 'weekly')),
+    due_soon_days INTEGER NOT NULL,
+    email         TEXT,
+    phone         TEXT
+  );
+  -- One row per delivery attempt. Nudges carry the item they were about so the
+  -- same reminder is not repeated within a day.
+  CREATE TABLE reminder_deliveries (
+    id         INTEGER PRIMARY KEY AUTOINCREMENT,
+    member_id  TEXT NOT NULL REFERENCES members (id),
+    kind       TEXT NOT NULL CHECK (kind IN ('digest', 'nudge', 'test')),
+    item_key   TEXT,
+    channel    TEXT NOT NULL,
+    recipient  TEXT NOT NULL,
+    error      TEXT,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX reminder_deliveries_member ON reminder_deliveries (member_id, kind, created_at);
+  `,
+  `
+  -- Secret calendar subscription links; like sessions, only the token's hash is kept.
+  CREATE TABLE calendar_feeds (
+    member_id  TEXT PRIMARY KEY REFERENCES members (id),
+    token_hash TEXT NOT NULL UNIQUE,
+    created_at TEXT NOT NULL
+  );
+  `,
+  `
+  CREATE TABLE proxies (
+    id          INTEGER PRIMARY KEY AUTOINCREMENT,
+    phase_id    INTEGER NOT NULL REFERENCES phases (id),
+    grantor_id  TEXT    NOT NULL REFERENCES members (id),
+    holder_id   TEXT    NOT NULL REFERENCES members (id),
+    valid_from  TEXT    NOT NULL,
+    valid_until TEXT    NOT NULL,
+    statement   TEXT    NOT NULL,
+    created_at  TEXT    NOT NULL,
+    revoked_at  TEXT,
+    revoked_by_name TEXT,
+    CHECK (grantor_id <> holder_id)
+  );
+  -- The proxy a vote was cast under, if any.
+  ALTER TABLE votes ADD COLUMN proxy_id INTEGER REFERENCES proxies (id);
+  `,
+  `
+  CREATE TABLE plans (
+    id            INTEGER PRIMARY KEY AUTOINCREMENT,
+    title         TEXT NOT NULL,
+    start_date    TEXT NOT NULL,
+    end_date      TEXT NOT NULL,
+    archived_at   TEXT,
+    cloned_from   INTEGER REFERENCES plans (id),
+    created_at    TEXT NOT NULL
+  );
+  CREATE TABLE plan_members (
+    plan_id   INTEGER NOT NULL REFERENCES plans (id),
+    member_id TEXT    NOT NULL REFERENCES members (id),
+    PRIMARY KEY (plan_id, member_id)
+  );
+  ALTER TABLE phases ADD COLUMN plan_id INTEGER REFERENCES plans (id);
+  ALTER TABLE tasks ADD COLUMN plan_id INTEGER REFERENCES plans (id);
+  -- An existing board becomes the first plan, with everyone on it. A fresh
+  -- database has no members yet; the seed creates its plan instead.
+  INSERT INTO plans (id, title, start_date, end_date, created_at)
+    SELECT 1, 'خطة الـ 100 يوم', '2026-02-03', '2026-05-14', strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+    WHERE EXISTS (SELECT 1 FROM members);
+  INSERT INTO plan_members (plan_id, member_id) SELECT 1, id FROM members;
+  UPDATE phases SET plan_id = 1;
+  UPDATE tasks SET plan_id = 1;
+  CREATE INDEX phases_plan ON phases (plan_id);
+  CREATE INDEX tasks_plan ON tasks (plan_id);
+  `,
+  `
+  -- Everyone voted before roles existed, so existing members keep doing so.
+  ALTER TABLE members ADD COLUMN role TEXT NOT NULL DEFAULT 'board_member'
+    CHECK (role IN ('chair', 'secretary', 'strategy_team', 'board_member', 'observer'));
+  `,
+  `
+  -- Discussion threads on a phase, or on one of its drafts. Posts keep their
+  -- earlier wordings when edited; nothing here is ever deleted.
+  CREATE TABLE discussion_threads (
+    id               INTEGER PRIMARY KEY AUTOINCREMENT,
+    phase_id         INTEGER NOT NULL REFERENCES phases (id),
+    draft_id         INTEGER REFERENCES drafts (id),
+    title            TEXT    NOT NULL,
+    author_id        TEXT    NOT NULL REFERENCES members (id),
+    created_at       TEXT    NOT NULL,
+    resolved_at      TEXT,
+    resolved_by_name TEXT
+  );
+  CREATE INDEX discussion_threads_phase ON discussion_threads (phase_id);
+  CREATE TABLE discussion_posts (
+    id         INTEGER PRIMARY KEY AUTOINCREMENT,
+    thread_id  INTEGER NOT NULL REFERENCES discussion_threads (id),
+    author_id  TEXT    NOT NULL REFERENCES members (id),
+    body       TEXT    NOT NULL,
+    mentions   TEXT    NOT NULL DEFAULT '[]',
+    created_at TEXT    NOT NULL,
+    edited_at  TEXT
+  );
+  CREATE INDEX discussion_posts_thread ON discussion_posts (thread_id);
+  CREATE TABLE discussion_post_edits (
+    id          INTEGER PRIMARY KEY AUTOINCREMENT,
+    post_id     INTEGER NOT NULL REFERENCES discussion_posts (id),
+    body        TEXT    NOT NULL,
+    replaced_at TEXT    NOT NULL
+  );
+  `,
+  `
+  -- A vote's created_at stays the first cast; changed_at is its latest change or renewal.
+  ALTER TABLE votes ADD COLUMN changed_at TEXT;
+  -- Every step in a phase's voting, including votes that were later withdrawn
+  -- or removed. decision is the vote after the step, or the one taken back.
+  CREATE TABLE vote_history (
+    id          INTEGER PRIMARY KEY AUTOINCREMENT,
+    phase_id    INTEGER NOT NULL REFERENCES phases (id),
+    member_id   TEXT    NOT NULL REFERENCES members (id),
+    member_name TEXT    NOT NULL,
+    action      TEXT    NOT NULL CHECK (action IN ('cast', 'renewed', 'changed', 'commented', 'withdrawn', 'removed', 'reset')),
+    decision    TEXT    NOT NULL,
+    comment     TEXT,
+    reason      TEXT,
+    actor_name  TEXT    NOT NULL,
+    created_at  TEXT    NOT NULL
+  );
+  CREATE INDEX vote_history_phase ON vote_history (phase_id, id);
+  INSERT INTO vote_history (phase_id, member_id, member_name, action, decision, comment, actor_name, created_at)
+    SELECT v.phase_id, v.member_id, v.name, 'cast', v.decision, v.comment, COALESCE(h.name, v.name), v.created_at
+    FROM votes v LEFT JOIN proxies p ON p.id = v.proxy_id LEFT JOIN members h ON h.id = p.holder_id
+    ORDER BY v.created_at;
+  `,
+  `
+  -- A decided gate put back to a vote. affected_phase_ids are the later phases
+  -- whose votes were cleared, or whose approval now waits on this gate.
+  CREATE TABLE phase_reopenings (
+    id                 INTEGER PRIMARY KEY AUTOINCREMENT,
+    phase_id           INTEGER NOT NULL REFERENCES phases (id),
+    reason             TEXT    NOT NULL,
+    downstream         TEXT    NOT NULL CHECK (downstream IN ('invalidate', 'conditional')),
+    affected_phase_ids TEXT    NOT NULL DEFAULT '[]',
+    actor_name         TEXT    NOT NULL,
+    created_at         TEXT    NOT NULL
+  );
+  `,
+  `
+  -- The periods the chair opened gates for voting. A phase's current window is
+  -- its latest one unless cancelled_at is set: a reopening or a reset sets a
+  -- closed window's outcome aside.
+  CREATE TABLE voting_windows (
+    id             INTEGER PRIMARY KEY AUTOINCREMENT,
+    phase_id       INTEGER NOT NULL REFERENCES phases (id),
+    opens_at       TEXT    NOT NULL,
+    closes_at      TEXT    NOT NULL,
+    opened_by_name TEXT    NOT NULL,
+    closed_at      TEXT,
+    outcome        TEXT    CHECK (outcome IN ('approved', 'rejected')),
+    cancelled_at   TEXT
+  );
+  CREATE INDEX voting_windows_phase ON voting_windows (phase_id, id);
+  CREATE TABLE voting_window_extensions (
+    id                 INTEGER PRIMARY KEY AUTOINCREMENT,
+    window_id          INTEGER NOT NULL REFERENCES voting_windows (id),
+    previous_closes_at TEXT    NOT NULL,
+    closes_at          TEXT    NOT NULL,
+    reason             TEXT    NOT NULL,
+    actor_name         TEXT    NOT NULL,
+    created_at         TEXT    NOT NULL
+  );
+  `,
+  `
+  -- One row per plan and day, rewritten through the day so it ends up holding
+  -- the day's closing figures.
+  CREATE TABLE plan_snapshots (
+    plan_id          INTEGER NOT NULL REFERENCES plans (id),
+    day              TEXT    NOT NULL,
+    tasks_total      INTEGER NOT NULL,
+    tasks_accepted   INTEGER NOT NULL,
+    member_completed TEXT    NOT NULL DEFAULT '{}',
+    recorded_at      TEXT    NOT NULL,
+    PRIMARY KEY (plan_id, day)
+  );
+  `,
+  `
+  -- Notices become a message template plus its placeholder values. Earlier
+  -- notices keep their finished Arabic text and no params.
+  ALTER TABLE notifications ADD COLUMN params TEXT;
+  `,
+];
+
+export function openDatabase(file = process.env.DATABASE_PATH || path.join(process.cwd(), 'data', 'board.db')): DB {
+  if (file !== ':memory:') fs.mkdirSync(path.dirname(file), { recursive: true });
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  migrate(db);
+  seedDatabase(db);
+  return db;
+}
+
+function migrate(db: DB) {
+  const current = db.pragma('user_version', { simple: true }) as number;
+  for (let version = current; version < MIGRATIONS.length; version++) {
+    db.transaction(() => {
+      db.exec(MIGRATIONS[version]);
+      db.pragma(`user_version = ${version + 1}`);
+    })();
+  }
+}
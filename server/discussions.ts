@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { can } from '../src/board';
+import type { DiscussionPost, DiscussionThread, User } from '../src/types';
+import type { DB } from './db';
+import { ApiError } from './errors';
+import { isPlanMember, listDiscussions, planOfPhase, requireDraft, requireOpenPlan, requirePhase } from './store';
+import { bodyFields, optionalInt, requireString, stringList } from './validate';
+
+// Discussion threads on phases and drafts, kept apart from votes: members talk
+// a gate through here, and the vote comment stays the formal justification.
+// Posts are edited in place with their earlier wordings kept; threads are
+// resolved rather than deleted.
+
+export type PostInput = { body: string; mentions: string[] };
+export type ThreadInput = PostInput & { phaseId: number; draftId?: number; title: string };
+
+// --- Body parsing ---
+export function parsePostInput(raw: unknown): PostInput {
+  const body = bodyFields(raw);
+  return {
+    body: requireString(body.body, 'نص المشاركة مطلوب.'),
+    mentions: stringList(body.mentions, 'قائمة الأعضاء المشار إليهم'),
+  };
+}
+
+export function parseThreadInput(raw: unknown): ThreadInput {
+  const body = bodyFields(raw);
+  const phaseId = optionalInt(body.phaseId, 'رقم المرحلة غير صالح.');
+  if (phaseId === undefined) throw new ApiError(400, 'حدد المرحلة التي يدور عليها النقاش.');
+  return {
+    ...parsePostInput(body),
+    phaseId,
+    draftId: optionalInt(body.draftId, 'رقم المسودة غير صالح.'),
+    title: requireString(body.title, 'عنوان النقاش مطلوب.'),
+  };
+}
+
+// --- Lookups ---
+export function requireThread(db: DB, threadId: number): DiscussionThread {
+  const thread = listDiscussions(db).find(d => d.id === threadId);
+  if (!thread) throw new ApiError(404, 'النقاش غير موجود.');
+  return thread;
+}
+
+export function requirePost(db: DB, threadId: number, postId: number): DiscussionPost {
+  const post = requireThread(db, threadId).posts.find(p => p.id === postId);
+  if (!post) throw new ApiError(404, 'المشاركة غير موجودة.');
+  return post;
+}
+
+/** Members of the thread's plan may take part; the admin may join any plan's discussions. */
+function requireParticipant(db: DB, phaseId: number, user: User): number {
+  const planId = planOfPhase(db, phaseId);
+  requireOpenPlan(db, planId);
+  if (!user.isAdmin && !isPlanMember(db, planId, user.id)) throw new ApiError(403, 'النقاش متاح لأعضاء الخطة فقط.');
+  return planId;
+}
+
+function checkMentions(db: DB, planId: number, mentions: string[], author: User) {
+  for (const id of mentions) {
+    if (id === author.id) throw new ApiError(400, 'لا يمكنك الإشارة إلى نفسك.');
+    if (!isPlanMember(db, planId, id)) throw new ApiError(400, 'يمكن الإشارة إلى أعضاء الخطة فقط.');
+  }
+}
+
+function insertPost(db: DB, threadId: number, author: User, input: PostInput, time: string): number {
+  const { lastInsertRowid } = db.prepare('INSERT INTO discussion_posts (thread_id, author_id, body, mentions, created_at) VALUES (?, ?, ?, ?, ?)')
+    .run(threadId, author.id, input.body, JSON.stringify(input.mentions), time);
+  return Number(lastInsertRowid);
+}
+
+// --- Mutations ---
+export function startThread(db: DB, author: User, input: ThreadInput): DiscussionThread {
+  const phase = requirePhase(db, input.phaseId);
+  const planId = requireParticipant(db, phase.id, author);
+  if (input.draftId !== undefined && requireDraft(db, input.draftId).phaseId !== phase.id) {
+    throw new ApiError(400, 'المسودة لا تتبع هذه المرحلة.');
+  }
+  checkMentions(db, planId, input.mentions, author);
+  const time = new Date().toISOString();
+  const { lastInsertRowid } = db.prepare('INSERT INTO discussion_threads (phase_id, draft_id, title, author_id, created_at) VALUES (?, ?, ?, ?, ?)')
+    .run(phase.id, input.draftId ?? null, input.title, author.id, time);
+  insertPost(db, Number(lastInsertRowid), author, input, time);
+  return requireThread(db, Number(lastInsertRowid));
+}
+
+/** Resolved threads take no replies until they are reopened. */
+export function reply(db: DB, threadId: number, author: User, input: PostInput): DiscussionPost {
+  const thread = requireThread(db, threadId);
+  const planId = requireParticipant(db, thread.phaseId, author);
+  if (thread.resolvedAt) throw new ApiError(409, 'حُسم هذا النقاش؛ أعد فتحه للرد.');
+  checkMentions(db, planId, input.mentions, author);
+  return requirePost(db, threadId, insertPost(db, threadId, author, input, new Date().toISOString()));
+}
+
+/** Only the author edits a post; the wording it replaces goes to its history. Returns null when nothing changed. */
+export function editPost(db: DB, threadId: number, postId: number, author: User, input: PostInput): DiscussionPost | null {
+  const thread = requireThread(db, threadId);
+  const post = requirePost(db, threadId, postId);
+  const planId = requireParticipant(db, thread.phaseId, author);
+  if (post.authorId !== author.id) throw new ApiError(403, 'يعدّل المشاركةَ كاتبُها فقط.');
+  if (thread.resolvedAt) throw new ApiError(409, 'حُسم هذا النقاش؛ أعد فتحه لتعديل المشاركات.');
+  checkMentions(db, planId, input.mentions, author);
+  if (post.body === input.body && JSON.stringify(post.mentions) === JSON.stringify(input.mentions)) return null;
+
+  const time = new Date().toISOString();
+  if (post.body !== input.body) {
+    db.prepare('INSERT INTO discussion_post_edits (post_id, body, replaced_at) VALUES (?, ?, ?)').run(postId, post.body, time);
+  }
+  db.prepare('UPDATE discussion_posts SET body = ?, mentions = ?, edited_at = ? WHERE id = ?')
+    .run(input.body, JSON.stringify(input.mentions), time, postId);
+  return requirePost(db, threadId, postId);
+}
+
+/**
+ * Marks a thread resolved, or reopens it. The thread's author and those who
+ * manage gates may do either. Returns null when it was already in that state.
+ */
+export function setResolved(db: DB, threadId: number, user: User, resolved: boolean): DiscussionThread | null {
+  const thread = requireThread(db, threadId);
+  requireParticipant(db, thread.phaseId, user);
+  if (thread.authorId !== user.id && !can(user, 'manage_gates')) {
+    throw new ApiError(403, 'يحسم النقاشَ من بدأه أو من يدير البوابات فقط.');
+  }
+  if (!!thread.resolvedAt === resolved) return null;
+  if (resolved) {
+    db.prepare('UPDATE discussion_threads SET resolved_at = ?, resolved_by_name = ? WHERE id = ?').run(new Date().toISOString(), user.name, threadId);
+  } else {
+    db.prepare('UPDATE discussion_threads SET resolved_at = NULL, resolved_by_name = NULL WHERE id = ?').run(threadId);
+  }
+  return requireThread(db, threadId);
+}
@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import crypto from 'crypto';
+import type { Draft, DraftAttachment, DraftVersion, User } from '../src/types';
+import type { DB } from './db';
+import { ApiError } from './errors';
+import { planOfPhase, requireDraft, requireOpenPlan } from './store';
+import { bodyFields, optionalString, requireString } from './validate';
+
+// Draft documents under review in each phase. Versions are append-only so a
+// vote can always be traced back to the exact text it approved.
+
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+const MAX_ATTACHMENTS = 5;
+
+type VersionRow = { id: number; version: number; body: string; note: string | null; author_name: string; created_at: string };
+type AttachmentRow = { id: number; version_id: number; file_name: string; mime_type: string; size: number };
+
+export type AttachmentInput = { fileName: string; mimeType: string; data: Buffer };
+export type VersionInput = { body: string; note?: string; attachments: AttachmentInput[] };
+
+// --- Body parsing ---
+export function parseVersionInput(raw: unknown): VersionInput {
+  const body = bodyFields(raw);
+  const text = typeof body.body === 'string' ? body.body.replace(/\r\n/g, '\n') : '';
+  if (!text.trim()) throw new ApiError(400, 'نص المسودة مطلوب.');
+
+  const files = body.attachments ?? [];
+  if (!Array.isArray(files)) throw new ApiError(400, 'المرفقات غير صالحة.');
+  if (files.length > MAX_ATTACHMENTS) throw new ApiError(400, `الحد الأقصى ${MAX_ATTACHMENTS} مرفقات لكل نسخة.`);
+  const attachments = files.map((file): AttachmentInput => {
+    const a = bodyFields(file);
+    const fileName = requireString(a.fileName, 'اسم الملف المرفق مطلوب.');
+    const data = Buffer.from(requireString(a.data, `الملف ${fileName} فارغ.`), 'base64');
+    if (data.length === 0) throw new ApiError(400, `الملف ${fileName} فارغ.`);
+    if (data.length > MAX_ATTACHMENT_BYTES) throw new ApiError(400, `حجم الملف ${fileName} يتجاوز 5 ميجابايت.`);
+    return { fileName, mimeType: optionalString(a.mimeType) || 'application/octet-stream', data };
+  });
+
+  return { body: text, note: optionalString(body.note), attachments };
+}
+
+// --- Drafts ---
+/** A draft that may still change: its plan must not be archived. */
+function requireEditableDraft(db: DB, draftId: number): Draft {
+  const draft = requireDraft(db, draftId);
+  requireOpenPlan(db, planOfPhase(db, draft.phaseId));
+  return draft;
+}
+
+export function createDraft(db: DB, phaseId: number, title: string): Draft {
+  requireOpenPlan(db, planOfPhase(db, phaseId));
+  const { sortOrder } = db.prepare('SELECT COALESCE(MAX(sort_order), -1) + 1 AS sortOrder FROM drafts WHERE phase_id = ?')
+    .get(phaseId) as { sortOrder: number };
+  const { lastInsertRowid } = db.prepare('INSERT INTO drafts (phase_id, title, sort_order) VALUES (?, ?, ?)').run(phaseId, title, sortOrder);
+  return requireDraft(db, Number(lastInsertRowid));
+}
+
+export function renameDraft(db: DB, draftId: number, title: string): Draft {
+  requireEditableDraft(db, draftId);
+  db.prepare('UPDATE drafts SET title = ? WHERE id = ?').run(title, draftId);
+  return requireDraft(db, draftId);
+}
+
+/** Only drafts that never had a version can be deleted; published text is part of the record. */
+export function deleteDraft(db: DB, draftId: number) {
+  if (requireEditableDraft(db, draftId).currentVersion > 0) {
+    throw new ApiError(409, 'لا يمكن حذف مسودة نُشرت لها نسخ.');
+  }
+  if (db.prepare('SELECT 1 FROM discussion_threads WHERE draft_id = ?').get(draftId)) {
+    throw new ApiError(409, 'لا يمكن حذف مسودة دارت عليها نقاشات.');
+  }
+  db.prepare('DELETE FROM drafts WHERE id = ?').run(draftId);
+}
+
+// --- Versions ---
+export function listVersions(db: DB, draftId: number): DraftVersion[] {
+  requireDraft(db, draftId);
+  const rows = db.prepare('SELECT id, version, body, note, author_name, created_at FROM draft_versions WHERE draft_id = ? ORDER BY version')
+    .all(draftId) as VersionRow[];
+  const attachments = db.prepare(`
+    SELECT a.id, a.version_id, a.file_name, a.mime_type, a.size FROM draft_attachments a
+    JOIN draft_versions v ON v.id = a.version_id WHERE v.draft_id = ? ORDER BY a.id
+  `).all(draftId) as AttachmentRow[];
+
+  return rows.map(row => ({
+    version: row.version,
+    body: row.body,
+    ...(row.note ? { note: row.note } : {}),
+    authorName: row.author_name,
+    createdAt: row.created_at,
+    attachments: attachments.filter(a => a.version_id === row.id).map((a): DraftAttachment => ({
+      id: a.id, fileName: a.file_name, mimeType: a.mime_type, size: a.size,
+    })),
+  }));
+}
+
+/** Appends the next version of a draft. Returns the new version number. */
+export function publishVersion(db: DB, draftId: number, input: VersionInput, author: User): number {
+  const version = requireEditableDraft(db, draftId).currentVersion + 1;
+  db.transaction(() => {
+    const { lastInsertRowid } = db.prepare(`
+      INSERT INTO draft_versions (draft_id, version, body, note, author_id, author_name, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(draftId, version, input.body, input.note ?? null, author.id, author.name, new Date().toISOString());
+    const insertAttachment = db.prepare('INSERT INTO draft_attachments (version_id, file_name, mime_type, size, data) VALUES (?, ?, ?, ?, ?)');
+    for (const a of input.attachments) insertAttachment.run(lastInsertRowid, a.fileName, a.mimeType, a.data.length, a.data);
+  })();
+  return version;
+}
+
+/** SHA-256 over the version's text and attachments, for the audit log. */
+export function fingerprint(input: VersionInput): string {
+  const hash = crypto.createHash('sha256').update(input.body);
+  for (const a of input.attachments) hash.update(a.fileName).update(a.data);
+  return hash.digest('hex');
+}
+
+export function getAttachment(db: DB, attachmentId: number): AttachmentInput & { draftId: number } {
+  const row = db.prepare(`
+    SELECT a.file_name, a.mime_type, a.data, v.draft_id FROM draft_attachments a
+    JOIN draft_versions v ON v.id = a.version_id WHERE a.id = ?
+  `).get(attachmentId) as { file_name: string; mime_type: string; data: Buffer; draft_id: number } | undefined;
+  if (!row) throw new ApiError(404, 'الملف المرفق غير موجود.');
+  return { fileName: row.file_name, mimeType: row.mime_type, data: row.data, draftId: row.draft_id };
+}
@@ -0,0 +1,27 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ErrorRequestHandler } from 'express';
+
+/** An error whose message is safe to show to the member who caused it. */
+export class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export const errorHandler: ErrorRequestHandler = (err, _req, res, _next) => {
+  if (err instanceof ApiError) {
+    res.status(err.status).json({ error: err.message });
+    return;
+  }
+  if (err?.type === 'entity.too.large') {
+    res.status(413).json({ error: 'حجم الطلب يتجاوز الحد المسموح.' });
+    return;
+  }
+  console.error(err);
+  res.status(500).json({ error: 'حدث خطأ غير متوقع في الخادم.' });
+};
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Request, Response } from 'express';
+import type { BoardEvent, BoardEventType, User } from '../src/types';
+import { currentUser } from './auth';
+import type { DB } from './db';
+import { isPlanMember } from './store';
+
+type EventRow = { id: number; type: BoardEventType; payload: string; created_at: string };
+type EventDetails = Omit<BoardEvent, 'id' | 'type' | 'time'>;
+
+const HEARTBEAT_MS = 25_000;
+const RETRY_MS = 3_000;
+
+function toEvent(row: EventRow): BoardEvent {
+  return { ...JSON.parse(row.payload), id: row.id, type: row.type, time: row.created_at };
+}
+
+function writeEvent(res: Response, event: BoardEvent) {
+  res.write(`id: ${event.id}\nevent: board\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
+export type EventHub = ReturnType<typeof createEventHub>;
+
+/**
+ * Server-Sent Events fan-out. Every event is stored before it is pushed, so a
+ * client that reconnects with `Last-Event-ID` (or `?since=`) receives exactly
+ * the events it missed. Events of one plan only go to that plan's members
+ * and to admins.
+ */
+export function createEventHub(db: DB) {
+  const clients = new Map<Response, User>();
+
+  const canSee = (user: User, event: BoardEvent) =>
+    event.planId === undefined || user.isAdmin || isPlanMember(db, event.planId, user.id);
+
+  const lastEventId = (): number =>
+    (db.prepare('SELECT MAX(id) AS id FROM events').get() as { id: number | null }).id ?? 0;
+
+  const eventsSince = (id: number): BoardEvent[] =>
+    (db.prepare('SELECT id, type, payload, created_at FROM events WHERE id > ? ORDER BY id').all(id) as EventRow[]).map(toEvent);
+
+  const publish = (type: BoardEventType, details: EventDetails): BoardEvent => {
+    const time = new Date().toISOString();
+    const { lastInsertRowid } = db.prepare('INSERT INTO events (type, payload, created_at) VALUES (?, ?, ?)')
+      .run(type, JSON.stringify(details), time);
+    const event: BoardEvent = { ...details, id: Number(lastInsertRowid), type, time };
+    for (const [res, user] of clients) if (canSee(user, event)) writeEvent(res, event);
+    return event;
+  };
+
+  const stream = (req: Request, res: Response) => {
+    const user = currentUser(res);
+    const since = Number(req.header('Last-Event-ID') ?? req.query.since ?? lastEventId());
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.write(`retry: ${RETRY_MS}\n\n`);
+
+    for (const event of eventsSince(Number.isFinite(since) ? since : lastEventId())) {
+      if (canSee(user, event)) writeEvent(res, event);
+    }
+    clients.set(res, user);
+
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      clients.delete(res);
+    });
+  };
+
+  return { publish, stream, lastEventId };
+}
@@ -0,0 +1,236 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { activeMembers, countedVotes, DECISION_LABELS, isPhaseApproved, isTaskAccepted, ROLE_LABELS, TASK_STATUS_LABELS, taskStatus } from '../src/board';
+import { fromDay, toDay } from '../src/schedule';
+import type { ExportDataset, ImportError, Phase, Task, TaskImportRow } from '../src/types';
+import { createTask } from './config';
+import type { DB } from './db';
+import { MAX_ATTACHMENT_BYTES } from './drafts';
+import { ApiError } from './errors';
+import { type Cell, readRows, type Sheet, type SheetFormat, sheetFormat, writeCsv, writeXlsx } from './sheets';
+import {
+  findMember, getTaskCompletionTimes, getTaskProgress, getTaskReviews, getVotes, isPlanMember, listMembers, listPhases, listTasks, requireOpenPlan,
+} from './store';
+import { bodyFields, requireString } from './validate';
+
+// Moving plan data in and out of spreadsheets: tasks drafted in a sheet are
+// imported after a preview that lists every row's problems, and the board's
+// tables are exported for the monthly board pack. The task sheet uses the
+// same column headings both ways, so an export can be edited and imported
+// into another plan.
+
+export type ImportInput = { fileName: string; data: Buffer };
+
+export const EXPORT_DATASETS: ExportDataset[] = ['tasks', 'assignees', 'votes', 'members'];
+
+const SHEET_NAMES: Record<ExportDataset, string> = {
+  tasks: 'المهام',
+  assignees: 'إنجاز المكلفين',
+  votes: 'أصوات المراحل',
+  members: 'مؤشرات الأعضاء',
+};
+
+type ImportColumn = 'title' | 'assignees' | 'startDate' | 'endDate' | 'deliverables' | 'phase';
+
+/** Headings written on export first; the others are accepted on import. */
+const COLUMN_HEADINGS: Record<ImportColumn, string[]> = {
+  title: ['عنوان المهمة', 'المهمة', 'العنوان', 'title', 'task'],
+  assignees: ['المكلفون', 'أرقام هوية المكلفين', 'رقم الهوية', 'assignees', 'national ids'],
+  startDate: ['تاريخ البداية', 'البداية', 'start date', 'start'],
+  endDate: ['تاريخ النهاية', 'النهاية', 'end date', 'end'],
+  deliverables: ['المخرجات', 'deliverables'],
+  phase: ['المرحلة', 'phase'],
+};
+
+const REQUIRED_COLUMNS: ImportColumn[] = ['title', 'assignees', 'startDate', 'endDate'];
+
+const normalizeHeading = (text: string) => text.toLowerCase().replace(/[\s_]+/g, ' ').trim();
+
+// --- Body parsing ---
+export function parseImportInput(raw: unknown): ImportInput {
+  const body = bodyFields(raw);
+  const fileName = requireString(body.fileName, 'اختر ملف CSV أو XLSX للاستيراد.');
+  sheetFormat(fileName);
+  const data = Buffer.from(requireString(body.data, `الملف ${fileName} فارغ.`), 'base64');
+  if (data.length === 0) throw new ApiError(400, `الملف ${fileName} فارغ.`);
+  if (data.length > MAX_ATTACHMENT_BYTES) throw new ApiError(400, `حجم الملف ${fileName} يتجاوز 5 ميجابايت.`);
+  return { fileName, data };
+}
+
+export function parseExportFile(file: string): { dataset: ExportDataset | 'all'; format: SheetFormat } {
+  const [dataset, extension = ''] = file.split('.');
+  const format = sheetFormat(`.${extension}`);
+  if (dataset === 'all' && format === 'xlsx') return { dataset, format };
+  if (!EXPORT_DATASETS.includes(dataset as ExportDataset)) throw new ApiError(404, 'جدول التصدير غير معروف.');
+  return { dataset: dataset as ExportDataset, format };
+}
+
+// --- Import ---
+/** Accepts ISO dates and the day numbers XLSX stores for cells formatted as dates. */
+function readDate(value: string): string | undefined {
+  const iso = value.replace(/\//g, '-').match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (iso) {
+    const date = `${iso[1]}-${iso[2].padStart(2, '0')}-${iso[3].padStart(2, '0')}`;
+    // Rejects days past the end of the month, which Date would roll over.
+    return !Number.isNaN(toDay(date)) && fromDay(toDay(date)) === date ? date : undefined;
+  }
+  // Day 25569 of the spreadsheet calendar is 1970-01-01.
+  if (/^\d{5}(\.\d+)?$/.test(value)) return fromDay(Math.floor(Number(value)) - 25569);
+  return undefined;
+}
+
+function readPhase(value: string, phases: Phase[]): Phase | undefined {
+  const number = Number(value.replace(/^(المرحلة|phase)\s*/i, ''));
+  return phases.find(p => p.number === number) ?? phases.find(p => normalizeHeading(p.title) === normalizeHeading(value));
+}
+
+/**
+ * Reads the file's first sheet as tasks for the plan and checks every row the
+ * way the task form would, collecting all of a row's problems rather than
+ * stopping at the first.
+ */
+export function previewImport(db: DB, planId: number, input: ImportInput): TaskImportRow[] {
+  requireOpenPlan(db, planId);
+  const [header = [], ...rows] = readRows(input.fileName, input.data);
+  const headings = header.map(normalizeHeading);
+  const columns = Object.fromEntries((Object.keys(COLUMN_HEADINGS) as ImportColumn[]).map(column => [
+    column, headings.findIndex(h => COLUMN_HEADINGS[column].some(alias => normalizeHeading(alias) === h)),
+  ])) as Record<ImportColumn, number>;
+  const missing = REQUIRED_COLUMNS.filter(column => columns[column] < 0);
+  if (missing.length > 0) {
+    throw new ApiError(400, `الصف الأول يجب أن يحمل عناوين الأعمدة؛ الأعمدة الناقصة: ${missing.map(c => COLUMN_HEADINGS[c][0]).join('، ')}.`);
+  }
+
+  const phases = listPhases(db, planId);
+  const titles = new Set(listTasks(db, planId).map(task => normalizeHeading(task.title)));
+  const result: TaskImportRow[] = [];
+  rows.forEach((cells, index) => {
+    if (cells.every(cell => !cell)) return;
+    const value = (column: ImportColumn) => columns[column] < 0 ? '' : cells[columns[column]] ?? '';
+    const errors: ImportError[] = [];
+
+    const title = value('title');
+    if (!title) errors.push({ message: 'عنوان المهمة مطلوب.' });
+    else if (titles.has(normalizeHeading(title))) errors.push({ message: 'توجد مهمة بالعنوان نفسه في الخطة أو في صف سابق.' });
+    else titles.add(normalizeHeading(title));
+
+    const assignees = [...new Set(value('assignees').split(/[\s,;،]+/).filter(Boolean))];
+    if (assignees.length === 0) errors.push({ message: 'يجب إسناد المهمة لعضو واحد على الأقل.' });
+    for (const id of assignees) {
+      const member = findMember(db, id);
+      if (!/^\d{10}$/.test(id)) errors.push({ message: 'رقم الهوية {id} غير صالح.', params: { id } });
+      else if (!member) errors.push({ message: 'رقم الهوية {id} غير مسجل.', params: { id } });
+      else if (!member.active) errors.push({ message: 'العضو {name} غير نشط.', params: { name: member.name } });
+      else if (!isPlanMember(db, planId, id)) errors.push({ message: 'العضو {name} ليس من أعضاء هذه الخطة.', params: { name: member.name } });
+    }
+
+    const startDate = readDate(value('startDate'));
+    const endDate = readDate(value('endDate'));
+    if (!startDate) errors.push({ message: 'تاريخ البداية «{value}» غير صالح؛ استخدم الصيغة YYYY-MM-DD.', params: { value: value('startDate') } });
+    if (!endDate) errors.push({ message: 'تاريخ النهاية «{value}» غير صالح؛ استخدم الصيغة YYYY-MM-DD.', params: { value: value('endDate') } });
+    if (startDate && endDate && endDate < startDate) errors.push({ message: 'تاريخ النهاية يسبق تاريخ البداية.' });
+
+    let phaseId: number | undefined;
+    if (value('phase')) {
+      phaseId = readPhase(value('phase'), phases)?.id;
+      if (phaseId === undefined) errors.push({ message: 'المرحلة «{value}» غير موجودة في هذه الخطة.', params: { value: value('phase') } });
+    }
+
+    result.push({
+      row: index + 2, title, assignees, startDate: startDate ?? '', endDate: endDate ?? '', deliverables: value('deliverables'), phaseId, errors,
+    });
+  });
+  if (result.length === 0) throw new ApiError(400, 'لا يحتوي الملف على أي مهمة بعد صف العناوين.');
+  return result;
+}
+
+/** Creates every task in the file, or none of them while any row has a problem. */
+export function importTasks(db: DB, planId: number, input: ImportInput): Task[] {
+  const rows = previewImport(db, planId, input);
+  if (rows.some(row => row.errors.length > 0)) throw new ApiError(400, 'صحّح الأخطاء الموضحة في المعاينة ثم أعد رفع الملف.');
+  return rows.map(row => createTask(db, planId, {
+    title: row.title, assignees: row.assignees, startDate: row.startDate, endDate: row.endDate, deliverables: row.deliverables,
+    phaseId: row.phaseId, dependsOn: [],
+  }));
+}
+
+// --- Export ---
+const dateTime = (iso?: string) => iso ? iso.slice(0, 16).replace('T', ' ') : undefined;
+const percent = (part: number, whole: number) => whole ? Math.round((part / whole) * 100) : 0;
+
+function exportTables(db: DB, planId: number, today: string): Record<ExportDataset, Cell[][]> {
+  const members = listMembers(db, planId);
+  const phases = listPhases(db, planId);
+  const tasks = listTasks(db, planId);
+  const votes = getVotes(db, planId);
+  const completedAt = getTaskCompletionTimes(db, planId);
+  const progress = getTaskProgress(db, planId);
+  const reviews = getTaskReviews(db, planId);
+  const memberName = (id: string) => members.find(m => m.id === id)?.name ?? findMember(db, id)?.name ?? id;
+  const phaseNumber = (phaseId?: number) => phases.find(p => p.id === phaseId)?.number;
+  const statusOf = (task: Task) => taskStatus(task, completedAt[task.id], reviews[task.id], today);
+
+  const tasksTable: Cell[][] = [
+    [...(['title', 'assignees', 'startDate', 'endDate', 'deliverables', 'phase'] as ImportColumn[]).map(c => COLUMN_HEADINGS[c][0]),
+      'المعرف', 'الحالة', 'أسماء المكلفين', 'أنجز جزءه', 'مقبولة من المراجع'],
+    ...tasks.map(task => [
+      task.title, task.assignees.join('، '), task.startDate, task.endDate, task.deliverables, phaseNumber(task.phaseId),
+      task.id, TASK_STATUS_LABELS[statusOf(task)], task.assignees.map(memberName).join('، '),
+      `${task.assignees.filter(id => completedAt[task.id]?.[id]).length}/${task.assignees.length}`,
+      isTaskAccepted(task, completedAt[task.id], reviews[task.id]) ? 'نعم' : 'لا',
+    ]),
+  ];
+
+  const assigneesTable: Cell[][] = [
+    ['المعرف', 'عنوان المهمة', 'المرحلة', 'تاريخ النهاية', 'رقم الهوية', 'العضو', 'نسبة الإنجاز', 'آخر تحديث', 'ملاحظة آخر تحديث', 'أنجز في'],
+    ...tasks.flatMap(task => task.assignees.map(id => {
+      const report = progress[task.id]?.[id];
+      const doneAt = completedAt[task.id]?.[id];
+      return [
+        task.id, task.title, phaseNumber(task.phaseId), task.endDate, id, memberName(id),
+        doneAt ? 100 : report?.percent ?? 0, dateTime(report?.updatedAt), report?.note, dateTime(doneAt),
+      ];
+    })),
+  ];
+
+  const votesTable: Cell[][] = [
+    ['المرحلة', 'عنوان المرحلة', 'بوابة الاعتماد', 'حالة البوابة', 'رقم الهوية', 'العضو', 'التصويت', 'التعليق', 'تاريخ التصويت', 'آخر تعديل', 'صوّت عنه بالوكالة'],
+    ...phases.flatMap(phase => {
+      const phaseVotes = votes[phase.id] ?? [];
+      const status = isPhaseApproved(phase, phaseVotes, members) ? 'معتمدة'
+        : phase.votingWindow?.outcome === 'rejected' ? 'لم تُعتمد عند انتهاء المهلة' : 'قيد التصويت';
+      const cells = [phase.number, phase.title, phase.gate, status];
+      if (phaseVotes.length === 0) return [cells];
+      return phaseVotes.map(vote => [
+        ...cells, vote.id, vote.name, DECISION_LABELS[vote.decision], vote.comment, dateTime(vote.votedAt), dateTime(vote.changedAt), vote.proxyHolderName,
+      ]);
+    }),
+  ];
+
+  const membersTable: Cell[][] = [
+    ['رقم الهوية', 'العضو', 'الدور', 'المهام المسندة', 'المهام المنجزة', 'نسبة الإنجاز', 'متأخرة', 'معرضة للتأخر', 'البوابات التي صوّت عليها', 'عدد البوابات'],
+    ...activeMembers(members).map(member => {
+      const mine = tasks.filter(task => task.assignees.includes(member.id));
+      const pending = mine.filter(task => !completedAt[task.id]?.[member.id]);
+      const counted = phases.filter(phase => countedVotes(votes[phase.id], members).some(v => v.id === member.id)).length;
+      return [
+        member.id, member.name, ROLE_LABELS[member.role], mine.length, mine.length - pending.length, percent(mine.length - pending.length, mine.length),
+        pending.filter(task => statusOf(task) === 'overdue').length, pending.filter(task => statusOf(task) === 'at_risk').length,
+        counted, phases.length,
+      ];
+    }),
+  ];
+
+  return { tasks: tasksTable, assignees: assigneesTable, votes: votesTable, members: membersTable };
+}
+
+/** One table as CSV, or any of them as an XLSX workbook with a sheet per table. */
+export function exportFile(db: DB, planId: number, dataset: ExportDataset | 'all', format: SheetFormat, now = new Date()): Buffer {
+  const tables = exportTables(db, planId, now.toISOString().slice(0, 10));
+  if (format === 'csv' && dataset !== 'all') return writeCsv(tables[dataset]);
+  const sheets: Sheet[] = (dataset === 'all' ? EXPORT_DATASETS : [dataset]).map(d => ({ name: SHEET_NAMES[d], rows: tables[d] }));
+  return writeXlsx(sheets);
+}
@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import { can, isPhaseApproved, pendingReopening } from '../src/board';
+import type { Member, Phase } from '../src/types';
+import { type DB, openDatabase } from './db';
+import { closeExpiredWindows, extendWindow, openWindow, reopenGate } from './gates';
+import { castVote, getVotes, listMembers, listPhases, listPlans, listReopenings, requirePhase } from './store';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('a gate\'s voting window', () => {
+  let db: DB;
+  let phaseId: number;
+  let chair: Member;
+  let voter: Member;
+  let closesAt: string;
+
+  beforeEach(() => {
+    db = openDatabase(':memory:');
+    const planId = listPlans(db)[0].id;
+    phaseId = listPhases(db, planId)[0].id;
+    const members = listMembers(db, planId);
+    chair = members.find(m => m.isAdmin)!;
+    voter = members.find(m => m.active && can(m, 'vote'))!;
+    closesAt = new Date(Date.now() + DAY_MS).toISOString();
+  });
+
+  it('refuses votes until the chair opens it', () => {
+    assert.throws(() => castVote(db, phaseId, voter.id, 'approve', voter), { status: 409 });
+    openWindow(db, phaseId, { closesAt }, chair);
+    assert.equal(castVote(db, phaseId, voter.id, 'approve', voter), 'cast');
+  });
+
+  it('can be opened only once at a time and only on the active phase', () => {
+    openWindow(db, phaseId, { closesAt }, chair);
+    assert.throws(() => openWindow(db, phaseId, { closesAt }, chair), { status: 409 });
+    const next = listPhases(db, listPlans(db)[0].id)[1];
+    assert.throws(() => openWindow(db, next.id, { closesAt }, chair), { status: 409 });
+  });
+
+  it('keeps the earlier deadline and the reason when extended, and only later', () => {
+    openWindow(db, phaseId, { closesAt }, chair);
+    const later = new Date(Date.now() + 2 * DAY_MS).toISOString();
+    assert.throws(() => extendWindow(db, phaseId, { closesAt, reason: 'تمديد' }, chair), { status: 400 });
+    const window = extendWindow(db, phaseId, { closesAt: later, reason: 'غياب أعضاء' }, chair);
+    assert.equal(window.closesAt, later);
+    assert.deepEqual(window.extensions.map(e => [e.previousClosesAt, e.closesAt, e.reason]), [[closesAt, later, 'غياب أعضاء']]);
+  });
+
+  it('closes at its deadline with the outcome of the votes received', () => {
+    openWindow(db, phaseId, { closesAt }, chair);
+    castVote(db, phaseId, voter.id, 'approve', voter);
+    assert.deepEqual(closeExpiredWindows(db, new Date()), []);
+    const [closed] = closeExpiredWindows(db, new Date(Date.now() + 2 * DAY_MS));
+    assert.equal(closed.id, phaseId);
+    assert.equal(closed.votingWindow?.outcome, 'rejected');
+    assert.ok(requirePhase(db, phaseId).votingWindow?.closedAt);
+    const other = listMembers(db, listPlans(db)[0].id).find(m => m.id !== voter.id && m.active && can(m, 'vote'))!;
+    assert.throws(() => castVote(db, phaseId, other.id, 'approve', other), { status: 409 });
+  });
+});
+
+describe('reopening an approved gate', () => {
+  let db: DB;
+  let planId: number;
+  let first: Phase;
+  let second: Phase;
+  let chair: Member;
+  let voters: Member[];
+
+  const approve = (phase: Phase) => {
+    openWindow(db, phase.id, { closesAt: new Date(Date.now() + DAY_MS).toISOString() }, chair);
+    for (const voter of voters) castVote(db, phase.id, voter.id, 'approve', voter);
+  };
+
+  beforeEach(() => {
+    db = openDatabase(':memory:');
+    planId = listPlans(db)[0].id;
+    [first, second] = listPhases(db, planId);
+    const members = listMembers(db, planId);
+    chair = members.find(m => m.isAdmin)!;
+    voters = members.filter(m => m.active && can(m, 'vote'));
+    approve(first);
+    openWindow(db, second.id, { closesAt: new Date(Date.now() + DAY_MS).toISOString() }, chair);
+    castVote(db, second.id, voters[0].id, 'approve', voters[0]);
+  });
+
+  it('refuses a gate that is not approved', () => {
+    assert.throws(() => reopenGate(db, second.id, { reason: 'مراجعة' }, chair), { status: 409 });
+  });
+
+  it('asks what happens to later phases that already have votes', () => {
+    assert.throws(() => reopenGate(db, first.id, { reason: 'مراجعة' }, chair), { status: 400 });
+  });
+
+  it('clears the gate and the later votes when invalidating them', () => {
+    const reopening = reopenGate(db, first.id, { reason: 'مراجعة', downstream: 'invalidate' }, chair);
+    assert.deepEqual(reopening.affectedPhaseIds, [second.id]);
+    const votes = getVotes(db, planId);
+    assert.equal(votes[first.id]?.length ?? 0, 0);
+    assert.equal(votes[second.id]?.length ?? 0, 0);
+  });
+
+  it('keeps the later votes as conditional until the gate is approved again', () => {
+    const reopening = reopenGate(db, first.id, { reason: 'مراجعة', downstream: 'conditional' }, chair);
+    const phases = listPhases(db, planId);
+    const members = listMembers(db, planId);
+    assert.equal(getVotes(db, planId)[second.id].length, 1);
+    assert.equal(isPhaseApproved(phases[0], getVotes(db, planId)[first.id], members), false);
+    assert.deepEqual(pendingReopening(second.id, listReopenings(db, planId), phases, getVotes(db, planId), members), reopening);
+
+    approve(first);
+    assert.equal(pendingReopening(second.id, listReopenings(db, planId), listPhases(db, planId), getVotes(db, planId), members), undefined);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { closingOutcome, getActivePhase, isPhaseApproved, isWindowOpen } from '../src/board';
+import type { DownstreamHandling, Phase, PhaseReopening, User, VotingWindow } from '../src/types';
+import { recordAudit } from './audit';
+import type { DB } from './db';
+import { ApiError } from './errors';
+import type { EventHub } from './events';
+import * as notices from './notifications';
+import {
+  cancelVotingWindows, clearVotes, getVotes, listMembers, listPhases, listReopenings, planOfPhase, requireOpenPlan, requirePhase,
+} from './store';
+import { bodyFields, optionalString, requireOption, requireString } from './validate';
+
+// The chair's control over gates. A gate takes votes only during the voting
+// window the chair opens for it, and closes at the deadline with the outcome
+// of the votes received; the deadline can be moved later with a reason.
+//
+// Reopening an approved gate: clearing its votes alone would leave later
+// phases showing approvals that were given on top of it, so the chair decides
+// what happens to them: their votes are cleared too, or they are kept as
+// conditional until this gate is approved again.
+
+export type ReopenInput = { reason: string; downstream?: DownstreamHandling };
+export type WindowInput = { closesAt: string };
+export type ExtensionInput = WindowInput & { reason: string };
+
+/** Deadlines are checked this often; votes after a deadline are refused even before the check closes it. */
+const CLOSE_CHECK_MS = 60 * 1000;
+/** Closing at a deadline is done by the system, not by a member. */
+const SYSTEM_ACTOR = { id: 'system', name: 'النظام' };
+
+const DOWNSTREAM: DownstreamHandling[] = ['invalidate', 'conditional'];
+
+// --- Body parsing ---
+export function parseReopenInput(raw: unknown): ReopenInput {
+  const body = bodyFields(raw);
+  const downstream = optionalString(body.downstream);
+  return {
+    reason: requireString(body.reason, 'اذكر سبب إعادة فتح البوابة.'),
+    downstream: downstream === undefined ? undefined : requireOption(downstream, DOWNSTREAM, 'طريقة التعامل مع المراحل اللاحقة غير معروفة.'),
+  };
+}
+
+function requireClosingTime(value: unknown): string {
+  const raw = requireString(value, 'حدد موعد إغلاق التصويت.');
+  const time = new Date(raw);
+  if (Number.isNaN(time.getTime())) throw new ApiError(400, 'موعد إغلاق التصويت غير صالح.');
+  if (time.getTime() <= Date.now()) throw new ApiError(400, 'يجب أن يكون موعد إغلاق التصويت في المستقبل.');
+  return time.toISOString();
+}
+
+export function parseWindowInput(raw: unknown): WindowInput {
+  const body = bodyFields(raw);
+  return { closesAt: requireClosingTime(body.closesAt) };
+}
+
+export function parseExtensionInput(raw: unknown): ExtensionInput {
+  const body = bodyFields(raw);
+  return { closesAt: requireClosingTime(body.closesAt), reason: requireString(body.reason, 'اذكر مبرر تمديد مهلة التصويت.') };
+}
+
+// --- Voting windows ---
+/** Opens the active gate for voting until `closesAt`. A gate whose last window closed without approval can be opened again. */
+export function openWindow(db: DB, phaseId: number, input: WindowInput, actor: User): VotingWindow {
+  const phase = requirePhase(db, phaseId);
+  const planId = planOfPhase(db, phaseId);
+  requireOpenPlan(db, planId);
+  if (getActivePhase(listPhases(db, planId), getVotes(db, planId), listMembers(db, planId)) !== phaseId) {
+    throw new ApiError(409, 'يُفتح التصويت على المرحلة النشطة فقط.');
+  }
+  if (isWindowOpen(phase.votingWindow)) throw new ApiError(409, 'باب التصويت مفتوح بالفعل؛ مدّد المهلة بدلاً من ذلك.');
+  db.prepare('INSERT INTO voting_windows (phase_id, opens_at, closes_at, opened_by_name) VALUES (?, ?, ?, ?)')
+    .run(phaseId, new Date().toISOString(), input.closesAt, actor.name);
+  return requirePhase(db, phaseId).votingWindow!;
+}
+
+/** Moves an open window's deadline later, keeping the earlier deadline and the reason with the window. */
+export function extendWindow(db: DB, phaseId: number, input: ExtensionInput, actor: User): VotingWindow {
+  const window = requirePhase(db, phaseId).votingWindow;
+  requireOpenPlan(db, planOfPhase(db, phaseId));
+  if (!window || !isWindowOpen(window)) throw new ApiError(409, 'لا يوجد باب تصويت مفتوح على هذه البوابة لتمديده.');
+  if (input.closesAt <= window.closesAt) throw new ApiError(400, 'يجب أن يكون الموعد الجديد بعد موعد الإغلاق الحالي.');
+  db.prepare(`
+    INSERT INTO voting_window_extensions (window_id, previous_closes_at, closes_at, reason, actor_name, created_at) VALUES (?, ?, ?, ?, ?, ?)
+  `).run(window.id, window.closesAt, input.closesAt, input.reason, actor.name, new Date().toISOString());
+  db.prepare('UPDATE voting_windows SET closes_at = ? WHERE id = ?').run(input.closesAt, window.id);
+  return requirePhase(db, phaseId).votingWindow!;
+}
+
+/** Closes every window whose deadline has passed, recording the outcome of the votes received. Returns the closed phases. */
+export function closeExpiredWindows(db: DB, now = new Date()): Phase[] {
+  const due = listPhases(db).filter(p => p.votingWindow && !p.votingWindow.closedAt && p.votingWindow.closesAt <= now.toISOString());
+  for (const phase of due) {
+    const planId = planOfPhase(db, phase.id);
+    const outcome = closingOutcome(phase, getVotes(db, planId)[phase.id], listMembers(db, planId));
+    db.prepare('UPDATE voting_windows SET closed_at = ?, outcome = ? WHERE id = ?').run(now.toISOString(), outcome, phase.votingWindow!.id);
+  }
+  return due.map(p => requirePhase(db, p.id));
+}
+
+export type GateCloser = ReturnType<typeof createGateCloser>;
+
+/**
+ * Closes gates at their deadlines, once a minute. Each closing is audited and
+ * announced like a change made by a member, with the system as the actor.
+ */
+export function createGateCloser(db: DB, events: EventHub) {
+  let timer: ReturnType<typeof setInterval> | undefined;
+
+  const run = (now = new Date()): Phase[] => {
+    const closed = db.transaction(() => {
+      const activeBefore = notices.activePhases(db);
+      const closed = closeExpiredWindows(db, now);
+      for (const phase of closed) {
+        recordAudit(db, { action: 'gate.closed', actor: SYSTEM_ACTOR, phaseId: phase.id, after: phase.votingWindow });
+        notices.votingClosed(db, phase, SYSTEM_ACTOR);
+      }
+      notices.phaseOpened(db, activeBefore, SYSTEM_ACTOR);
+      return closed;
+    })();
+    for (const phase of closed) {
+      events.publish('gate.closed', {
+        planId: planOfPhase(db, phase.id), phaseId: phase.id, gateOutcome: phase.votingWindow!.outcome,
+        actorId: SYSTEM_ACTOR.id, actorName: SYSTEM_ACTOR.name,
+      });
+    }
+    return closed;
+  };
+
+  const start = () => {
+    if (timer) return;
+    const tick = () => {
+      try {
+        run();
+      } catch (err) {
+        console.error('Closing voting windows failed', err);
+      }
+    };
+    timer = setInterval(tick, CLOSE_CHECK_MS);
+    timer.unref();
+    tick();
+  };
+
+  const stop = () => {
+    clearInterval(timer);
+    timer = undefined;
+  };
+
+  return { run, start, stop };
+}
+
+// --- Reopening ---
+/** Later phases of the same plan that already have votes: the ones a reopening has to settle. */
+export function downstreamPhases(db: DB, phaseId: number): Phase[] {
+  const phase = requirePhase(db, phaseId);
+  const planId = planOfPhase(db, phaseId);
+  const votes = getVotes(db, planId);
+  return listPhases(db, planId).filter(p => p.number > phase.number && (votes[p.id]?.length ?? 0) > 0);
+}
+
+export function reopenGate(db: DB, phaseId: number, input: ReopenInput, actor: User): PhaseReopening {
+  const phase = requirePhase(db, phaseId);
+  const planId = planOfPhase(db, phaseId);
+  requireOpenPlan(db, planId);
+  if (!isPhaseApproved(phase, getVotes(db, planId)[phaseId], listMembers(db, planId))) {
+    throw new ApiError(409, 'لم تُعتمد هذه البوابة بعد؛ يمكن إلغاء أصواتها مباشرة.');
+  }
+  const later = downstreamPhases(db, phaseId);
+  if (later.length > 0 && !input.downstream) throw new ApiError(400, 'حدد مصير أصوات المراحل اللاحقة قبل إعادة فتح البوابة.');
+  const downstream = input.downstream ?? 'invalidate';
+
+  clearVotes(db, phaseId, actor, input.reason);
+  cancelVotingWindows(db, phaseId, true);
+  if (downstream === 'invalidate') {
+    for (const p of later) {
+      clearVotes(db, p.id, actor, input.reason);
+      cancelVotingWindows(db, p.id, true);
+    }
+  }
+  const { lastInsertRowid } = db.prepare(`
+    INSERT INTO phase_reopenings (phase_id, reason, downstream, affected_phase_ids, actor_name, created_at) VALUES (?, ?, ?, ?, ?, ?)
+  `).run(phaseId, input.reason, downstream, JSON.stringify(later.map(p => p.id)), actor.name, new Date().toISOString());
+  return listReopenings(db).find(r => r.id === Number(lastInsertRowid))!;
+}
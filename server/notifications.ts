@@ -0,0 +1,216 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { activeMembers, canReviewTask, getActivePhase, votingMembers } from '../src/board';
+import type { DiscussionPost, DiscussionThread, InboxItem, InboxKind, InboxPage, Phase, PhaseReopening, Proxy, Task, TaskReviewDecision, User, Votes } from '../src/types';
+import type { DB } from './db';
+import { getTaskCompletionTimes, getVotes, listMembers, listPhases, listPlans, planOfPhase, requireMember, requirePhase, requirePlan } from './store';
+
+// Per-member inbox. Live events go to everyone who is connected; these notices
+// are stored for the members a change actually concerns, so they survive a
+// reload and are waiting for members who were offline. A notice is stored as
+// its Arabic template and the values for its placeholders, so each member's
+// browser shows it in their own language.
+
+const PAGE_SIZE = 20;
+
+type InboxRow = {
+  id: number; kind: InboxKind; message: string; params: string | null; phase_id: number | null; task_id: string | null; read_at: string | null; created_at: string;
+};
+type NoticeParams = NonNullable<InboxItem['params']>;
+type Notice = { kind: InboxKind; message: string; params: NoticeParams; phaseId?: number; taskId?: string };
+
+const toItem = (row: InboxRow): InboxItem => ({
+  id: row.id,
+  kind: row.kind,
+  message: row.message,
+  ...(row.params !== null ? { params: JSON.parse(row.params) } : {}),
+  ...(row.phase_id !== null ? { phaseId: row.phase_id } : {}),
+  ...(row.task_id !== null ? { taskId: row.task_id } : {}),
+  read: row.read_at !== null,
+  createdAt: row.created_at,
+});
+
+/** A phase is named with its plan in notices, as the inbox spans every plan the member belongs to. */
+function phaseParams(db: DB, phaseId: number): { phase: number; plan: string } {
+  return { phase: requirePhase(db, phaseId).number, plan: requirePlan(db, planOfPhase(db, phaseId)).title };
+}
+
+/** Stores a notice for each recipient, skipping whoever caused it. */
+function send(db: DB, recipients: string[], actorId: string, notice: Notice) {
+  const insert = db.prepare('INSERT INTO notifications (member_id, kind, message, params, phase_id, task_id, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)');
+  const time = new Date().toISOString();
+  const params = JSON.stringify(notice.params);
+  for (const memberId of new Set(recipients)) {
+    if (memberId !== actorId) insert.run(memberId, notice.kind, notice.message, params, notice.phaseId ?? null, notice.taskId ?? null, time);
+  }
+}
+
+// --- Inbox ---
+/** Newest first, one page at a time; pass the last id seen as `beforeId` for the next page. */
+export function listInbox(db: DB, memberId: string, beforeId?: number): InboxPage {
+  const rows = db.prepare(`
+    SELECT * FROM notifications WHERE member_id = ? AND id < ? ORDER BY id DESC LIMIT ${PAGE_SIZE + 1}
+  `).all(memberId, beforeId ?? Number.MAX_SAFE_INTEGER) as InboxRow[];
+  const { unread } = db.prepare('SELECT COUNT(*) AS unread FROM notifications WHERE member_id = ? AND read_at IS NULL')
+    .get(memberId) as { unread: number };
+  return { items: rows.slice(0, PAGE_SIZE).map(toItem), unread, hasMore: rows.length > PAGE_SIZE };
+}
+
+/** Marks the given notices read, or all of the member's notices when `ids` is omitted. */
+export function markRead(db: DB, memberId: string, ids?: number[]) {
+  const time = new Date().toISOString();
+  if (!ids) {
+    db.prepare('UPDATE notifications SET read_at = ? WHERE member_id = ? AND read_at IS NULL').run(time, memberId);
+    return;
+  }
+  const update = db.prepare('UPDATE notifications SET read_at = ? WHERE member_id = ? AND id = ? AND read_at IS NULL');
+  for (const id of ids) update.run(time, memberId, id);
+}
+
+// --- Targeting rules ---
+export function taskAssigned(db: DB, task: Task, memberIds: string[], actor: User) {
+  send(db, memberIds, actor.id, {
+    kind: 'task.assigned', taskId: task.id, phaseId: task.phaseId,
+    message: 'أُسندت إليك مهمة: {task} ({startDate} — {endDate})', params: { task: task.title, startDate: task.startDate, endDate: task.endDate },
+  });
+}
+
+/** Tells the reviewer once the last assignee reports the task done. */
+export function taskAwaitingReview(db: DB, task: Task, actor: User) {
+  const completedAt = getTaskCompletionTimes(db)[task.id] || {};
+  if (!task.assignees.every(id => completedAt[id])) return;
+  const reviewers = activeMembers(listMembers(db)).filter(m => canReviewTask(task, m)).map(m => m.id);
+  send(db, reviewers, actor.id, {
+    kind: 'task.awaiting_review', taskId: task.id, phaseId: task.phaseId, message: 'مهمة بانتظار مراجعتك: {task}', params: { task: task.title },
+  });
+}
+
+export function taskReviewed(db: DB, task: Task, decision: TaskReviewDecision, note: string | undefined, actor: User) {
+  send(db, task.assignees, actor.id, {
+    kind: 'task.reviewed', taskId: task.id, phaseId: task.phaseId,
+    message: decision === 'accepted' ? 'اعتمد {name} مهمة: {task}' : 'أعاد {name} مهمة {task} للمكلفين: {note}',
+    params: { name: actor.name, task: task.title, note: note ?? '' },
+  });
+}
+
+/** The phase open for voting in each plan that is not archived, keyed by plan id. */
+export function activePhases(db: DB): Map<number, number> {
+  return new Map(listPlans(db).filter(plan => !plan.archivedAt).map(plan => [
+    plan.id, getActivePhase(listPhases(db, plan.id), getVotes(db, plan.id), listMembers(db, plan.id)),
+  ]));
+}
+
+/** Announces the next gate to the plan's active members when a change moves a plan to it. */
+export function phaseOpened(db: DB, previous: Map<number, number>, actor: Pick<User, 'id'>) {
+  for (const [planId, current] of activePhases(db)) {
+    const phase = listPhases(db, planId).find(p => p.id === current);
+    if (current === previous.get(planId) || !phase) continue;
+    send(db, activeMembers(listMembers(db, planId)).map(m => m.id), actor.id, {
+      kind: 'phase.opened', phaseId: phase.id,
+      message: 'انتقلت الخطة إلى المرحلة {phase} من {plan}: {title}؛ يُعلن موعد التصويت عند فتحه.',
+      params: { ...phaseParams(db, phase.id), title: phase.title },
+    });
+  }
+}
+
+/** Voting members who have not voted yet hear when the chair opens the gate or extends its deadline. */
+export function votingWindowChanged(db: DB, phase: Phase, actor: User, reason?: string) {
+  const planId = planOfPhase(db, phase.id);
+  const voted = new Set((getVotes(db, planId)[phase.id] || []).map(v => v.id));
+  const recipients = votingMembers(listMembers(db, planId)).filter(m => !voted.has(m.id)).map(m => m.id);
+  const params = { ...phaseParams(db, phase.id), closesAt: phase.votingWindow!.closesAt };
+  send(db, recipients, actor.id, reason
+    ? { kind: 'gate.extended', phaseId: phase.id, message: 'مُدّدت مهلة التصويت على المرحلة {phase} من {plan} حتى {closesAt}: {reason}', params: { ...params, reason } }
+    : { kind: 'phase.opened', phaseId: phase.id, message: 'فُتح التصويت على المرحلة {phase} من {plan}: {title}، حتى {closesAt}', params: { ...params, title: phase.title } });
+}
+
+/** The plan's active members hear how a gate closed at its deadline. */
+export function votingClosed(db: DB, phase: Phase, actor: Pick<User, 'id'>) {
+  const planId = planOfPhase(db, phase.id);
+  send(db, activeMembers(listMembers(db, planId)).map(m => m.id), actor.id, {
+    kind: 'gate.closed', phaseId: phase.id,
+    message: phase.votingWindow?.outcome === 'approved'
+      ? 'انتهت مهلة التصويت على المرحلة {phase} من {plan} واعتُمدت البوابة بالأصوات المستلمة.'
+      : 'انتهت مهلة التصويت على المرحلة {phase} من {plan} دون اعتماد البوابة.',
+    params: phaseParams(db, phase.id),
+  });
+}
+
+/** Comments reach the other members who voted on the same phase. */
+export function voteCommented(db: DB, phaseId: number, authorId: string, comment: string, actor: User) {
+  const phaseVotes = getVotes(db)[phaseId] || [];
+  const author = phaseVotes.find(v => v.id === authorId)?.name ?? actor.name;
+  const voters = phaseVotes.filter(v => v.id !== authorId).map(v => v.id);
+  send(db, voters, actor.id, {
+    kind: 'vote.comment', phaseId, message: 'علّق {name} على المرحلة {phase} من {plan}: {comment}', params: { ...phaseParams(db, phaseId), name: author, comment },
+  });
+}
+
+export function votesRemoved(db: DB, phaseId: number, memberIds: string[], actor: User) {
+  send(db, memberIds, actor.id, {
+    kind: 'vote.removed', phaseId, message: 'ألغى {name} صوتك في المرحلة {phase} من {plan}؛ يمكنك التصويت مجدداً.', params: { ...phaseParams(db, phaseId), name: actor.name },
+  });
+}
+
+/** Everyone whose vote the reopening cleared or made conditional; `before` are the plan's votes beforehand. */
+export function phaseReopened(db: DB, reopening: PhaseReopening, before: Votes, actor: User) {
+  const gate = phaseParams(db, reopening.phaseId).phase;
+  const voters = (phaseId: number) => (before[phaseId] || []).map(v => v.id);
+  send(db, voters(reopening.phaseId), actor.id, {
+    kind: 'phase.reopened', phaseId: reopening.phaseId,
+    message: 'أعاد {name} فتح بوابة المرحلة {phase} من {plan} وأُلغيت الأصوات عليها: {reason}',
+    params: { ...phaseParams(db, reopening.phaseId), name: actor.name, reason: reopening.reason },
+  });
+  for (const phaseId of reopening.affectedPhaseIds) {
+    send(db, voters(phaseId), actor.id, {
+      kind: 'phase.reopened', phaseId,
+      message: reopening.downstream === 'invalidate'
+        ? 'أُلغيت الأصوات على المرحلة {phase} من {plan} بعد إعادة فتح بوابة المرحلة {gate}: {reason}'
+        : 'أصبح اعتماد المرحلة {phase} من {plan} مشروطاً بإعادة اعتماد بوابة المرحلة {gate}: {reason}',
+      params: { ...phaseParams(db, phaseId), gate, reason: reopening.reason },
+    });
+  }
+}
+
+/** Both parties hear about a proxy, except whoever recorded it. */
+export function proxyGranted(db: DB, proxy: Proxy, actor: User) {
+  const grantor = requireMember(db, proxy.grantorId);
+  const holder = requireMember(db, proxy.holderId);
+  send(db, [holder.id, grantor.id], actor.id, {
+    kind: 'proxy.granted', phaseId: proxy.phaseId,
+    message: 'وكّل {grantor} {holder} بالتصويت على المرحلة {phase} من {plan} من {fromDate} إلى {untilDate}.',
+    params: { ...phaseParams(db, proxy.phaseId), grantor: grantor.name, holder: holder.name, fromDate: proxy.validFrom, untilDate: proxy.validUntil },
+  });
+}
+
+export function proxyRevoked(db: DB, proxy: Proxy, actor: User) {
+  const grantor = requireMember(db, proxy.grantorId);
+  const holder = requireMember(db, proxy.holderId);
+  send(db, [holder.id, grantor.id], actor.id, {
+    kind: 'proxy.revoked', phaseId: proxy.phaseId,
+    message: 'ألغى {name} توكيل {grantor} لـ{holder} على المرحلة {phase} من {plan}.',
+    params: { ...phaseParams(db, proxy.phaseId), name: actor.name, grantor: grantor.name, holder: holder.name },
+  });
+}
+
+export function discussionMentioned(db: DB, thread: DiscussionThread, post: DiscussionPost, memberIds: string[], actor: User) {
+  send(db, memberIds, actor.id, {
+    kind: 'discussion.mention', phaseId: thread.phaseId,
+    message: 'أشار إليك {name} في نقاش «{thread}» على المرحلة {phase} من {plan}: {post}',
+    params: { ...phaseParams(db, thread.phaseId), name: actor.name, thread: thread.title, post: post.body },
+  });
+}
+
+/** A reply reaches the members it mentions, and everyone else who has posted in the thread. */
+export function discussionReplied(db: DB, thread: DiscussionThread, post: DiscussionPost, actor: User) {
+  discussionMentioned(db, thread, post, post.mentions, actor);
+  const participants = thread.posts.map(p => p.authorId).filter(id => !post.mentions.includes(id));
+  send(db, participants, actor.id, {
+    kind: 'discussion.reply', phaseId: thread.phaseId,
+    message: 'ردّ {name} في نقاش «{thread}» على المرحلة {phase} من {plan}: {post}',
+    params: { ...phaseParams(db, thread.phaseId), name: actor.name, thread: thread.title, post: post.body },
+  });
+}
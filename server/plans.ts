@@ -0,0 +1,146 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { fromDay, toDay } from '../src/schedule';
+import type { Plan, User } from '../src/types';
+import * as config from './config';
+import type { DB } from './db';
+import { createDraft } from './drafts';
+import { ApiError } from './errors';
+import { listDrafts, listMembers, listPhases, listPlans, listTasks, requireOpenPlan, requirePlan } from './store';
+import { bodyFields, requireDate, requireString, stringList } from './validate';
+
+// Plans: each strategic cycle has its own phases, tasks, members and date
+// range. Archived plans stay readable but can no longer change. Members see
+// the plans they belong to; admins see every plan.
+
+export type PlanInput = Pick<Plan, 'title' | 'startDate' | 'endDate' | 'memberIds'>;
+export type CloneInput = Pick<Plan, 'title' | 'startDate'>;
+
+// --- Body parsing ---
+export function parsePlanInput(raw: unknown): PlanInput {
+  const body = bodyFields(raw);
+  const input: PlanInput = {
+    title: requireString(body.title, 'عنوان الخطة مطلوب.'),
+    startDate: requireDate(body.startDate, 'تاريخ بداية الخطة'),
+    endDate: requireDate(body.endDate, 'تاريخ نهاية الخطة'),
+    memberIds: [...new Set(stringList(body.memberIds, 'قائمة أعضاء الخطة'))],
+  };
+  if (input.endDate < input.startDate) throw new ApiError(400, 'تاريخ نهاية الخطة يسبق تاريخ بدايتها.');
+  if (input.memberIds.length === 0) throw new ApiError(400, 'أضف عضواً واحداً على الأقل إلى الخطة.');
+  return input;
+}
+
+export function parseCloneInput(raw: unknown): CloneInput {
+  const body = bodyFields(raw);
+  return {
+    title: requireString(body.title, 'عنوان الخطة الجديدة مطلوب.'),
+    startDate: requireDate(body.startDate, 'تاريخ بداية الخطة الجديدة'),
+  };
+}
+
+// --- Access ---
+export function visiblePlans(db: DB, user: User): Plan[] {
+  const plans = listPlans(db);
+  return user.isAdmin ? plans : plans.filter(p => p.memberIds.includes(user.id));
+}
+
+/**
+ * The plan a request works on: the one the client asked for, or by default
+ * the newest open plan the user can see.
+ */
+export function planFor(db: DB, user: User, requested?: string): Plan {
+  const plans = visiblePlans(db, user);
+  if (requested) {
+    const plan = plans.find(p => String(p.id) === requested);
+    if (!plan) throw new ApiError(404, 'الخطة غير موجودة أو لست من أعضائها.');
+    return plan;
+  }
+  const plan = [...plans].reverse().find(p => !p.archivedAt) ?? plans[plans.length - 1];
+  if (!plan) throw new ApiError(403, 'لست عضواً في أي خطة بعد.');
+  return plan;
+}
+
+// --- Plans ---
+function setMembers(db: DB, planId: number, memberIds: string[]) {
+  const known = new Set(listMembers(db).map(m => m.id));
+  const unknown = memberIds.find(id => !known.has(id));
+  if (unknown) throw new ApiError(400, `العضو ${unknown} غير مسجل.`);
+  db.prepare('DELETE FROM plan_members WHERE plan_id = ?').run(planId);
+  const insert = db.prepare('INSERT INTO plan_members (plan_id, member_id) VALUES (?, ?)');
+  for (const memberId of memberIds) insert.run(planId, memberId);
+}
+
+export function createPlan(db: DB, input: PlanInput, clonedFromId?: number): Plan {
+  const { lastInsertRowid } = db.prepare('INSERT INTO plans (title, start_date, end_date, cloned_from, created_at) VALUES (?, ?, ?, ?, ?)')
+    .run(input.title, input.startDate, input.endDate, clonedFromId ?? null, new Date().toISOString());
+  const planId = Number(lastInsertRowid);
+  setMembers(db, planId, input.memberIds);
+  return requirePlan(db, planId);
+}
+
+/** Members removed from a plan keep their recorded votes and task history. */
+export function updatePlan(db: DB, planId: number, input: PlanInput): Plan {
+  requireOpenPlan(db, planId);
+  db.prepare('UPDATE plans SET title = ?, start_date = ?, end_date = ? WHERE id = ?').run(input.title, input.startDate, input.endDate, planId);
+  setMembers(db, planId, input.memberIds);
+  return requirePlan(db, planId);
+}
+
+export function archivePlan(db: DB, planId: number): Plan {
+  requireOpenPlan(db, planId);
+  db.prepare('UPDATE plans SET archived_at = ? WHERE id = ?').run(new Date().toISOString(), planId);
+  return requirePlan(db, planId);
+}
+
+export function restorePlan(db: DB, planId: number): Plan {
+  if (!requirePlan(db, planId).archivedAt) throw new ApiError(409, 'الخطة غير مؤرشفة.');
+  db.prepare('UPDATE plans SET archived_at = NULL WHERE id = ?').run(planId);
+  return requirePlan(db, planId);
+}
+
+/**
+ * Starts a new plan from an existing one as a template: its phases, draft
+ * titles, tasks and members, with every date moved by the distance between
+ * the two start dates. Votes, proxies, drafts' text and task progress stay
+ * with the original plan. Archived plans can be cloned too.
+ */
+export function clonePlan(db: DB, sourceId: number, input: CloneInput): Plan {
+  const source = requirePlan(db, sourceId);
+  const offset = toDay(input.startDate) - toDay(source.startDate);
+  const shift = (date: string) => fromDay(toDay(date) + offset);
+  const active = new Set(listMembers(db).filter(m => m.active).map(m => m.id));
+  const memberIds = source.memberIds.filter(id => active.has(id));
+  const plan = createPlan(db, { title: input.title, startDate: input.startDate, endDate: shift(source.endDate), memberIds }, source.id);
+
+  const phaseIds = new Map<number, number>();
+  const drafts = listDrafts(db, source.id);
+  for (const { id, number: _, votingWindow: __, ...phase } of listPhases(db, source.id)) {
+    const copy = config.createPhase(db, plan.id, phase);
+    phaseIds.set(id, copy.id);
+    for (const draft of drafts.filter(d => d.phaseId === id)) createDraft(db, copy.id, draft.title);
+  }
+
+  // Dependencies are wired up once every copy exists, since a task may depend on one listed after it.
+  const taskIds = new Map<string, string>();
+  const tasks = listTasks(db, source.id);
+  for (const { id, dependsOn: _, ...task } of tasks) {
+    const copy = config.createTask(db, plan.id, {
+      ...task,
+      assignees: task.assignees.filter(m => memberIds.includes(m)),
+      startDate: shift(task.startDate),
+      endDate: shift(task.endDate),
+      phaseId: task.phaseId !== undefined ? phaseIds.get(task.phaseId) : undefined,
+      reviewerId: task.reviewerId && memberIds.includes(task.reviewerId) ? task.reviewerId : undefined,
+      dependsOn: [],
+    });
+    taskIds.set(id, copy.id);
+  }
+  const setDependencies = db.prepare('UPDATE tasks SET depends_on = ? WHERE id = ?');
+  for (const task of tasks) {
+    if (task.dependsOn.length > 0) setDependencies.run(JSON.stringify(task.dependsOn.map(dep => taskIds.get(dep))), taskIds.get(task.id));
+  }
+  return requirePlan(db, plan.id);
+}
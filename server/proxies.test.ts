@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import { can } from '../src/board';
+import type { Member } from '../src/types';
+import { type DB, openDatabase } from './db';
+import { openWindow } from './gates';
+import { grantProxy, revokeProxy, today, usableProxy } from './proxies';
+import { castVote, findVote, listMembers, listPhases, listPlans } from './store';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('voting under a written proxy', () => {
+  let db: DB;
+  let phaseId: number;
+  let chair: Member;
+  let grantor: Member;
+  let holder: Member;
+
+  const grant = () => grantProxy(db, grantor.id, { phaseId, holderId: holder.id, validFrom: today(), validUntil: today(), statement: 'أوكّل زميلي بالتصويت عني.' });
+
+  beforeEach(() => {
+    db = openDatabase(':memory:');
+    const planId = listPlans(db)[0].id;
+    phaseId = listPhases(db, planId)[0].id;
+    const members = listMembers(db, planId);
+    chair = members.find(m => m.isAdmin)!;
+    [grantor, holder] = members.filter(m => m.active && can(m, 'vote') && m.id !== chair.id);
+    openWindow(db, phaseId, { closesAt: new Date(Date.now() + DAY_MS).toISOString() }, chair);
+  });
+
+  it('lets the holder cast the grantor\'s vote and records who cast it', () => {
+    const proxy = grant();
+    assert.equal(usableProxy(db, phaseId, grantor.id, holder.id)?.id, proxy.id);
+    castVote(db, phaseId, grantor.id, 'approve', holder, undefined, proxy.id);
+    const vote = findVote(db, phaseId, grantor.id)!;
+    assert.equal(vote.decision, 'approve');
+    assert.equal(vote.proxyHolderId, holder.id);
+  });
+
+  it('does not let the holder recuse on the grantor\'s behalf', () => {
+    const proxy = grant();
+    assert.throws(() => castVote(db, phaseId, grantor.id, 'recuse', holder, 'تعارض مصالح', proxy.id), { status: 403 });
+  });
+
+  it('refuses a proxy to oneself and a second proxy on the same phase', () => {
+    assert.throws(() => grantProxy(db, grantor.id, { phaseId, holderId: grantor.id, validFrom: today(), validUntil: today(), statement: 'توكيل' }), { status: 400 });
+    grant();
+    assert.throws(grant, { status: 409 });
+  });
+
+  it('stops being usable once revoked, and can be revoked only once', () => {
+    const proxy = grant();
+    assert.ok(revokeProxy(db, proxy.id, grantor).revokedAt);
+    assert.equal(usableProxy(db, phaseId, grantor.id, holder.id), undefined);
+    assert.throws(() => revokeProxy(db, proxy.id, holder), { status: 409 });
+  });
+
+  it('lets only the two parties or an admin revoke it', () => {
+    const proxy = grant();
+    const other = listMembers(db, listPlans(db)[0].id).find(m => !m.isAdmin && m.id !== grantor.id && m.id !== holder.id)!;
+    assert.throws(() => revokeProxy(db, proxy.id, other), { status: 403 });
+    assert.ok(revokeProxy(db, proxy.id, chair).revokedAt);
+  });
+});
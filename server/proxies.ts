@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { can, isPhaseApproved, isProxyActive } from '../src/board';
+import type { Proxy, User } from '../src/types';
+import type { DB } from './db';
+import { ApiError } from './errors';
+import { getVotes, isPlanMember, listMembers, listProxies, planOfPhase, requireMember, requireOpenPlan, requirePhase } from './store';
+import { bodyFields, optionalInt, requireDate, requireString } from './validate';
+
+// Written proxies: a member lets another member cast their vote on one phase
+// for a limited period. Proxies are never deleted, only revoked, and votes
+// cast under one keep pointing at it.
+
+export type ProxyInput = { phaseId: number; holderId: string; validFrom: string; validUntil: string; statement: string };
+
+export const today = () => new Date().toISOString().slice(0, 10);
+
+export function parseProxyInput(raw: unknown): ProxyInput {
+  const body = bodyFields(raw);
+  const phaseId = optionalInt(body.phaseId, 'رقم المرحلة غير صالح.');
+  if (phaseId === undefined) throw new ApiError(400, 'حدد المرحلة التي يشملها التوكيل.');
+  const validFrom = requireDate(body.validFrom, 'تاريخ بداية التوكيل');
+  const validUntil = requireDate(body.validUntil, 'تاريخ نهاية التوكيل');
+  if (validUntil < validFrom) throw new ApiError(400, 'تاريخ نهاية التوكيل يسبق تاريخ بدايته.');
+  return {
+    phaseId,
+    holderId: requireString(body.holderId, 'حدد العضو الموكَّل.'),
+    validFrom,
+    validUntil,
+    statement: requireString(body.statement, 'نص التوكيل مطلوب.'),
+  };
+}
+
+export function requireProxy(db: DB, proxyId: number): Proxy {
+  const proxy = listProxies(db).find(p => p.id === proxyId);
+  if (!proxy) throw new ApiError(404, 'التوكيل غير موجود.');
+  return proxy;
+}
+
+/** The grantor's proxy the holder may use on this phase today, if any. */
+export function usableProxy(db: DB, phaseId: number, grantorId: string, holderId: string): Proxy | undefined {
+  return listProxies(db).find(p => p.phaseId === phaseId && p.grantorId === grantorId && p.holderId === holderId && isProxyActive(p, today()));
+}
+
+export function grantProxy(db: DB, grantorId: string, input: ProxyInput): Proxy {
+  const grantor = requireMember(db, grantorId);
+  const holder = requireMember(db, input.holderId);
+  if (!grantor.active || !holder.active) throw new ApiError(400, 'التوكيل متاح بين الأعضاء النشطين فقط.');
+  if (!can(grantor, 'vote') || !can(holder, 'vote')) throw new ApiError(400, 'التوكيل متاح بين الأعضاء أصحاب حق التصويت فقط.');
+  if (grantor.id === holder.id) throw new ApiError(400, 'لا يمكن توكيل العضو لنفسه.');
+  const phase = requirePhase(db, input.phaseId);
+  const planId = planOfPhase(db, phase.id);
+  requireOpenPlan(db, planId);
+  if (!isPlanMember(db, planId, grantor.id) || !isPlanMember(db, planId, holder.id)) {
+    throw new ApiError(400, 'التوكيل متاح بين أعضاء الخطة نفسها فقط.');
+  }
+  if (isPhaseApproved(phase, getVotes(db, planId)[phase.id], listMembers(db, planId))) throw new ApiError(409, 'اعتُمدت بوابة هذه المرحلة.');
+  if (input.validUntil < today()) throw new ApiError(400, 'انتهت مدة التوكيل قبل أن يبدأ.');
+  if (listProxies(db).some(p => p.phaseId === phase.id && p.grantorId === grantor.id && !p.revokedAt && p.validUntil >= today())) {
+    throw new ApiError(409, 'يوجد توكيل قائم على هذه المرحلة؛ ألغِه أولاً.');
+  }
+
+  const { lastInsertRowid } = db.prepare(`
+    INSERT INTO proxies (phase_id, grantor_id, holder_id, valid_from, valid_until, statement, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(phase.id, grantor.id, holder.id, input.validFrom, input.validUntil, input.statement, new Date().toISOString());
+  return requireProxy(db, Number(lastInsertRowid));
+}
+
+/** Either party or an admin may revoke. Votes already cast under the proxy stand. */
+export function revokeProxy(db: DB, proxyId: number, user: User): Proxy {
+  const proxy = requireProxy(db, proxyId);
+  if (proxy.grantorId !== user.id && proxy.holderId !== user.id && !user.isAdmin) {
+    throw new ApiError(403, 'يلغي التوكيلَ الموكِّلُ أو الموكَّلُ أو مدير النظام فقط.');
+  }
+  if (proxy.revokedAt) throw new ApiError(409, 'أُلغي هذا التوكيل مسبقاً.');
+  requireOpenPlan(db, planOfPhase(db, proxy.phaseId));
+  db.prepare('UPDATE proxies SET revoked_at = ?, revoked_by_name = ? WHERE id = ?').run(new Date().toISOString(), user.name, proxyId);
+  return requireProxy(db, proxyId);
+}
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { can } from '../src/board';
+import { fromDay, toDay } from '../src/schedule';
+import type { Member, ReminderFrequency, Task } from '../src/types';
+import { type DB, openDatabase } from './db';
+import { openWindow } from './gates';
+import { createReminderEngine, pendingReminders } from './reminders';
+import { castVote, listMembers, listPhases, listPlans, listTasks, setTaskCompletion } from './store';
+import type { OutgoingMessage } from './transports';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// 2026-03-01 is a Sunday, the weekly digest day.
+const SUNDAY = '2026-03-01';
+
+describe('listing what is waiting on a member', () => {
+  let db: DB;
+  let phaseId: number;
+  let chair: Member;
+  let member: Member;
+  let task: Task;
+
+  beforeEach(() => {
+    db = openDatabase(':memory:');
+    const planId = listPlans(db)[0].id;
+    phaseId = listPhases(db, planId)[0].id;
+    const members = listMembers(db, planId);
+    chair = members.find(m => m.isAdmin)!;
+    member = members.find(m => m.active && can(m, 'vote') && listTasks(db, planId).some(t => t.assignees.includes(m.id)))!;
+    task = listTasks(db, planId).find(t => t.assignees.includes(member.id))!;
+  });
+
+  const keys = (today: string, dueSoonDays = 2) => pendingReminders(db, member, dueSoonDays, today).map(i => i.key);
+
+  it('asks for the member\'s vote only while the active gate\'s window is open and they have not voted', () => {
+    const today = new Date().toISOString().slice(0, 10);
+    assert.ok(!keys(today).includes(`vote:${phaseId}`));
+    openWindow(db, phaseId, { closesAt: new Date(Date.now() + DAY_MS).toISOString() }, chair);
+    assert.ok(keys(today).includes(`vote:${phaseId}`));
+    castVote(db, phaseId, member.id, 'approve', member);
+    assert.ok(!keys(today).includes(`vote:${phaseId}`));
+  });
+
+  it('lists a task as due within the member\'s chosen days, then as overdue', () => {
+    const end = toDay(task.endDate);
+    assert.ok(!keys(fromDay(end - 3)).includes(`due:${task.id}`));
+    assert.ok(keys(fromDay(end - 2)).includes(`due:${task.id}`));
+    assert.ok(keys(fromDay(end)).includes(`due:${task.id}`));
+    assert.ok(keys(fromDay(end + 1)).includes(`overdue:${task.id}`));
+    assert.ok(keys(fromDay(end - 5), 5).includes(`due:${task.id}`));
+  });
+
+  it('drops a task once the member has finished their part', () => {
+    setTaskCompletion(db, task.id, member.id, true);
+    assert.ok(!keys(fromDay(toDay(task.endDate) + 1)).includes(`overdue:${task.id}`));
+  });
+});
+
+describe('running the reminder schedule', () => {
+  let db: DB;
+  let member: Member;
+  let sent: OutgoingMessage[];
+  let failing: boolean;
+
+  const engineWith = (frequency: ReminderFrequency) => {
+    const engine = createReminderEngine(db, {
+      email: {
+        send: async message => {
+          if (failing) throw new Error('SMTP unavailable');
+          sent.push(message);
+        },
+      },
+    });
+    engine.setPreferences(member.id, { channel: 'email', frequency, dueSoonDays: 2, email: 'member@example.com' });
+    return engine;
+  };
+  /** Runs at a UTC time on the clock the deliveries are logged with. */
+  const runAt = (engine: ReturnType<typeof engineWith>, time: string) => {
+    mock.timers.setTime(new Date(time).getTime());
+    return engine.run(new Date(time));
+  };
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: new Date(`${SUNDAY}T00:00:00.000Z`) });
+    db = openDatabase(':memory:');
+    const planId = listPlans(db)[0].id;
+    const members = listMembers(db, planId);
+    const chair = members.find(m => m.isAdmin)!;
+    member = members.find(m => m.active && can(m, 'vote') && !m.isAdmin)!;
+    openWindow(db, listPhases(db, planId)[0].id, { closesAt: new Date(Date.now() + 30 * DAY_MS).toISOString() }, chair);
+    sent = [];
+    failing = false;
+  });
+
+  afterEach(() => mock.timers.reset());
+
+  it('sends a daily digest once per UTC day, after the digest hour', async () => {
+    const engine = engineWith('daily');
+    assert.deepEqual(await runAt(engine, `${SUNDAY}T06:59:00.000Z`), { sent: 0, failed: 0 });
+    assert.deepEqual(await runAt(engine, `${SUNDAY}T07:00:00.000Z`), { sent: 1, failed: 0 });
+    assert.deepEqual(await runAt(engine, `${SUNDAY}T23:59:00.000Z`), { sent: 0, failed: 0 });
+    assert.deepEqual(await runAt(engine, '2026-03-02T07:30:00.000Z'), { sent: 1, failed: 0 });
+    assert.equal(sent[0].to, 'member@example.com');
+    assert.match(sent[0].text, /صوتك مطلوب على بوابة المرحلة/);
+  });
+
+  it('sends a weekly digest only on Sundays', async () => {
+    const engine = engineWith('weekly');
+    assert.deepEqual(await runAt(engine, '2026-03-02T08:00:00.000Z'), { sent: 0, failed: 0 });
+    assert.deepEqual(await runAt(engine, '2026-03-08T08:00:00.000Z'), { sent: 1, failed: 0 });
+  });
+
+  it('nudges immediately and repeats a nudge only after a day', async () => {
+    const engine = engineWith('immediate');
+    const items = (today: string) => pendingReminders(db, member, 2, today).length;
+    assert.equal((await runAt(engine, `${SUNDAY}T01:00:00.000Z`)).sent, items(SUNDAY));
+    assert.equal((await runAt(engine, `${SUNDAY}T12:00:00.000Z`)).sent, 0);
+    assert.equal((await runAt(engine, '2026-03-02T01:00:00.000Z')).sent, 0);
+    assert.equal((await runAt(engine, '2026-03-02T01:01:00.000Z')).sent, items('2026-03-02'));
+    assert.ok(sent.some(message => message.subject.startsWith('تذكير: صوتك مطلوب')));
+  });
+
+  it('retries a failed delivery on the next run', async () => {
+    const engine = engineWith('daily');
+    failing = true;
+    assert.deepEqual(await runAt(engine, `${SUNDAY}T08:00:00.000Z`), { sent: 0, failed: 1 });
+    failing = false;
+    assert.deepEqual(await runAt(engine, `${SUNDAY}T08:15:00.000Z`), { sent: 1, failed: 0 });
+  });
+
+  it('refuses preferences for a channel the server has not configured', () => {
+    const engine = engineWith('daily');
+    assert.throws(() => engine.parsePreferences({ channel: 'sms', phone: '+966500000000' }), { status: 400 });
+    assert.throws(() => engine.parsePreferences({ channel: 'email' }), { status: 400 });
+    assert.deepEqual(engine.parsePreferences({ channel: 'email', email: 'member@example.com' }), { channel: 'email', frequency: 'daily', dueSoonDays: 2, email: 'member@example.com' });
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { can, getActivePhase, isWindowOpen } from '../src/board';
+import { toDay } from '../src/schedule';
+import type { Member, ReminderChannel, ReminderFrequency, ReminderPreferences, ReminderSettings } from '../src/types';
+import type { DB } from './db';
+import { ApiError } from './errors';
+import { getTaskCompletionTimes, getVotes, listMembers, listPhases, listPlans, listTasks, requireMember } from './store';
+import type { OutgoingMessage, Transports } from './transports';
+import { bodyFields, optionalInt, optionalString, requireOption } from './validate';
+
+// Scheduled reminders: pending votes on an open gate, tasks due soon and
+// overdue tasks, sent to members who opted in, over the channel they chose.
+
+const INTERVAL_MS = Number(process.env.REMINDER_INTERVAL_MINUTES || 15) * 60 * 1000;
+/** Hour of the day (UTC) after which daily and weekly digests go out. */
+const DIGEST_HOUR = Number(process.env.REMINDER_DIGEST_HOUR) || 7;
+/** Weekly digests go out on Sundays, the first day of the working week. */
+const DIGEST_WEEKDAY = 0;
+const NUDGE_REPEAT_MS = 24 * 60 * 60 * 1000;
+const MAX_DUE_SOON_DAYS = 30;
+
+const CHANNELS: ReminderChannel[] = ['email', 'sms', 'off'];
+const FREQUENCIES: ReminderFrequency[] = ['immediate', 'daily', 'weekly'];
+const DEFAULT_PREFERENCES: ReminderPreferences = { channel: 'off', frequency: 'daily', dueSoonDays: 2 };
+
+type PreferencesRow = {
+  member_id: string; channel: ReminderChannel; frequency: ReminderFrequency; due_soon_days: number; email: string | null; phone: string | null;
+};
+type ReminderItem = { key: string; text: string };
+type DeliveryKind = 'digest' | 'nudge' | 'test';
+
+const toPreferences = (row: PreferencesRow): ReminderPreferences => ({
+  channel: row.channel,
+  frequency: row.frequency,
+  dueSoonDays: row.due_soon_days,
+  ...(row.email ? { email: row.email } : {}),
+  ...(row.phone ? { phone: row.phone } : {}),
+});
+
+function parsePreferences(raw: unknown, transports: Transports): ReminderPreferences {
+  const body = bodyFields(raw);
+  const channel = requireOption(body.channel, CHANNELS, 'قناة التذكير غير معروفة.', DEFAULT_PREFERENCES.channel);
+  const frequency = requireOption(body.frequency, FREQUENCIES, 'تكرار التذكير غير معروف.', DEFAULT_PREFERENCES.frequency);
+  const dueSoonDays = optionalInt(body.dueSoonDays, 'عدد الأيام غير صالح.') ?? DEFAULT_PREFERENCES.dueSoonDays;
+  if (dueSoonDays < 0 || dueSoonDays > MAX_DUE_SOON_DAYS) throw new ApiError(400, `عدد الأيام يجب أن يكون بين 0 و ${MAX_DUE_SOON_DAYS}.`);
+
+  const email = optionalString(body.email);
+  if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) throw new ApiError(400, 'البريد الإلكتروني غير صالح.');
+  const phone = optionalString(body.phone)?.replace(/[\s-]/g, '');
+  if (phone && !/^\+?\d{8,15}$/.test(phone)) throw new ApiError(400, 'رقم الجوال غير صالح.');
+
+  if (channel !== 'off' && !transports[channel]) throw new ApiError(400, 'هذه القناة غير مفعلة على الخادم.');
+  if (channel === 'email' && !email) throw new ApiError(400, 'أدخل البريد الإلكتروني لتلقي التذكيرات عليه.');
+  if (channel === 'sms' && !phone) throw new ApiError(400, 'أدخل رقم الجوال لتلقي التذكيرات عليه.');
+  return { channel, frequency, dueSoonDays, ...(email ? { email } : {}), ...(phone ? { phone } : {}) };
+}
+
+/** What is currently waiting on the member in the open plans they belong to, keyed so nudges are not repeated. */
+export function pendingReminders(db: DB, member: Member, dueSoonDays: number, today: string): ReminderItem[] {
+  const items: ReminderItem[] = [];
+  const plans = listPlans(db).filter(plan => !plan.archivedAt && plan.memberIds.includes(member.id));
+  for (const plan of plans) {
+    const phases = listPhases(db, plan.id);
+    const votes = getVotes(db, plan.id);
+    const activeId = getActivePhase(phases, votes, listMembers(db, plan.id));
+    const phase = phases.find(p => p.id === activeId);
+    if (phase && isWindowOpen(phase.votingWindow) && can(member, 'vote') && !(votes[phase.id] || []).some(v => v.id === member.id)) {
+      items.push({ key: `vote:${phase.id}`, text: `صوتك مطلوب على بوابة المرحلة ${phase.number} من ${plan.title}: ${phase.title}` });
+    }
+  }
+
+  const completedAt = getTaskCompletionTimes(db);
+  const tasks = plans.flatMap(plan => listTasks(db, plan.id));
+  for (const task of tasks) {
+    if (!task.assignees.includes(member.id) || completedAt[task.id]?.[member.id]) continue;
+    const daysLeft = toDay(task.endDate) - toDay(today);
+    if (daysLeft < 0) {
+      items.push({ key: `overdue:${task.id}`, text: `مهمة متأخرة منذ ${-daysLeft} يوم: ${task.title} (انتهت ${task.endDate})` });
+    } else if (daysLeft <= dueSoonDays) {
+      const when = daysLeft === 0 ? 'اليوم' : daysLeft === 1 ? 'غداً' : `خلال ${daysLeft} أيام`;
+      items.push({ key: `due:${task.id}`, text: `مهمة تستحق ${when}: ${task.title} (${task.endDate})` });
+    }
+  }
+  return items;
+}
+
+/**
+ * Reminders leave the app as finished Arabic text: the interface language is
+ * chosen per browser, so the server has no language to write them in.
+ */
+function compose(member: Member, subject: string, lines: string[]): Omit<OutgoingMessage, 'to'> {
+  const link = process.env.APP_URL ? `\n\nلوحة القيادة: ${process.env.APP_URL}` : '';
+  return {
+    subject,
+    text: `مرحباً ${member.name}،\n\n${lines.map(l => `- ${l}`).join('\n')}${link}\n\nيمكنك تعديل تفضيلات التذكير من لوحة القيادة.`,
+  };
+}
+
+export type ReminderEngine = ReturnType<typeof createReminderEngine>;
+
+/**
+ * Checks every `REMINDER_INTERVAL_MINUTES` (0 turns the schedule off) and
+ * delivers through the configured transports. Each attempt is logged; a failed
+ * one is simply retried on the next run.
+ */
+export function createReminderEngine(db: DB, transports: Transports) {
+  let timer: ReturnType<typeof setInterval> | undefined;
+  let running = false;
+
+  const getPreferences = (memberId: string): ReminderPreferences => {
+    const row = db.prepare('SELECT * FROM reminder_preferences WHERE member_id = ?').get(memberId) as PreferencesRow | undefined;
+    return row ? toPreferences(row) : DEFAULT_PREFERENCES;
+  };
+
+  const settings = (memberId: string): ReminderSettings => ({
+    ...getPreferences(memberId),
+    availableChannels: (['email', 'sms'] as const).filter(channel => transports[channel]),
+  });
+
+  const setPreferences = (memberId: string, prefs: ReminderPreferences) => {
+    db.prepare(`
+      INSERT INTO reminder_preferences (member_id, channel, frequency, due_soon_days, email, phone) VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT (member_id) DO UPDATE SET
+        channel = excluded.channel, frequency = excluded.frequency, due_soon_days = excluded.due_soon_days,
+        email = excluded.email, phone = excluded.phone
+    `).run(memberId, prefs.channel, prefs.frequency, prefs.dueSoonDays, prefs.email ?? null, prefs.phone ?? null);
+  };
+
+  /** Sends one message and logs the attempt. Returns the error message, if any. */
+  const deliver = async (member: Member, prefs: ReminderPreferences, kind: DeliveryKind, itemKey: string | null, message: Omit<OutgoingMessage, 'to'>) => {
+    const transport = prefs.channel !== 'off' ? transports[prefs.channel] : undefined;
+    const recipient = prefs.channel === 'email' ? prefs.email : prefs.phone;
+    if (!transport || !recipient) return 'لا توجد قناة تذكير مفعلة.';
+    let error: string | null = null;
+    try {
+      await transport.send({ to: recipient, ...message });
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+    db.prepare('INSERT INTO reminder_deliveries (member_id, kind, item_key, channel, recipient, error, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)')
+      .run(member.id, kind, itemKey, prefs.channel, recipient, error, new Date().toISOString());
+    return error;
+  };
+
+  const sentSince = (memberId: string, kind: DeliveryKind, since: Date, itemKey?: string): boolean =>
+    !!db.prepare(`
+      SELECT 1 FROM reminder_deliveries
+      WHERE member_id = ? AND kind = ? AND error IS NULL AND created_at >= ? AND (? IS NULL OR item_key = ?)
+    `).get(memberId, kind, since.toISOString(), itemKey ?? null, itemKey ?? null);
+
+  /** One pass over every opted-in member. */
+  const run = async (now = new Date()): Promise<{ sent: number; failed: number }> => {
+    const summary = { sent: 0, failed: 0 };
+    if (running) return summary;
+    running = true;
+    try {
+      const today = now.toISOString().slice(0, 10);
+      // Days, digest hours and weekdays are all in UTC, like task dates.
+      const startOfDay = new Date(`${today}T00:00:00.000Z`);
+      const digestDue = now.getUTCHours() >= DIGEST_HOUR;
+      const rows = db.prepare("SELECT * FROM reminder_preferences WHERE channel != 'off'").all() as PreferencesRow[];
+
+      for (const row of rows) {
+        const member = requireMember(db, row.member_id);
+        if (!member.active) continue;
+        const prefs = toPreferences(row);
+        const items = pendingReminders(db, member, prefs.dueSoonDays, today);
+        const outcomes: (string | null)[] = [];
+
+        if (prefs.frequency === 'immediate') {
+          const repeatAfter = new Date(now.getTime() - NUDGE_REPEAT_MS);
+          for (const item of items.filter(i => !sentSince(member.id, 'nudge', repeatAfter, i.key))) {
+            outcomes.push(await deliver(member, prefs, 'nudge', item.key, compose(member, `تذكير: ${item.text}`, [item.text])));
+          }
+        } else if (items.length && digestDue && (prefs.frequency === 'daily' || now.getUTCDay() === DIGEST_WEEKDAY)
+          && !sentSince(member.id, 'digest', startOfDay)) {
+          const subject = `ملخص التذكيرات: ${items.length === 1 ? 'بند واحد' : `${items.length} بنود`} بانتظارك`;
+          outcomes.push(await deliver(member, prefs, 'digest', null, compose(member, subject, items.map(i => i.text))));
+        }
+
+        for (const error of outcomes) {
+          if (error) {
+            summary.failed++;
+            console.error(`Reminder to ${member.id} failed: ${error}`);
+          } else {
+            summary.sent++;
+          }
+        }
+      }
+    } finally {
+      running = false;
+    }
+    return summary;
+  };
+
+  /** Sends a sample message so members can check their contact details. */
+  const sendTest = async (memberId: string) => {
+    const member = requireMember(db, memberId);
+    const prefs = getPreferences(memberId);
+    if (prefs.channel === 'off') throw new ApiError(400, 'اختر قناة للتذكير أولاً.');
+    const error = await deliver(member, prefs, 'test', null, compose(member, 'رسالة تجريبية من لوحة القيادة', ['ستصلك التذكيرات على هذه القناة.']));
+    if (error) throw new ApiError(502, `تعذر إرسال الرسالة: ${error}`);
+  };
+
+  const start = () => {
+    if (INTERVAL_MS <= 0 || timer) return;
+    const tick = () => run().catch(err => console.error('Reminder run failed', err));
+    timer = setInterval(tick, INTERVAL_MS);
+    timer.unref();
+    tick();
+  };
+
+  const stop = () => {
+    clearInterval(timer);
+    timer = undefined;
+  };
+
+  return {
+    parsePreferences: (body: unknown) => parsePreferences(body, transports),
+    settings, getPreferences, setPreferences, run, sendTest, start, stop,
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Member, Phase, Plan, Task } from '../src/types';
+import type { DB } from './db';
+
+// --- Initial Board, Plan & Phase Data ---
+// Written to the database on first start only; after that the admin console
+// is the source of truth and these values are never read again.
+const PLAN: Pick<Plan, 'title' | 'startDate' | 'endDate'> = { title: 'خطة الـ 100 يوم', startDate: '2026-02-03', endDate: '2026-05-14' };
+
+const BOARD_MEMBERS: Omit<Member, 'active' | 'role'>[] = [
+  { id: '1077394771', name: 'د. حامد إبراهيم البلوي' },
+  { id: '1026898955', name: 'د. علي محمد الفردوس' },
+  { id: '1017569672', name: 'د. يوسف صالح العلاوي' },
+  { id: '1054208309', name: 'أ. عايشه ناصر خلف' },
+  { id: '1064258351', name: 'أ. فاطمة صالح السلمي' },
+  { id: '1060048459', name: 'د. أماني عايش العنزي' },
+  { id: '1114934381', name: 'م. عبدالله وليد الضيوفي', isAdmin: true },
+];
+
+const ALL_MEMBER_IDS = BOARD_MEMBERS.map(m => m.id);
+// The strategy team writes the drafts; everyone else starts as a voting board member.
+const STRATEGY_TEAM_IDS = ['1114934381', '1077394771', '1060048459', '1054208309', '1064258351'];
+
+const TASKS: Omit<Task, 'dependsOn'>[] = [
+  { id: 't1', title: 'التنسيق مع الجهات المشرفة', assignees: ['1017569672'], startDate: '2026-02-03', endDate: '2026-02-04', deliverables: 'خطابات رسمية لوزارة الصحة والمركز الوطني.' },
+  { id: 't2', title: 'تأمين مقر للجمعية', assignees: ['1017569672', '1026898955'], startDate: '2026-02-03', endDate: '2026-02-13', deliverables: 'مقر جاهز ومؤثث (مرحلة 1 و 2).' },
+  { id: 't3', title: 'بناء الهوية البصرية', assignees: ['1114934381', '1054208309'], startDate: '2026-02-03', endDate: '2026-02-16', deliverables: 'الشعار، الأختام، والمطبوعات الرسمية.' },
+  { id: 't4', title: 'التشخيص وتحليل المعطيات', assignees: STRATEGY_TEAM_IDS, startDate: '2026-02-10', endDate: '2026-02-13', deliverables: 'المسودة 1 (الوضع الراهن) باستخدام أدوات (PESTLE, SWOT, McKinsey 7S).', phaseId: 1 },
+  { id: 't5', title: 'هندسة الهوية والتوجه', assignees: STRATEGY_TEAM_IDS, startDate: '2026-02-14', endDate: '2026-02-17', deliverables: 'المسودات 2، 3، 4 (الرؤية، الرسالة، القيم) عبر ورش عمل.', phaseId: 2 },
+  { id: 't6', title: 'التصميم التشغيلي ونموذج العمل', assignees: STRATEGY_TEAM_IDS, startDate: '2026-02-18', endDate: '2026-02-21', deliverables: 'المسودات 5، 6 (نموذج العمل، الخطة الأولية).', phaseId: 3 },
+  { id: 't7', title: 'الحوكمة والإخراج النهائي', assignees: STRATEGY_TEAM_IDS, startDate: '2026-02-22', endDate: '2026-02-24', deliverables: 'الوثيقة الاستراتيجية الشاملة المعتمدة.', phaseId: 4 },
+  { id: 't8', title: 'إنشاء قنوات التواصل والموقع', assignees: ['1114934381'], startDate: '2026-03-05', endDate: '2026-03-12', deliverables: 'تفعيل المنصات (تويتر، يوتيوب، الموقع الإلكتروني).' },
+  { id: 't9', title: 'استخراج التراخيص والرقم 700', assignees: ['1017569672'], startDate: '2026-03-13', endDate: '2026-03-19', deliverables: 'شهادة التسجيل والرقم الموحد.' },
+  { id: 't10', title: 'حساب التأمينات الاجتماعية', assignees: ['1017569672', '1114934381'], startDate: '2026-03-20', endDate: '2026-03-24', deliverables: 'حساب مفعل وجاهز لتسجيل الموظفين.' },
+  { id: 't11', title: 'تسجيل العنوان الوطني', assignees: ['1017569672', '1114934381'], startDate: '2026-03-25', endDate: '2026-03-31', deliverables: 'شهادة العنوان الوطني المعتمدة.' },
+  { id: 't12', title: 'فتح الحساب البنكي', assignees: ['1017569672', '1114934381'], startDate: '2026-04-01', endDate: '2026-04-08', deliverables: 'حساب بنكي مفعل مع التواقيع المعتمدة.' },
+  { id: 't13', title: 'الموارد البشرية والاستقطاب', assignees: ['1017569672', '1077394771', '1026898955'], startDate: '2026-04-09', endDate: '2026-04-18', deliverables: 'تعيين المدير التنفيذي والمحاسب.' },
+  { id: 't14', title: 'الأنظمة المالية', assignees: ALL_MEMBER_IDS, startDate: '2026-04-19', endDate: '2026-04-27', deliverables: 'نظام محاسبي سحابي وموازنة معتمدة.' },
+  { id: 't15', title: 'تنمية عضوية الجمعية العمومية', assignees: ALL_MEMBER_IDS, startDate: '2026-04-28', endDate: '2026-05-03', deliverables: 'إطلاق حملة التعريف وقبول الأعضاء الجدد.' },
+  { id: 't16', title: 'إغلاق الخطة وتسليم التقرير', assignees: ALL_MEMBER_IDS, startDate: '2026-05-04', endDate: '2026-05-14', deliverables: 'التقرير الختامي لـ 100 يوم وجاهزية التشغيل.' },
+];
+
+// Task id → ids of the tasks it waits for.
+const DEPENDENCIES: Record<string, string[]> = {
+  t5: ['t4'],
+  t6: ['t5'],
+  t7: ['t6'],
+  t8: ['t3'],
+  t9: ['t1'],
+  t10: ['t9'],
+  t11: ['t9'],
+  t12: ['t11'],
+  t13: ['t10', 't12'],
+  t14: ['t12'],
+  t15: ['t8', 't9'],
+  t16: ['t7', 't13', 't14', 't15'],
+};
+
+// Draft titles only; their text is published from the board once written.
+const PHASES: (Omit<Phase, 'number'> & { drafts: string[] })[] = [
+  {
+    id: 1,
+    title: 'التشخيص الاستراتيجي',
+    tools: ['PESTLE', 'SWOT', 'McKinsey 7S'],
+    drafts: ['المسودة 1: وثيقة تحليل الوضع الراهن'],
+    gate: 'مراجعة ومصادقة',
+    decisionRule: 'unanimous',
+    quorumPercent: 100,
+  },
+  {
+    id: 2,
+    title: 'هندسة الهوية',
+    tools: ['Golden Circle', 'Collins-Porras'],
+    drafts: ['المسودة 2: الرؤية', 'المسودة 3: الرسالة', 'المسودة 4: القيم'],
+    gate: 'عصف ذهني واعتماد مبدئي',
+    decisionRule: 'unanimous',
+    quorumPercent: 100,
+  },
+  {
+    id: 3,
+    title: 'التصميم التشغيلي',
+    tools: ['Non-Profit Canvas', 'V2MOM'],
+    drafts: ['المسودة 5: نموذج العمل', 'المسودة 6: الخطة التشغيلية'],
+    gate: 'مراجعة الجدوى وتوزيع الموارد',
+    decisionRule: 'unanimous',
+    quorumPercent: 100,
+  },
+  {
+    id: 4,
+    title: 'الحوكمة والإخراج',
+    tools: ['تجميع', 'إخراج بصري', 'مراجعة قانونية'],
+    drafts: ['الوثيقة الشاملة'],
+    gate: 'التوقيع الختامي',
+    decisionRule: 'unanimous',
+    quorumPercent: 100,
+  },
+];
+
+export function seedDatabase(db: DB) {
+  const hasMembers = db.prepare('SELECT 1 FROM members LIMIT 1').get();
+  if (hasMembers) return;
+
+  db.transaction(() => {
+    const { lastInsertRowid: planId } = db.prepare('INSERT INTO plans (title, start_date, end_date, created_at) VALUES (?, ?, ?, ?)')
+      .run(PLAN.title, PLAN.startDate, PLAN.endDate, new Date().toISOString());
+
+    const insertMember = db.prepare('INSERT INTO members (id, name, is_admin, role, active) VALUES (?, ?, ?, ?, 1)');
+    const insertPlanMember = db.prepare('INSERT INTO plan_members (plan_id, member_id) VALUES (?, ?)');
+    for (const m of BOARD_MEMBERS) {
+      insertMember.run(m.id, m.name, m.isAdmin ? 1 : 0, STRATEGY_TEAM_IDS.includes(m.id) ? 'strategy_team' : 'board_member');
+      insertPlanMember.run(planId, m.id);
+    }
+
+    const insertPhase = db.prepare('INSERT INTO phases (id, plan_id, title, tools, gate, decision_rule, quorum_percent) VALUES (?, ?, ?, ?, ?, ?, ?)');
+    const insertDraft = db.prepare('INSERT INTO drafts (phase_id, title, sort_order) VALUES (?, ?, ?)');
+    for (const p of PHASES) {
+      insertPhase.run(p.id, planId, p.title, JSON.stringify(p.tools), p.gate, p.decisionRule, p.quorumPercent);
+      p.drafts.forEach((title, index) => insertDraft.run(p.id, title, index));
+    }
+
+    const insertTask = db.prepare(`
+      INSERT INTO tasks (id, plan_id, title, assignees, start_date, end_date, deliverables, phase_id, sort_order, depends_on)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    TASKS.forEach((t, index) => insertTask.run(
+      t.id, planId, t.title, JSON.stringify(t.assignees), t.startDate, t.endDate, t.deliverables, t.phaseId ?? null, index,
+      JSON.stringify(DEPENDENCIES[t.id] ?? []),
+    ));
+  })();
+}
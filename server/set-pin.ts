@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Usage: npm run set-pin -- <national-id> <pin>
+import 'dotenv/config';
+import { recordAudit } from './audit';
+import { createAuth } from './auth';
+import { openDatabase } from './db';
+
+const [memberId, pin] = process.argv.slice(2);
+if (!memberId || !pin) {
+  console.error('Usage: npm run set-pin -- <national-id> <pin>');
+  process.exit(1);
+}
+
+try {
+  const db = openDatabase();
+  const auth = createAuth(db);
+  db.transaction(() => {
+    auth.setPin(memberId, pin);
+    recordAudit(db, { action: 'member.pin_set', actor: { id: 'cli', name: 'set-pin' }, memberId });
+  })();
+  console.log(`PIN updated for ${memberId}; existing sessions were signed out.`);
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+}
@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { readRows, writeCsv, writeXlsx } from './sheets';
+
+const rows = [['عنوان المهمة', 'المكلفون'], ['مراجعة الخطة', '1000000001']];
+
+describe('reading a damaged XLSX', () => {
+  const workbook = writeXlsx([{ name: 'المهام', rows }]);
+
+  it('rejects a truncated file', () => {
+    for (const length of [10, 40, workbook.length / 2, workbook.length - 10]) {
+      assert.throws(() => readRows('tasks.xlsx', workbook.subarray(0, length)), { status: 400 });
+    }
+  });
+
+  it('rejects a file whose central directory has a bad signature', () => {
+    const damaged = Buffer.from(workbook);
+    damaged.writeUInt32LE(0, damaged.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02])));
+    assert.throws(() => readRows('tasks.xlsx', damaged), { status: 400 });
+  });
+
+  it('rejects offsets that point outside the file', () => {
+    const damaged = Buffer.from(workbook);
+    damaged.writeUInt32LE(0xffffff00, damaged.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06])) + 16);
+    assert.throws(() => readRows('tasks.xlsx', damaged), { status: 400 });
+  });
+
+  it('rejects compressed data that does not inflate', () => {
+    const damaged = Buffer.from(workbook);
+    damaged.fill(0xff, 40, 80);
+    assert.throws(() => readRows('tasks.xlsx', damaged), { status: 400 });
+  });
+
+  it('stops inflating an entry that unpacks past the limit', () => {
+    const bomb = writeXlsx([{ name: 'المهام', rows: [['أ'.repeat(5 * 1024 * 1024)]] }]);
+    assert.ok(bomb.length < 100 * 1024);
+    assert.throws(() => readRows('tasks.xlsx', bomb), { status: 400, message: 'محتوى ملف XLSX أكبر من الحد المسموح.' });
+  });
+});
+
+describe('exporting and importing a table', () => {
+  const table = [
+    ['عنوان المهمة', 'المكلفون', 'المخرجات'],
+    ['-مراجعة', '1000000001,1000000002', 'تقرير "نهائي"'],
+    ['=SUM(A1:A2)', '+966', '@فريق'],
+    ["'-مقتبس", "'=مقتبس مرتين", "'عادي"],
+    ['سطر أول\nسطر ثانٍ', 'فاصلة؛ منقوطة', ''],
+  ];
+
+  it('gives back the same rows from CSV', () => {
+    assert.deepEqual(readRows('tasks.csv', writeCsv(table)), table);
+  });
+
+  it('gives back the same rows from XLSX', () => {
+    assert.deepEqual(readRows('tasks.xlsx', writeXlsx([{ name: 'المهام', rows: table }])), table.map(row => {
+      // Empty cells are not written, so a row ends at its last value.
+      while (row.length && !row.at(-1)) row = row.slice(0, -1);
+      return row;
+    }));
+  });
+
+  it('guards formula text in CSV cells', () => {
+    const text = writeCsv(table).toString('utf8');
+    assert.ok(text.startsWith('\uFEFF'));
+    assert.ok(text.includes("\r\n'=SUM(A1:A2),'+966,'@فريق\r\n"));
+  });
+});
@@ -0,0 +1,347 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import zlib from 'zlib';
+import { ApiError } from './errors';
+
+// Reading and writing spreadsheets as CSV (RFC 4180) and XLSX (Office Open
+// XML). XLSX is a zip of XML parts, so only what plain tables need is
+// implemented on top of zlib: the first sheet's cell values on the way in,
+// text and number cells with a bold header row on the way out.
+
+export type SheetFormat = 'csv' | 'xlsx';
+export type Cell = string | number | undefined;
+export type Sheet = { name: string; rows: Cell[][] };
+
+export const SHEET_TYPES: Record<SheetFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/** Inflating stops here, so a small zip cannot expand into more than the process can hold. */
+const MAX_ENTRY_BYTES = 8 * 1024 * 1024;
+const MAX_UNZIPPED_BYTES = 32 * 1024 * 1024;
+
+/** Excel reads UTF-8 CSV as the local code page unless it starts with a byte order mark, which garbles Arabic. */
+const BOM = '\uFEFF';
+
+export function sheetFormat(fileName: string): SheetFormat {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'csv' || extension === 'xlsx') return extension;
+  throw new ApiError(400, 'صيغة الملف غير مدعومة؛ استخدم CSV أو XLSX.');
+}
+
+/** Rows of the file's first sheet as trimmed text, without trailing empty rows. */
+export function readRows(fileName: string, data: Buffer): string[][] {
+  const csv = sheetFormat(fileName) === 'csv';
+  const rows = csv ? parseCsv(data.toString('utf8')) : readXlsxSafely(data);
+  const trimmed = rows.map(row => row.map(cell => csv ? unguardCsvText(cell.trim()) : cell.trim()));
+  while (trimmed.length > 0 && trimmed.at(-1)!.every(cell => !cell)) trimmed.pop();
+  return trimmed;
+}
+
+// --- CSV ---
+/** Splits on commas, or on semicolons or tabs when the header row uses those, as some spreadsheet locales do. */
+function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const header = source.slice(0, source.search(/\r?\n|$/));
+  const delimiter = [',', ';', '\t'].reduce((best, d) => header.split(d).length > header.split(best).length ? d : best);
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) rows.push([...row, cell]);
+  return rows;
+}
+
+// Text that a spreadsheet would run as a formula is written with an apostrophe
+// in front, and the importer takes it off again. Text that already starts with
+// apostrophes before such a character gets one more, so every value survives
+// an export and re-import unchanged.
+const FORMULA_START = /^'*[=+\-@]/;
+
+const csvText = (value: string) => FORMULA_START.test(value) ? `'${value}` : value;
+
+const unguardCsvText = (value: string) => value.startsWith("'") && FORMULA_START.test(value.slice(1)) ? value.slice(1) : value;
+
+const csvCell = (cell: Cell) => {
+  if (cell === undefined) return '';
+  const text = typeof cell === 'number' ? String(cell) : csvText(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function writeCsv(rows: Cell[][]): Buffer {
+  return Buffer.from(BOM + rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n', 'utf8');
+}
+
+// --- Zip ---
+type ZipEntry = { name: string; data: Buffer };
+
+const corruptXlsx = () => new ApiError(400, 'ملف XLSX تالف أو غير صالح.');
+const tooLarge = () => new ApiError(400, 'محتوى ملف XLSX أكبر من الحد المسموح.');
+
+/** Every offset comes from the upload, so each is checked against the file before it is read. */
+function readZip(data: Buffer): Map<string, Buffer> {
+  const within = (start: number, length: number) => {
+    if (start < 0 || start + length > data.length) throw corruptXlsx();
+  };
+  const end = data.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  if (end < 0) throw corruptXlsx();
+  within(end, 22);
+  const count = data.readUInt16LE(end + 10);
+  let offset = data.readUInt32LE(end + 16);
+
+  const files = new Map<string, Buffer>();
+  let unzipped = 0;
+  for (let i = 0; i < count; i++) {
+    within(offset, 46);
+    if (data.readUInt32LE(offset) !== 0x02014b50) throw corruptXlsx();
+    const method = data.readUInt16LE(offset + 10);
+    const size = data.readUInt32LE(offset + 20);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const local = data.readUInt32LE(offset + 42);
+    within(offset + 46, nameLength);
+    const name = data.toString('utf8', offset + 46, offset + 46 + nameLength);
+    within(local, 30);
+    if (data.readUInt32LE(local) !== 0x04034b50) throw corruptXlsx();
+    const start = local + 30 + data.readUInt16LE(local + 26) + data.readUInt16LE(local + 28);
+    within(start, size);
+    const raw = data.subarray(start, start + size);
+    if (method !== 0 && method !== 8) throw corruptXlsx();
+    const file = method === 8 ? inflate(raw, Math.max(1, Math.min(MAX_ENTRY_BYTES, MAX_UNZIPPED_BYTES - unzipped))) : raw;
+    unzipped += file.length;
+    if (file.length > MAX_ENTRY_BYTES || unzipped > MAX_UNZIPPED_BYTES) throw tooLarge();
+    files.set(name, file);
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return files;
+}
+
+function inflate(raw: Buffer, maxOutputLength: number): Buffer {
+  try {
+    return zlib.inflateRawSync(raw, { maxOutputLength });
+  } catch (err) {
+    throw (err as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE' ? tooLarge() : corruptXlsx();
+  }
+}
+
+// zlib.crc32 needs Node 20.15, so the checksum is computed here.
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function writeZip(entries: ZipEntry[]): Buffer {
+  const parts: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const compressed = zlib.deflateRawSync(entry.data);
+    const crc = crc32(entry.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    parts.push(local, name, compressed);
+    directory.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+  const size = directory.reduce((sum, part) => sum + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(size, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...parts, ...directory, end]);
+}
+
+// --- XLSX ---
+const unescapeXml = (text: string) => text.replace(/&(lt|gt|quot|apos|amp|#x[0-9a-f]+|#\d+);/gi, (_, entity: string) => {
+  const named: Record<string, string> = { lt: '<', gt: '>', quot: '"', apos: "'", amp: '&' };
+  if (named[entity.toLowerCase()]) return named[entity.toLowerCase()];
+  return String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+});
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+  // Control characters other than tab and line breaks are not allowed in XML.
+  .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+const attribute = (tag: string, name: string) => tag.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1];
+
+/** The text of a string item: every `<t>` run, leaving out phonetic guides. */
+const itemText = (xml: string) => [...xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)]
+  .map(m => unescapeXml(m[1])).join('');
+
+const columnIndex = (ref: string) => [...ref.replace(/\d+$/, '')].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+const columnName = (index: number): string => (index >= 26 ? columnName(Math.floor(index / 26) - 1) : '') + String.fromCharCode(65 + (index % 26));
+
+function firstSheetPath(files: Map<string, Buffer>): string {
+  const workbook = files.get('xl/workbook.xml')?.toString('utf8') ?? '';
+  const sheetTag = workbook.match(/<sheet\b[^>]*>/)?.[0] ?? '';
+  const relId = attribute(sheetTag, 'r:id');
+  const rels = files.get('xl/_rels/workbook.xml.rels')?.toString('utf8') ?? '';
+  const relTag = [...rels.matchAll(/<Relationship\b[^>]*>/g)].map(m => m[0]).find(tag => attribute(tag, 'Id') === relId);
+  const target = relTag && attribute(relTag, 'Target');
+  if (!target) return 'xl/worksheets/sheet1.xml';
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+function readXlsx(data: Buffer): string[][] {
+  const files = readZip(data);
+  const sheet = files.get(firstSheetPath(files))?.toString('utf8');
+  if (!sheet) throw new ApiError(400, 'لم يُعثر على ورقة بيانات في ملف XLSX.');
+  const shared = [...(files.get('xl/sharedStrings.xml')?.toString('utf8') ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g)].map(m => itemText(m[1]));
+
+  const rows: string[][] = [];
+  for (const [, rowAttrs, rowXml = ''] of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowIndex = Number(attribute(rowAttrs, 'r') ?? rows.length + 1) - 1;
+    const row: string[] = [];
+    for (const [, cellAttrs, cellXml = ''] of rowXml.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const ref = attribute(cellAttrs, 'r');
+      const index = ref ? columnIndex(ref) : row.length;
+      const type = attribute(cellAttrs, 't');
+      const value = unescapeXml(cellXml.match(/<v>([\s\S]*?)<\/v>/)?.[1] ?? '');
+      row[index] = type === 's' ? shared[Number(value)] ?? '' : type === 'inlineStr' ? itemText(cellXml) : value;
+    }
+    rows[rowIndex] = Array.from(row, cell => cell ?? '');
+  }
+  return Array.from(rows, row => row ?? []);
+}
+
+/** A damaged workbook is the uploader's problem to fix, so anything that fails while reading it is a 400. */
+function readXlsxSafely(data: Buffer): string[][] {
+  try {
+    return readXlsx(data);
+  } catch (err) {
+    if (err instanceof ApiError) throw err;
+    throw corruptXlsx();
+  }
+}
+
+function sheetXml(rows: Cell[][]): string {
+  const body = rows.map((row, r) => {
+    const cells = row.map((cell, c) => {
+      if (cell === undefined || cell === '') return '';
+      const ref = `${columnName(c)}${r + 1}`;
+      const style = r === 0 ? ' s="1"' : '';
+      return typeof cell === 'number'
+        ? `<c r="${ref}"${style}><v>${cell}</v></c>`
+        : `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+    }).join('');
+    return `<row r="${r + 1}">${cells}</row>`;
+  }).join('');
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + '<sheetViews><sheetView workbookViewId="0" rightToLeft="1"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    + `<sheetData>${body}</sheetData></worksheet>`;
+}
+
+/** Sheet names are limited to 31 characters and some punctuation. */
+const sheetName = (name: string) => name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31);
+
+export function writeXlsx(sheets: Sheet[]): Buffer {
+  const xml = (text: string) => Buffer.from('<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' + text, 'utf8');
+  const main = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+  const rel = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+  return writeZip([
+    {
+      name: '[Content_Types].xml',
+      data: xml('<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+        + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+        + sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')
+        + '</Types>'),
+    },
+    {
+      name: '_rels/.rels',
+      data: xml('<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + `<Relationship Id="rId1" Type="${rel}/officeDocument" Target="xl/workbook.xml"/></Relationships>`),
+    },
+    {
+      name: 'xl/workbook.xml',
+      data: xml(`<workbook xmlns="${main}" xmlns:r="${rel}"><sheets>`
+        + sheets.map((sheet, i) => `<sheet name="${escapeXml(sheetName(sheet.name))}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')
+        + '</sheets></workbook>'),
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data: xml('<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="${rel}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('')
+        + `<Relationship Id="rId${sheets.length + 1}" Type="${rel}/styles" Target="styles.xml"/></Relationships>`),
+    },
+    {
+      name: 'xl/styles.xml',
+      data: xml(`<styleSheet xmlns="${main}">`
+        + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+        + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+        + '<borders count="1"><border/></borders>'
+        + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+        + '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>'
+        + '</styleSheet>'),
+    },
+    ...sheets.map((sheet, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, data: Buffer.from(sheetXml(sheet.rows), 'utf8') })),
+  ]);
+}
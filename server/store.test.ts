@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import { can, isGateDecided, tallyGate } from '../src/board';
+import type { Member } from '../src/types';
+import { type DB, openDatabase } from './db';
+import { closeExpiredWindows, openWindow } from './gates';
+import { castVote, changeVote, findVote, getVotes, listMembers, listPhases, listPlans, listVoteHistory, removeVote, requirePhase, withdrawVote } from './store';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('voting on a unanimous gate after an early rejection', () => {
+  let db: DB;
+  let phaseId: number;
+  let chair: Member;
+  let voter: Member;
+
+  beforeEach(() => {
+    db = openDatabase(':memory:');
+    const planId = listPlans(db)[0].id;
+    phaseId = listPhases(db, planId)[0].id;
+    const members = listMembers(db, planId);
+    chair = members.find(m => m.isAdmin)!;
+    voter = members.find(m => m.active && can(m, 'vote'))!;
+    openWindow(db, phaseId, { closesAt: new Date(Date.now() + DAY_MS).toISOString() }, chair);
+    castVote(db, phaseId, voter.id, 'abstain', voter);
+  });
+
+  it('decides the tally early but keeps the gate open for reconsidering', () => {
+    const planId = listPlans(db)[0].id;
+    assert.equal(requirePhase(db, phaseId).decisionRule, 'unanimous');
+    assert.equal(tallyGate(requirePhase(db, phaseId), [findVote(db, phaseId, voter.id)!], listMembers(db, planId)).outcome, 'rejected');
+  });
+
+  it('lets the member withdraw the vote while the window is open', () => {
+    withdrawVote(db, phaseId, voter.id, 'صوّتُ خطأً', voter);
+    assert.equal(findVote(db, phaseId, voter.id), undefined);
+  });
+
+  it('lets a member who has not voted yet vote after the early rejection', () => {
+    const other = listMembers(db, listPlans(db)[0].id).find(m => m.id !== voter.id && m.active && can(m, 'vote'))!;
+    assert.equal(castVote(db, phaseId, other.id, 'approve', other), 'cast');
+    assert.equal(findVote(db, phaseId, other.id)?.decision, 'approve');
+  });
+
+  it('refuses new votes and withdrawals once the window has closed', () => {
+    const other = listMembers(db, listPlans(db)[0].id).find(m => m.id !== voter.id && m.active && can(m, 'vote'))!;
+    closeExpiredWindows(db, new Date(Date.now() + 2 * DAY_MS));
+    assert.equal(isGateDecided(requirePhase(db, phaseId), [findVote(db, phaseId, voter.id)!], listMembers(db, listPlans(db)[0].id)), true);
+    assert.throws(() => castVote(db, phaseId, other.id, 'approve', other), { status: 409 });
+    assert.throws(() => withdrawVote(db, phaseId, voter.id, 'صوّتُ خطأً', voter), { status: 409 });
+    assert.throws(() => removeVote(db, phaseId, voter.id, chair), { status: 409 });
+  });
+
+  it('lets the member change the vote while the window is open', () => {
+    assert.equal(changeVote(db, phaseId, voter.id, 'approve', 'اطلعتُ على المسودة', voter), true);
+    assert.equal(findVote(db, phaseId, voter.id)?.decision, 'approve');
+  });
+
+  it('attaches a comment to the vote while the window is open, though the tally is already rejected', () => {
+    assert.equal(tallyGate(requirePhase(db, phaseId), [findVote(db, phaseId, voter.id)!], listMembers(db, listPlans(db)[0].id)).outcome, 'rejected');
+    assert.equal(castVote(db, phaseId, voter.id, 'abstain', voter, 'أحتاج إلى مزيد من البيانات'), 'commented');
+    assert.equal(findVote(db, phaseId, voter.id)?.comment, 'أحتاج إلى مزيد من البيانات');
+  });
+
+  it('refuses a comment once the window has closed', () => {
+    closeExpiredWindows(db, new Date(Date.now() + 2 * DAY_MS));
+    assert.throws(() => castVote(db, phaseId, voter.id, 'abstain', voter, 'تعليق متأخر'), { status: 409 });
+    assert.equal(findVote(db, phaseId, voter.id)?.comment, undefined);
+  });
+
+  it('refuses a comment once the gate is approved', () => {
+    const planId = listPlans(db)[0].id;
+    changeVote(db, phaseId, voter.id, 'approve', 'اطلعتُ على المسودة', voter);
+    for (const member of listMembers(db, planId).filter(m => m.id !== voter.id && m.active && can(m, 'vote'))) {
+      castVote(db, phaseId, member.id, 'approve', member);
+    }
+    assert.equal(isGateDecided(requirePhase(db, phaseId), getVotes(db, planId)[phaseId], listMembers(db, planId)), true);
+    assert.throws(() => castVote(db, phaseId, voter.id, 'approve', voter, 'تعليق بعد الاعتماد'), { status: 409 });
+    assert.equal(findVote(db, phaseId, voter.id)?.comment, undefined);
+  });
+});
+
+describe('keeping a phase\'s vote history', () => {
+  let db: DB;
+  let planId: number;
+  let phaseId: number;
+  let voter: Member;
+
+  beforeEach(() => {
+    db = openDatabase(':memory:');
+    planId = listPlans(db)[0].id;
+    phaseId = listPhases(db, planId)[0].id;
+    const members = listMembers(db, planId);
+    voter = members.find(m => m.active && can(m, 'vote'))!;
+    openWindow(db, phaseId, { closesAt: new Date(Date.now() + DAY_MS).toISOString() }, members.find(m => m.isAdmin)!);
+  });
+
+  it('records each cast, change and withdrawal with its reason', () => {
+    castVote(db, phaseId, voter.id, 'reject', voter, 'الميزانية غير واضحة');
+    changeVote(db, phaseId, voter.id, 'approve', 'وضحت الميزانية', voter);
+    withdrawVote(db, phaseId, voter.id, 'أعيد النظر', voter);
+    assert.deepEqual(
+      listVoteHistory(db, phaseId).map(e => [e.memberId, e.action, e.decision, e.reason]),
+      [[voter.id, 'cast', 'reject', undefined], [voter.id, 'changed', 'approve', 'وضحت الميزانية'], [voter.id, 'withdrawn', 'approve', 'أعيد النظر']],
+    );
+  });
+
+  it('keeps the first cast time and stamps the change', () => {
+    castVote(db, phaseId, voter.id, 'abstain', voter);
+    const cast = findVote(db, phaseId, voter.id)!;
+    changeVote(db, phaseId, voter.id, 'approve', 'اطلعتُ على المسودة', voter);
+    const changed = findVote(db, phaseId, voter.id)!;
+    assert.equal(changed.votedAt, cast.votedAt);
+    assert.ok(changed.changedAt && changed.changedAt >= cast.votedAt);
+  });
+
+  it('leaves an unchanged vote and its history as they are', () => {
+    castVote(db, phaseId, voter.id, 'approve', voter);
+    assert.equal(changeVote(db, phaseId, voter.id, 'approve', 'بلا تغيير', voter), false);
+    assert.equal(listVoteHistory(db, phaseId).length, 1);
+  });
+
+  it('refuses changing or withdrawing a vote that was not cast', () => {
+    assert.throws(() => changeVote(db, phaseId, voter.id, 'approve', 'سبب', voter), { status: 404 });
+    assert.throws(() => withdrawVote(db, phaseId, voter.id, 'سبب', voter), { status: 404 });
+  });
+
+  it('refuses changing or withdrawing once the gate is approved', () => {
+    for (const member of listMembers(db, planId).filter(m => m.active && can(m, 'vote'))) castVote(db, phaseId, member.id, 'approve', member);
+    assert.throws(() => changeVote(db, phaseId, voter.id, 'abstain', 'أعيد النظر', voter), { status: 409 });
+    assert.throws(() => withdrawVote(db, phaseId, voter.id, 'أعيد النظر', voter), { status: 409 });
+  });
+});
@@ -0,0 +1,596 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { can, getActivePhase, isGateDecided, isPhaseApproved, isTaskAccepted, isVoteStale, isWindowOpen } from '../src/board';
+import type { BoardState, DecisionRule, DiscussionThread, DownstreamHandling, Draft, Member, Phase, PhaseReopening, Plan, Proxy, Role, Task, TaskCompletion, TaskCompletionTimes, TaskProgress, TaskReview, User, VoteDecision, VoteHistoryAction, VoteHistoryEntry, VoteRecord, Votes, VotingWindow, WindowExtension } from '../src/types';
+import type { DB } from './db';
+import { ApiError } from './errors';
+
+type MemberRow = { id: string; name: string; is_admin: number; role: Role; active: number };
+type PlanRow = {
+  id: number; title: string; start_date: string; end_date: string; archived_at: string | null; cloned_from: number | null; created_at: string;
+  member_ids: string;
+};
+type PhaseRow = { id: number; plan_id: number; number: number; title: string; tools: string; gate: string; decision_rule: DecisionRule; quorum_percent: number };
+type TaskRow = { id: string; title: string; assignees: string; start_date: string; end_date: string; deliverables: string; phase_id: number | null; depends_on: string; reviewer_id: string | null };
+type DraftRow = { id: number; phase_id: number; title: string; current_version: number; updated_at: string | null };
+type VoteRow = {
+  phase_id: number; member_id: string; name: string; decision: VoteDecision; comment: string | null; draft_versions: string; created_at: string;
+  changed_at: string | null; holder_id: string | null; holder_name: string | null;
+};
+type VoteHistoryRow = {
+  id: number; phase_id: number; member_id: string; member_name: string; action: VoteHistoryAction; decision: VoteDecision;
+  comment: string | null; reason: string | null; actor_name: string; created_at: string;
+};
+type ReopeningRow = {
+  id: number; phase_id: number; reason: string; downstream: DownstreamHandling; affected_phase_ids: string; actor_name: string; created_at: string;
+};
+type WindowRow = {
+  id: number; phase_id: number; opens_at: string; closes_at: string; opened_by_name: string; closed_at: string | null;
+  outcome: VotingWindow['outcome'] | null; cancelled_at: string | null;
+};
+type ExtensionRow = { window_id: number; previous_closes_at: string; closes_at: string; reason: string; actor_name: string; created_at: string };
+type ProxyRow = {
+  id: number; phase_id: number; grantor_id: string; holder_id: string; valid_from: string; valid_until: string; statement: string;
+  created_at: string; revoked_at: string | null; revoked_by_name: string | null;
+};
+type ThreadRow = {
+  id: number; phase_id: number; draft_id: number | null; title: string; author_id: string; created_at: string;
+  resolved_at: string | null; resolved_by_name: string | null;
+};
+type PostRow = { id: number; thread_id: number; author_id: string; name: string; body: string; mentions: string; created_at: string; edited_at: string | null };
+type CompletionRow = { task_id: string; member_id: string; completed_at: string };
+type ProgressRow = { task_id: string; member_id: string; percent: number; note: string | null; created_at: string };
+export type ReviewRow = {
+  task_id: string; reviewer_id: string; reviewer_name: string; decision: TaskReview['decision']; note: string | null; created_at: string;
+};
+
+const toMember = (row: MemberRow): Member => ({
+  id: row.id,
+  name: row.name,
+  ...(row.is_admin ? { isAdmin: true } : {}),
+  role: row.role,
+  active: !!row.active,
+});
+
+const toPlan = (row: PlanRow): Plan => ({
+  id: row.id,
+  title: row.title,
+  startDate: row.start_date,
+  endDate: row.end_date,
+  memberIds: JSON.parse(row.member_ids),
+  ...(row.archived_at ? { archivedAt: row.archived_at } : {}),
+  ...(row.cloned_from !== null ? { clonedFromId: row.cloned_from } : {}),
+  createdAt: row.created_at,
+});
+
+const toPhase = (row: PhaseRow, votingWindow?: VotingWindow): Phase => ({
+  id: row.id,
+  number: row.number,
+  title: row.title,
+  tools: JSON.parse(row.tools),
+  gate: row.gate,
+  decisionRule: row.decision_rule,
+  quorumPercent: row.quorum_percent,
+  ...(votingWindow ? { votingWindow } : {}),
+});
+
+const toExtension = (row: ExtensionRow): WindowExtension => ({
+  previousClosesAt: row.previous_closes_at,
+  closesAt: row.closes_at,
+  reason: row.reason,
+  actorName: row.actor_name,
+  createdAt: row.created_at,
+});
+
+const toDraft = (row: DraftRow): Draft => ({
+  id: row.id,
+  phaseId: row.phase_id,
+  title: row.title,
+  currentVersion: row.current_version,
+  ...(row.updated_at ? { updatedAt: row.updated_at } : {}),
+});
+
+const toTask = (row: TaskRow): Task => ({
+  id: row.id,
+  title: row.title,
+  assignees: JSON.parse(row.assignees),
+  startDate: row.start_date,
+  endDate: row.end_date,
+  deliverables: row.deliverables,
+  ...(row.phase_id !== null ? { phaseId: row.phase_id } : {}),
+  dependsOn: JSON.parse(row.depends_on),
+  ...(row.reviewer_id !== null ? { reviewerId: row.reviewer_id } : {}),
+});
+
+// --- Lookups ---
+// List functions take an optional plan id; without one they cover every plan.
+const PLANS_QUERY = `
+  SELECT p.*, (SELECT json_group_array(member_id) FROM plan_members pm WHERE pm.plan_id = p.id) AS member_ids FROM plans p
+`;
+
+export function listPlans(db: DB): Plan[] {
+  return (db.prepare(`${PLANS_QUERY} ORDER BY p.id`).all() as PlanRow[]).map(toPlan);
+}
+
+export function requirePlan(db: DB, planId: number): Plan {
+  const row = db.prepare(`${PLANS_QUERY} WHERE p.id = ?`).get(planId) as PlanRow | undefined;
+  if (!row) throw new ApiError(404, 'الخطة غير موجودة.');
+  return toPlan(row);
+}
+
+/** Archived plans are read-only; every change to a plan's phases, tasks or votes goes through here first. */
+export function requireOpenPlan(db: DB, planId: number): Plan {
+  const plan = requirePlan(db, planId);
+  if (plan.archivedAt) throw new ApiError(409, `الخطة "${plan.title}" مؤرشفة للاطلاع فقط ولا يمكن تعديلها.`);
+  return plan;
+}
+
+export function isPlanMember(db: DB, planId: number, memberId: string): boolean {
+  return !!db.prepare('SELECT 1 FROM plan_members WHERE plan_id = ? AND member_id = ?').get(planId, memberId);
+}
+
+export function listMembers(db: DB, planId?: number): Member[] {
+  return (db.prepare(`
+    SELECT * FROM members WHERE @planId IS NULL OR id IN (SELECT member_id FROM plan_members WHERE plan_id = @planId) ORDER BY rowid
+  `).all({ planId: planId ?? null }) as MemberRow[]).map(toMember);
+}
+
+// Phase ids run across plans; `number` restarts at 1 in each plan.
+const PHASES_QUERY = `
+  SELECT * FROM (SELECT *, ROW_NUMBER() OVER (PARTITION BY plan_id ORDER BY id) AS number FROM phases)
+`;
+
+/** Each phase's current voting window: its latest one, unless that was set aside. */
+export function currentVotingWindows(db: DB): Map<number, VotingWindow> {
+  const rows = db.prepare(`
+    SELECT * FROM voting_windows w WHERE cancelled_at IS NULL AND id = (SELECT MAX(id) FROM voting_windows WHERE phase_id = w.phase_id)
+  `).all() as WindowRow[];
+  const extensions = db.prepare('SELECT * FROM voting_window_extensions ORDER BY id').all() as ExtensionRow[];
+  return new Map(rows.map(row => [row.phase_id, {
+    id: row.id,
+    opensAt: row.opens_at,
+    closesAt: row.closes_at,
+    openedByName: row.opened_by_name,
+    extensions: extensions.filter(e => e.window_id === row.id).map(toExtension),
+    ...(row.closed_at ? { closedAt: row.closed_at } : {}),
+    ...(row.outcome ? { outcome: row.outcome } : {}),
+  }]));
+}
+
+export function listPhases(db: DB, planId?: number): Phase[] {
+  const windows = currentVotingWindows(db);
+  return (db.prepare(`${PHASES_QUERY} WHERE @planId IS NULL OR plan_id = @planId ORDER BY id`)
+    .all({ planId: planId ?? null }) as PhaseRow[]).map(row => toPhase(row, windows.get(row.id)));
+}
+
+const DRAFTS_QUERY = `
+  SELECT d.id, d.phase_id, d.title,
+    COALESCE(MAX(v.version), 0) AS current_version, MAX(v.created_at) AS updated_at
+  FROM drafts d JOIN phases p ON p.id = d.phase_id LEFT JOIN draft_versions v ON v.draft_id = d.id
+`;
+
+export function listDrafts(db: DB, planId?: number): Draft[] {
+  return (db.prepare(`${DRAFTS_QUERY} WHERE @planId IS NULL OR p.plan_id = @planId GROUP BY d.id ORDER BY d.phase_id, d.sort_order, d.id`)
+    .all({ planId: planId ?? null }) as DraftRow[]).map(toDraft);
+}
+
+export function listTasks(db: DB, planId?: number): Task[] {
+  return (db.prepare('SELECT * FROM tasks WHERE @planId IS NULL OR plan_id = @planId ORDER BY sort_order, rowid')
+    .all({ planId: planId ?? null }) as TaskRow[]).map(toTask);
+}
+
+export function findMember(db: DB, memberId: string): Member | undefined {
+  const row = db.prepare('SELECT * FROM members WHERE id = ?').get(memberId) as MemberRow | undefined;
+  return row && toMember(row);
+}
+
+export function requireMember(db: DB, memberId: string): Member {
+  const member = findMember(db, memberId);
+  if (!member) throw new ApiError(404, 'العضو غير مسجل في النظام.');
+  return member;
+}
+
+export function requirePhase(db: DB, phaseId: number): Phase {
+  const row = db.prepare(`${PHASES_QUERY} WHERE id = ?`).get(phaseId) as PhaseRow | undefined;
+  if (!row) throw new ApiError(404, 'المرحلة غير موجودة.');
+  return toPhase(row, currentVotingWindows(db).get(phaseId));
+}
+
+/** The plan a phase belongs to. */
+export function planOfPhase(db: DB, phaseId: number): number {
+  const row = db.prepare('SELECT plan_id FROM phases WHERE id = ?').get(phaseId) as { plan_id: number } | undefined;
+  if (!row) throw new ApiError(404, 'المرحلة غير موجودة.');
+  return row.plan_id;
+}
+
+export function requireDraft(db: DB, draftId: number): Draft {
+  const row = db.prepare(`${DRAFTS_QUERY} WHERE d.id = ? GROUP BY d.id`).get(draftId) as DraftRow | undefined;
+  if (!row) throw new ApiError(404, 'المسودة غير موجودة.');
+  return toDraft(row);
+}
+
+export function requireTask(db: DB, taskId: string): Task {
+  const row = db.prepare('SELECT * FROM tasks WHERE id = ?').get(taskId) as TaskRow | undefined;
+  if (!row) throw new ApiError(404, 'المهمة غير موجودة.');
+  return toTask(row);
+}
+
+/** The plan a task belongs to. */
+export function planOfTask(db: DB, taskId: string): number {
+  const row = db.prepare('SELECT plan_id FROM tasks WHERE id = ?').get(taskId) as { plan_id: number } | undefined;
+  if (!row) throw new ApiError(404, 'المهمة غير موجودة.');
+  return row.plan_id;
+}
+
+// --- Reads ---
+export function getVotes(db: DB, planId?: number): Votes {
+  const votes: Votes = Object.fromEntries(listPhases(db, planId).map(p => [p.id, []]));
+  const rows = db.prepare(`
+    SELECT v.phase_id, v.member_id, v.name, v.decision, v.comment, v.draft_versions, v.created_at, v.changed_at, p.holder_id, h.name AS holder_name
+    FROM votes v JOIN phases ph ON ph.id = v.phase_id LEFT JOIN proxies p ON p.id = v.proxy_id LEFT JOIN members h ON h.id = p.holder_id
+    WHERE @planId IS NULL OR ph.plan_id = @planId
+    ORDER BY v.created_at, v.rowid
+  `).all({ planId: planId ?? null }) as VoteRow[];
+  for (const row of rows) {
+    (votes[row.phase_id] ??= []).push({
+      id: row.member_id,
+      name: row.name,
+      decision: row.decision,
+      ...(row.comment ? { comment: row.comment } : {}),
+      draftVersions: JSON.parse(row.draft_versions),
+      votedAt: row.created_at,
+      ...(row.changed_at ? { changedAt: row.changed_at } : {}),
+      ...(row.holder_id ? { proxyHolderId: row.holder_id, proxyHolderName: row.holder_name! } : {}),
+    });
+  }
+  return votes;
+}
+
+export function findVote(db: DB, phaseId: number, memberId: string): VoteRecord | undefined {
+  return getVotes(db)[phaseId]?.find(v => v.id === memberId);
+}
+
+export function listVoteHistory(db: DB, phaseId: number): VoteHistoryEntry[] {
+  requirePhase(db, phaseId);
+  return (db.prepare('SELECT * FROM vote_history WHERE phase_id = ? ORDER BY id').all(phaseId) as VoteHistoryRow[]).map(row => ({
+    id: row.id,
+    memberId: row.member_id,
+    memberName: row.member_name,
+    action: row.action,
+    decision: row.decision,
+    ...(row.comment ? { comment: row.comment } : {}),
+    ...(row.reason ? { reason: row.reason } : {}),
+    actorName: row.actor_name,
+    time: row.created_at,
+  }));
+}
+
+// Per-task records of one plan, or of all plans.
+const IN_PLAN = 'task_id IN (SELECT id FROM tasks WHERE @planId IS NULL OR plan_id = @planId)';
+
+export function getTaskCompletion(db: DB, planId?: number): TaskCompletion {
+  const completion: TaskCompletion = {};
+  const rows = db.prepare(`SELECT task_id, member_id FROM task_completion WHERE ${IN_PLAN} ORDER BY completed_at, rowid`)
+    .all({ planId: planId ?? null }) as CompletionRow[];
+  for (const row of rows) {
+    (completion[row.task_id] ??= []).push(row.member_id);
+  }
+  return completion;
+}
+
+export function getTaskCompletionTimes(db: DB, planId?: number): TaskCompletionTimes {
+  const times: TaskCompletionTimes = {};
+  const rows = db.prepare(`SELECT task_id, member_id, completed_at FROM task_completion WHERE ${IN_PLAN}`).all({ planId: planId ?? null }) as CompletionRow[];
+  for (const row of rows) {
+    (times[row.task_id] ??= {})[row.member_id] = row.completed_at;
+  }
+  return times;
+}
+
+export const toReview = (row: ReviewRow): TaskReview => ({
+  decision: row.decision,
+  ...(row.note ? { note: row.note } : {}),
+  reviewerId: row.reviewer_id,
+  reviewerName: row.reviewer_name,
+  reviewedAt: row.created_at,
+});
+
+/** Latest progress report per task and assignee. */
+export function getTaskProgress(db: DB, planId?: number): Record<string, Record<string, TaskProgress>> {
+  const progress: Record<string, Record<string, TaskProgress>> = {};
+  const rows = db.prepare(`SELECT task_id, member_id, percent, note, created_at FROM task_progress WHERE ${IN_PLAN} ORDER BY id`)
+    .all({ planId: planId ?? null }) as ProgressRow[];
+  for (const row of rows) {
+    (progress[row.task_id] ??= {})[row.member_id] = { percent: row.percent, ...(row.note ? { note: row.note } : {}), updatedAt: row.created_at };
+  }
+  return progress;
+}
+
+export function getTaskReviews(db: DB, planId?: number): Record<string, TaskReview> {
+  const reviews: Record<string, TaskReview> = {};
+  for (const row of db.prepare(`SELECT * FROM task_reviews WHERE ${IN_PLAN} ORDER BY id`).all({ planId: planId ?? null }) as ReviewRow[]) {
+    reviews[row.task_id] = toReview(row);
+  }
+  return reviews;
+}
+
+export const toProxy = (row: ProxyRow): Proxy => ({
+  id: row.id,
+  phaseId: row.phase_id,
+  grantorId: row.grantor_id,
+  holderId: row.holder_id,
+  validFrom: row.valid_from,
+  validUntil: row.valid_until,
+  statement: row.statement,
+  createdAt: row.created_at,
+  ...(row.revoked_at ? { revokedAt: row.revoked_at, revokedByName: row.revoked_by_name! } : {}),
+});
+
+export function listProxies(db: DB, planId?: number): Proxy[] {
+  return (db.prepare(`
+    SELECT * FROM proxies WHERE @planId IS NULL OR phase_id IN (SELECT id FROM phases WHERE plan_id = @planId) ORDER BY id
+  `).all({ planId: planId ?? null }) as ProxyRow[]).map(toProxy);
+}
+
+export function listReopenings(db: DB, planId?: number): PhaseReopening[] {
+  return (db.prepare(`
+    SELECT * FROM phase_reopenings WHERE @planId IS NULL OR phase_id IN (SELECT id FROM phases WHERE plan_id = @planId) ORDER BY id
+  `).all({ planId: planId ?? null }) as ReopeningRow[]).map(row => ({
+    id: row.id,
+    phaseId: row.phase_id,
+    reason: row.reason,
+    downstream: row.downstream,
+    affectedPhaseIds: JSON.parse(row.affected_phase_ids),
+    actorName: row.actor_name,
+    createdAt: row.created_at,
+  }));
+}
+
+/** Threads with their posts and each post's earlier wordings, oldest first. */
+export function listDiscussions(db: DB, planId?: number): DiscussionThread[] {
+  const inPlan = 'phase_id IN (SELECT id FROM phases WHERE @planId IS NULL OR plan_id = @planId)';
+  const threads = db.prepare(`SELECT * FROM discussion_threads WHERE ${inPlan} ORDER BY id`).all({ planId: planId ?? null }) as ThreadRow[];
+  const posts = db.prepare(`
+    SELECT p.*, m.name FROM discussion_posts p JOIN members m ON m.id = p.author_id
+    WHERE p.thread_id IN (SELECT id FROM discussion_threads WHERE ${inPlan}) ORDER BY p.id
+  `).all({ planId: planId ?? null }) as PostRow[];
+  const edits = db.prepare(`
+    SELECT e.post_id, e.body, e.replaced_at FROM discussion_post_edits e JOIN discussion_posts p ON p.id = e.post_id
+    WHERE p.thread_id IN (SELECT id FROM discussion_threads WHERE ${inPlan}) ORDER BY e.id
+  `).all({ planId: planId ?? null }) as { post_id: number; body: string; replaced_at: string }[];
+
+  return threads.map(row => ({
+    id: row.id,
+    phaseId: row.phase_id,
+    ...(row.draft_id !== null ? { draftId: row.draft_id } : {}),
+    title: row.title,
+    authorId: row.author_id,
+    createdAt: row.created_at,
+    ...(row.resolved_at ? { resolvedAt: row.resolved_at, resolvedByName: row.resolved_by_name! } : {}),
+    posts: posts.filter(p => p.thread_id === row.id).map(p => ({
+      id: p.id,
+      authorId: p.author_id,
+      authorName: p.name,
+      body: p.body,
+      mentions: JSON.parse(p.mentions),
+      createdAt: p.created_at,
+      ...(p.edited_at ? { editedAt: p.edited_at } : {}),
+      history: edits.filter(e => e.post_id === p.id).map(e => ({ body: e.body, replacedAt: e.replaced_at })),
+    })),
+  }));
+}
+
+/** One plan's board; the caller adds the plans the user may switch to. */
+export function getBoardState(db: DB, planId: number): Omit<BoardState, 'plans' | 'lastEventId'> {
+  return {
+    planId,
+    directory: listMembers(db),
+    members: listMembers(db, planId),
+    phases: listPhases(db, planId),
+    drafts: listDrafts(db, planId),
+    tasks: listTasks(db, planId),
+    votes: getVotes(db, planId),
+    taskCompletion: getTaskCompletion(db, planId),
+    taskCompletedAt: getTaskCompletionTimes(db, planId),
+    taskProgress: getTaskProgress(db, planId),
+    taskReviews: getTaskReviews(db, planId),
+    proxies: listProxies(db, planId),
+    discussions: listDiscussions(db, planId),
+    reopenings: listReopenings(db, planId),
+  };
+}
+
+// --- Mutations ---
+
+function requireVoter(db: DB, planId: number, memberId: string): Member {
+  const member = requireMember(db, memberId);
+  if (!member.active) throw new ApiError(403, 'عضوية هذا العضو غير نشطة.');
+  if (!isPlanMember(db, planId, memberId)) throw new ApiError(403, 'العضو ليس من أعضاء هذه الخطة.');
+  if (!can(member, 'vote')) throw new ApiError(403, 'دور هذا العضو في المجلس لا يتضمن التصويت.');
+  return member;
+}
+
+function checkDecision(decision: VoteDecision, comment?: string, proxyId?: number) {
+  if (decision === 'reject' && !comment) throw new ApiError(400, 'يجب ذكر مبررات الاعتراض.');
+  if (decision === 'recuse' && !comment) throw new ApiError(400, 'يجب ذكر سبب التنحي.');
+  if (decision === 'recuse' && proxyId) throw new ApiError(403, 'يعلن العضو تنحيه بنفسه ولا يصح التنحي بالإنابة.');
+}
+
+/** Votes are cast, changed, withdrawn or commented on while the phase is the active one, its gate is not decided and the chair's voting window is open. */
+function requireOpenGate(db: DB, phaseId: number, planId: number) {
+  const members = listMembers(db, planId);
+  const votes = getVotes(db, planId);
+  if (getActivePhase(listPhases(db, planId), votes, members) !== phaseId) {
+    throw new ApiError(409, 'التصويت متاح على المرحلة النشطة فقط.');
+  }
+  const phase = requirePhase(db, phaseId);
+  if (isGateDecided(phase, votes[phaseId], members)) {
+    throw new ApiError(409, 'تم حسم نتيجة هذه البوابة ولا يمكن التصويت عليها.');
+  }
+  requireOpenWindow(phase);
+}
+
+function requireOpenWindow(phase: Phase) {
+  if (!phase.votingWindow) throw new ApiError(409, 'لم يُفتح باب التصويت على هذه البوابة بعد.');
+  if (!isWindowOpen(phase.votingWindow)) throw new ApiError(409, 'انتهت مهلة التصويت على هذه البوابة.');
+}
+
+const currentDraftVersions = (db: DB, phaseId: number) =>
+  JSON.stringify(Object.fromEntries(listDrafts(db).filter(d => d.phaseId === phaseId).map(d => [d.id, d.currentVersion])));
+
+/** Appends a step to the phase's vote history; `vote` is the vote after the step, or the one taken back. */
+function recordVoteHistory(
+  db: DB, phaseId: number, vote: Pick<VoteRecord, 'id' | 'name' | 'decision' | 'comment'>, action: VoteHistoryAction, actor: User, reason?: string,
+) {
+  db.prepare(`
+    INSERT INTO vote_history (phase_id, member_id, member_name, action, decision, comment, reason, actor_name, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(phaseId, vote.id, vote.name, action, vote.decision, vote.comment ?? null, reason ?? null, actor.name, new Date().toISOString());
+}
+
+/**
+ * Records a vote on the active gate while its voting window is open, bound
+ * to the draft versions current at that moment, or attaches a comment to an
+ * existing vote that has none yet. A vote cast on superseded drafts is renewed
+ * instead. Returns which of these happened, or null when nothing changed.
+ * Rejections must carry a justification and recusals a reason.
+ * `proxyId` records the proxy a holder cast the vote under.
+ */
+export function castVote(
+  db: DB, phaseId: number, memberId: string, decision: VoteDecision, actor: User, comment?: string, proxyId?: number,
+): 'cast' | 'commented' | null {
+  const planId = planOfPhase(db, phaseId);
+  requireOpenPlan(db, planId);
+  const member = requireVoter(db, planId, memberId);
+  const existing = findVote(db, phaseId, memberId);
+  const drafts = listDrafts(db).filter(d => d.phaseId === phaseId);
+  const renewing = !!existing && isVoteStale(existing, drafts);
+
+  if (existing && !renewing) {
+    if (!comment || existing.comment) return null;
+    requireOpenGate(db, phaseId, planId);
+    db.prepare('UPDATE votes SET comment = ? WHERE phase_id = ? AND member_id = ?').run(comment, phaseId, memberId);
+    recordVoteHistory(db, phaseId, { ...existing, comment }, 'commented', actor);
+    return 'commented';
+  }
+
+  checkDecision(decision, comment, proxyId);
+  requireOpenGate(db, phaseId, planId);
+
+  const time = new Date().toISOString();
+  db.prepare(`
+    INSERT INTO votes (phase_id, member_id, name, decision, comment, draft_versions, created_at, proxy_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT (phase_id, member_id) DO UPDATE SET
+      decision = excluded.decision, comment = excluded.comment, draft_versions = excluded.draft_versions,
+      changed_at = excluded.created_at, proxy_id = excluded.proxy_id
+  `).run(phaseId, memberId, member.name, decision, comment || null, currentDraftVersions(db, phaseId), time, proxyId ?? null);
+  recordVoteHistory(db, phaseId, findVote(db, phaseId, memberId)!, renewing ? 'renewed' : 'cast', actor);
+  return 'cast';
+}
+
+/**
+ * A member changes their own current vote while the gate is still open,
+ * giving a reason. A vote on superseded drafts is renewed through `castVote`
+ * instead. Returns false when the decision and comment are unchanged.
+ */
+export function changeVote(
+  db: DB, phaseId: number, memberId: string, decision: VoteDecision, reason: string, actor: User, comment?: string, proxyId?: number,
+): boolean {
+  const planId = planOfPhase(db, phaseId);
+  requireOpenPlan(db, planId);
+  requireVoter(db, planId, memberId);
+  const existing = findVote(db, phaseId, memberId);
+  if (!existing) throw new ApiError(404, 'لا يوجد صوت لهذا العضو على هذه المرحلة.');
+  if (isVoteStale(existing, listDrafts(db).filter(d => d.phaseId === phaseId))) {
+    throw new ApiError(409, 'نُشرت نسخة جديدة من المسودات؛ جدّد التصويت بدلاً من تغييره.');
+  }
+  if (existing.decision === decision && (existing.comment ?? '') === (comment ?? '')) return false;
+  checkDecision(decision, comment, proxyId);
+  requireOpenGate(db, phaseId, planId);
+
+  db.prepare(`
+    UPDATE votes SET decision = ?, comment = ?, draft_versions = ?, changed_at = ?, proxy_id = ? WHERE phase_id = ? AND member_id = ?
+  `).run(decision, comment ?? null, currentDraftVersions(db, phaseId), new Date().toISOString(), proxyId ?? null, phaseId, memberId);
+  recordVoteHistory(db, phaseId, findVote(db, phaseId, memberId)!, 'changed', actor, reason);
+  return true;
+}
+
+/** A member takes back their own vote, with a reason, while the gate is still open. */
+export function withdrawVote(db: DB, phaseId: number, memberId: string, reason: string, actor: User): VoteRecord {
+  const planId = planOfPhase(db, phaseId);
+  requireOpenPlan(db, planId);
+  const existing = findVote(db, phaseId, memberId);
+  if (!existing) throw new ApiError(404, 'لا يوجد صوت لهذا العضو على هذه المرحلة.');
+  requireOpenGate(db, phaseId, planId);
+  db.prepare('DELETE FROM votes WHERE phase_id = ? AND member_id = ?').run(phaseId, memberId);
+  recordVoteHistory(db, phaseId, existing, 'withdrawn', actor, reason);
+  return existing;
+}
+
+/** Approved gates are only put back to a vote by reopening them, which settles what happens to later phases. */
+function requireUndecidedApproval(db: DB, phaseId: number, planId: number) {
+  if (isPhaseApproved(requirePhase(db, phaseId), getVotes(db, planId)[phaseId], listMembers(db, planId))) {
+    throw new ApiError(409, 'اعتُمدت هذه البوابة؛ أعد فتحها مع ذكر السبب بدلاً من إلغاء الأصوات.');
+  }
+}
+
+export function removeVote(db: DB, phaseId: number, memberId: string, actor: User): boolean {
+  const planId = planOfPhase(db, phaseId);
+  requireOpenPlan(db, planId);
+  const existing = findVote(db, phaseId, memberId);
+  if (!existing) return false;
+  requireUndecidedApproval(db, phaseId, planId);
+  // A gate closed at its deadline keeps the votes it was decided on; resetting the phase starts it over.
+  if (isGateDecided(requirePhase(db, phaseId), getVotes(db, planId)[phaseId], listMembers(db, planId))) {
+    throw new ApiError(409, 'تم حسم نتيجة هذه البوابة ولا يمكن التصويت عليها.');
+  }
+  db.prepare('DELETE FROM votes WHERE phase_id = ? AND member_id = ?').run(phaseId, memberId);
+  recordVoteHistory(db, phaseId, existing, 'removed', actor);
+  return true;
+}
+
+/** Clears every vote on the phase, keeping them in its history with the reason, if any. */
+export function clearVotes(db: DB, phaseId: number, actor: User, reason?: string): number {
+  const existing = getVotes(db, planOfPhase(db, phaseId))[phaseId] ?? [];
+  for (const vote of existing) recordVoteHistory(db, phaseId, vote, 'reset', actor, reason);
+  return db.prepare('DELETE FROM votes WHERE phase_id = ?').run(phaseId).changes;
+}
+
+/**
+ * Sets the phase's voting windows aside so a closing outcome no longer decides
+ * the gate. A reset leaves a window that is still open running; a reopening
+ * cancels it too, and the chair opens a new one.
+ */
+export function cancelVotingWindows(db: DB, phaseId: number, includeOpen: boolean) {
+  db.prepare('UPDATE voting_windows SET cancelled_at = ? WHERE phase_id = ? AND cancelled_at IS NULL AND (? OR closed_at IS NOT NULL)')
+    .run(new Date().toISOString(), phaseId, includeOpen ? 1 : 0);
+}
+
+export function resetPhase(db: DB, phaseId: number, actor: User): number {
+  const planId = planOfPhase(db, phaseId);
+  requireOpenPlan(db, planId);
+  requireUndecidedApproval(db, phaseId, planId);
+  cancelVotingWindows(db, phaseId, false);
+  return clearVotes(db, phaseId, actor);
+}
+
+/** Whether the task's reviewer has accepted it; accepted tasks are closed to further changes. */
+export function isTaskClosed(db: DB, task: Task): boolean {
+  return isTaskAccepted(task, getTaskCompletionTimes(db)[task.id], getTaskReviews(db)[task.id]);
+}
+
+export function setTaskCompletion(db: DB, taskId: string, memberId: string, completed: boolean): boolean {
+  const task = requireTask(db, taskId);
+  requireOpenPlan(db, planOfTask(db, taskId));
+  requireMember(db, memberId);
+  if (!task.assignees.includes(memberId)) throw new ApiError(403, 'المهمة غير مسندة لهذا العضو.');
+  if (isTaskClosed(db, task)) throw new ApiError(409, 'اعتُمدت المهمة من المراجع ولا يمكن تعديل إنجازها.');
+
+  if (completed) {
+    return db.prepare('INSERT OR IGNORE INTO task_completion (task_id, member_id, completed_at) VALUES (?, ?, ?)')
+      .run(taskId, memberId, new Date().toISOString()).changes > 0;
+  }
+  return db.prepare('DELETE FROM task_completion WHERE task_id = ? AND member_id = ?').run(taskId, memberId).changes > 0;
+}
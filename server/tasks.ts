@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import crypto from 'crypto';
+import { canReviewTask } from '../src/board';
+import type { TaskActivity, TaskEvidence, TaskReviewDecision, User } from '../src/types';
+import type { DB } from './db';
+import { MAX_ATTACHMENT_BYTES } from './drafts';
+import { ApiError } from './errors';
+import {
+  type ReviewRow, getTaskCompletionTimes, isTaskClosed, planOfTask, requireMember, requireOpenPlan, requireTask, setTaskCompletion, toReview,
+} from './store';
+import { bodyFields, optionalInt, optionalString, requireOption, requireString } from './validate';
+
+// Assignee progress reports, deliverable evidence and reviewer sign-off. All
+// three are append-only: the history shows how a task got to "done".
+
+type ProgressRow = { member_id: string; name: string; percent: number; note: string | null; created_at: string };
+type EvidenceRow = {
+  id: number; member_id: string; name: string; file_name: string | null; mime_type: string | null; size: number | null;
+  url: string | null; note: string | null; created_at: string;
+};
+
+export type ProgressInput = { percent: number; note?: string };
+export type EvidenceInput =
+  | { kind: 'file'; fileName: string; mimeType: string; data: Buffer; note?: string }
+  | { kind: 'link'; url: string; note?: string };
+export type ReviewInput = { decision: TaskReviewDecision; note?: string };
+
+const REVIEW_DECISIONS: TaskReviewDecision[] = ['accepted', 'returned'];
+
+// --- Body parsing ---
+export function parseProgressInput(raw: unknown): ProgressInput {
+  const body = bodyFields(raw);
+  const percent = optionalInt(body.percent, 'نسبة الإنجاز غير صالحة.');
+  if (percent === undefined || percent < 0 || percent > 100) throw new ApiError(400, 'نسبة الإنجاز يجب أن تكون بين 0 و 100.');
+  return { percent, note: optionalString(body.note) };
+}
+
+export function parseEvidenceInput(raw: unknown): EvidenceInput {
+  const body = bodyFields(raw);
+  const note = optionalString(body.note);
+  const url = optionalString(body.url);
+  if (url) {
+    if (!/^https?:\/\/\S+$/i.test(url)) throw new ApiError(400, 'الرابط يجب أن يبدأ بـ http:// أو https://');
+    return { kind: 'link', url, note };
+  }
+  const fileName = requireString(body.fileName, 'أرفق ملفاً أو أدخل رابطاً.');
+  const data = Buffer.from(requireString(body.data, `الملف ${fileName} فارغ.`), 'base64');
+  if (data.length === 0) throw new ApiError(400, `الملف ${fileName} فارغ.`);
+  if (data.length > MAX_ATTACHMENT_BYTES) throw new ApiError(400, `حجم الملف ${fileName} يتجاوز 5 ميجابايت.`);
+  return { kind: 'file', fileName, mimeType: optionalString(body.mimeType) || 'application/octet-stream', data, note };
+}
+
+export function parseReviewInput(raw: unknown): ReviewInput {
+  const body = bodyFields(raw);
+  const decision = requireOption(body.decision, REVIEW_DECISIONS, 'قرار المراجعة غير معروف.');
+  const note = optionalString(body.note);
+  if (decision === 'returned' && !note) throw new ApiError(400, 'يجب توضيح سبب إعادة المهمة.');
+  return { decision, note };
+}
+
+// --- Progress ---
+/**
+ * Records an assignee's progress. Reporting 100% marks their part complete and
+ * anything lower reopens it. Returns whether the completion changed.
+ */
+export function reportProgress(db: DB, taskId: string, memberId: string, input: ProgressInput): boolean {
+  const changed = setTaskCompletion(db, taskId, memberId, input.percent === 100);
+  db.prepare('INSERT INTO task_progress (task_id, member_id, percent, note, created_at) VALUES (?, ?, ?, ?, ?)')
+    .run(taskId, memberId, input.percent, input.note ?? null, new Date().toISOString());
+  return changed;
+}
+
+// --- Evidence ---
+export function addEvidence(db: DB, taskId: string, uploader: User, input: EvidenceInput): number {
+  const task = requireTask(db, taskId);
+  requireOpenPlan(db, planOfTask(db, taskId));
+  if (!task.assignees.includes(uploader.id) && !uploader.isAdmin) throw new ApiError(403, 'يرفع الأدلة المكلفون بالمهمة فقط.');
+  if (isTaskClosed(db, task)) throw new ApiError(409, 'اعتُمدت المهمة من المراجع ولا يمكن إضافة أدلة جديدة.');
+  const { lastInsertRowid } = input.kind === 'file'
+    ? db.prepare(`
+        INSERT INTO task_evidence (task_id, member_id, file_name, mime_type, size, data, note, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(taskId, uploader.id, input.fileName, input.mimeType, input.data.length, input.data, input.note ?? null, new Date().toISOString())
+    : db.prepare('INSERT INTO task_evidence (task_id, member_id, url, note, created_at) VALUES (?, ?, ?, ?, ?)')
+      .run(taskId, uploader.id, input.url, input.note ?? null, new Date().toISOString());
+  return Number(lastInsertRowid);
+}
+
+/** SHA-256 of an uploaded file, for the audit log. */
+export function fingerprint(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+export function getEvidenceFile(db: DB, evidenceId: number): { taskId: string; fileName: string; mimeType: string; data: Buffer } {
+  const row = db.prepare('SELECT task_id, file_name, mime_type, data FROM task_evidence WHERE id = ? AND data IS NOT NULL')
+    .get(evidenceId) as { task_id: string; file_name: string; mime_type: string; data: Buffer } | undefined;
+  if (!row) throw new ApiError(404, 'الملف غير موجود.');
+  return { taskId: row.task_id, fileName: row.file_name, mimeType: row.mime_type, data: row.data };
+}
+
+// --- Review ---
+/** Accepts or returns a task whose assignees have all finished. Returning reopens everyone's part. */
+export function reviewTask(db: DB, taskId: string, reviewer: User, input: ReviewInput) {
+  const task = requireTask(db, taskId);
+  requireOpenPlan(db, planOfTask(db, taskId));
+  if (!canReviewTask(task, reviewer)) {
+    const name = task.reviewerId ? requireMember(db, task.reviewerId).name : 'مدير النظام';
+    throw new ApiError(403, `مراجعة هذه المهمة من صلاحية ${name}.`);
+  }
+  if (isTaskClosed(db, task)) throw new ApiError(409, 'اعتُمدت المهمة مسبقاً.');
+  const completedAt = getTaskCompletionTimes(db)[taskId] || {};
+  if (!task.assignees.every(id => completedAt[id])) throw new ApiError(409, 'لم يُكمل جميع المكلفين المهمة بعد.');
+
+  db.prepare('INSERT INTO task_reviews (task_id, reviewer_id, reviewer_name, decision, note, created_at) VALUES (?, ?, ?, ?, ?, ?)')
+    .run(taskId, reviewer.id, reviewer.name, input.decision, input.note ?? null, new Date().toISOString());
+  if (input.decision === 'returned') db.prepare('DELETE FROM task_completion WHERE task_id = ?').run(taskId);
+}
+
+// --- History ---
+export function getTaskActivity(db: DB, taskId: string): TaskActivity {
+  requireTask(db, taskId);
+  const progress = db.prepare(`
+    SELECT p.member_id, m.name, p.percent, p.note, p.created_at FROM task_progress p
+    JOIN members m ON m.id = p.member_id WHERE p.task_id = ? ORDER BY p.id DESC
+  `).all(taskId) as ProgressRow[];
+  const evidence = db.prepare(`
+    SELECT e.id, e.member_id, m.name, e.file_name, e.mime_type, e.size, e.url, e.note, e.created_at FROM task_evidence e
+    JOIN members m ON m.id = e.member_id WHERE e.task_id = ? ORDER BY e.id DESC
+  `).all(taskId) as EvidenceRow[];
+  const reviews = db.prepare('SELECT * FROM task_reviews WHERE task_id = ? ORDER BY id DESC').all(taskId) as ReviewRow[];
+
+  return {
+    progress: progress.map(row => ({
+      memberId: row.member_id,
+      memberName: row.name,
+      percent: row.percent,
+      ...(row.note ? { note: row.note } : {}),
+      updatedAt: row.created_at,
+    })),
+    evidence: evidence.map((row): TaskEvidence => ({
+      id: row.id,
+      memberId: row.member_id,
+      memberName: row.name,
+      ...(row.url !== null
+        ? { kind: 'link', url: row.url }
+        : { kind: 'file', fileName: row.file_name!, mimeType: row.mime_type!, size: row.size! }),
+      ...(row.note ? { note: row.note } : {}),
+      createdAt: row.created_at,
+    })),
+    reviews: reviews.map(toReview),
+  };
+}
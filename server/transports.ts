@@ -0,0 +1,211 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import crypto from 'crypto';
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+import type { ReminderChannel } from '../src/types';
+
+// Outgoing reminder delivery. The reminder engine only knows the `Transport`
+// shape, so another email or SMS provider can be plugged in without touching it.
+
+export type OutgoingMessage = { to: string; subject: string; text: string };
+export type Transport = { send: (message: OutgoingMessage) => Promise<void> };
+export type Transports = Partial<Record<Exclude<ReminderChannel, 'off'>, Transport>>;
+
+export type SmtpOptions = {
+  host: string;
+  port: number;
+  /** Implicit TLS (usually port 465). Otherwise STARTTLS is used when the server offers it. */
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  /** `address` or `Display Name <address>`. */
+  from: string;
+};
+
+/** How long an SMTP connection or SMS gateway request may take. */
+const SEND_TIMEOUT_MS = 30_000;
+
+type Reply = { code: number; lines: string[] };
+
+/** Reads multi-line SMTP replies off a socket, one `read()` per reply. */
+function replyReader(socket: net.Socket) {
+  let buffer = '';
+  let lines: string[] = [];
+  const replies: Reply[] = [];
+  let waiting: { resolve: (reply: Reply) => void; reject: (err: Error) => void } | null = null;
+  let failure: Error | null = null;
+
+  const deliver = () => {
+    if (!waiting) return;
+    if (replies.length) {
+      waiting.resolve(replies.shift()!);
+      waiting = null;
+    } else if (failure) {
+      waiting.reject(failure);
+      waiting = null;
+    }
+  };
+
+  socket.on('data', (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let end: number;
+    while ((end = buffer.indexOf('\r\n')) >= 0) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      lines.push(line.slice(4));
+      if (line[3] !== '-') {
+        replies.push({ code: Number(line.slice(0, 3)), lines });
+        lines = [];
+      }
+    }
+    deliver();
+  });
+  socket.on('error', err => {
+    failure = err;
+    deliver();
+  });
+  socket.on('close', () => {
+    failure ??= new Error('SMTP connection closed');
+    deliver();
+  });
+
+  return {
+    read: () => new Promise<Reply>((resolve, reject) => {
+      waiting = { resolve, reject };
+      deliver();
+    }),
+  };
+}
+
+function connect(options: SmtpOptions): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host }, () => resolve(socket))
+      : net.connect({ host: options.host, port: options.port }, () => resolve(socket));
+    socket.setTimeout(SEND_TIMEOUT_MS, () => socket.destroy(new Error('SMTP connection timed out')));
+    socket.once('error', reject);
+  });
+}
+
+function upgradeToTls(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secure = tls.connect({ socket, servername: host }, () => resolve(secure));
+    secure.setTimeout(SEND_TIMEOUT_MS, () => secure.destroy(new Error('SMTP connection timed out')));
+    secure.once('error', reject);
+  });
+}
+
+/** RFC 2047 header encoding, folded so no encoded word exceeds 75 characters. */
+function encodeWord(text: string): string {
+  if (/^[\x20-\x7e]*$/.test(text)) return text;
+  const chunks = [''];
+  for (const char of text) {
+    if (Buffer.byteLength(chunks[chunks.length - 1] + char) > 45) chunks.push('');
+    chunks[chunks.length - 1] += char;
+  }
+  return chunks.map(chunk => `=?UTF-8?B?${Buffer.from(chunk).toString('base64')}?=`).join('\r\n ');
+}
+
+function splitAddress(value: string): { name?: string; address: string } {
+  const match = value.match(/^\s*(.*?)\s*<([^>]+)>\s*$/);
+  return match ? { name: match[1] || undefined, address: match[2] } : { address: value.trim() };
+}
+
+function formatMessage(from: string, message: OutgoingMessage): string {
+  const sender = splitAddress(from);
+  const body = (Buffer.from(message.text).toString('base64').match(/.{1,76}/g) || []).join('\r\n');
+  return [
+    `From: ${sender.name ? `${encodeWord(sender.name)} <${sender.address}>` : sender.address}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeWord(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${sender.address.split('@')[1] || os.hostname()}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body,
+  ].join('\r\n');
+}
+
+/**
+ * Minimal SMTP client: one connection per message, STARTTLS when offered and
+ * AUTH PLAIN when credentials are configured. Enough for a relay or a local
+ * mail catcher such as Mailpit.
+ */
+export function createSmtpTransport(options: SmtpOptions): Transport {
+  const send = async (message: OutgoingMessage) => {
+    let socket = await connect(options);
+    let reader = replyReader(socket);
+    const command = async (line: string | null, expected: number[]) => {
+      if (line !== null) socket.write(`${line}\r\n`);
+      const reply = await reader.read();
+      if (!expected.includes(reply.code)) throw new Error(`SMTP ${reply.code}: ${reply.lines.join(' ')}`);
+      return reply;
+    };
+
+    try {
+      await command(null, [220]);
+      const hello = await command(`EHLO ${os.hostname()}`, [250]);
+      if (!options.secure && hello.lines.some(l => l.toUpperCase() === 'STARTTLS')) {
+        await command('STARTTLS', [220]);
+        socket.removeAllListeners('data');
+        socket = await upgradeToTls(socket, options.host);
+        reader = replyReader(socket);
+        await command(`EHLO ${os.hostname()}`, [250]);
+      }
+      if (options.user) {
+        const credentials = Buffer.from(`\0${options.user}\0${options.pass ?? ''}`).toString('base64');
+        await command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+      await command(`MAIL FROM:<${splitAddress(options.from).address}>`, [250]);
+      await command(`RCPT TO:<${message.to}>`, [250, 251]);
+      await command('DATA', [354]);
+      await command(`${formatMessage(options.from, message)}\r\n.`, [250]);
+      await command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      socket.destroy();
+    }
+  };
+  return { send };
+}
+
+/**
+ * SMS through an HTTP gateway: POSTs `{ to, message }` as JSON, with an
+ * optional bearer token. Most SMS providers can be fronted this way.
+ */
+export function createWebhookSmsTransport(url: string, token?: string): Transport {
+  const send = async (message: OutgoingMessage) => {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+      body: JSON.stringify({ to: message.to, message: `${message.subject}\n${message.text}` }),
+      signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+    });
+    if (!res.ok) throw new Error(`SMS gateway responded ${res.status}`);
+  };
+  return { send };
+}
+
+/** The transports configured through `SMTP_*` and `SMS_WEBHOOK_*` variables. */
+export function transportsFromEnv(env = process.env): Transports {
+  const transports: Transports = {};
+  if (env.SMTP_HOST) {
+    const secure = env.SMTP_SECURE === 'true';
+    transports.email = createSmtpTransport({
+      host: env.SMTP_HOST,
+      port: Number(env.SMTP_PORT) || (secure ? 465 : 25),
+      secure,
+      user: env.SMTP_USER || undefined,
+      pass: env.SMTP_PASS || undefined,
+      from: env.SMTP_FROM || `board@${env.SMTP_HOST}`,
+    });
+  }
+  if (env.SMS_WEBHOOK_URL) transports.sms = createWebhookSmsTransport(env.SMS_WEBHOOK_URL, env.SMS_WEBHOOK_TOKEN || undefined);
+  return transports;
+}
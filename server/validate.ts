@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ApiError } from './errors';
+
+// --- Request body parsing ---
+// Each helper either returns a clean value or throws a 400 with a message the
+// admin can act on.
+
+export function optionalString(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') throw new ApiError(400, 'قيمة غير صالحة.');
+  return value.trim() || undefined;
+}
+
+export function requireString(value: unknown, message: string): string {
+  const str = optionalString(value);
+  if (!str) throw new ApiError(400, message);
+  return str;
+}
+
+export function requireBoolean(value: unknown, fallback = false): boolean {
+  if (value === undefined || value === null) return fallback;
+  if (typeof value !== 'boolean') throw new ApiError(400, 'قيمة غير صالحة.');
+  return value;
+}
+
+export function requireDate(value: unknown, label: string): string {
+  const str = requireString(value, `${label} مطلوب.`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(str) || Number.isNaN(new Date(str).getTime())) {
+    throw new ApiError(400, `${label} يجب أن يكون بصيغة YYYY-MM-DD.`);
+  }
+  return str;
+}
+
+export function stringList(value: unknown, label: string): string[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) throw new ApiError(400, `${label} غير صالحة.`);
+  return [...new Set(value.map(v => v.trim()).filter(Boolean))];
+}
+
+export function parseIntParam(raw: string, message: string): number {
+  const value = Number(raw);
+  if (!Number.isInteger(value)) throw new ApiError(400, message);
+  return value;
+}
+
+export function optionalInt(value: unknown, message: string): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'number' || !Number.isInteger(value)) throw new ApiError(400, message);
+  return value;
+}
+
+/** The fields of a JSON object body. Anything else reads as an empty body, so each field reports itself as missing. */
+export function bodyFields(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+/** One of `options`; a missing value falls back to `fallback` when there is one. */
+export function requireOption<T extends string>(value: unknown, options: readonly T[], message: string, fallback?: T): T {
+  const option = value ?? fallback;
+  if (!options.includes(option as T)) throw new ApiError(400, message);
+  return option as T;
+}
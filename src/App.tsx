@@ -3,260 +3,423 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
 import {
   LineChart, Layers, FileCheck, Hourglass, Loader2, Route, Check,
   CheckCircle2, CheckSquare, Landmark, CircleDot, Square, Clock, Lock,
-  UserCircle, LogOut, Users, Bell, ShieldCheck, Activity, Settings, Trash2, X,
-  Target, Calendar, Award, BarChart3, ListTodo, PieChart
+  UserCircle, LogOut, Users, Bell, BellRing, ShieldCheck, Activity, Settings, Trash2, X,
+  Target, Calendar, CalendarDays, Archive, Award, BarChart3, ListTodo, PieChart, KeyRound, XCircle, MinusCircle, UserMinus, FileText, History, Printer, GanttChartSquare, ClipboardCheck, Undo2
 } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart as RechartsPieChart, Pie, Cell } from 'recharts';
+import { api, ApiRequestError } from './api';
+import { activeMembers, can, canReviewTask, countedVotes, decidedAt, DECISION_LABELS, DECISION_RULE_LABELS, getActivePhase, isGateDecided, isTaskAccepted, isVoteStale, isWindowOpen, pendingReopening, phaseDrafts, ROLE_LABELS, tallyGate, TASK_STATUS_LABELS, taskStatus, votingMembers } from './board';
+import AdminConsole from './components/AdminConsole';
+import CalendarSubscription from './components/CalendarSubscription';
+import DataExport from './components/DataExport';
+import DraftViewer from './components/DraftViewer';
+import GanttChart from './components/GanttChart';
+import NotificationCenter from './components/NotificationCenter';
+import PrintableReport, { type ReportTarget } from './components/PrintableReport';
+import ProgressAnalytics from './components/ProgressAnalytics';
+import DiscussionPanel from './components/DiscussionPanel';
+import ProxyPanel from './components/ProxyPanel';
+import ReminderSettings from './components/ReminderSettings';
+import LocaleSwitcher from './components/LocaleSwitcher';
+import TaskDetails from './components/TaskDetails';
+import VoteHistory from './components/VoteHistory';
+import VoteRevisionForm from './components/VoteRevisionForm';
+import VotingWindowPanel from './components/VotingWindowPanel';
+import { applyCompletionTimeEvent, applyTaskEvent, applyVoteEvent, subscribeToBoardEvents } from './events';
+import { formatDate, formatDateRange, formatDateTime, formatNumber, formatTime, getLocale, setLocale, t, textDirection, type LocaleSettings } from './i18n';
+import type { BoardEvent, BoardEventType, BoardState, DiscussionThread, Draft, GateTally, InboxItem, Member, Notification, Phase, PhaseReopening, Plan, Proxy, Task, TaskCompletion, TaskCompletionTimes, TaskProgress, TaskReview, TaskStatus, User, VoteDecision, VoteRecord, Votes } from './types';
 
-// --- Types & Constants ---
-type User = { name: string; id: string; isAdmin?: boolean };
-type VoteRecord = { id: string; name: string; comment?: string };
-type Votes = Record<number, VoteRecord[]>;
-type Notification = { id: string; message: string; time: Date };
-type Task = { id: string; title: string; assignees: string[]; startDate: string; endDate: string; deliverables: string; phaseId?: number };
-
-const TOTAL_MEMBERS = 7;
-const BOARD_MEMBERS = [
-  { id: '1077394771', name: 'د. حامد إبراهيم البلوي' },
-  { id: '1026898955', name: 'د. علي محمد الفردوس' },
-  { id: '1017569672', name: 'د. يوسف صالح العلاوي' },
-  { id: '1054208309', name: 'أ. عايشه ناصر خلف' },
-  { id: '1064258351', name: 'أ. فاطمة صالح السلمي' },
-  { id: '1060048459', name: 'د. أماني عايش العنزي' },
-  { id: '1114934381', name: 'م. عبدالله وليد الضيوفي', isAdmin: true },
-];
-
-const ALL_MEMBER_IDS = BOARD_MEMBERS.map(m => m.id);
-const STRATEGY_TEAM_IDS = ['1114934381', '1077394771', '1060048459', '1054208309', '1064258351'];
-
-const TASKS: Task[] = [
-  { id: 't1', title: 'التنسيق مع الجهات المشرفة', assignees: ['1017569672'], startDate: '2026-02-03', endDate: '2026-02-04', deliverables: 'خطابات رسمية لوزارة الصحة والمركز الوطني.' },
-  { id: 't2', title: 'تأمين مقر للجمعية', assignees: ['1017569672', '1026898955'], startDate: '2026-02-03', endDate: '2026-02-13', deliverables: 'مقر جاهز ومؤثث (مرحلة 1 و 2).' },
-  { id: 't3', title: 'بناء الهوية البصرية', assignees: ['1114934381', '1054208309'], startDate: '2026-02-03', endDate: '2026-02-16', deliverables: 'الشعار، الأختام، والمطبوعات الرسمية.' },
-  { id: 't4', title: 'التشخيص وتحليل المعطيات', assignees: STRATEGY_TEAM_IDS, startDate: '2026-02-10', endDate: '2026-02-13', deliverables: 'المسودة 1 (الوضع الراهن) باستخدام أدوات (PESTLE, SWOT, McKinsey 7S).', phaseId: 1 },
-  { id: 't5', title: 'هندسة الهوية والتوجه', assignees: STRATEGY_TEAM_IDS, startDate: '2026-02-14', endDate: '2026-02-17', deliverables: 'المسودات 2، 3، 4 (الرؤية، الرسالة، القيم) عبر ورش عمل.', phaseId: 2 },
-  { id: 't6', title: 'التصميم التشغيلي ونموذج العمل', assignees: STRATEGY_TEAM_IDS, startDate: '2026-02-18', endDate: '2026-02-21', deliverables: 'المسودات 5، 6 (نموذج العمل، الخطة الأولية).', phaseId: 3 },
-  { id: 't7', title: 'الحوكمة والإخراج النهائي', assignees: STRATEGY_TEAM_IDS, startDate: '2026-02-22', endDate: '2026-02-24', deliverables: 'الوثيقة الاستراتيجية الشاملة المعتمدة.', phaseId: 4 },
-  { id: 't8', title: 'إنشاء قنوات التواصل والموقع', assignees: ['1114934381'], startDate: '2026-03-05', endDate: '2026-03-12', deliverables: 'تفعيل المنصات (تويتر، يوتيوب، الموقع الإلكتروني).' },
-  { id: 't9', title: 'استخراج التراخيص والرقم 700', assignees: ['1017569672'], startDate: '2026-03-13', endDate: '2026-03-19', deliverables: 'شهادة التسجيل والرقم الموحد.' },
-  { id: 't10', title: 'حساب التأمينات الاجتماعية', assignees: ['1017569672', '1114934381'], startDate: '2026-03-20', endDate: '2026-03-24', deliverables: 'حساب مفعل وجاهز لتسجيل الموظفين.' },
-  { id: 't11', title: 'تسجيل العنوان الوطني', assignees: ['1017569672', '1114934381'], startDate: '2026-03-25', endDate: '2026-03-31', deliverables: 'شهادة العنوان الوطني المعتمدة.' },
-  { id: 't12', title: 'فتح الحساب البنكي', assignees: ['1017569672', '1114934381'], startDate: '2026-04-01', endDate: '2026-04-08', deliverables: 'حساب بنكي مفعل مع التواقيع المعتمدة.' },
-  { id: 't13', title: 'الموارد البشرية والاستقطاب', assignees: ['1017569672', '1077394771', '1026898955'], startDate: '2026-04-09', endDate: '2026-04-18', deliverables: 'تعيين المدير التنفيذي والمحاسب.' },
-  { id: 't14', title: 'الأنظمة المالية', assignees: ALL_MEMBER_IDS, startDate: '2026-04-19', endDate: '2026-04-27', deliverables: 'نظام محاسبي سحابي وموازنة معتمدة.' },
-  { id: 't15', title: 'تنمية عضوية الجمعية العمومية', assignees: ALL_MEMBER_IDS, startDate: '2026-04-28', endDate: '2026-05-03', deliverables: 'إطلاق حملة التعريف وقبول الأعضاء الجدد.' },
-  { id: 't16', title: 'إغلاق الخطة وتسليم التقرير', assignees: ALL_MEMBER_IDS, startDate: '2026-05-04', endDate: '2026-05-14', deliverables: 'التقرير الختامي لـ 100 يوم وجاهزية التشغيل.' },
-];
-
-const PHASES = [
-  {
-    id: 1,
-    title: 'التشخيص الاستراتيجي',
-    tools: ['PESTLE', 'SWOT', 'McKinsey 7S'],
-    drafts: ['المسودة 1: وثيقة تحليل الوضع الراهن'],
-    gate: 'مراجعة ومصادقة',
-  },
-  {
-    id: 2,
-    title: 'هندسة الهوية',
-    tools: ['Golden Circle', 'Collins-Porras'],
-    drafts: ['المسودة 2: الرؤية', 'المسودة 3: الرسالة', 'المسودة 4: القيم'],
-    gate: 'عصف ذهني واعتماد مبدئي',
-  },
-  {
-    id: 3,
-    title: 'التصميم التشغيلي',
-    tools: ['Non-Profit Canvas', 'V2MOM'],
-    drafts: ['المسودة 5: نموذج العمل', 'المسودة 6: الخطة التشغيلية'],
-    gate: 'مراجعة الجدوى وتوزيع الموارد',
-  },
-  {
-    id: 4,
-    title: 'الحوكمة والإخراج',
-    tools: ['تجميع', 'إخراج بصري', 'مراجعة قانونية'],
-    drafts: ['الوثيقة الشاملة'],
-    gate: 'التوقيع الختامي',
-  },
-];
+const TASK_STATUS_COLORS: Record<TaskStatus, string> = {
+  not_started: '#94a3b8',
+  in_progress: '#6366f1',
+  at_risk: '#f59e0b',
+  overdue: '#ef4444',
+  awaiting_review: '#8b5cf6',
+  done_on_time: '#10b981',
+  done_late: '#0d9488',
+};
+
+const TASK_STATUS_BADGES: Record<TaskStatus, string> = {
+  not_started: 'bg-slate-100 text-slate-600 border-slate-200',
+  in_progress: 'bg-indigo-50 text-indigo-700 border-indigo-100',
+  at_risk: 'bg-amber-50 text-amber-700 border-amber-200',
+  overdue: 'bg-red-50 text-red-700 border-red-200',
+  awaiting_review: 'bg-violet-50 text-violet-700 border-violet-200',
+  done_on_time: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  done_late: 'bg-teal-50 text-teal-700 border-teal-200',
+};
+
+/** Events whose effects the reducers in ./events cannot apply locally; they trigger a full refetch. */
+const REFETCH_EVENTS: BoardEventType[] = ['config.updated', 'draft.published', 'task.progress', 'task.reviewed', 'phase.reset', 'phase.reopened', 'gate.opened', 'gate.extended', 'gate.closed', 'proxy.granted', 'proxy.revoked', 'discussion.posted', 'discussion.edited', 'discussion.resolved', 'discussion.reopened'];
 
 export default function App() {
   // --- State ---
   const [user, setUser] = useState<User | null>(null);
+  const [authChecked, setAuthChecked] = useState(false);
   const [loginId, setLoginId] = useState('');
+  const [loginPin, setLoginPin] = useState('');
   const [loginError, setLoginError] = useState('');
+  const [showPinDialog, setShowPinDialog] = useState(false);
+  const [pinForm, setPinForm] = useState({ current: '', next: '', error: '' });
   const [showAdminPanel, setShowAdminPanel] = useState(false);
   const [activeTab, setActiveTab] = useState<'overview' | 'phases' | 'tasks'>('overview');
+  const [taskView, setTaskView] = useState<'cards' | 'gantt'>('cards');
   
-  const [votes, setVotes] = useState<Votes>({ 1: [], 2: [], 3: [], 4: [] });
+  const [planId, setPlanId] = useState<number | null>(null);
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [directory, setDirectory] = useState<Member[]>([]);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [phases, setPhases] = useState<Phase[]>([]);
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+  const [openDrafts, setOpenDrafts] = useState<{ phaseId: number; draftId?: number } | null>(null);
+  const [printTarget, setPrintTarget] = useState<ReportTarget | null>(null);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [votes, setVotes] = useState<Votes>({});
+  const [proxies, setProxies] = useState<Proxy[]>([]);
+  const [discussions, setDiscussions] = useState<DiscussionThread[]>([]);
+  const [reopenings, setReopenings] = useState<PhaseReopening[]>([]);
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [commentInputs, setCommentInputs] = useState<Record<number, string>>({});
-  const [taskCompletion, setTaskCompletion] = useState<Record<string, string[]>>({});
+  // A rejection or recusal waiting for its required reason.
+  const [reasonPrompt, setReasonPrompt] = useState<{ phaseId: number; decision: 'reject' | 'recuse' } | null>(null);
+  const [revisingVote, setRevisingVote] = useState<number | null>(null);
+  const [taskCompletion, setTaskCompletion] = useState<TaskCompletion>({});
+  const [taskCompletedAt, setTaskCompletedAt] = useState<TaskCompletionTimes>({});
+  const [taskProgress, setTaskProgress] = useState<Record<string, Record<string, TaskProgress>>>({});
+  const [taskReviews, setTaskReviews] = useState<Record<string, TaskReview>>({});
+  const [openTaskId, setOpenTaskId] = useState<string | null>(null);
+  const [inboxKey, setInboxKey] = useState(0);
+  const [showReminderSettings, setShowReminderSettings] = useState(false);
+  const [showCalendar, setShowCalendar] = useState(false);
+  const [initialEventId, setInitialEventId] = useState<number | null>(null);
+  const [isLive, setIsLive] = useState(false);
+  const [locale, setLocaleState] = useState<LocaleSettings>(getLocale);
+  const userRef = useRef<User | null>(null);
+  userRef.current = user;
+  // The live-update handler outlives renders; it reads the plan on screen through refs.
+  const planIdRef = useRef<number | null>(null);
+  planIdRef.current = planId;
+  const phasesRef = useRef<Phase[]>([]);
+  phasesRef.current = phases;
+  const tasksRef = useRef<Task[]>([]);
+  tasksRef.current = tasks;
 
-  // --- Load/Save State ---
+  // --- Session ---
   useEffect(() => {
-    const savedUser = localStorage.getItem('board_user');
-    const savedVotes = localStorage.getItem('board_votes');
-    const savedTasks = localStorage.getItem('board_tasks');
-    if (savedUser) setUser(JSON.parse(savedUser));
-    if (savedTasks) setTaskCompletion(JSON.parse(savedTasks));
-    if (savedVotes) {
-      try {
-        const parsed = JSON.parse(savedVotes);
-        if (parsed[1] && typeof parsed[1][0] === 'string') {
-          setVotes({ 1: [], 2: [], 3: [], 4: [] });
-        } else {
-          setVotes(parsed);
-        }
-      } catch (e) {}
-    }
+    // Identity used to be trusted from this key; it is no longer read.
+    localStorage.removeItem('board_user');
+    api.me()
+      .then(setUser)
+      .catch(() => setUser(null))
+      .finally(() => setAuthChecked(true));
   }, []);
 
+  // --- Load State ---
   useEffect(() => {
-    if (user) localStorage.setItem('board_user', JSON.stringify(user));
-    localStorage.setItem('board_votes', JSON.stringify(votes));
-    localStorage.setItem('board_tasks', JSON.stringify(taskCompletion));
-  }, [user, votes, taskCompletion]);
+    if (!user) {
+      setInitialEventId(null);
+      return;
+    }
+    api.getState()
+      .then(state => {
+        applyState(state);
+        setInitialEventId(state.lastEventId);
+      })
+      .catch(handleApiError);
+  }, [user?.id]);
+
+  // --- Live Updates ---
+  useEffect(() => {
+    if (initialEventId === null) return;
+    return subscribeToBoardEvents(initialEventId, handleBoardEvent, setIsLive);
+  }, [initialEventId]);
 
   // --- Derived State ---
-  let activePhase = 1;
-  if (votes[1].length === TOTAL_MEMBERS) activePhase = 2;
-  if (votes[2].length === TOTAL_MEMBERS) activePhase = 3;
-  if (votes[3].length === TOTAL_MEMBERS) activePhase = 4;
-  if (votes[4].length === TOTAL_MEMBERS) activePhase = 5; // All completed
-
-  const totalVotesCast = Object.values(votes).reduce((acc, curr) => acc + curr.length, 0);
-  const overallProgress = Math.round((totalVotesCast / (4 * TOTAL_MEMBERS)) * 100);
+  const plan = plans.find(p => p.id === planId);
+  const readOnly = !!plan?.archivedAt;
+  // Admins hold every management capability, so this covers them too.
+  const canManage = !!user && (can(user, 'manage_gates') || can(user, 'manage_minutes'));
+  const totalMembers = votingMembers(members).length;
+  const activePhase = getActivePhase(phases, votes, members);
+  const allPhasesApproved = activePhase === Infinity;
+
+  const totalVotesCast = phases.reduce((acc, phase) => acc + countedVotes(votes[phase.id], members).length, 0);
+  const totalVotesPossible = phases.length * totalMembers;
+  const overallProgress = totalVotesPossible ? Math.round((totalVotesCast / totalVotesPossible) * 100) : 0;
   
-  const completedDraftsCount = PHASES.slice(0, activePhase - 1).reduce((acc, phase) => acc + phase.drafts.length, 0);
-  const totalDraftsCount = PHASES.reduce((acc, phase) => acc + phase.drafts.length, 0);
+  const completedDraftsCount = drafts.filter(draft => draft.phaseId < activePhase).length;
+  const totalDraftsCount = drafts.length;
 
   // --- Derived Stats for Overview ---
-  const totalTasks = TASKS.length;
-  const fullyCompletedTasks = TASKS.filter(t => (taskCompletion[t.id] || []).length === t.assignees.length).length;
-  const tasksProgress = Math.round((fullyCompletedTasks / totalTasks) * 100);
+  const totalTasks = tasks.length;
+  const fullyCompletedTasks = tasks.filter(t => isTaskAccepted(t, taskCompletedAt[t.id], taskReviews[t.id])).length;
+  const tasksProgress = totalTasks ? Math.round((fullyCompletedTasks / totalTasks) * 100) : 0;
 
-  const startDate = new Date('2026-02-03').getTime();
-  const endDate = new Date('2026-05-14').getTime();
+  const startDate = new Date(plan?.startDate ?? Date.now()).getTime();
+  const endDate = new Date(plan?.endDate ?? Date.now()).getTime();
   const today = new Date().getTime();
   const totalDays = Math.ceil((endDate - startDate) / (1000 * 60 * 60 * 24));
   const daysPassed = Math.max(0, Math.min(totalDays, Math.ceil((today - startDate) / (1000 * 60 * 60 * 24))));
-  const timeProgress = Math.round((daysPassed / totalDays) * 100);
+  const timeProgress = totalDays ? Math.round((daysPassed / totalDays) * 100) : 100;
+  const formatPlanDate = (date?: string) => date ? formatDate(date, 'long') : '—';
 
-  const memberStats = BOARD_MEMBERS.map(m => {
-    const assigned = TASKS.filter(t => t.assignees.includes(m.id)).length;
-    const completed = TASKS.filter(t => t.assignees.includes(m.id) && (taskCompletion[t.id] || []).includes(m.id)).length;
+  const todayDate = new Date().toISOString().slice(0, 10);
+  const statusOf = (task: Task) => taskStatus(task, taskCompletedAt[task.id], taskReviews[task.id], todayDate);
+
+  // A member is behind on a task when it is overdue or at risk and they have not done their part.
+  const memberStats = activeMembers(members).map(m => {
+    const mine = tasks.filter(t => t.assignees.includes(m.id));
+    const pending = mine.filter(t => !(taskCompletion[t.id] || []).includes(m.id));
     return {
       name: m.name.replace(/^(د\.|م\.|أ\.)\s*/, '').split(' ')[0],
-      'مهام مسندة': assigned,
-      'مهام منجزة': completed
+      assigned: mine.length,
+      done: mine.length - pending.length,
+      overdue: pending.filter(t => statusOf(t) === 'overdue').length,
+      atRisk: pending.filter(t => statusOf(t) === 'at_risk').length,
     };
   });
 
-  const pieData = [
-    { name: 'مكتملة', value: fullyCompletedTasks, color: '#10b981' },
-    { name: 'قيد التنفيذ', value: totalTasks - fullyCompletedTasks, color: '#6366f1' }
-  ];
+  const pieData = (Object.keys(TASK_STATUS_LABELS) as TaskStatus[]).map(status => ({
+    status,
+    name: t(TASK_STATUS_LABELS[status]),
+    value: tasks.filter(t => statusOf(t) === status).length,
+    color: TASK_STATUS_COLORS[status],
+  }));
 
   // --- Handlers ---
   const handleLogin = (e: React.FormEvent) => {
     e.preventDefault();
-    const member = BOARD_MEMBERS.find(m => m.id === loginId.trim());
-    if (member) {
-      setUser({ name: member.name, id: member.id, isAdmin: member.isAdmin });
-      setLoginError('');
-    } else {
-      setLoginError('رقم الهوية غير مسجل في النظام.');
-    }
+    api.login(loginId.trim(), loginPin)
+      .then(member => {
+        setUser(member);
+        setLoginPin('');
+        setLoginError('');
+      })
+      .catch(err => setLoginError(err.message));
   };
 
   const handleLogout = () => {
+    api.logout().catch(() => {});
     setUser(null);
+    setShowAdminPanel(false);
     setLoginId('');
+    setLoginPin('');
     setLoginError('');
-    localStorage.removeItem('board_user');
   };
 
-  const castVote = (phaseId: number, voterId: string, voterName: string, isExternal = false, comment?: string) => {
-    const existingVote = votes[phaseId].find(v => v.id === voterId);
-    
-    if (existingVote) {
-      if (comment && !existingVote.comment) {
-        setVotes(prev => ({
-          ...prev,
-          [phaseId]: prev[phaseId].map(v => v.id === voterId ? { ...v, comment } : v)
-        }));
-      }
+  const handleApiError = (err: Error) => {
+    if (err instanceof ApiRequestError && err.status === 401) {
+      setUser(null);
+      setLoginError(t('انتهت الجلسة، يرجى تسجيل الدخول مجدداً.'));
       return;
     }
-    
-    setVotes(prev => ({
-      ...prev,
-      [phaseId]: [...prev[phaseId], { id: voterId, name: voterName, comment }]
-    }));
-
-    if (isExternal) {
-      const newNotif = {
-        id: Math.random().toString(36).substr(2, 9),
-        message: `قام ${voterName} بالتصويت بالموافقة على المرحلة ${phaseId}`,
-        time: new Date()
-      };
-      setNotifications(prev => [newNotif, ...prev].slice(0, 5));
-    }
+    notify(err.message);
   };
 
-  const removeVote = (phaseId: number, voterId: string) => {
-    setVotes(prev => ({
-      ...prev,
-      [phaseId]: prev[phaseId].filter(v => v.id !== voterId)
-    }));
+  const handleChangePin = (e: React.FormEvent) => {
+    e.preventDefault();
+    api.changePin(pinForm.current, pinForm.next)
+      .then(() => {
+        setShowPinDialog(false);
+        setPinForm({ current: '', next: '', error: '' });
+        notify(t('تم تغيير رمز الدخول بنجاح'));
+      })
+      .catch(err => setPinForm(prev => ({ ...prev, error: err.message })));
   };
 
-  const resetPhase = (phaseId: number) => {
-    setVotes(prev => ({
-      ...prev,
-      [phaseId]: []
-    }));
+  const notify = (message: string) => {
+    const newNotif = {
+      id: Math.random().toString(36).substr(2, 9),
+      message,
+      time: new Date()
+    };
+    setNotifications(prev => [newNotif, ...prev].slice(0, 5));
   };
 
-  const toggleTaskCompletion = (taskId: string, memberId: string) => {
-    setTaskCompletion(prev => {
-      const current = prev[taskId] || [];
-      const isCompleted = current.includes(memberId);
-      const updated = isCompleted ? current.filter(id => id !== memberId) : [...current, memberId];
-      
-      if (!isCompleted) {
-        const task = TASKS.find(t => t.id === taskId);
-        const newNotif = {
-          id: Math.random().toString(36).substr(2, 9),
-          message: `أنجز ${user?.name} مهمة: ${task?.title}`,
-          time: new Date()
-        };
-        setNotifications(n => [newNotif, ...n].slice(0, 5));
+  const changeLocale = (next: LocaleSettings) => {
+    setLocale(next);
+    setLocaleState(next);
+  };
+
+  const applyState = (state: BoardState) => {
+    api.setPlan(state.planId);
+    setPlanId(state.planId);
+    setPlans(state.plans);
+    setDirectory(state.directory);
+    setMembers(state.members);
+    setPhases(state.phases);
+    setDrafts(state.drafts);
+    setTasks(state.tasks);
+    setVotes(state.votes);
+    setProxies(state.proxies);
+    setDiscussions(state.discussions);
+    setReopenings(state.reopenings);
+    setTaskCompletion(state.taskCompletion);
+    setTaskCompletedAt(state.taskCompletedAt);
+    setTaskProgress(state.taskProgress);
+    setTaskReviews(state.taskReviews);
+  };
+
+  const switchPlan = (id: number) => {
+    api.setPlan(id);
+    setOpenTaskId(null);
+    setOpenDrafts(null);
+    setReasonPrompt(null);
+    setRevisingVote(null);
+    api.getState().then(applyState).catch(handleApiError);
+  };
+
+  const phaseLabel = (phaseId?: number) => t('المرحلة {number}', { number: phasesRef.current.find(p => p.id === phaseId)?.number ?? phaseId });
+
+  const describeEvent = (event: BoardEvent): string | null => {
+    const isMine = event.memberId === userRef.current?.id;
+    const byMe = event.actorId === userRef.current?.id;
+    const task = tasksRef.current.find(t => t.id === event.taskId);
+    switch (event.type) {
+      case 'vote.cast': {
+        if (isMine || event.proxyHolderId === userRef.current?.id) return null;
+        const params = { name: event.memberName, phase: phaseLabel(event.phaseId), holder: event.proxyHolderName };
+        if (event.decision === 'recuse') return t('تنحّى {name} عن التصويت على {phase} لتعارض المصالح', params);
+        const byProxy = event.proxyHolderName ? t(' (بالإنابة: {holder})', params) : '';
+        if (event.decision === 'reject') return t('اعترض {name} على {phase}', params) + byProxy;
+        if (event.decision === 'abstain') return t('امتنع {name} عن التصويت على {phase}', params) + byProxy;
+        return t('قام {name} بالتصويت بالموافقة على {phase}', params) + byProxy;
       }
-      
-      return { ...prev, [taskId]: updated };
-    });
+      case 'vote.commented':
+        return isMine ? null : t('أضاف {name} تعليقاً على {phase}', { name: event.memberName, phase: phaseLabel(event.phaseId) });
+      case 'vote.changed':
+        return isMine ? null : t('غيّر {name} تصويته على {phase} إلى: {decision}', { name: event.memberName, phase: phaseLabel(event.phaseId), decision: t(DECISION_LABELS[event.decision!]) });
+      case 'vote.withdrawn':
+        return isMine ? null : t('سحب {name} تصويته على {phase}', { name: event.memberName, phase: phaseLabel(event.phaseId) });
+      case 'vote.removed':
+        return t('تم إلغاء صوت {name} في {phase}', { name: event.memberName, phase: phaseLabel(event.phaseId) });
+      case 'phase.reset':
+        return t('تم إلغاء جميع الأصوات في {phase}', { phase: phaseLabel(event.phaseId) });
+      case 'gate.opened':
+        return byMe ? null : t('فُتح التصويت على {phase} حتى {time}', { phase: phaseLabel(event.phaseId), time: formatDateTime(event.closesAt!) });
+      case 'gate.extended':
+        return byMe ? null : t('مُدّدت مهلة التصويت على {phase} حتى {time}: {reason}', { phase: phaseLabel(event.phaseId), time: formatDateTime(event.closesAt!), reason: event.reason });
+      case 'gate.closed':
+        return event.gateOutcome === 'approved'
+          ? t('انتهت مهلة التصويت على {phase} واعتُمدت البوابة', { phase: phaseLabel(event.phaseId) })
+          : t('انتهت مهلة التصويت على {phase} دون اعتماد البوابة', { phase: phaseLabel(event.phaseId) });
+      case 'phase.reopened':
+        return byMe ? null : t('أعاد {name} فتح بوابة {phase}: {reason}', { name: event.actorName, phase: phaseLabel(event.phaseId), reason: event.reason });
+      case 'task.completed':
+        return t('أنجز {name} مهمة: {task}', { name: event.memberName, task: task?.title });
+      case 'task.reopened':
+        return isMine ? null : t('ألغى {name} إنجاز مهمة: {task}', { name: event.memberName, task: task?.title });
+      case 'draft.published':
+        return t('نُشرت النسخة {version} من {draft}', { version: event.version, draft: event.draftTitle });
+      case 'task.progress':
+        return isMine ? null : t('حدّث {name} إنجاز مهمة: {task} ({percent}%)', { name: event.memberName, task: task?.title, percent: event.percent });
+      case 'task.reviewed':
+        return event.reviewDecision === 'accepted'
+          ? t('اعتمد {name} مهمة: {task}', { name: event.actorName, task: task?.title })
+          : t('أعاد {name} مهمة للمكلفين: {task}', { name: event.actorName, task: task?.title });
+      case 'proxy.granted':
+        return t('وكّل {name} {holder} بالتصويت على {phase}', { name: event.memberName, holder: event.proxyHolderName, phase: phaseLabel(event.phaseId) });
+      case 'proxy.revoked':
+        return t('أُلغي توكيل {name} لـ{holder} على {phase}', { name: event.memberName, holder: event.proxyHolderName, phase: phaseLabel(event.phaseId) });
+      case 'discussion.posted':
+        return byMe ? null : t('كتب {name} في نقاش «{thread}» على {phase}', { name: event.actorName, thread: event.threadTitle, phase: phaseLabel(event.phaseId) });
+      case 'discussion.resolved':
+        return byMe ? null : t('حسم {name} نقاش «{thread}»', { name: event.actorName, thread: event.threadTitle });
+      case 'discussion.reopened':
+        return byMe ? null : t('أعاد {name} فتح نقاش «{thread}»', { name: event.actorName, thread: event.threadTitle });
+    }
+  };
+
+  const handleBoardEvent = (event: BoardEvent) => {
+    // Changes in other plans only reach the inbox, except settings changes, which the plan switcher shows.
+    const otherPlan = event.planId !== undefined && event.planId !== planIdRef.current;
+    if (event.type === 'config.updated' || (!otherPlan && REFETCH_EVENTS.includes(event.type))) {
+      api.getState().then(applyState).catch(handleApiError);
+    } else if (!otherPlan) {
+      setVotes(prev => applyVoteEvent(prev, event));
+      setTaskCompletion(prev => applyTaskEvent(prev, event));
+      setTaskCompletedAt(prev => applyCompletionTimeEvent(prev, event));
+    }
+    const message = otherPlan ? null : describeEvent(event);
+    if (message) notify(message);
+    setInboxKey(key => key + 1);
+  };
+
+  const openInboxItem = (item: InboxItem) => {
+    if (item.taskId) {
+      setActiveTab('tasks');
+      setOpenTaskId(item.taskId);
+    } else if (item.phaseId) {
+      setActiveTab('phases');
+    }
+  };
+
+  const castVote = (phaseId: number, voterId: string, decision: VoteDecision = 'approve', comment?: string) => {
+    const existingVote = (votes[phaseId] || []).find(v => v.id === voterId);
+    const renewing = !!existingVote && isVoteStale(existingVote, phaseDrafts(drafts, phaseId));
+    if (existingVote && !renewing && (!comment || existingVote.comment)) return;
+    if ((!existingVote || renewing) && (decision === 'reject' || decision === 'recuse') && !comment?.trim()) {
+      notify(t(decision === 'reject' ? 'يجب ذكر مبررات الاعتراض قبل إرساله.' : 'يجب ذكر سبب التنحي قبل إرساله.'));
+      return;
+    }
+
+    api.castVote(phaseId, voterId, decision, comment)
+      .then(state => {
+        applyState(state);
+        setReasonPrompt(null);
+        setCommentInputs(prev => ({ ...prev, [phaseId]: '' }));
+      })
+      .catch(handleApiError);
+  };
+
+  const removeVote = (phaseId: number, voterId: string) => {
+    api.removeVote(phaseId, voterId).then(applyState).catch(handleApiError);
+  };
+
+  const resetPhase = (phaseId: number) => {
+    api.resetPhase(phaseId).then(applyState).catch(handleApiError);
   };
 
-  const renderVoters = (phaseVotes: VoteRecord[]) => {
+  const renderVoters = (phaseVotes: VoteRecord[], phaseId: number, tally: GateTally) => {
     if (phaseVotes.length === 0) return null;
+    const currentDrafts = phaseDrafts(drafts, phaseId);
     return (
       <div className="mt-4 pt-4 border-t border-slate-200/60">
-        <p className="text-xs text-slate-500 mb-2 font-medium">الأعضاء المصوتين ({phaseVotes.length} من {TOTAL_MEMBERS}):</p>
+        <p className="text-xs text-slate-500 mb-2 font-medium">
+          {t('الأعضاء المصوتين ({participating} من {eligible})', { participating: tally.participating, eligible: tally.eligible })}
+          {tally.recused > 0 && t(' · المتنحون لتعارض المصالح: {count}', { count: tally.recused })}:
+        </p>
         <div className="flex flex-wrap gap-2">
-          {phaseVotes.map(v => (
-            <div key={v.id} className="flex items-center gap-1.5 bg-white border border-slate-200 px-2 py-1 rounded-md text-xs text-slate-600 shadow-sm" title={v.name}>
+          {phaseVotes.map(v => {
+            const stale = isVoteStale(v, currentDrafts);
+            if (v.decision === 'recuse') {
+              return (
+                <div key={v.id} className="flex items-center gap-1.5 bg-slate-50 border border-dashed border-slate-300 px-2 py-1 rounded-md text-xs text-slate-500" title={`${v.name} — ${t(DECISION_LABELS.recuse)}: ${v.comment ?? ''}`}>
+                  <UserMinus className="w-3.5 h-3.5 text-slate-400" />
+                  <span className="truncate max-w-[120px] line-through decoration-slate-300">{v.name}</span>
+                  <span className="text-[10px] font-bold">{t('متنحٍّ')}</span>
+                </div>
+              );
+            }
+            return (
+            <div key={v.id} className={`flex items-center gap-1.5 bg-white border px-2 py-1 rounded-md text-xs text-slate-600 shadow-sm ${stale ? 'border-amber-300 border-dashed' : 'border-slate-200'}`} title={`${v.name} — ${t(DECISION_LABELS[v.decision])}${v.proxyHolderName ? t(' (بالإنابة: {holder})', { holder: v.proxyHolderName }) : ''}${stale ? t(' (على نسخة سابقة من المسودات)') : ''} · ${t(v.changedAt ? 'عُدّل {time}' : 'صوّت {time}', { time: formatDateTime(decidedAt(v)) })}`}>
               <div className="w-5 h-5 rounded-full bg-indigo-100 text-indigo-700 flex items-center justify-center font-bold text-[10px]">
                 {v.name.replace(/^(د\.|م\.|أ\.)\s*/, '').charAt(0)}
               </div>
               <span className="truncate max-w-[120px]">{v.name}</span>
+              {v.decision === 'approve' ? <Check className="w-3 h-3 text-emerald-600" /> :
+               v.decision === 'reject' ? <XCircle className="w-3 h-3 text-red-500" /> :
+               <MinusCircle className="w-3 h-3 text-slate-400" />}
+              {stale && <History className="w-3 h-3 text-amber-500" />}
+              {v.proxyHolderName && <span className="text-[10px] text-indigo-600" title={t('بالإنابة: {holder}', { holder: v.proxyHolderName })}>{t('بالإنابة')}</span>}
             </div>
-          ))}
+            );
+          })}
         </div>
       </div>
     );
@@ -267,7 +430,7 @@ export default function App() {
     if (comments.length === 0) return null;
     return (
       <div className="mt-4 pt-4 border-t border-slate-200/60">
-        <p className="text-xs text-slate-500 mb-3 font-medium">تعليقات الأعضاء:</p>
+        <p className="text-xs text-slate-500 mb-3 font-medium">{t('تعليقات الأعضاء:')}</p>
         <div className="space-y-2">
           {comments.map(v => (
             <div key={v.id} className="bg-white p-3 rounded-lg border border-slate-100 shadow-sm">
@@ -276,8 +439,10 @@ export default function App() {
                   {v.name.replace(/^(د\.|م\.|أ\.)\s*/, '').charAt(0)}
                 </div>
                 <span className="text-xs font-bold text-slate-700">{v.name}</span>
+                {v.decision === 'reject' && <span className="text-[10px] px-1.5 py-0.5 rounded bg-red-50 text-red-600 border border-red-100 font-bold">{t('مبررات الاعتراض')}</span>}
+                {v.decision === 'recuse' && <span className="text-[10px] px-1.5 py-0.5 rounded bg-slate-100 text-slate-600 border border-slate-200 font-bold">{t('سبب التنحي')}</span>}
               </div>
-              <p className="text-sm text-slate-600 mr-7">{v.comment}</p>
+              <p className="text-sm text-slate-600 ms-7">{v.comment}</p>
             </div>
           ))}
         </div>
@@ -285,68 +450,96 @@ export default function App() {
     );
   };
 
+  const renderTally = (phase: Phase, tally: GateTally) => (
+    <div className="flex flex-wrap items-center gap-2 text-[11px]">
+      <span className="px-2 py-0.5 rounded-full bg-white border border-slate-200 text-slate-600 font-medium">
+        {t('قاعدة الاعتماد:')} {t(DECISION_RULE_LABELS[phase.decisionRule])}
+      </span>
+      <span className="px-2 py-0.5 rounded-full bg-emerald-50 border border-emerald-100 text-emerald-700 font-bold">{t('موافق')} {tally.approve}</span>
+      <span className="px-2 py-0.5 rounded-full bg-red-50 border border-red-100 text-red-600 font-bold">{t('معترض')} {tally.reject}</span>
+      <span className="px-2 py-0.5 rounded-full bg-slate-100 border border-slate-200 text-slate-600 font-bold">{t('ممتنع')} {tally.abstain}</span>
+      {tally.recused > 0 && (
+        <span className="px-2 py-0.5 rounded-full bg-white border border-dashed border-slate-300 text-slate-500 font-bold">{t('متنحٍّ')} {tally.recused}</span>
+      )}
+      <span className={`px-2 py-0.5 rounded-full border font-bold ${tally.quorumMet ? 'bg-emerald-50 border-emerald-100 text-emerald-700' : 'bg-amber-50 border-amber-100 text-amber-700'}`}>
+        {t(tally.quorumMet ? 'النصاب مكتمل' : 'النصاب غير مكتمل')} ({tally.participating}/{tally.quorumRequired})
+      </span>
+    </div>
+  );
+
   const renderAdminPanel = () => {
-    if (!showAdminPanel) return null;
+    if (!showAdminPanel || !user || !canManage) return null;
+    return (
+      <AdminConsole
+        user={user}
+        plans={plans}
+        planId={planId!}
+        directory={directory}
+        members={members}
+        phases={phases}
+        tasks={tasks}
+        votes={votes}
+        onClose={() => setShowAdminPanel(false)}
+        onRemoveVote={removeVote}
+        onResetPhase={resetPhase}
+        onStateChange={applyState}
+        onError={handleApiError}
+        notify={notify}
+      />
+    );
+  };
+
+  const renderPinDialog = () => {
+    if (!showPinDialog) return null;
     return (
       <div className="fixed inset-0 bg-slate-900/50 z-[100] flex items-center justify-center p-4">
-        <div className="bg-white rounded-2xl w-full max-w-2xl max-h-[80vh] overflow-y-auto shadow-2xl">
-          <div className="sticky top-0 bg-white border-b border-slate-200 p-4 flex items-center justify-between z-10">
-            <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
-              <Settings className="w-5 h-5 text-indigo-600" />
-              إدارة النظام (صلاحيات المدير)
+        <form onSubmit={handleChangePin} className="bg-white rounded-2xl w-full max-w-sm shadow-2xl p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <KeyRound className="w-5 h-5 text-indigo-600" />
+              {t('تغيير رمز الدخول')}
             </h2>
-            <button onClick={() => setShowAdminPanel(false)} className="p-2 text-slate-400 hover:bg-slate-100 rounded-full">
+            <button type="button" onClick={() => setShowPinDialog(false)} className="p-2 text-slate-400 hover:bg-slate-100 rounded-full">
               <X className="w-5 h-5" />
             </button>
           </div>
-          <div className="p-6 space-y-6">
-            {PHASES.map(phase => (
-              <div key={phase.id} className="border border-slate-200 rounded-xl p-4">
-                <div className="flex items-center justify-between mb-4">
-                  <h3 className="font-bold text-slate-800">المرحلة {phase.id}: {phase.title}</h3>
-                  <button 
-                    onClick={() => resetPhase(phase.id)}
-                    className="text-xs bg-red-50 text-red-600 hover:bg-red-100 px-3 py-1.5 rounded-md font-medium flex items-center gap-1"
-                  >
-                    <Trash2 className="w-3 h-3" />
-                    إلغاء جميع الأصوات
-                  </button>
-                </div>
-                {votes[phase.id].length === 0 ? (
-                  <p className="text-sm text-slate-500">لا توجد أصوات في هذه المرحلة.</p>
-                ) : (
-                  <div className="space-y-2">
-                    {votes[phase.id].map(v => (
-                      <div key={v.id} className="flex items-center justify-between bg-slate-50 p-2 rounded-lg border border-slate-100">
-                        <div className="flex items-center gap-2">
-                           <div className="w-6 h-6 rounded-full bg-indigo-100 text-indigo-700 flex items-center justify-center font-bold text-xs">
-                            {v.name.replace(/^(د\.|م\.|أ\.)\s*/, '').charAt(0)}
-                          </div>
-                          <span className="text-sm font-medium text-slate-700">{v.name}</span>
-                        </div>
-                        <button 
-                          onClick={() => removeVote(phase.id, v.id)}
-                          className="text-red-500 hover:text-red-700 p-1.5 hover:bg-red-50 rounded-md transition-colors"
-                          title="إلغاء صوت العضو"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </button>
-                      </div>
-                    ))}
-                  </div>
-                )}
-              </div>
-            ))}
-          </div>
-        </div>
+          <input
+            type="password"
+            required
+            placeholder={t('الرمز الحالي')}
+            value={pinForm.current}
+            onChange={e => setPinForm({ ...pinForm, current: e.target.value })}
+            className="w-full px-4 py-2.5 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none"
+          />
+          <input
+            type="password"
+            required
+            placeholder={t('الرمز الجديد (6 خانات على الأقل)')}
+            value={pinForm.next}
+            onChange={e => setPinForm({ ...pinForm, next: e.target.value })}
+            className="w-full px-4 py-2.5 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none"
+          />
+          {pinForm.error && <p className="text-red-500 text-sm font-medium">{pinForm.error}</p>}
+          <button type="submit" className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2.5 rounded-lg transition-colors">
+            {t('حفظ الرمز الجديد')}
+          </button>
+        </form>
       </div>
     );
   };
 
   // --- Render Login ---
+  if (!authChecked) {
+    return (
+      <div dir={textDirection()} className="min-h-screen bg-slate-50 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-indigo-500 animate-spin" />
+      </div>
+    );
+  }
+
   if (!user) {
     return (
-      <div dir="rtl" className="min-h-screen bg-slate-50 flex items-center justify-center p-4 font-sans">
+      <div dir={textDirection()} className="min-h-screen bg-slate-50 flex items-center justify-center p-4 font-sans">
         <motion.div 
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
@@ -355,7 +548,7 @@ export default function App() {
           <div className="flex flex-col items-center justify-center mb-6">
             <img 
               src="https://i.imgur.com/BBxVlTQ.png" 
-              alt="جمعية آزِر لمرضى الأورام بتبوك | AZER" 
+              alt={t('جمعية آزِر لمرضى الأورام بتبوك | AZER')} 
               className="h-24 w-auto object-contain mb-4"
               onError={(e) => {
                 if (!e.currentTarget.src.endsWith('.jpg')) {
@@ -369,14 +562,14 @@ export default function App() {
             <div className="hidden w-16 h-16 bg-indigo-50 text-indigo-600 rounded-full flex items-center justify-center mb-4">
               <ShieldCheck className="w-8 h-8" />
             </div>
-            <h2 className="text-sm font-bold text-indigo-600 mb-1">جمعية آزِر لمرضى الأورام بتبوك | AZER</h2>
-            <h1 className="text-2xl font-bold text-center text-slate-800 mb-2">بوابة مجلس الإدارة</h1>
-            <p className="text-center text-slate-500 text-sm">نظام المسودات المتصاعدة - تسجيل الدخول</p>
+            <h2 className="text-sm font-bold text-indigo-600 mb-1">{t('جمعية آزِر لمرضى الأورام بتبوك | AZER')}</h2>
+            <h1 className="text-2xl font-bold text-center text-slate-800 mb-2">{t('بوابة مجلس الإدارة')}</h1>
+            <p className="text-center text-slate-500 text-sm">{t('نظام المسودات المتصاعدة - تسجيل الدخول')}</p>
           </div>
           
           <form onSubmit={handleLogin} className="space-y-4">
             <div>
-              <label className="block text-sm font-medium text-slate-700 mb-1">رقم الهوية الوطنية</label>
+              <label className="block text-sm font-medium text-slate-700 mb-1">{t('رقم الهوية الوطنية')}</label>
               <input 
                 type="text" 
                 required
@@ -387,6 +580,18 @@ export default function App() {
                 maxLength={10}
               />
             </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">{t('رمز الدخول')}</label>
+              <input 
+                type="password" 
+                required
+                value={loginPin}
+                onChange={(e) => setLoginPin(e.target.value)}
+                className="w-full px-4 py-2.5 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all text-center tracking-widest font-mono text-lg"
+                placeholder="••••••"
+                autoComplete="current-password"
+              />
+            </div>
             {loginError && (
               <p className="text-red-500 text-sm text-center font-medium">{loginError}</p>
             )}
@@ -394,9 +599,12 @@ export default function App() {
               type="submit"
               className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 rounded-lg transition-colors mt-4 flex items-center justify-center gap-2"
             >
-              دخول للنظام <Lock className="w-4 h-4" />
+              {t('دخول للنظام')} <Lock className="w-4 h-4" />
             </button>
           </form>
+          <div className="flex justify-center mt-6">
+            <LocaleSwitcher locale={locale} onChange={changeLocale} />
+          </div>
         </motion.div>
       </div>
     );
@@ -404,7 +612,7 @@ export default function App() {
 
   // --- Render Dashboard ---
   return (
-    <div dir="rtl" className="min-h-screen bg-slate-50 text-slate-800 font-sans pb-20">
+    <div dir={textDirection()} className="min-h-screen bg-slate-50 text-slate-800 font-sans pb-20">
       {/* Header */}
       <header className="bg-white shadow-sm border-b border-slate-200 sticky top-0 z-50">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3">
@@ -413,7 +621,7 @@ export default function App() {
               <div className="shrink-0">
                 <img 
                   src="https://i.imgur.com/BBxVlTQ.png" 
-                  alt="جمعية آزِر لمرضى الأورام بتبوك | AZER" 
+                  alt={t('جمعية آزِر لمرضى الأورام بتبوك | AZER')} 
                   className="h-14 w-auto object-contain"
                   onError={(e) => {
                     if (!e.currentTarget.src.endsWith('.jpg')) {
@@ -429,24 +637,47 @@ export default function App() {
                 </div>
               </div>
               <div className="flex flex-col justify-center">
-                <h1 className="text-lg font-bold text-slate-900 leading-tight">جمعية آزِر لمرضى الأورام بتبوك | AZER</h1>
+                <h1 className="text-lg font-bold text-slate-900 leading-tight">{t('جمعية آزِر لمرضى الأورام بتبوك | AZER')}</h1>
                 <div className="flex items-center gap-2 mt-1">
-                  <span className="text-sm font-semibold text-indigo-600">نظام المسودات المتصاعدة</span>
+                  <span className="text-sm font-semibold text-indigo-600">{t('نظام المسودات المتصاعدة')}</span>
                   <span className="w-1 h-1 rounded-full bg-slate-300 hidden sm:block"></span>
-                  <span className="text-xs text-slate-500 hidden sm:block">لوحة القيادة الاستراتيجية</span>
+                  <span className="text-xs text-slate-500 hidden sm:block">{t('لوحة القيادة الاستراتيجية')}</span>
                 </div>
               </div>
             </div>
             
             <div className="flex items-center gap-4">
-              {user.isAdmin && (
+              <span
+                className={`hidden sm:flex items-center gap-1.5 text-xs font-medium px-2.5 py-1 rounded-full border ${isLive ? 'bg-emerald-50 text-emerald-700 border-emerald-200' : 'bg-slate-100 text-slate-500 border-slate-200'}`}
+                title={t(isLive ? 'التحديثات المباشرة مفعلة' : 'جاري إعادة الاتصال...')}
+              >
+                <Activity className={`w-3.5 h-3.5 ${isLive ? 'animate-pulse' : ''}`} />
+                {t(isLive ? 'مباشر' : 'غير متصل')}
+              </span>
+
+              <LocaleSwitcher locale={locale} onChange={changeLocale} />
+
+              {plans.length > 1 && (
+                <select
+                  value={planId ?? ''}
+                  onChange={e => switchPlan(Number(e.target.value))}
+                  className="max-w-[220px] px-3 py-1.5 rounded-full border border-slate-200 bg-slate-50 text-sm font-medium text-slate-700 focus:ring-2 focus:ring-indigo-500 outline-none"
+                  title={t('الخطة المعروضة')}
+                >
+                  {plans.map(p => <option key={p.id} value={p.id}>{p.title}{p.archivedAt ? t(' (مؤرشفة)') : ''}</option>)}
+                </select>
+              )}
+
+              <NotificationCenter refreshKey={inboxKey} onOpen={openInboxItem} onError={handleApiError} />
+
+              {canManage && (
                 <button 
                   onClick={() => setShowAdminPanel(true)}
                   className="hidden md:flex items-center gap-2 px-3 py-1.5 bg-slate-800 text-white hover:bg-slate-700 rounded-full text-sm font-medium transition-colors"
-                  title="إدارة النظام"
+                  title={t('إدارة النظام')}
                 >
                   <Settings className="w-4 h-4" />
-                  <span>إدارة النظام</span>
+                  <span>{t('إدارة النظام')}</span>
                 </button>
               )}
 
@@ -455,7 +686,17 @@ export default function App() {
               <div className="flex items-center gap-3 bg-slate-50 px-3 py-1.5 rounded-full border border-slate-200">
                 <UserCircle className="w-5 h-5 text-slate-400" />
                 <span className="text-sm font-medium text-slate-700">{user.name}</span>
-                <button onClick={handleLogout} className="text-red-500 hover:text-red-700 ml-1" title="تسجيل خروج">
+                <span className="hidden lg:inline text-[10px] px-2 py-0.5 rounded-full bg-white border border-slate-200 text-slate-500 font-bold">{t(ROLE_LABELS[user.role])}</span>
+                <button onClick={() => setShowCalendar(true)} className="text-slate-400 hover:text-indigo-600" title={t('التقويم')}>
+                  <CalendarDays className="w-4 h-4" />
+                </button>
+                <button onClick={() => setShowReminderSettings(true)} className="text-slate-400 hover:text-indigo-600" title={t('تفضيلات التذكير')}>
+                  <BellRing className="w-4 h-4" />
+                </button>
+                <button onClick={() => setShowPinDialog(true)} className="text-slate-400 hover:text-indigo-600" title={t('تغيير رمز الدخول')}>
+                  <KeyRound className="w-4 h-4" />
+                </button>
+                <button onClick={handleLogout} className="text-red-500 hover:text-red-700 ms-1" title={t('تسجيل خروج')}>
                   <LogOut className="w-4 h-4" />
                 </button>
               </div>
@@ -465,12 +706,12 @@ export default function App() {
       </header>
 
       {/* Notifications Toast Area */}
-      <div className="fixed bottom-4 left-4 z-50 flex flex-col gap-2">
+      <div className="fixed bottom-4 end-4 z-50 flex flex-col gap-2">
         <AnimatePresence>
           {notifications.map(notif => (
             <motion.div
               key={notif.id}
-              initial={{ opacity: 0, x: -50, scale: 0.9 }}
+              initial={{ opacity: 0, x: textDirection() === 'rtl' ? -50 : 50, scale: 0.9 }}
               animate={{ opacity: 1, x: 0, scale: 1 }}
               exit={{ opacity: 0, scale: 0.9 }}
               className="bg-white border border-indigo-100 shadow-lg rounded-lg p-3 flex items-start gap-3 w-80"
@@ -480,7 +721,7 @@ export default function App() {
               </div>
               <div>
                 <p className="text-sm font-medium text-slate-800">{notif.message}</p>
-                <p className="text-xs text-slate-400 mt-0.5">{notif.time.toLocaleTimeString('ar-SA')}</p>
+                <p className="text-xs text-slate-400 mt-0.5">{formatTime(notif.time)}</p>
               </div>
             </motion.div>
           ))}
@@ -488,7 +729,68 @@ export default function App() {
       </div>
 
       {renderAdminPanel()}
+      {renderPinDialog()}
+      {showCalendar && <CalendarSubscription onClose={() => setShowCalendar(false)} onError={handleApiError} notify={notify} />}
+      {showReminderSettings && (
+        <ReminderSettings
+          canRunReminders={can(user, 'manage_reminders')}
+          onClose={() => setShowReminderSettings(false)}
+          onError={handleApiError}
+          notify={notify}
+        />
+      )}
+      {printTarget && (
+        <PrintableReport
+          target={printTarget}
+          plan={plan}
+          members={members}
+          phases={phases}
+          drafts={drafts}
+          tasks={tasks}
+          votes={votes}
+          taskCompletion={taskCompletion}
+          taskCompletedAt={taskCompletedAt}
+          taskReviews={taskReviews}
+          onClose={() => setPrintTarget(null)}
+        />
+      )}
+      {openTaskId && tasks.some(t => t.id === openTaskId) && (
+        <TaskDetails
+          task={tasks.find(t => t.id === openTaskId)!}
+          members={members}
+          user={user}
+          progress={taskProgress[openTaskId] || {}}
+          completedAt={taskCompletedAt[openTaskId] || {}}
+          review={taskReviews[openTaskId]}
+          readOnly={readOnly}
+          onClose={() => setOpenTaskId(null)}
+          onStateChange={applyState}
+          onError={handleApiError}
+          notify={notify}
+        />
+      )}
+      {openDrafts && phases.some(p => p.id === openDrafts.phaseId) && (
+        <DraftViewer
+          phase={phases.find(p => p.id === openDrafts.phaseId)!}
+          drafts={phaseDrafts(drafts, openDrafts.phaseId)}
+          initialDraftId={openDrafts.draftId}
+          canEdit={can(user, 'edit_drafts') && !readOnly}
+          onClose={() => setOpenDrafts(null)}
+          onStateChange={applyState}
+          onError={handleApiError}
+          notify={notify}
+        />
+      )}
       
+      {readOnly && (
+        <div className="bg-slate-700 text-white text-sm">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center gap-2">
+            <Archive className="w-4 h-4 shrink-0" />
+            <span>{t('"{title}" خطة مؤرشفة؛ تُعرض للاطلاع فقط ولا يمكن التصويت عليها أو تعديلها.', { title: plan?.title })}</span>
+          </div>
+        </div>
+      )}
+
       {/* Tab Navigation */}
       <div className="bg-white border-b border-slate-200 sticky top-[73px] z-40 shadow-sm overflow-x-auto">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 min-w-max">
@@ -498,21 +800,21 @@ export default function App() {
               className={`py-4 px-2 font-bold text-sm border-b-2 transition-colors flex items-center gap-2 ${activeTab === 'overview' ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}
             >
               <PieChart className="w-4 h-4" />
-              لوحة المؤشرات العامة
+              {t('لوحة المؤشرات العامة')}
             </button>
             <button 
               onClick={() => setActiveTab('phases')}
               className={`py-4 px-2 font-bold text-sm border-b-2 transition-colors flex items-center gap-2 ${activeTab === 'phases' ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}
             >
               <Route className="w-4 h-4" />
-              المسار الاستراتيجي والاعتمادات
+              {t('المسار الاستراتيجي والاعتمادات')}
             </button>
             <button 
               onClick={() => setActiveTab('tasks')}
               className={`py-4 px-2 font-bold text-sm border-b-2 transition-colors flex items-center gap-2 ${activeTab === 'tasks' ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}
             >
               <ListTodo className="w-4 h-4" />
-              المهام ومؤشرات الأداء (100 يوم)
+              {t('المهام ومؤشرات الأداء')}
             </button>
           </div>
         </div>
@@ -526,9 +828,19 @@ export default function App() {
               <div>
                 <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
                   <PieChart className="w-6 h-6 text-indigo-500" />
-                  لوحة المؤشرات العامة
+                  {t('لوحة المؤشرات العامة')}
                 </h2>
-                <p className="text-sm text-slate-500 mt-1">نظرة شاملة على تقدم المسار الاستراتيجي والمهام التشغيلية</p>
+                <p className="text-sm text-slate-500 mt-1">{t('نظرة شاملة على تقدم المسار الاستراتيجي والمهام التشغيلية')}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <DataExport planTitle={plan?.title} onError={handleApiError} />
+                <button
+                  onClick={() => setPrintTarget({ kind: 'plan' })}
+                  className="text-sm bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 font-medium px-3 py-2 rounded-lg flex items-center gap-2 shadow-sm"
+                >
+                  <Printer className="w-4 h-4" />
+                  {t('تقرير الخطة (PDF)')}
+                </button>
               </div>
             </div>
 
@@ -536,8 +848,8 @@ export default function App() {
             <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
               <div className="flex justify-between items-end mb-2">
                 <div>
-                  <h2 className="text-lg font-bold text-slate-800">التقدم الإجمالي للخطة الاستراتيجية</h2>
-                  <p className="text-sm text-slate-500">يعتمد على تصويت أعضاء مجلس الإدارة ({TOTAL_MEMBERS} أعضاء)</p>
+                  <h2 className="text-lg font-bold text-slate-800">{t('التقدم الإجمالي للخطة الاستراتيجية')}</h2>
+                  <p className="text-sm text-slate-500">{t('يعتمد على تصويت أعضاء مجلس الإدارة ({count} أعضاء)', { count: totalMembers })}</p>
                 </div>
                 <span className="text-3xl font-black text-blue-600">{overallProgress}%</span>
               </div>
@@ -558,8 +870,8 @@ export default function App() {
                   <Layers className="w-6 h-6" />
                 </div>
                 <div>
-                  <p className="text-sm text-slate-500 font-medium">إجمالي المراحل</p>
-                  <p className="text-2xl font-bold text-slate-800">4</p>
+                  <p className="text-sm text-slate-500 font-medium">{t('إجمالي المراحل')}</p>
+                  <p className="text-2xl font-bold text-slate-800">{phases.length}</p>
                 </div>
               </div>
               <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200 flex items-center gap-4">
@@ -567,8 +879,8 @@ export default function App() {
                   <FileCheck className="w-6 h-6" />
                 </div>
                 <div>
-                  <p className="text-sm text-slate-500 font-medium">المسودات المعتمدة</p>
-                  <p className="text-2xl font-bold text-slate-800">{completedDraftsCount} <span className="text-sm text-slate-400 font-normal">من {totalDraftsCount}</span></p>
+                  <p className="text-sm text-slate-500 font-medium">{t('المسودات المعتمدة')}</p>
+                  <p className="text-2xl font-bold text-slate-800">{completedDraftsCount} <span className="text-sm text-slate-400 font-normal">{t('من {total}', { total: totalDraftsCount })}</span></p>
                 </div>
               </div>
               <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200 flex items-center gap-4">
@@ -576,17 +888,17 @@ export default function App() {
                   <Users className="w-6 h-6" />
                 </div>
                 <div>
-                  <p className="text-sm text-slate-500 font-medium">إجمالي التصويتات</p>
-                  <p className="text-2xl font-bold text-slate-800">{totalVotesCast} <span className="text-sm text-slate-400 font-normal">من 28</span></p>
+                  <p className="text-sm text-slate-500 font-medium">{t('إجمالي التصويتات')}</p>
+                  <p className="text-2xl font-bold text-slate-800">{totalVotesCast} <span className="text-sm text-slate-400 font-normal">{t('من {total}', { total: totalVotesPossible })}</span></p>
                 </div>
               </div>
               <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200 flex items-center gap-4">
                 <div className="w-12 h-12 rounded-full bg-blue-50 text-blue-600 flex items-center justify-center border border-blue-100">
-                  {activePhase <= 4 ? <Loader2 className="w-6 h-6 animate-spin" /> : <CheckCircle2 className="w-6 h-6" />}
+                  {!allPhasesApproved ? <Loader2 className="w-6 h-6 animate-spin" /> : <CheckCircle2 className="w-6 h-6" />}
                 </div>
                 <div>
-                  <p className="text-sm text-slate-500 font-medium">المرحلة النشطة</p>
-                  <p className="text-lg font-bold text-blue-600 mt-1">{activePhase <= 4 ? `المرحلة ${activePhase}` : 'مكتملة بالكامل'}</p>
+                  <p className="text-sm text-slate-500 font-medium">{t('المرحلة النشطة')}</p>
+                  <p className="text-lg font-bold text-blue-600 mt-1">{!allPhasesApproved ? t('المرحلة {number}', { number: phases.find(p => p.id === activePhase)?.number }) : t('مكتملة بالكامل')}</p>
                 </div>
               </div>
             </div>
@@ -597,7 +909,7 @@ export default function App() {
               <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
                 <h3 className="text-lg font-bold text-slate-800 mb-6 flex items-center gap-2">
                   <BarChart3 className="w-5 h-5 text-indigo-500" />
-                  إنجاز المهام حسب العضو
+                  {t('إنجاز المهام حسب العضو')}
                 </h3>
                 <div className="h-72 w-full" dir="ltr">
                   <ResponsiveContainer width="100%" height="100%">
@@ -610,8 +922,10 @@ export default function App() {
                         contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
                       />
                       <Legend wrapperStyle={{ paddingTop: '20px' }} />
-                      <Bar dataKey="مهام مسندة" fill="#94a3b8" radius={[4, 4, 0, 0]} barSize={20} />
-                      <Bar dataKey="مهام منجزة" fill="#4f46e5" radius={[4, 4, 0, 0]} barSize={20} />
+                      <Bar dataKey="assigned" name={t('مهام مسندة')} fill="#94a3b8" radius={[4, 4, 0, 0]} barSize={20} />
+                      <Bar dataKey="done" name={t('مهام منجزة')} fill="#4f46e5" radius={[4, 4, 0, 0]} barSize={20} />
+                      <Bar dataKey="atRisk" name={t(TASK_STATUS_LABELS.at_risk)} fill={TASK_STATUS_COLORS.at_risk} radius={[4, 4, 0, 0]} barSize={20} />
+                      <Bar dataKey="overdue" name={t(TASK_STATUS_LABELS.overdue)} fill={TASK_STATUS_COLORS.overdue} radius={[4, 4, 0, 0]} barSize={20} />
                     </BarChart>
                   </ResponsiveContainer>
                 </div>
@@ -621,17 +935,15 @@ export default function App() {
               <div className="space-y-6">
                 <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 flex items-center justify-between">
                   <div className="w-1/2">
-                    <h3 className="text-lg font-bold text-slate-800 mb-2">حالة المهام (100 يوم)</h3>
-                    <p className="text-sm text-slate-500 mb-4">إجمالي المهام: {totalTasks}</p>
+                    <h3 className="text-lg font-bold text-slate-800 mb-2">{t('حالة المهام')}</h3>
+                    <p className="text-sm text-slate-500 mb-4">{t('إجمالي المهام: {count}', { count: totalTasks })}</p>
                     <div className="space-y-2">
-                      <div className="flex items-center gap-2">
-                        <div className="w-3 h-3 rounded-full bg-emerald-500"></div>
-                        <span className="text-sm text-slate-600">مكتملة: {fullyCompletedTasks}</span>
-                      </div>
-                      <div className="flex items-center gap-2">
-                        <div className="w-3 h-3 rounded-full bg-indigo-500"></div>
-                        <span className="text-sm text-slate-600">قيد التنفيذ: {totalTasks - fullyCompletedTasks}</span>
-                      </div>
+                      {pieData.map(entry => (
+                        <div key={entry.status} className="flex items-center gap-2">
+                          <div className="w-3 h-3 rounded-full" style={{ backgroundColor: entry.color }}></div>
+                          <span className="text-sm text-slate-600">{entry.name}: {entry.value}</span>
+                        </div>
+                      ))}
                     </div>
                   </div>
                   <div className="w-1/2 h-40" dir="ltr">
@@ -661,13 +973,13 @@ export default function App() {
                     <div>
                       <h3 className="text-lg font-bold mb-1 flex items-center gap-2">
                         <Hourglass className="w-5 h-5 text-amber-400" />
-                        الزمن المنقضي
+                        {t('الزمن المنقضي')}
                       </h3>
-                      <p className="text-slate-400 text-sm">من خطة الـ 100 يوم</p>
+                      <p className="text-slate-400 text-sm">{t('من {title} ({days} يوم)', { title: plan?.title, days: totalDays })}</p>
                     </div>
-                    <div className="text-right">
-                      <span className="text-3xl font-black text-amber-400">{daysPassed}</span>
-                      <span className="text-slate-400 text-sm ml-1">يوم</span>
+                    <div className="text-end">
+                      <span className="text-3xl font-black text-amber-400">{formatNumber(daysPassed)}</span>
+                      <span className="text-slate-400 text-sm ms-1">{t('يوم')}</span>
                     </div>
                   </div>
                   
@@ -680,12 +992,20 @@ export default function App() {
                     />
                   </div>
                   <div className="flex justify-between text-xs text-slate-400">
-                    <span>البداية: 03 فبراير</span>
-                    <span>النهاية: 14 مايو</span>
+                    <span>{t('البداية: {date}', { date: formatPlanDate(plan?.startDate) })}</span>
+                    <span>{t('النهاية: {date}', { date: formatPlanDate(plan?.endDate) })}</span>
                   </div>
                 </div>
               </div>
             </div>
+
+            {/* Progress over time */}
+            <ProgressAnalytics
+              phases={phases}
+              members={members}
+              refreshKey={`${planId}-${fullyCompletedTasks}-${totalTasks}-${totalVotesCast}`}
+              onError={handleApiError}
+            />
           </div>
         )}
 
@@ -695,33 +1015,41 @@ export default function App() {
             <div className="flex justify-between items-center mb-8">
               <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
                 <Route className="w-6 h-6 text-slate-400" />
-                المخطط الزمني للمراحل والاعتمادات
+                {t('المخطط الزمني للمراحل والاعتمادات')}
               </h2>
-              {user.isAdmin && (
+              {canManage && (
                 <button 
                   onClick={() => setShowAdminPanel(true)}
                   className="md:hidden flex items-center gap-1 px-3 py-1.5 bg-slate-800 text-white rounded-full text-xs font-medium"
                 >
-                  <Settings className="w-3 h-3" /> إدارة
+                  <Settings className="w-3 h-3" /> {t('إدارة')}
                 </button>
               )}
             </div>
 
-            <div className="relative py-4 before:content-[''] before:absolute before:top-0 before:bottom-0 before:right-1/2 before:w-0.5 before:bg-slate-200 before:translate-x-1/2 max-md:before:right-6">
+            <div className="relative py-4 before:content-[''] before:absolute before:top-0 before:bottom-0 before:start-1/2 before:w-0.5 before:bg-slate-200 ltr:before:-translate-x-1/2 rtl:before:translate-x-1/2 max-md:before:start-6">
               
-              {PHASES.map((phase) => {
-                const phaseVotes = votes[phase.id];
-                const isCompleted = phaseVotes.length === TOTAL_MEMBERS;
+              {phases.map((phase) => {
+                const phaseVotes = votes[phase.id] || [];
+                const tally = tallyGate(phase, phaseVotes, members);
+                const isCompleted = tally.outcome === 'approved';
                 const isActive = activePhase === phase.id;
-                const isLocked = activePhase < phase.id;
-                const userHasVoted = phaseVotes.some(v => v.id === user.id);
-                const votePercentage = (phaseVotes.length / TOTAL_MEMBERS) * 100;
+                const isRejected = isActive && tally.outcome === 'rejected';
+                // Approvals kept through an earlier gate's reopening stay visible, on condition.
+                const isLocked = activePhase < phase.id && !isCompleted;
+                const conditionalOn = isCompleted ? pendingReopening(phase.id, reopenings, phases, votes, members) : undefined;
+                const currentDrafts = phaseDrafts(drafts, phase.id);
+                const myVote = phaseVotes.find(v => v.id === user.id);
+                const myVoteStale = !!myVote && isVoteStale(myVote, currentDrafts);
+                const votingOpen = isWindowOpen(phase.votingWindow) && !isGateDecided(phase, phaseVotes, members);
+                const canVote = !readOnly && votingOpen && can(user, 'vote') && (!myVote || myVoteStale);
+                const votePercentage = tally.eligible ? (tally.participating / tally.eligible) * 100 : 0;
 
                 return (
                   <div key={phase.id} className={`relative flex items-center justify-between md:justify-normal md:odd:flex-row-reverse group mb-12 ${isLocked ? 'opacity-60' : ''}`}>
                     
                     {/* Center Icon */}
-                    <div className={`flex items-center justify-center w-12 h-12 rounded-full border-4 border-white shadow-md shrink-0 md:order-1 md:group-odd:-translate-x-1/2 md:group-even:translate-x-1/2 z-10 max-md:mr-0 transition-colors
+                    <div className={`flex items-center justify-center w-12 h-12 rounded-full border-4 border-white shadow-md shrink-0 md:order-1 md:ltr:group-odd:-translate-x-1/2 md:ltr:group-even:translate-x-1/2 md:rtl:group-odd:translate-x-1/2 md:rtl:group-even:-translate-x-1/2 z-10 max-md:me-0 transition-colors
                       ${isCompleted ? 'bg-emerald-500 text-white' : 
                         isActive ? 'bg-blue-500 text-white ring-4 ring-blue-100' : 
                         'bg-slate-200 text-slate-400'}`}
@@ -737,23 +1065,25 @@ export default function App() {
                       
                       <div className="flex items-center justify-between mb-4">
                         <h3 className={`text-lg font-bold flex items-center ${isActive ? 'text-slate-800' : 'text-slate-600'}`}>
-                          <span className={`text-sm ml-1 flex items-center gap-1 ${isCompleted ? 'text-emerald-600' : isActive ? 'text-blue-600' : 'text-slate-400'}`}>
+                          <span className={`text-sm me-1 flex items-center gap-1 ${isCompleted ? 'text-emerald-600' : isActive ? 'text-blue-600' : 'text-slate-400'}`}>
                             {isCompleted ? <CheckCircle2 className="w-4 h-4" /> : isActive ? <CircleDot className="w-4 h-4" /> : null}
-                            المرحلة {phase.id}:
+                            {t('المرحلة {number}:', { number: phase.number })}
                           </span>
                           {phase.title}
                         </h3>
                         <span className={`text-xs px-2.5 py-1 rounded-full font-medium border 
-                          ${isCompleted ? 'bg-emerald-50 text-emerald-700 border-emerald-100' : 
+                          ${conditionalOn ? 'bg-amber-50 text-amber-700 border-amber-200' :
+                            isCompleted ? 'bg-emerald-50 text-emerald-700 border-emerald-100' : 
+                            isRejected ? 'bg-red-50 text-red-700 border-red-200' :
                             isActive ? 'bg-blue-50 text-blue-700 border-blue-200 animate-pulse' : 
                             'bg-slate-100 text-slate-500 border-slate-200'}`}>
-                          {isCompleted ? 'مكتملة' : isActive ? 'نشطة الآن' : 'قادمة'}
+                          {t(isCompleted ? (conditionalOn ? 'معتمدة بشرط' : 'مكتملة') : isRejected ? 'مرفوضة' : isActive ? 'نشطة الآن' : 'قادمة')}
                         </span>
                       </div>
                       
                       {/* Tools */}
                       <div className="mb-4">
-                        <p className="text-xs text-slate-400 mb-2 font-bold uppercase tracking-wider">الأدوات المنهجية</p>
+                        <p className="text-xs text-slate-400 mb-2 font-bold uppercase tracking-wider">{t('الأدوات المنهجية')}</p>
                         <div className="flex flex-wrap gap-2">
                           {phase.tools.map(tool => (
                             <span key={tool} className="bg-slate-100 text-slate-600 text-xs px-2.5 py-1 rounded border border-slate-200">{tool}</span>
@@ -763,19 +1093,32 @@ export default function App() {
                       
                       {/* Drafts */}
                       <div className="mb-4 bg-slate-50 p-3 rounded-lg border border-slate-100">
-                        <p className="text-xs text-slate-400 mb-2 font-bold uppercase tracking-wider">المسودات</p>
+                        <p className="text-xs text-slate-400 mb-2 font-bold uppercase tracking-wider">{t('المسودات')}</p>
                         <ul className="space-y-2">
-                          {phase.drafts.map((draft, idx) => (
-                            <li key={idx} className="flex items-start gap-2 text-sm">
+                          {currentDrafts.map(draft => (
+                            <li key={draft.id} className="flex items-start gap-2 text-sm">
                               {isCompleted ? <CheckSquare className="w-4 h-4 text-emerald-500 mt-0.5" /> : 
                                isActive ? <Square className="w-4 h-4 text-slate-300 mt-0.5" /> : 
                                <Lock className="w-4 h-4 text-slate-300 mt-0.5" />}
-                              <span className={`${isCompleted ? 'text-slate-500 line-through' : isActive ? 'text-slate-700 font-medium' : 'text-slate-500'}`}>
-                                {draft}
-                              </span>
+                              <button
+                                onClick={() => setOpenDrafts({ phaseId: phase.id, draftId: draft.id })}
+                                className={`text-start hover:underline ${isCompleted ? 'text-slate-500 line-through' : isActive ? 'text-slate-700 font-medium' : 'text-slate-500'}`}
+                              >
+                                {draft.title}
+                              </button>
+                              <span className="text-[10px] text-slate-400 mt-1 shrink-0">{draft.currentVersion ? `v${draft.currentVersion}` : t('لم تُنشر')}</span>
                             </li>
                           ))}
                         </ul>
+                        {(can(user, 'edit_drafts') || currentDrafts.length > 0) && (
+                          <button
+                            onClick={() => setOpenDrafts({ phaseId: phase.id })}
+                            className="mt-3 text-xs text-indigo-600 hover:text-indigo-800 font-medium flex items-center gap-1"
+                          >
+                            <FileText className="w-3.5 h-3.5" />
+                            {t(can(user, 'edit_drafts') ? 'عرض المسودات وإدارة النسخ' : 'عرض نصوص المسودات')}
+                          </button>
+                        )}
                       </div>
                       
                       {/* Board Portal / Voting Area */}
@@ -787,35 +1130,55 @@ export default function App() {
                         <div className="flex items-center gap-2 mb-3">
                           <Landmark className={`w-5 h-5 ${isCompleted ? 'text-emerald-600' : isActive ? 'text-blue-600' : 'text-slate-400'}`} />
                           <p className={`text-sm font-bold ${isCompleted ? 'text-emerald-800' : isActive ? 'text-blue-800' : 'text-slate-600'}`}>
-                            بوابة مجلس الإدارة: {phase.gate}
+                            {t('بوابة مجلس الإدارة: {gate}', { gate: phase.gate })}
                           </p>
                         </div>
 
                         {isLocked && (
                           <div className="flex items-center justify-between">
-                            <p className="text-sm text-slate-500">بانتظار اكتمال المراحل السابقة</p>
-                            <span className="text-xs px-2 py-1 rounded bg-slate-200 text-slate-500 font-bold">مغلقة</span>
+                            <p className="text-sm text-slate-500">{t('بانتظار اكتمال المراحل السابقة')}</p>
+                            <span className="text-xs px-2 py-1 rounded bg-slate-200 text-slate-500 font-bold">{t('مغلقة')}</span>
                           </div>
                         )}
 
                         {isCompleted && (
                           <div>
                             <div className="flex items-center justify-between">
-                              <p className="text-sm text-emerald-700">تم اعتماد المرحلة بالإجماع ({TOTAL_MEMBERS}/{TOTAL_MEMBERS})</p>
-                              <span className="text-xs px-2 py-1 rounded bg-emerald-100 text-emerald-700 font-bold flex items-center gap-1"><Check className="w-3 h-3" /> معتمدة</span>
+                              <p className="text-sm text-emerald-700">{t('تم اعتماد المرحلة {rule} ({approve}/{eligible})', { rule: t(DECISION_RULE_LABELS[phase.decisionRule]), approve: tally.approve, eligible: tally.eligible })}</p>
+                              <span className="text-xs px-2 py-1 rounded bg-emerald-100 text-emerald-700 font-bold flex items-center gap-1"><Check className="w-3 h-3" /> {t('معتمدة')}</span>
                             </div>
-                            {renderVoters(phaseVotes)}
+                            {conditionalOn && (
+                              <p className="mt-2 text-xs bg-amber-50 border border-amber-200 text-amber-800 rounded-md px-2 py-1.5">
+                                {t('يبقى اعتماد هذه المرحلة مشروطاً بإعادة اعتماد {phase} بعد إعادة فتحها: {reason}', { phase: phaseLabel(conditionalOn.phaseId), reason: conditionalOn.reason })}
+                              </p>
+                            )}
+                            <div className="mt-3">{renderTally(phase, tally)}</div>
+                            <button
+                              onClick={() => setPrintTarget({ kind: 'certificate', phaseId: phase.id })}
+                              className="mt-3 text-xs text-emerald-700 hover:text-emerald-900 font-bold flex items-center gap-1"
+                            >
+                              <Printer className="w-3.5 h-3.5" />
+                              {t('شهادة الاعتماد (PDF)')}
+                            </button>
+                            {renderVoters(phaseVotes, phase.id, tally)}
                             {renderComments(phaseVotes)}
                           </div>
                         )}
 
                         {isActive && (
                           <div className="space-y-4">
+                            <VotingWindowPanel
+                              phase={phase}
+                              canManage={!readOnly && can(user, 'manage_gates')}
+                              onStateChange={applyState}
+                              onError={handleApiError}
+                            />
+
                             {/* Progress Bar for Votes */}
                             <div>
                               <div className="flex justify-between text-xs mb-1">
-                                <span className="text-blue-700 font-medium">تقدم التصويت</span>
-                                <span className="text-blue-700 font-bold">{phaseVotes.length} من {TOTAL_MEMBERS}</span>
+                                <span className="text-blue-700 font-medium">{t('تقدم التصويت')}</span>
+                                <span className="text-blue-700 font-bold">{t('{count} من {total}', { count: tally.participating, total: tally.eligible })}</span>
                               </div>
                               <div className="w-full bg-blue-100 rounded-full h-2 overflow-hidden">
                                 <motion.div 
@@ -826,47 +1189,183 @@ export default function App() {
                               </div>
                             </div>
 
-                            {renderVoters(phaseVotes)}
+                            {renderTally(phase, tally)}
+                            {renderVoters(phaseVotes, phase.id, tally)}
                             {renderComments(phaseVotes)}
 
+                            {isRejected && (
+                              <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-start gap-2">
+                                <XCircle className="w-5 h-5 text-red-500 shrink-0 mt-0.5" />
+                                <div>
+                                  <p className="text-sm font-bold text-red-700">{t('مرفوضة — أعيدت للمراجعة')}</p>
+                                  <p className="text-xs text-red-600 mt-0.5">
+                                    {phase.votingWindow?.outcome === 'rejected'
+                                      ? t('انتهت مهلة التصويت دون تحقيق قاعدة الاعتماد؛ تُعاد المسودات للتعديل ثم يفتح رئيس المجلس باب تصويت جديد.')
+                                      : t('لم يعد بالإمكان تحقيق قاعدة الاعتماد؛ تُعاد المسودات للتعديل، وبعد نشر نسخة جديدة يجدد الأعضاء أصواتهم.')}
+                                  </p>
+                                </div>
+                              </div>
+                            )}
+
+                            {myVoteStale && (
+                              <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 flex items-start gap-2">
+                                <History className="w-5 h-5 text-amber-500 shrink-0 mt-0.5" />
+                                <p className="text-xs text-amber-800">
+                                  {t('نُشرت نسخة جديدة من المسودات بعد تصويتك ({decision}). راجع التعديلات ثم جدد تصويتك.', { decision: t(DECISION_LABELS[myVote!.decision]) })}
+                                </p>
+                              </div>
+                            )}
+
                             {/* Voting Action */}
                             <div className="pt-2 border-t border-blue-100">
-                              {!userHasVoted ? (
-                                <button 
-                                  onClick={() => castVote(phase.id, user.id, user.name)}
-                                  className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-2.5 rounded-lg transition-colors flex items-center justify-center gap-2 shadow-sm"
-                                >
-                                  <CheckCircle2 className="w-5 h-5" />
-                                  تصويت بالموافقة والاعتماد
-                                </button>
-                              ) : (
+                              {!can(user, 'vote') && (
+                                <p className="text-xs text-slate-500">{t('دورك ({role}) يتيح متابعة البوابة دون التصويت عليها.', { role: t(ROLE_LABELS[user.role]) })}</p>
+                              )}
+                              {canVote && reasonPrompt?.phaseId !== phase.id && (
+                                <div className="space-y-2">
+                                  <button 
+                                    onClick={() => castVote(phase.id, user.id, 'approve')}
+                                    className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-2.5 rounded-lg transition-colors flex items-center justify-center gap-2 shadow-sm"
+                                  >
+                                    <CheckCircle2 className="w-5 h-5" />
+                                    {t('تصويت بالموافقة والاعتماد')}
+                                  </button>
+                                  <div className="flex gap-2">
+                                    <button
+                                      onClick={() => setReasonPrompt({ phaseId: phase.id, decision: 'reject' })}
+                                      className="flex-1 bg-white hover:bg-red-50 text-red-600 border border-red-200 font-bold py-2 rounded-lg text-sm transition-colors flex items-center justify-center gap-1.5"
+                                    >
+                                      <XCircle className="w-4 h-4" />
+                                      {t('اعتراض')}
+                                    </button>
+                                    <button
+                                      onClick={() => castVote(phase.id, user.id, 'abstain')}
+                                      className="flex-1 bg-white hover:bg-slate-100 text-slate-600 border border-slate-200 font-bold py-2 rounded-lg text-sm transition-colors flex items-center justify-center gap-1.5"
+                                    >
+                                      <MinusCircle className="w-4 h-4" />
+                                      {t('امتناع عن التصويت')}
+                                    </button>
+                                  </div>
+                                  <button
+                                    onClick={() => setReasonPrompt({ phaseId: phase.id, decision: 'recuse' })}
+                                    className="w-full text-xs text-slate-500 hover:text-slate-700 font-medium flex items-center justify-center gap-1 pt-1"
+                                  >
+                                    <UserMinus className="w-3.5 h-3.5" />
+                                    {t('التنحي لتعارض المصالح')}
+                                  </button>
+                                </div>
+                              )}
+                              {canVote && reasonPrompt?.phaseId === phase.id && (
+                                <div className="space-y-2">
+                                  {reasonPrompt.decision === 'recuse' && (
+                                    <p className="text-xs text-slate-600">
+                                      {t('يُستبعد المتنحي من نصاب هذه البوابة ومن حساب نتيجتها، ويُذكر تنحيه وسببه في محضر الاعتماد.')}
+                                    </p>
+                                  )}
+                                  <textarea
+                                    rows={3}
+                                    placeholder={t(reasonPrompt.decision === 'reject' ? 'مبررات الاعتراض (إلزامية)...' : 'سبب التنحي وطبيعة المصلحة (إلزامي)...')}
+                                    value={commentInputs[phase.id] || ''}
+                                    onChange={e => setCommentInputs({...commentInputs, [phase.id]: e.target.value})}
+                                    className={`w-full px-3 py-2 rounded-md border text-sm focus:ring-2 outline-none ${reasonPrompt.decision === 'reject' ? 'border-red-200 focus:ring-red-400' : 'border-slate-300 focus:ring-slate-400'}`}
+                                  />
+                                  <div className="flex gap-2">
+                                    <button
+                                      onClick={() => castVote(phase.id, user.id, reasonPrompt.decision, commentInputs[phase.id])}
+                                      disabled={!commentInputs[phase.id]?.trim()}
+                                      className={`flex-1 disabled:bg-slate-300 text-white font-bold py-2 rounded-lg text-sm transition-colors ${reasonPrompt.decision === 'reject' ? 'bg-red-600 hover:bg-red-700' : 'bg-slate-700 hover:bg-slate-800'}`}
+                                    >
+                                      {t(reasonPrompt.decision === 'reject' ? 'تأكيد الاعتراض' : 'تأكيد التنحي')}
+                                    </button>
+                                    <button
+                                      onClick={() => setReasonPrompt(null)}
+                                      className="px-4 bg-white hover:bg-slate-100 text-slate-600 border border-slate-200 rounded-lg text-sm font-medium"
+                                    >
+                                      {t('تراجع')}
+                                    </button>
+                                  </div>
+                                </div>
+                              )}
+                              {myVote && !myVoteStale && (
                                 <div>
                                   <div className="w-full bg-emerald-100 text-emerald-700 font-bold py-2.5 rounded-lg flex items-center justify-center gap-2 border border-emerald-200 mb-3">
                                     <Check className="w-5 h-5" />
-                                    تم تسجيل تصويتك بنجاح
+                                    {myVote.decision === 'recuse' ? t('تم تسجيل تنحيك لتعارض المصالح') : t('تم تسجيل تصويتك ({decision})', { decision: t(DECISION_LABELS[myVote.decision]) })}
                                   </div>
-                                  {!phaseVotes.find(v => v.id === user.id)?.comment && (
+                                  {!myVote.comment && !readOnly && isActive && votingOpen && (
                                     <div className="flex gap-2">
                                       <input 
                                         type="text" 
-                                        placeholder="إضافة تعليق (اختياري)..." 
+                                        placeholder={t('إضافة تعليق (اختياري)...')}
                                         value={commentInputs[phase.id] || ''}
                                         onChange={e => setCommentInputs({...commentInputs, [phase.id]: e.target.value})}
                                         className="flex-1 px-3 py-2 rounded-md border border-emerald-200 text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
                                       />
                                       <button 
-                                        onClick={() => castVote(phase.id, user.id, user.name, false, commentInputs[phase.id])}
+                                        onClick={() => castVote(phase.id, user.id, 'approve', commentInputs[phase.id])}
                                         className="bg-emerald-600 hover:bg-emerald-700 text-white px-4 rounded-md text-sm font-medium transition-colors"
                                       >
-                                        إرسال
+                                        {t('إرسال')}
                                       </button>
                                     </div>
                                   )}
+                                  {!readOnly && votingOpen && (
+                                    revisingVote === phase.id ? (
+                                      <div className="mt-3">
+                                        <VoteRevisionForm
+                                          phaseId={phase.id}
+                                          vote={myVote}
+                                          onStateChange={applyState}
+                                          onError={handleApiError}
+                                          onClose={() => setRevisingVote(null)}
+                                        />
+                                      </div>
+                                    ) : (
+                                      <button onClick={() => setRevisingVote(phase.id)} className="mt-3 text-xs text-slate-500 hover:text-slate-700 font-medium flex items-center gap-1">
+                                        <Undo2 className="w-3.5 h-3.5" />
+                                        {t('تغيير التصويت أو سحبه')}
+                                      </button>
+                                    )
+                                  )}
                                 </div>
                               )}
                             </div>
                           </div>
                         )}
+
+                        {!isCompleted && !readOnly && (
+                          <ProxyPanel
+                            phase={phase}
+                            votingOpen={isActive && votingOpen}
+                            proxies={proxies.filter(p => p.phaseId === phase.id)}
+                            phaseVotes={phaseVotes}
+                            drafts={currentDrafts}
+                            members={members}
+                            user={user}
+                            onStateChange={applyState}
+                            onError={handleApiError}
+                          />
+                        )}
+
+                        {!isLocked && (
+                          <VoteHistory
+                            phaseId={phase.id}
+                            reopenings={reopenings.filter(r => r.phaseId === phase.id || r.affectedPhaseIds.includes(phase.id))}
+                            refreshKey={JSON.stringify(phaseVotes)}
+                            onError={handleApiError}
+                          />
+                        )}
+
+                        <DiscussionPanel
+                          phaseId={phase.id}
+                          threads={discussions.filter(d => d.phaseId === phase.id)}
+                          drafts={currentDrafts}
+                          members={members}
+                          user={user}
+                          readOnly={readOnly}
+                          onStateChange={applyState}
+                          onError={handleApiError}
+                        />
                       </div>
                     </div>
                   </div>
@@ -881,9 +1380,23 @@ export default function App() {
               <div>
                 <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
                   <Target className="w-6 h-6 text-indigo-500" />
-                  المهام ومؤشرات الأداء (خطة 100 يوم)
+                  {t('المهام ومؤشرات الأداء ({title})', { title: plan?.title })}
                 </h2>
-                <p className="text-sm text-slate-500 mt-1">متابعة إنجاز المهام المسندة لأعضاء مجلس الإدارة</p>
+                <p className="text-sm text-slate-500 mt-1">{t('متابعة إنجاز المهام المسندة لأعضاء مجلس الإدارة')}</p>
+              </div>
+              <div className="flex bg-slate-100 rounded-lg p-1 text-sm font-bold">
+                <button
+                  onClick={() => setTaskView('cards')}
+                  className={`px-3 py-1.5 rounded-md flex items-center gap-1.5 ${taskView === 'cards' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}
+                >
+                  <ListTodo className="w-4 h-4" /> {t('البطاقات')}
+                </button>
+                <button
+                  onClick={() => setTaskView('gantt')}
+                  className={`px-3 py-1.5 rounded-md flex items-center gap-1.5 ${taskView === 'gantt' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}
+                >
+                  <GanttChartSquare className="w-4 h-4" /> {t('المخطط الزمني')}
+                </button>
               </div>
             </div>
 
@@ -895,7 +1408,7 @@ export default function App() {
                     <BarChart3 className="w-8 h-8 text-white" />
                   </div>
                   <div>
-                    <h3 className="text-lg font-bold">مؤشر الأداء الخاص بك</h3>
+                    <h3 className="text-lg font-bold">{t('مؤشر الأداء الخاص بك')}</h3>
                     <p className="text-indigo-100 text-sm">{user.name}</p>
                   </div>
                 </div>
@@ -903,36 +1416,41 @@ export default function App() {
                 <div className="flex gap-8">
                   <div className="text-center">
                     <p className="text-3xl font-bold">
-                      {TASKS.filter(t => t.assignees.includes(user.id)).length}
+                      {tasks.filter(t => t.assignees.includes(user.id)).length}
                     </p>
-                    <p className="text-xs text-indigo-200 mt-1">إجمالي المهام</p>
+                    <p className="text-xs text-indigo-200 mt-1">{t('إجمالي المهام')}</p>
                   </div>
                   <div className="w-px bg-white/20"></div>
                   <div className="text-center">
                     <p className="text-3xl font-bold text-emerald-300">
-                      {TASKS.filter(t => t.assignees.includes(user.id) && (taskCompletion[t.id] || []).includes(user.id)).length}
+                      {tasks.filter(t => t.assignees.includes(user.id) && (taskCompletion[t.id] || []).includes(user.id)).length}
                     </p>
-                    <p className="text-xs text-indigo-200 mt-1">المهام المنجزة</p>
+                    <p className="text-xs text-indigo-200 mt-1">{t('المهام المنجزة')}</p>
                   </div>
                   <div className="w-px bg-white/20"></div>
                   <div className="text-center">
                     <p className="text-3xl font-bold text-amber-300">
-                      {Math.round((TASKS.filter(t => t.assignees.includes(user.id) && (taskCompletion[t.id] || []).includes(user.id)).length / Math.max(1, TASKS.filter(t => t.assignees.includes(user.id)).length)) * 100)}%
+                      {Math.round((tasks.filter(t => t.assignees.includes(user.id) && (taskCompletion[t.id] || []).includes(user.id)).length / Math.max(1, tasks.filter(t => t.assignees.includes(user.id)).length)) * 100)}%
                     </p>
-                    <p className="text-xs text-indigo-200 mt-1">نسبة الإنجاز</p>
+                    <p className="text-xs text-indigo-200 mt-1">{t('نسبة الإنجاز')}</p>
                   </div>
                 </div>
               </div>
             </div>
 
+            {taskView === 'gantt' && <GanttChart tasks={tasks} phases={phases} isDone={task => isTaskAccepted(task, taskCompletedAt[task.id], taskReviews[task.id])} />}
+
             {/* Tasks List */}
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-              {TASKS.map(task => {
+            {taskView === 'cards' && <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {tasks.map(task => {
                 const isAssignedToMe = task.assignees.includes(user.id);
-                const isCompletedByMe = (taskCompletion[task.id] || []).includes(user.id);
                 const completionCount = (taskCompletion[task.id] || []).length;
                 const totalAssignees = task.assignees.length;
-                const isFullyCompleted = completionCount === totalAssignees;
+                const status = statusOf(task);
+                const isFullyCompleted = status === 'done_on_time' || status === 'done_late';
+                const progress = taskProgress[task.id] || {};
+                const averagePercent = Math.round(task.assignees.reduce((sum, id) => sum + (progress[id]?.percent ?? 0), 0) / Math.max(1, totalAssignees));
+                const canReview = status === 'awaiting_review' && canReviewTask(task, user);
                 
                 return (
                   <div key={task.id} className={`bg-white rounded-xl border p-5 transition-all ${isFullyCompleted ? 'border-emerald-200 bg-emerald-50/30' : 'border-slate-200 hover:border-indigo-200 hover:shadow-md'}`}>
@@ -940,17 +1458,22 @@ export default function App() {
                       <h3 className={`font-bold text-lg ${isFullyCompleted ? 'text-emerald-800' : 'text-slate-800'}`}>
                         {task.title}
                       </h3>
-                      {task.phaseId && (
-                        <span className="bg-indigo-50 text-indigo-600 text-[10px] font-bold px-2 py-1 rounded-md border border-indigo-100">
-                          مرحلة {task.phaseId}
+                      <div className="flex flex-wrap justify-end gap-1.5 shrink-0">
+                        <span className={`text-[10px] font-bold px-2 py-1 rounded-md border ${TASK_STATUS_BADGES[status]}`}>
+                          {t(TASK_STATUS_LABELS[status])}
                         </span>
-                      )}
+                        {task.phaseId && (
+                          <span className="bg-indigo-50 text-indigo-600 text-[10px] font-bold px-2 py-1 rounded-md border border-indigo-100">
+                            {t('مرحلة {number}', { number: phases.find(p => p.id === task.phaseId)?.number })}
+                          </span>
+                        )}
+                      </div>
                     </div>
                     
                     <div className="flex items-center gap-4 text-xs text-slate-500 mb-4">
                       <div className="flex items-center gap-1.5">
                         <Calendar className="w-3.5 h-3.5" />
-                        <span>{task.startDate} إلى {task.endDate}</span>
+                        <span>{formatDateRange(task.startDate, task.endDate)}</span>
                       </div>
                       <div className="flex items-center gap-1.5">
                         <Award className="w-3.5 h-3.5" />
@@ -959,49 +1482,62 @@ export default function App() {
                     </div>
 
                     <div className="mb-4">
-                      <p className="text-xs font-semibold text-slate-600 mb-2">الأعضاء المكلفون ({completionCount}/{totalAssignees} أنجزوا):</p>
+                      <div className="flex justify-between text-xs text-slate-500 mb-1">
+                        <span>{t('نسبة الإنجاز')}</span>
+                        <span className="font-bold text-slate-700">{averagePercent}%</span>
+                      </div>
+                      <div className="w-full bg-slate-100 rounded-full h-2 overflow-hidden">
+                        <div className={`h-2 rounded-full ${isFullyCompleted ? 'bg-emerald-500' : 'bg-indigo-500'}`} style={{ width: `${averagePercent}%` }} />
+                      </div>
+                    </div>
+
+                    <div className="mb-4">
+                      <p className="text-xs font-semibold text-slate-600 mb-2">{t('الأعضاء المكلفون ({done}/{total} أنجزوا):', { done: completionCount, total: totalAssignees })}</p>
                       <div className="flex flex-wrap gap-1.5">
                         {task.assignees.map(assigneeId => {
-                          const member = BOARD_MEMBERS.find(m => m.id === assigneeId);
+                          const member = members.find(m => m.id === assigneeId);
                           const hasCompleted = (taskCompletion[task.id] || []).includes(assigneeId);
                           return (
                             <div key={assigneeId} className={`flex items-center gap-1 px-2 py-1 rounded-md text-[10px] font-bold border ${hasCompleted ? 'bg-emerald-100 text-emerald-700 border-emerald-200' : 'bg-slate-100 text-slate-600 border-slate-200'}`}>
                               {hasCompleted ? <Check className="w-3 h-3" /> : <Clock className="w-3 h-3" />}
                               {member?.name.replace(/^(د\.|م\.|أ\.)\s*/, '')}
+                              {!hasCompleted && progress[assigneeId] && <span className="font-normal">({progress[assigneeId].percent}%)</span>}
                             </div>
                           );
                         })}
                       </div>
                     </div>
 
-                    {isAssignedToMe && (
-                      <div className="pt-4 border-t border-slate-100 mt-auto">
-                        <button
-                          onClick={() => toggleTaskCompletion(task.id, user.id)}
-                          className={`w-full py-2 rounded-lg font-bold text-sm flex items-center justify-center gap-2 transition-colors ${
-                            isCompletedByMe 
-                              ? 'bg-emerald-100 text-emerald-700 hover:bg-emerald-200 border border-emerald-200' 
-                              : 'bg-indigo-600 text-white hover:bg-indigo-700 shadow-sm'
-                          }`}
-                        >
-                          {isCompletedByMe ? (
-                            <>
-                              <CheckCircle2 className="w-4 h-4" />
-                              تم إنجاز المهمة (إلغاء التحديد)
-                            </>
-                          ) : (
-                            <>
-                              <Square className="w-4 h-4" />
-                              تأكيد إنجاز المهمة
-                            </>
-                          )}
-                        </button>
-                      </div>
+                    {taskReviews[task.id]?.decision === 'returned' && !isFullyCompleted && completionCount < totalAssignees && (
+                      <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-md p-2 mb-4">
+                        {t('أعادها {name}: {note}', { name: taskReviews[task.id].reviewerName, note: taskReviews[task.id].note })}
+                      </p>
                     )}
+
+                    <div className="pt-4 border-t border-slate-100 mt-auto">
+                      <button
+                        onClick={() => setOpenTaskId(task.id)}
+                        className={`w-full py-2 rounded-lg font-bold text-sm flex items-center justify-center gap-2 transition-colors ${
+                          !readOnly && (canReview || (isAssignedToMe && !isFullyCompleted))
+                            ? 'bg-indigo-600 text-white hover:bg-indigo-700 shadow-sm'
+                            : 'bg-white text-slate-600 hover:bg-slate-50 border border-slate-200'
+                        }`}
+                      >
+                        {readOnly ? (
+                          <><FileText className="w-4 h-4" /> {t('التفاصيل والأدلة')}</>
+                        ) : canReview ? (
+                          <><ClipboardCheck className="w-4 h-4" /> {t('مراجعة المهمة واعتمادها')}</>
+                        ) : isAssignedToMe && !isFullyCompleted ? (
+                          <><Square className="w-4 h-4" /> {t('تحديث الإنجاز والأدلة')}</>
+                        ) : (
+                          <><FileText className="w-4 h-4" /> {t('التفاصيل والأدلة')}</>
+                        )}
+                      </button>
+                    </div>
                   </div>
                 );
               })}
-            </div>
+            </div>}
           </div>
         )}
       </main>
@@ -0,0 +1,168 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { t } from './i18n';
+import type {
+  AuditEntry, AuditFilter, AuditVerification, BoardState, CalendarFeed, DiscussionPost, DownstreamHandling, DraftVersion, ExportDataset, InboxPage,
+  Member, Phase, Plan, PlanAnalytics, Proxy, ReminderPreferences, ReminderSettings, Task, TaskActivity, TaskImportRow, TaskReviewDecision, User,
+  VoteDecision, VoteHistoryEntry,
+} from './types';
+
+export class ApiRequestError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ApiRequestError';
+  }
+}
+
+/** Attachments are sent as base64 so the whole version goes in one JSON request. */
+export type NewDraftVersion = {
+  body: string;
+  note?: string;
+  attachments: { fileName: string; mimeType: string; data: string }[];
+};
+
+/** Evidence is either an uploaded file (base64) or a link. */
+export type NewTaskEvidence = { note?: string } & ({ fileName: string; mimeType: string; data: string } | { url: string });
+
+/** grantorId defaults to the signed-in member; admins may record a proxy on someone's behalf. */
+export type ProxyGrant = Pick<Proxy, 'phaseId' | 'holderId' | 'validFrom' | 'validUntil' | 'statement'> & { grantorId?: string };
+
+/** A new thread's opening post; `draftId` narrows it from the phase to one of its drafts. */
+export type NewDiscussion = { phaseId: number; draftId?: number; title: string; body: string; mentions: string[] };
+export type DiscussionPostInput = Pick<DiscussionPost, 'body' | 'mentions'>;
+
+export type PlanInput = Pick<Plan, 'title' | 'startDate' | 'endDate' | 'memberIds'>;
+
+// --- HTTP client for the board server ---
+// The plan on screen travels with every request; the server answers with that plan's state.
+let currentPlanId: number | undefined;
+
+async function request<T>(method: string, url: string, body?: unknown): Promise<T> {
+  const headers: Record<string, string> = {};
+  if (body !== undefined) headers['Content-Type'] = 'application/json';
+  if (currentPlanId !== undefined) headers['X-Plan-Id'] = String(currentPlanId);
+  const res = await fetch(`/api${url}`, {
+    method,
+    headers,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new ApiRequestError(res.status, t(data.error || 'تعذر الاتصال بالخادم.'));
+  return data as T;
+}
+
+/** Files are fetched rather than linked to, so the download carries the plan header too. */
+async function requestFile(url: string): Promise<Blob> {
+  const headers: Record<string, string> = {};
+  if (currentPlanId !== undefined) headers['X-Plan-Id'] = String(currentPlanId);
+  const res = await fetch(`/api${url}`, { headers });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new ApiRequestError(res.status, t(data.error || 'تعذر الاتصال بالخادم.'));
+  }
+  return res.blob();
+}
+
+export const api = {
+  login: (memberId: string, pin: string) => request<User>('POST', '/auth/login', { memberId, pin }),
+  logout: () => request<void>('POST', '/auth/logout'),
+  me: () => request<User>('GET', '/auth/me'),
+  changePin: (currentPin: string, newPin: string) => request<void>('PUT', '/auth/pin', { currentPin, newPin }),
+
+  getCredentials: () => request<{ id: string; hasPin: boolean }[]>('GET', '/members/credentials'),
+  setMemberPin: (memberId: string, pin: string) => request<void>('PUT', `/members/${memberId}/pin`, { pin }),
+
+  getAudit: (filter: AuditFilter) => {
+    const query = new URLSearchParams(
+      Object.entries(filter).filter(([, value]) => value !== undefined && value !== '').map(([key, value]) => [key, String(value)]),
+    );
+    return request<AuditEntry[]>('GET', `/audit?${query}`);
+  },
+  verifyAudit: () => request<AuditVerification>('GET', '/audit/verify'),
+
+  getInbox: (beforeId?: number) => request<InboxPage>('GET', `/notifications${beforeId ? `?beforeId=${beforeId}` : ''}`),
+  markInboxRead: (ids?: number[]) => request<InboxPage>('PUT', '/notifications/read', { ids }),
+
+  getCalendarFeed: () => request<CalendarFeed>('GET', '/calendar/feed'),
+  createCalendarFeed: () => request<CalendarFeed>('POST', '/calendar/feed'),
+  deleteCalendarFeed: () => request<CalendarFeed>('DELETE', '/calendar/feed'),
+  calendarDownloadUrl: '/api/calendar.ics',
+  calendarFeedUrl: (token: string) => `${window.location.origin}/api/calendar/feed/${token}.ics`,
+
+  getReminderSettings: () => request<ReminderSettings>('GET', '/reminders'),
+  saveReminderPreferences: (prefs: ReminderPreferences) => request<ReminderSettings>('PUT', '/reminders', prefs),
+  sendTestReminder: () => request<void>('POST', '/reminders/test'),
+  runReminders: () => request<{ sent: number; failed: number }>('POST', '/reminders/run'),
+
+  getState: () => request<BoardState>('GET', '/state'),
+  getAnalytics: () => request<PlanAnalytics>('GET', '/analytics'),
+  setPlan: (planId: number) => {
+    currentPlanId = planId;
+  },
+
+  createPlan: (plan: PlanInput) => request<BoardState>('POST', '/plans', plan),
+  updatePlan: (planId: number, plan: PlanInput) => request<BoardState>('PUT', `/plans/${planId}`, plan),
+  archivePlan: (planId: number) => request<BoardState>('PUT', `/plans/${planId}/archive`),
+  restorePlan: (planId: number) => request<BoardState>('DELETE', `/plans/${planId}/archive`),
+  clonePlan: (planId: number, title: string, startDate: string) => request<BoardState>('POST', `/plans/${planId}/clone`, { title, startDate }),
+
+  createMember: (member: Member) => request<BoardState>('POST', '/members', member),
+  updateMember: (member: Member) => request<BoardState>('PUT', `/members/${member.id}`, member),
+  createPhase: (phase: Omit<Phase, 'id' | 'number'>) => request<BoardState>('POST', '/phases', phase),
+  updatePhase: (phase: Omit<Phase, 'number'>) => request<BoardState>('PUT', `/phases/${phase.id}`, phase),
+  deletePhase: (phaseId: number) => request<BoardState>('DELETE', `/phases/${phaseId}`),
+  createTask: (task: Omit<Task, 'id'>) => request<BoardState>('POST', '/tasks', task),
+  updateTask: (task: Task) => request<BoardState>('PUT', `/tasks/${task.id}`, task),
+  deleteTask: (taskId: string) => request<BoardState>('DELETE', `/tasks/${taskId}`),
+  previewTaskImport: (fileName: string, data: string) => request<TaskImportRow[]>('POST', '/tasks/import/preview', { fileName, data }),
+  importTasks: (fileName: string, data: string) => request<BoardState>('POST', '/tasks/import', { fileName, data }),
+  exportSheet: (dataset: ExportDataset | 'all', format: 'csv' | 'xlsx') => requestFile(`/export/${dataset}.${format}`),
+
+  getDraftVersions: (draftId: number) => request<DraftVersion[]>('GET', `/drafts/${draftId}/versions`),
+  createDraft: (phaseId: number, title: string) => request<BoardState>('POST', `/phases/${phaseId}/drafts`, { title }),
+  renameDraft: (draftId: number, title: string) => request<BoardState>('PUT', `/drafts/${draftId}`, { title }),
+  deleteDraft: (draftId: number) => request<BoardState>('DELETE', `/drafts/${draftId}`),
+  publishDraftVersion: (draftId: number, version: NewDraftVersion) =>
+    request<BoardState>('POST', `/drafts/${draftId}/versions`, version),
+  attachmentUrl: (attachmentId: number) => `/api/attachments/${attachmentId}`,
+
+  castVote: (phaseId: number, memberId: string, decision: VoteDecision, comment?: string) =>
+    request<BoardState>('POST', `/phases/${phaseId}/votes`, { memberId, decision, comment }),
+  changeVote: (phaseId: number, memberId: string, decision: VoteDecision, reason: string, comment?: string) =>
+    request<BoardState>('PUT', `/phases/${phaseId}/votes/${memberId}`, { decision, reason, comment }),
+  withdrawVote: (phaseId: number, memberId: string, reason: string) =>
+    request<BoardState>('POST', `/phases/${phaseId}/votes/${memberId}/withdrawal`, { reason }),
+  getVoteHistory: (phaseId: number) => request<VoteHistoryEntry[]>('GET', `/phases/${phaseId}/votes/history`),
+  removeVote: (phaseId: number, memberId: string) =>
+    request<BoardState>('DELETE', `/phases/${phaseId}/votes/${memberId}`),
+  resetPhase: (phaseId: number) =>
+    request<BoardState>('DELETE', `/phases/${phaseId}/votes`),
+  openVotingWindow: (phaseId: number, closesAt: string) =>
+    request<BoardState>('POST', `/phases/${phaseId}/window`, { closesAt }),
+  extendVotingWindow: (phaseId: number, closesAt: string, reason: string) =>
+    request<BoardState>('POST', `/phases/${phaseId}/window/extensions`, { closesAt, reason }),
+  reopenGate: (phaseId: number, reason: string, downstream?: DownstreamHandling) =>
+    request<BoardState>('POST', `/phases/${phaseId}/reopening`, { reason, downstream }),
+  grantProxy: (proxy: ProxyGrant) => request<BoardState>('POST', '/proxies', proxy),
+  revokeProxy: (proxyId: number) => request<BoardState>('DELETE', `/proxies/${proxyId}`),
+
+  startDiscussion: (discussion: NewDiscussion) => request<BoardState>('POST', '/discussions', discussion),
+  replyToDiscussion: (threadId: number, post: DiscussionPostInput) => request<BoardState>('POST', `/discussions/${threadId}/posts`, post),
+  editDiscussionPost: (threadId: number, postId: number, post: DiscussionPostInput) =>
+    request<BoardState>('PUT', `/discussions/${threadId}/posts/${postId}`, post),
+  setDiscussionResolved: (threadId: number, resolved: boolean) =>
+    request<BoardState>(resolved ? 'PUT' : 'DELETE', `/discussions/${threadId}/resolution`),
+
+  setTaskCompletion: (taskId: string, memberId: string, completed: boolean) =>
+    request<BoardState>(completed ? 'PUT' : 'DELETE', `/tasks/${taskId}/completion/${memberId}`),
+  reportTaskProgress: (taskId: string, memberId: string, percent: number, note?: string) =>
+    request<BoardState>('POST', `/tasks/${taskId}/progress/${memberId}`, { percent, note }),
+  getTaskActivity: (taskId: string) => request<TaskActivity>('GET', `/tasks/${taskId}/activity`),
+  addTaskEvidence: (taskId: string, evidence: NewTaskEvidence) => request<TaskActivity>('POST', `/tasks/${taskId}/evidence`, evidence),
+  reviewTask: (taskId: string, decision: TaskReviewDecision, note?: string) =>
+    request<BoardState>('POST', `/tasks/${taskId}/review`, { decision, note }),
+  evidenceUrl: (evidenceId: number) => `/api/evidence/${evidenceId}`,
+};
@@ -0,0 +1,211 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { closingOutcome, gateApprovedAt, getActivePhase, isProxyActive, isVoteStale, isWindowOpen, pendingReopening, tallyGate } from './board';
+import type { DecisionRule, Draft, Member, Phase, PhaseReopening, Proxy, VoteDecision, VoteRecord, VotingWindow } from './types';
+
+const members: Member[] = ['m1', 'm2', 'm3', 'm4', 'm5', 'm6'].map(id => ({ id, name: id, role: 'board_member', active: true }));
+
+const phase = (decisionRule: DecisionRule, quorumPercent = 50, id = 1): Phase =>
+  ({ id, number: id, title: '', tools: [], gate: '', decisionRule, quorumPercent });
+
+const vote = (id: string, decision: VoteDecision): VoteRecord =>
+  ({ id, name: id, decision, draftVersions: {}, votedAt: '2026-01-01T00:00:00.000Z' });
+
+/** Votes in member order, one decision per member. */
+const votes = (...decisions: VoteDecision[]) => decisions.map((decision, i) => vote(members[i].id, decision));
+
+describe('tallying a gate', () => {
+  it('approves a unanimous gate only once every member approves', () => {
+    assert.equal(tallyGate(phase('unanimous'), votes('approve', 'approve', 'approve', 'approve', 'approve'), members).outcome, 'pending');
+    assert.equal(tallyGate(phase('unanimous'), votes('approve', 'approve', 'approve', 'approve', 'approve', 'approve'), members).outcome, 'approved');
+  });
+
+  it('rejects a unanimous gate on the first objection or abstention', () => {
+    assert.equal(tallyGate(phase('unanimous'), votes('approve', 'reject'), members).outcome, 'rejected');
+    assert.equal(tallyGate(phase('unanimous'), votes('abstain'), members).outcome, 'rejected');
+  });
+
+  it('requires every member for quorum under unanimity, whatever the quorum percent', () => {
+    const tally = tallyGate(phase('unanimous', 10), votes('approve'), members);
+    assert.equal(tally.quorumRequired, 6);
+    assert.equal(tally.quorumMet, false);
+  });
+
+  it('approves a two-thirds gate once the remaining members can no longer tip it', () => {
+    assert.equal(tallyGate(phase('two_thirds', 100), votes('approve', 'approve', 'approve', 'approve', 'reject'), members).outcome, 'pending');
+    assert.equal(tallyGate(phase('two_thirds', 100), votes('approve', 'approve', 'approve', 'approve', 'reject', 'reject'), members).outcome, 'approved');
+    assert.equal(tallyGate(phase('two_thirds', 50), votes('approve', 'approve', 'approve', 'approve', 'approve'), members).outcome, 'approved');
+  });
+
+  it('rejects a two-thirds gate once a third of the members object', () => {
+    assert.equal(tallyGate(phase('two_thirds'), votes('reject', 'reject'), members).outcome, 'pending');
+    assert.equal(tallyGate(phase('two_thirds'), votes('reject', 'reject', 'reject'), members).outcome, 'rejected');
+  });
+
+  it('needs more approvals than rejections under a simple majority, and a tie rejects', () => {
+    assert.equal(tallyGate(phase('majority'), votes('approve', 'approve', 'approve', 'approve'), members).outcome, 'approved');
+    assert.equal(tallyGate(phase('majority'), votes('reject', 'reject', 'reject'), members).outcome, 'rejected');
+    assert.equal(tallyGate(phase('majority'), votes('approve', 'approve', 'approve', 'reject', 'reject', 'reject'), members).outcome, 'rejected');
+  });
+
+  it('counts abstentions toward quorum but not the approve/reject ratio', () => {
+    const tally = tallyGate(phase('majority', 50), votes('approve', 'abstain', 'abstain'), members);
+    assert.deepEqual(
+      { approve: tally.approve, abstain: tally.abstain, participating: tally.participating, quorumRequired: tally.quorumRequired, quorumMet: tally.quorumMet },
+      { approve: 1, abstain: 2, participating: 3, quorumRequired: 3, quorumMet: true },
+    );
+    assert.equal(tally.outcome, 'pending');
+  });
+
+  it('does not approve without quorum even when the votes cast agree', () => {
+    const tally = tallyGate(phase('majority', 100), votes('approve', 'approve', 'approve', 'approve', 'approve'), members);
+    assert.equal(tally.quorumMet, false);
+    assert.equal(tally.outcome, 'pending');
+  });
+
+  it('leaves out deactivated members and non-voting roles', () => {
+    const board = members.map(m => m.id === 'm1' ? { ...m, active: false } : m.id === 'm2' ? { ...m, role: 'observer' as const } : m);
+    const tally = tallyGate(phase('unanimous'), votes('reject', 'reject', 'approve', 'approve', 'approve', 'approve'), board);
+    assert.equal(tally.eligible, 4);
+    assert.equal(tally.reject, 0);
+    assert.equal(tally.outcome, 'approved');
+  });
+
+  it('takes the outcome of a closed voting window over the votes', () => {
+    const closed: Phase = {
+      ...phase('majority'),
+      votingWindow: { id: 1, opensAt: '2026-01-01T00:00:00.000Z', closesAt: '2026-01-02T00:00:00.000Z', openedByName: 'm1', extensions: [], closedAt: '2026-01-02T00:00:00.000Z', outcome: 'rejected' },
+    };
+    assert.equal(tallyGate(closed, votes('approve', 'approve', 'approve', 'approve'), members).outcome, 'rejected');
+  });
+});
+
+describe('recusing from a gate', () => {
+  it('leaves the member out of the tally and shrinks the eligible members', () => {
+    const tally = tallyGate(phase('unanimous'), votes('recuse', 'approve', 'approve', 'approve', 'approve', 'approve'), members);
+    assert.deepEqual({ recused: tally.recused, eligible: tally.eligible, participating: tally.participating }, { recused: 1, eligible: 5, participating: 5 });
+    assert.equal(tally.outcome, 'approved');
+  });
+
+  it('does not count toward quorum', () => {
+    const tally = tallyGate(phase('majority', 50), votes('recuse', 'recuse', 'recuse', 'approve'), members);
+    assert.deepEqual({ eligible: tally.eligible, quorumRequired: tally.quorumRequired, quorumMet: tally.quorumMet }, { eligible: 3, quorumRequired: 2, quorumMet: false });
+    assert.equal(tally.outcome, 'pending');
+  });
+
+  it('never goes stale when the drafts change', () => {
+    const drafts: Draft[] = [{ id: 7, phaseId: 1, title: '', currentVersion: 2 }];
+    assert.equal(isVoteStale({ decision: 'recuse', draftVersions: { 7: 1 } }, drafts), false);
+    assert.equal(isVoteStale({ decision: 'approve', draftVersions: { 7: 1 } }, drafts), true);
+  });
+});
+
+describe('finding the active phase', () => {
+  it('is the first phase whose gate is not approved, or Infinity once all are', () => {
+    const phases = [phase('majority', 50, 1), phase('majority', 50, 2)];
+    const approved = votes('approve', 'approve', 'approve', 'approve');
+    assert.equal(getActivePhase(phases, { 1: approved }, members), 2);
+    assert.equal(getActivePhase(phases, { 1: approved, 2: approved }, members), Infinity);
+    assert.equal(getActivePhase(phases, { 2: approved }, members), 1);
+  });
+});
+
+describe('dating a gate\'s approval', () => {
+  it('replays votes in the order they were decided, changes included', () => {
+    const decided = [
+      { ...vote('m1', 'approve'), votedAt: '2026-01-01T09:00:00.000Z' },
+      { ...vote('m2', 'approve'), votedAt: '2026-01-01T08:00:00.000Z', changedAt: '2026-01-02T10:00:00.000Z' },
+      { ...vote('m3', 'approve'), votedAt: '2026-01-01T11:00:00.000Z' },
+      { ...vote('m4', 'approve'), votedAt: '2026-01-01T12:00:00.000Z' },
+    ];
+    // The fourth approval decides the gate: m2's, once it is dated by its change.
+    assert.equal(gateApprovedAt(phase('majority'), decided, members), '2026-01-02T10:00:00.000Z');
+    const earlier = [...decided, { ...vote('m5', 'approve'), votedAt: '2026-01-01T13:00:00.000Z' }];
+    assert.equal(gateApprovedAt(phase('majority'), earlier, members), '2026-01-01T13:00:00.000Z');
+  });
+
+  it('is the window\'s closing time when the gate was approved at its deadline', () => {
+    const closedAt = '2026-01-03T08:00:00.000Z';
+    const approvedAtDeadline: Phase = {
+      ...phase('majority'),
+      votingWindow: { id: 1, opensAt: '2026-01-01T08:00:00.000Z', closesAt: closedAt, openedByName: 'm1', extensions: [], closedAt, outcome: 'approved' },
+    };
+    assert.equal(gateApprovedAt(approvedAtDeadline, votes('approve', 'approve', 'approve'), members), closedAt);
+    assert.equal(gateApprovedAt(phase('majority'), votes('approve', 'approve', 'approve'), members), undefined);
+  });
+});
+
+describe('closing a voting window', () => {
+  const window: VotingWindow = { id: 1, opensAt: '2026-01-01T08:00:00.000Z', closesAt: '2026-01-03T08:00:00.000Z', openedByName: 'm1', extensions: [] };
+
+  it('is open from its opening time until just before its deadline', () => {
+    assert.equal(isWindowOpen(window, '2026-01-01T07:59:59.000Z'), false);
+    assert.equal(isWindowOpen(window, '2026-01-01T08:00:00.000Z'), true);
+    assert.equal(isWindowOpen(window, '2026-01-03T08:00:00.000Z'), false);
+    assert.equal(isWindowOpen({ ...window, closedAt: '2026-01-02T00:00:00.000Z' }, '2026-01-02T12:00:00.000Z'), false);
+    assert.equal(isWindowOpen(undefined, '2026-01-02T00:00:00.000Z'), false);
+  });
+
+  it('approves at the deadline when the votes received meet quorum and the rule', () => {
+    assert.equal(tallyGate(phase('majority'), votes('approve', 'approve', 'approve'), members).outcome, 'pending');
+    assert.equal(closingOutcome(phase('majority'), votes('approve', 'approve', 'approve'), members), 'approved');
+  });
+
+  it('rejects at the deadline without quorum', () => {
+    assert.equal(closingOutcome(phase('majority'), votes('approve', 'approve'), members), 'rejected');
+  });
+
+  it('counts members who did not vote as absent under unanimity', () => {
+    assert.equal(closingOutcome(phase('unanimous'), votes('approve', 'approve', 'approve', 'approve', 'approve'), members), 'rejected');
+  });
+
+  it('recomputes from the votes rather than an earlier window\'s outcome', () => {
+    const earlier = { ...window, closedAt: window.closesAt, outcome: 'rejected' as const };
+    assert.equal(closingOutcome({ ...phase('majority'), votingWindow: earlier }, votes('approve', 'approve', 'approve'), members), 'approved');
+  });
+});
+
+describe('waiting on a reopened gate', () => {
+  const phases = [phase('majority', 50, 1), phase('majority', 50, 2), phase('majority', 50, 3)];
+  const approved = votes('approve', 'approve', 'approve', 'approve');
+  const reopening = (id: number, downstream: PhaseReopening['downstream'], affectedPhaseIds: number[]): PhaseReopening =>
+    ({ id, phaseId: 1, reason: '', downstream, affectedPhaseIds, actorName: 'm1', createdAt: '2026-01-01T00:00:00.000Z' });
+
+  it('holds the phases a conditional reopening kept until the gate is approved again', () => {
+    const conditional = reopening(1, 'conditional', [2]);
+    assert.equal(pendingReopening(2, [conditional], phases, { 2: approved }, members), conditional);
+    assert.equal(pendingReopening(3, [conditional], phases, { 2: approved }, members), undefined);
+    assert.equal(pendingReopening(2, [conditional], phases, { 1: approved, 2: approved }, members), undefined);
+  });
+
+  it('holds nothing after an invalidating reopening, which cleared those votes', () => {
+    assert.equal(pendingReopening(2, [reopening(1, 'invalidate', [2])], phases, {}, members), undefined);
+  });
+
+  it('follows the latest reopening of the gate', () => {
+    const latest = reopening(2, 'invalidate', []);
+    assert.equal(pendingReopening(2, [reopening(1, 'conditional', [2]), latest], phases, { 2: approved }, members), undefined);
+  });
+});
+
+describe('checking a proxy', () => {
+  const proxy: Proxy = {
+    id: 1, phaseId: 1, grantorId: 'm1', holderId: 'm2', validFrom: '2026-03-01', validUntil: '2026-03-10', statement: '', createdAt: '2026-02-28T00:00:00.000Z',
+  };
+
+  it('is usable from its first to its last day inclusive', () => {
+    assert.equal(isProxyActive(proxy, '2026-02-28'), false);
+    assert.equal(isProxyActive(proxy, '2026-03-01'), true);
+    assert.equal(isProxyActive(proxy, '2026-03-10'), true);
+    assert.equal(isProxyActive(proxy, '2026-03-11'), false);
+  });
+
+  it('is not usable once revoked', () => {
+    assert.equal(isProxyActive({ ...proxy, revokedAt: '2026-03-02T00:00:00.000Z' }, '2026-03-05'), false);
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { toDay } from './schedule';
+import type { Capability, DecisionRule, Draft, GateTally, Member, Phase, PhaseReopening, Proxy, Role, Task, TaskReview, TaskStatus, User, VoteDecision, VoteRecord, Votes, VotingWindow } from './types';
+
+// --- Derived board state shared by the client and server ---
+
+export const DECISION_RULE_LABELS: Record<DecisionRule, string> = {
+  unanimous: 'بالإجماع',
+  two_thirds: 'بأغلبية الثلثين',
+  majority: 'بالأغلبية البسيطة للحاضرين',
+};
+
+export const DECISION_LABELS: Record<VoteDecision, string> = {
+  approve: 'موافق',
+  reject: 'معترض',
+  abstain: 'ممتنع',
+  recuse: 'متنحٍّ لتعارض المصالح',
+};
+
+export const TASK_STATUS_LABELS: Record<TaskStatus, string> = {
+  not_started: 'لم تبدأ',
+  in_progress: 'قيد التنفيذ',
+  at_risk: 'معرضة للتأخر',
+  overdue: 'متأخرة',
+  awaiting_review: 'بانتظار المراجعة',
+  done_on_time: 'أنجزت في موعدها',
+  done_late: 'أنجزت متأخرة',
+};
+
+export const ROLE_LABELS: Record<Role, string> = {
+  chair: 'رئيس المجلس',
+  secretary: 'أمين السر',
+  strategy_team: 'فريق الاستراتيجية',
+  board_member: 'عضو مجلس',
+  observer: 'مراقب بلا تصويت',
+};
+
+export const CAPABILITY_LABELS: Record<Capability, string> = {
+  vote: 'التصويت على البوابات',
+  manage_gates: 'إدارة البوابات',
+  manage_minutes: 'إدارة المحاضر',
+  manage_reminders: 'إدارة التذكيرات',
+  edit_drafts: 'تحرير المسودات',
+};
+
+export const ROLE_CAPABILITIES: Record<Role, Capability[]> = {
+  chair: ['vote', 'manage_gates'],
+  secretary: ['vote', 'manage_minutes', 'manage_reminders'],
+  strategy_team: ['vote', 'edit_drafts'],
+  board_member: ['vote'],
+  observer: [],
+};
+
+/**
+ * Whether the user's role grants the capability. Admins hold every
+ * management capability so the system can always be run, but vote only if
+ * their role does.
+ */
+export function can(user: Pick<User, 'role' | 'isAdmin'>, capability: Capability): boolean {
+  return ROLE_CAPABILITIES[user.role].includes(capability) || (capability !== 'vote' && !!user.isAdmin);
+}
+
+export function activeMembers(members: Member[]): Member[] {
+  return members.filter(m => m.active);
+}
+
+/** Active members whose role votes: the ones gates are tallied over. */
+export function votingMembers(members: Member[]): Member[] {
+  return activeMembers(members).filter(m => can(m, 'vote'));
+}
+
+/** Votes that still count: deactivated members and non-voting roles no longer approve or block a gate. */
+export function countedVotes(phaseVotes: VoteRecord[] = [], members: Member[]): VoteRecord[] {
+  const votingIds = new Set(votingMembers(members).map(m => m.id));
+  return phaseVotes.filter(v => votingIds.has(v.id));
+}
+
+function passesRule(rule: DecisionRule, approvals: number, rejections: number, eligible: number): boolean {
+  switch (rule) {
+    case 'unanimous':
+      return approvals === eligible;
+    case 'two_thirds':
+      return approvals > 0 && approvals * 3 >= (approvals + rejections) * 2;
+    case 'majority':
+      return approvals * 2 > approvals + rejections;
+  }
+}
+
+/**
+ * Applies the phase's decision rule to its votes. Abstentions count toward
+ * quorum but not toward the approve/reject ratio; recusals count toward
+ * neither, and shrink the number of eligible members. The outcome is only decided
+ * once it can no longer change: "approved" holds even if every remaining
+ * member rejects, "rejected" holds even if every remaining member approves.
+ * A voting window closed at its deadline decides the gate with its own outcome.
+ */
+export function tallyGate(phase: Phase, phaseVotes: VoteRecord[] = [], members: Member[]): GateTally {
+  const counted = countedVotes(phaseVotes, members);
+  const votes = counted.filter(v => v.decision !== 'recuse');
+  const recused = counted.length - votes.length;
+  const eligible = votingMembers(members).length - recused;
+  const approve = votes.filter(v => v.decision === 'approve').length;
+  const reject = votes.filter(v => v.decision === 'reject').length;
+  const abstain = votes.filter(v => v.decision === 'abstain').length;
+  const participating = votes.length;
+  const remaining = Math.max(0, eligible - participating);
+
+  const quorumRequired = phase.decisionRule === 'unanimous'
+    ? eligible
+    : Math.min(eligible, Math.ceil((eligible * phase.quorumPercent) / 100));
+  const quorumMet = eligible > 0 && participating >= quorumRequired;
+
+  const passes = (approvals: number, rejections: number) => passesRule(phase.decisionRule, approvals, rejections, eligible);
+
+  let outcome: GateTally['outcome'] = 'pending';
+  if (phase.votingWindow?.outcome) outcome = phase.votingWindow.outcome;
+  else if (eligible > 0 && quorumMet && passes(approve, reject + remaining)) outcome = 'approved';
+  else if (eligible > 0 && !passes(approve + remaining, reject)) outcome = 'rejected';
+
+  return { approve, reject, abstain, recused, eligible, participating, quorumRequired, quorumMet, outcome };
+}
+
+export function isPhaseApproved(phase: Phase, phaseVotes: VoteRecord[] = [], members: Member[]): boolean {
+  return tallyGate(phase, phaseVotes, members).outcome === 'approved';
+}
+
+/**
+ * Whether the gate can no longer be voted on: it is approved, or its voting
+ * window closed with an outcome. An early rejection does not decide it, since
+ * under unanimity one objection settles the tally while members may still
+ * vote or reconsider until the deadline.
+ */
+export function isGateDecided(phase: Phase, phaseVotes: VoteRecord[] = [], members: Member[]): boolean {
+  return !!phase.votingWindow?.outcome || isPhaseApproved(phase, phaseVotes, members);
+}
+
+/** Whether the gate's voting window is open at `now` (an ISO time). */
+export function isWindowOpen(window: VotingWindow | undefined, now = new Date().toISOString()): boolean {
+  return !!window && !window.closedAt && window.opensAt <= now && now < window.closesAt;
+}
+
+/**
+ * The outcome a gate closes with at its deadline: members who did not vote are
+ * counted as absent, so the gate passes only if the votes received meet the
+ * quorum and the decision rule.
+ */
+export function closingOutcome(phase: Phase, phaseVotes: VoteRecord[] = [], members: Member[]): 'approved' | 'rejected' {
+  const tally = tallyGate({ ...phase, votingWindow: undefined }, phaseVotes, members);
+  if (tally.outcome !== 'pending') return tally.outcome;
+  return tally.quorumMet && passesRule(phase.decisionRule, tally.approve, tally.reject, tally.eligible) ? 'approved' : 'rejected';
+}
+
+/**
+ * The first phase, in order, whose gate is not yet approved. Returns
+ * `Infinity` once every gate is approved so `phase.id < activePhase` keeps
+ * meaning "already completed".
+ */
+export function getActivePhase(phases: Phase[], votes: Votes, members: Member[]): number {
+  const pending = phases.find(p => !isPhaseApproved(p, votes[p.id], members));
+  return pending ? pending.id : Infinity;
+}
+
+/**
+ * The reopening a phase's votes currently wait on: the latest reopening of an
+ * earlier gate that kept this phase conditionally, while that gate has not
+ * been approved again.
+ */
+export function pendingReopening(phaseId: number, reopenings: PhaseReopening[], phases: Phase[], votes: Votes, members: Member[]): PhaseReopening | undefined {
+  const latest = new Map(reopenings.map(r => [r.phaseId, r]));
+  return [...latest.values()].find(r => {
+    const gate = phases.find(p => p.id === r.phaseId);
+    return r.downstream === 'conditional' && r.affectedPhaseIds.includes(phaseId) && !!gate && !isPhaseApproved(gate, votes[gate.id], members);
+  });
+}
+
+/** Whether the holder may currently use the proxy; `today` is a YYYY-MM-DD date. */
+export function isProxyActive(proxy: Proxy, today: string): boolean {
+  return !proxy.revokedAt && proxy.validFrom <= today && today <= proxy.validUntil;
+}
+
+// --- Drafts ---
+export function phaseDrafts(drafts: Draft[], phaseId: number): Draft[] {
+  return drafts.filter(d => d.phaseId === phaseId);
+}
+
+/**
+ * A vote is stale once any of the phase's drafts has a version newer than the
+ * one the member saw. It still counts toward the gate; it is only flagged.
+ * A recusal does not depend on the drafts, so it never goes stale.
+ */
+export function isVoteStale(vote: Pick<VoteRecord, 'decision' | 'draftVersions'>, drafts: Draft[]): boolean {
+  return vote.decision !== 'recuse' && drafts.some(d => d.currentVersion > (vote.draftVersions[d.id] ?? 0));
+}
+
+/** When the member's current decision was recorded: its last change, or when it was cast. */
+export function decidedAt(vote: VoteRecord): string {
+  return vote.changedAt ?? vote.votedAt;
+}
+
+/**
+ * When the gate's approval became final: the time of the vote that first made
+ * the tally "approved", replaying votes in the order they were decided, or
+ * when the voting window closed if the gate was approved at its deadline.
+ */
+export function gateApprovedAt(phase: Phase, phaseVotes: VoteRecord[] = [], members: Member[]): string | undefined {
+  const ordered = [...phaseVotes].sort((a, b) => decidedAt(a).localeCompare(decidedAt(b)));
+  const byVotes = { ...phase, votingWindow: undefined };
+  for (let i = 1; i <= ordered.length; i++) {
+    if (tallyGate(byVotes, ordered.slice(0, i), members).outcome === 'approved') return decidedAt(ordered[i - 1]);
+  }
+  return phase.votingWindow?.outcome === 'approved' ? phase.votingWindow.closedAt : undefined;
+}
+
+// A task is at risk in its last few days, or once more of its window has
+// passed than its assignees have finished (by half the window or more).
+const AT_RISK_DAYS = 3;
+const AT_RISK_LAG = 0.5;
+
+/** Only the task's designated reviewer decides, or an admin when it has none. */
+export function canReviewTask(task: Pick<Task, 'reviewerId'>, user: User): boolean {
+  return task.reviewerId ? task.reviewerId === user.id : !!user.isAdmin;
+}
+
+/**
+ * A task counts as done once every assignee has finished and its reviewer
+ * accepted it afterwards; finishing again after a review needs a new one.
+ */
+export function isTaskAccepted(task: Task, completedAt: Record<string, string> = {}, review?: TaskReview): boolean {
+  const finished = task.assignees.map(id => completedAt[id]);
+  if (!finished.every(Boolean) || review?.decision !== 'accepted') return false;
+  return finished.every(time => time <= review.reviewedAt);
+}
+
+/**
+ * Schedule health from the task's dates, today (YYYY-MM-DD), who has marked it
+ * done and its latest review. An accepted task is late if its last assignee
+ * finished after the end date.
+ */
+export function taskStatus(task: Task, completedAt: Record<string, string> = {}, review: TaskReview | undefined, today: string): TaskStatus {
+  const finished = task.assignees.map(id => completedAt[id]);
+  if (finished.every(Boolean)) {
+    if (!isTaskAccepted(task, completedAt, review)) return 'awaiting_review';
+    const lastDone = finished.sort().at(-1)?.slice(0, 10);
+    return lastDone && lastDone > task.endDate ? 'done_late' : 'done_on_time';
+  }
+  if (today < task.startDate) return 'not_started';
+  if (today > task.endDate) return 'overdue';
+
+  const duration = toDay(task.endDate) - toDay(task.startDate) + 1;
+  const elapsed = (toDay(today) - toDay(task.startDate) + 1) / duration;
+  const doneShare = finished.filter(Boolean).length / task.assignees.length;
+  const daysLeft = toDay(task.endDate) - toDay(today);
+  return daysLeft < AT_RISK_DAYS || elapsed - doneShare >= AT_RISK_LAG ? 'at_risk' : 'in_progress';
+}
@@ -0,0 +1,560 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Settings, Trash2, X, KeyRound, Users, Layers, ListTodo, Landmark, Plus, Save, ScrollText, FolderKanban, RotateCcw } from 'lucide-react';
+import { api } from '../api';
+import { can, DECISION_RULE_LABELS, isPhaseApproved, ROLE_LABELS } from '../board';
+import { t } from '../i18n';
+import AuditLog from './AuditLog';
+import PlanManager from './PlanManager';
+import TaskImport from './TaskImport';
+import type { BoardState, DecisionRule, DownstreamHandling, Member, Phase, Plan, Role, Task, User, Votes } from '../types';
+
+type AdminTab = 'plans' | 'votes' | 'members' | 'phases' | 'tasks' | 'audit';
+
+type AdminConsoleProps = {
+  /** Admins see every tab; other roles only the tabs their capabilities cover. */
+  user: User;
+  plans: Plan[];
+  planId: number;
+  /** Everyone registered; `members` are the current plan's members. */
+  directory: Member[];
+  members: Member[];
+  phases: Phase[];
+  tasks: Task[];
+  votes: Votes;
+  onClose: () => void;
+  onRemoveVote: (phaseId: number, memberId: string) => void;
+  onResetPhase: (phaseId: number) => void;
+  onStateChange: (state: BoardState) => void;
+  onError: (err: Error) => void;
+  notify: (message: string) => void;
+};
+
+const inputClass = 'px-3 py-1.5 rounded-md border border-slate-200 text-sm focus:ring-2 focus:ring-indigo-500 outline-none';
+const primaryButton = 'text-xs bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white px-3 py-1.5 rounded-md font-medium flex items-center gap-1';
+const dangerButton = 'text-xs bg-red-50 text-red-600 hover:bg-red-100 px-3 py-1.5 rounded-md font-medium flex items-center gap-1';
+
+const splitLines = (text: string) => text.split('\n').map(l => l.trim()).filter(Boolean);
+const initial = (name: string) => name.replace(/^(د\.|م\.|أ\.)\s*/, '').charAt(0);
+
+export default function AdminConsole(props: AdminConsoleProps) {
+  const { user, plans, directory, members, phases, tasks, votes, onClose, onStateChange, onError, notify } = props;
+  const plan = plans.find(p => p.id === props.planId);
+
+  const save = (request: Promise<BoardState>, message: string): Promise<boolean> =>
+    request
+      .then(state => {
+        onStateChange(state);
+        notify(message);
+        return true;
+      })
+      .catch(err => {
+        onError(err);
+        return false;
+      });
+
+  const allTabs: { id: AdminTab; label: string; icon: React.ElementType; allowed: boolean }[] = [
+    { id: 'plans', label: t('الخطط'), icon: FolderKanban, allowed: !!user.isAdmin },
+    { id: 'votes', label: t('الأصوات'), icon: Landmark, allowed: can(user, 'manage_gates') },
+    { id: 'members', label: t('الأعضاء'), icon: Users, allowed: !!user.isAdmin },
+    { id: 'phases', label: t('المراحل'), icon: Layers, allowed: !!user.isAdmin },
+    { id: 'tasks', label: t('المهام'), icon: ListTodo, allowed: !!user.isAdmin },
+    { id: 'audit', label: t('سجل التدقيق'), icon: ScrollText, allowed: can(user, 'manage_minutes') },
+  ];
+  const tabs = allTabs.filter(entry => entry.allowed);
+  const [tab, setTab] = useState<AdminTab>(() => tabs.some(entry => entry.id === 'votes') ? 'votes' : tabs[0].id);
+  const [reopeningPhaseId, setReopeningPhaseId] = useState<number | null>(null);
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 z-[100] flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl w-full max-w-4xl max-h-[85vh] overflow-y-auto shadow-2xl">
+        <div className="sticky top-0 bg-white border-b border-slate-200 z-10">
+          <div className="p-4 flex items-center justify-between">
+            <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+              <Settings className="w-5 h-5 text-indigo-600" />
+              {t('إدارة النظام ({role})', { role: t(user.isAdmin ? 'صلاحيات المدير' : ROLE_LABELS[user.role]) })}
+            </h2>
+            <button onClick={onClose} className="p-2 text-slate-400 hover:bg-slate-100 rounded-full">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+          <div className="flex gap-4 px-4">
+            {tabs.map(entry => (
+              <button
+                key={entry.id}
+                onClick={() => setTab(entry.id)}
+                className={`pb-3 px-1 text-sm font-bold border-b-2 flex items-center gap-1.5 transition-colors ${tab === entry.id ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}
+              >
+                <entry.icon className="w-4 h-4" />
+                {entry.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {plan?.archivedAt && ['votes', 'phases', 'tasks'].includes(tab) && (
+            <p className="text-sm bg-slate-100 border border-slate-200 text-slate-600 rounded-lg px-3 py-2">
+              {t('الخطة "{title}" مؤرشفة للاطلاع فقط؛ استعدها من تبويب الخطط لتعديلها.', { title: plan.title })}
+            </p>
+          )}
+
+          {tab === 'plans' && <PlanManager plans={plans} directory={directory} save={save} />}
+
+          {tab === 'votes' && phases.map(phase => {
+            const approved = isPhaseApproved(phase, votes[phase.id], members);
+            return (
+              <div key={phase.id} className="border border-slate-200 rounded-xl p-4">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="font-bold text-slate-800">{t('المرحلة {number}: {title}', { number: phase.number, title: phase.title })}</h3>
+                  {approved ? (
+                    <button onClick={() => setReopeningPhaseId(phase.id)} className={dangerButton}>
+                      <RotateCcw className="w-3 h-3" />
+                      {t('إعادة فتح البوابة')}
+                    </button>
+                  ) : (
+                    <button onClick={() => props.onResetPhase(phase.id)} className={dangerButton}>
+                      <Trash2 className="w-3 h-3" />
+                      {t('إلغاء جميع الأصوات')}
+                    </button>
+                  )}
+                </div>
+                {reopeningPhaseId === phase.id && (
+                  <ReopenGateForm
+                    later={phases.filter(p => p.number > phase.number && (votes[p.id]?.length ?? 0) > 0)}
+                    onSubmit={(reason, downstream) =>
+                      save(api.reopenGate(phase.id, reason, downstream), t('أُعيد فتح بوابة المرحلة {number}.', { number: phase.number }))
+                        .then(ok => ok && setReopeningPhaseId(null))
+                    }
+                    onCancel={() => setReopeningPhaseId(null)}
+                  />
+                )}
+                {(votes[phase.id] || []).length === 0 ? (
+                  <p className="text-sm text-slate-500">{t('لا توجد أصوات في هذه المرحلة.')}</p>
+                ) : (
+                  <div className="space-y-2">
+                    {(votes[phase.id] || []).map(v => (
+                      <div key={v.id} className="flex items-center justify-between bg-slate-50 p-2 rounded-lg border border-slate-100">
+                        <div className="flex items-center gap-2">
+                          <div className="w-6 h-6 rounded-full bg-indigo-100 text-indigo-700 flex items-center justify-center font-bold text-xs">
+                            {initial(v.name)}
+                          </div>
+                          <span className="text-sm font-medium text-slate-700">{v.name}</span>
+                        </div>
+                        {!approved && (
+                          <button
+                            onClick={() => props.onRemoveVote(phase.id, v.id)}
+                            className="text-red-500 hover:text-red-700 p-1.5 hover:bg-red-50 rounded-md transition-colors"
+                            title={t('إلغاء صوت العضو')}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {tab === 'audit' && <AuditLog members={directory} phases={phases} onError={onError} />}
+
+          {tab === 'members' && (
+            <MembersSection currentUserId={user.id} members={directory} planTitle={plan?.title} save={save} onError={onError} notify={notify} />
+          )}
+
+          {tab === 'phases' && (
+            <>
+              {phases.map(phase => (
+                <PhaseEditor
+                  key={`${phase.id}:${JSON.stringify(phase)}`}
+                  phase={phase}
+                  onSave={p => save(api.updatePhase({ ...p, id: phase.id }), t('تم حفظ المرحلة {number}', { number: phase.number }))}
+                  onDelete={() => save(api.deletePhase(phase.id), t('تم حذف المرحلة {number}', { number: phase.number }))}
+                />
+              ))}
+              <PhaseEditor key={`new:${phases.length}`} onSave={p => save(api.createPhase(p), t('تمت إضافة مرحلة جديدة'))} />
+            </>
+          )}
+
+          {tab === 'tasks' && (
+            <>
+              {!plan?.archivedAt && <TaskImport directory={directory} phases={phases} save={save} onError={onError} />}
+              {tasks.map(task => (
+                <TaskEditor
+                  key={`${task.id}:${JSON.stringify(task)}`}
+                  task={task}
+                  members={members}
+                  phases={phases}
+                  tasks={tasks}
+                  onSave={updated => save(api.updateTask({ ...updated, id: task.id }), t('تم حفظ المهمة: {title}', { title: updated.title }))}
+                  onDelete={() => save(api.deleteTask(task.id), t('تم حذف المهمة: {title}', { title: task.title }))}
+                />
+              ))}
+              <TaskEditor key={`new:${tasks.length}`} members={members} phases={phases} tasks={tasks} onSave={created => save(api.createTask(created), t('تمت إضافة المهمة: {title}', { title: created.title }))} />
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// --- Members ---
+function MembersSection({ currentUserId, members, planTitle, save, onError, notify }: {
+  currentUserId: string;
+  members: Member[];
+  planTitle?: string;
+  save: (request: Promise<BoardState>, message: string) => Promise<boolean>;
+  onError: (err: Error) => void;
+  notify: (message: string) => void;
+}) {
+  const [credentials, setCredentials] = useState<Record<string, boolean>>({});
+  const [pinInputs, setPinInputs] = useState<Record<string, string>>({});
+  const [newMember, setNewMember] = useState({ id: '', name: '', isAdmin: false, role: 'board_member' as Role });
+
+  useEffect(() => {
+    api.getCredentials()
+      .then(list => setCredentials(Object.fromEntries(list.map(c => [c.id, c.hasPin]))))
+      .catch(onError);
+  }, [members.length]);
+
+  const setPin = (member: Member) => {
+    api.setMemberPin(member.id, pinInputs[member.id] || '')
+      .then(() => {
+        setCredentials(prev => ({ ...prev, [member.id]: true }));
+        setPinInputs(prev => ({ ...prev, [member.id]: '' }));
+        notify(t('تم تعيين رمز الدخول للعضو {name}', { name: member.name }));
+      })
+      .catch(onError);
+  };
+
+  const addMember = (e: React.FormEvent) => {
+    e.preventDefault();
+    save(api.createMember({ ...newMember, active: true }), t('تمت إضافة العضو {name}', { name: newMember.name }))
+      .then(saved => saved && setNewMember({ id: '', name: '', isAdmin: false, role: 'board_member' }));
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-slate-500">
+        {t('تعيين رمز دخول جديد ينهي جميع جلسات العضو الحالية. العضو المعطل لا يستطيع الدخول ولا يُحتسب في النصاب، وكذلك المراقب لا يصوّت ولا يُحتسب فيه.')}
+        {' '}{t('يحدد الدور صلاحيات العضو: الرئيس يدير البوابات، وأمين السر يدير المحاضر والتذكيرات، وفريق الاستراتيجية يحرر المسودات.')}
+        {' '}{t('يُضاف العضو الجديد إلى {plan}، وتُدار عضوية الخطط الأخرى من تبويب الخطط.', { plan: planTitle ? `"${planTitle}"` : t('الخطة الحالية') })}
+      </p>
+      {members.map(m => (
+        <MemberRow
+          key={`${m.id}:${JSON.stringify(m)}`}
+          member={m}
+          isSelf={m.id === currentUserId}
+          hasPin={!!credentials[m.id]}
+          pinInput={pinInputs[m.id] || ''}
+          onPinInput={value => setPinInputs({ ...pinInputs, [m.id]: value })}
+          onSetPin={() => setPin(m)}
+          onSave={updated => save(api.updateMember(updated), t('تم حفظ بيانات {name}', { name: updated.name }))}
+        />
+      ))}
+
+      <form onSubmit={addMember} className="border border-dashed border-slate-300 rounded-xl p-4 flex flex-wrap items-center gap-2">
+        <input required placeholder={t('رقم الهوية')} maxLength={10} value={newMember.id} onChange={e => setNewMember({ ...newMember, id: e.target.value })} className={`${inputClass} w-36 font-mono`} />
+        <input required placeholder={t('الاسم مع اللقب')} value={newMember.name} onChange={e => setNewMember({ ...newMember, name: e.target.value })} className={`${inputClass} flex-1 min-w-[180px]`} />
+        <RoleSelect value={newMember.role} onChange={role => setNewMember({ ...newMember, role })} />
+        <label className="flex items-center gap-1 text-xs text-slate-600">
+          <input type="checkbox" checked={newMember.isAdmin} onChange={e => setNewMember({ ...newMember, isAdmin: e.target.checked })} />
+          {t('مدير نظام')}
+        </label>
+        <button type="submit" className={primaryButton}><Plus className="w-3 h-3" /> {t('إضافة عضو')}</button>
+      </form>
+    </div>
+  );
+}
+
+function MemberRow({ member, isSelf, hasPin, pinInput, onPinInput, onSetPin, onSave }: {
+  member: Member;
+  isSelf: boolean;
+  hasPin: boolean;
+  pinInput: string;
+  onPinInput: (value: string) => void;
+  onSetPin: () => void;
+  onSave: (member: Member) => void;
+}) {
+  const [draft, setDraft] = useState(member);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(member);
+
+  return (
+    <div className={`border rounded-xl p-3 space-y-2 ${member.active ? 'border-slate-200' : 'border-slate-200 bg-slate-50 opacity-75'}`}>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-mono text-xs text-slate-400 w-24">{member.id}</span>
+        <input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} className={`${inputClass} flex-1 min-w-[180px]`} />
+        <RoleSelect value={draft.role} onChange={role => setDraft({ ...draft, role })} />
+        <label className="flex items-center gap-1 text-xs text-slate-600">
+          <input type="checkbox" disabled={isSelf} checked={!!draft.isAdmin} onChange={e => setDraft({ ...draft, isAdmin: e.target.checked })} />
+          {t('مدير نظام')}
+        </label>
+        <label className="flex items-center gap-1 text-xs text-slate-600">
+          <input type="checkbox" disabled={isSelf} checked={draft.active} onChange={e => setDraft({ ...draft, active: e.target.checked })} />
+          {t('نشط')}
+        </label>
+        <button onClick={() => onSave(draft)} disabled={!isDirty || !draft.name.trim()} className={primaryButton}>
+          <Save className="w-3 h-3" /> {t('حفظ')}
+        </button>
+      </div>
+      <div className="flex items-center gap-2">
+        <span className={`text-[10px] px-2 py-0.5 rounded-full font-bold border ${hasPin ? 'bg-emerald-50 text-emerald-700 border-emerald-100' : 'bg-amber-50 text-amber-700 border-amber-100'}`}>
+          {t(hasPin ? 'رمز الدخول مفعل' : 'بدون رمز دخول')}
+        </span>
+        <input type="password" placeholder={t('رمز جديد')} value={pinInput} onChange={e => onPinInput(e.target.value)} className={`${inputClass} w-28`} />
+        <button onClick={onSetPin} disabled={!pinInput} className={primaryButton}>
+          <KeyRound className="w-3 h-3" /> {t('تعيين')}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function RoleSelect({ value, onChange }: { value: Role; onChange: (role: Role) => void }) {
+  return (
+    <select value={value} onChange={e => onChange(e.target.value as Role)} className={inputClass} title={t('الدور في المجلس')}>
+      {(Object.keys(ROLE_LABELS) as Role[]).map(role => <option key={role} value={role}>{t(ROLE_LABELS[role])}</option>)}
+    </select>
+  );
+}
+
+// --- Votes ---
+/** Reopening a decided gate needs a reason, and an explicit choice for later phases that were voted on meanwhile. */
+function ReopenGateForm({ later, onSubmit, onCancel }: {
+  later: Phase[];
+  onSubmit: (reason: string, downstream?: DownstreamHandling) => void;
+  onCancel: () => void;
+}) {
+  const [reason, setReason] = useState('');
+  const [downstream, setDownstream] = useState<DownstreamHandling | null>(null);
+  const ready = !!reason.trim() && (later.length === 0 || downstream !== null);
+
+  return (
+    <div className="bg-red-50/50 border border-red-100 rounded-lg p-3 mb-4 space-y-3">
+      <textarea
+        rows={2}
+        placeholder={t('سبب إعادة فتح البوابة (إلزامي، يظهر في سجل التصويت)...')}
+        value={reason}
+        onChange={e => setReason(e.target.value)}
+        className={`${inputClass} w-full`}
+      />
+      {later.length > 0 && (
+        <fieldset className="space-y-1.5">
+          <legend className="text-xs text-slate-600 mb-1">
+            {t('صُوّت على مراحل لاحقة بعد اعتماد هذه البوابة: {phases}', { phases: later.map(p => p.number).join('، ') })}
+          </legend>
+          <label className="flex items-start gap-2 text-sm text-slate-700">
+            <input type="radio" name="downstream" checked={downstream === 'invalidate'} onChange={() => setDownstream('invalidate')} className="mt-1" />
+            <span>{t('إلغاء أصوات المراحل اللاحقة أيضاً')}</span>
+          </label>
+          <label className="flex items-start gap-2 text-sm text-slate-700">
+            <input type="radio" name="downstream" checked={downstream === 'conditional'} onChange={() => setDownstream('conditional')} className="mt-1" />
+            <span>{t('الإبقاء عليها معتمدة بشرط إعادة اعتماد هذه البوابة')}</span>
+          </label>
+        </fieldset>
+      )}
+      <div className="flex gap-2">
+        <button onClick={() => onSubmit(reason.trim(), downstream ?? undefined)} disabled={!ready} className={primaryButton}>
+          <RotateCcw className="w-3 h-3" /> {t('تأكيد إعادة الفتح')}
+        </button>
+        <button onClick={onCancel} className="text-xs bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 px-3 py-1.5 rounded-md font-medium">
+          {t('تراجع')}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// --- Phases ---
+function PhaseEditor({ phase, onSave, onDelete }: {
+  phase?: Phase;
+  onSave: (phase: Omit<Phase, 'id' | 'number'>) => void;
+  onDelete?: () => void;
+}) {
+  const [title, setTitle] = useState(phase?.title || '');
+  const [gate, setGate] = useState(phase?.gate || '');
+  const [tools, setTools] = useState((phase?.tools || []).join('\n'));
+  const [decisionRule, setDecisionRule] = useState<DecisionRule>(phase?.decisionRule || 'unanimous');
+  const [quorumPercent, setQuorumPercent] = useState(phase?.quorumPercent ?? 50);
+
+  return (
+    <div className={`border rounded-xl p-4 space-y-3 ${phase ? 'border-slate-200' : 'border-dashed border-slate-300'}`}>
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold text-slate-800">{phase ? t('المرحلة {number}', { number: phase.number }) : t('مرحلة جديدة')}</h3>
+        <div className="flex gap-2">
+          {onDelete && (
+            <button onClick={onDelete} className={dangerButton}><Trash2 className="w-3 h-3" /> {t('حذف')}</button>
+          )}
+          <button
+            onClick={() => onSave({ title, gate, tools: splitLines(tools), decisionRule, quorumPercent })}
+            disabled={!title.trim() || !gate.trim() || !(quorumPercent >= 1 && quorumPercent <= 100)}
+            className={primaryButton}
+          >
+            {phase ? <><Save className="w-3 h-3" /> {t('حفظ')}</> : <><Plus className="w-3 h-3" /> {t('إضافة')}</>}
+          </button>
+        </div>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <label className="text-xs text-slate-500 space-y-1">
+          <span>{t('عنوان المرحلة')}</span>
+          <input value={title} onChange={e => setTitle(e.target.value)} className={`${inputClass} w-full`} />
+        </label>
+        <label className="text-xs text-slate-500 space-y-1">
+          <span>{t('بوابة مجلس الإدارة')}</span>
+          <input value={gate} onChange={e => setGate(e.target.value)} className={`${inputClass} w-full`} />
+        </label>
+        <label className="text-xs text-slate-500 space-y-1">
+          <span>{t('الأدوات المنهجية (سطر لكل أداة)')}</span>
+          <textarea rows={3} value={tools} onChange={e => setTools(e.target.value)} className={`${inputClass} w-full`} />
+        </label>
+        <label className="text-xs text-slate-500 space-y-1">
+          <span>{t('قاعدة الاعتماد')}</span>
+          <select value={decisionRule} onChange={e => setDecisionRule(e.target.value as DecisionRule)} className={`${inputClass} w-full`}>
+            {(Object.keys(DECISION_RULE_LABELS) as DecisionRule[]).map(rule => (
+              <option key={rule} value={rule}>{t(DECISION_RULE_LABELS[rule])}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-slate-500 space-y-1">
+          <span>{t('النصاب (% من الأعضاء النشطين)')}</span>
+          <input
+            type="number"
+            min={1}
+            max={100}
+            value={decisionRule === 'unanimous' ? 100 : quorumPercent}
+            disabled={decisionRule === 'unanimous'}
+            onChange={e => setQuorumPercent(Number(e.target.value))}
+            className={`${inputClass} w-full disabled:bg-slate-100`}
+          />
+        </label>
+      </div>
+    </div>
+  );
+}
+
+// --- Tasks ---
+function TaskEditor({ task, members, phases, tasks, onSave, onDelete }: {
+  task?: Task;
+  members: Member[];
+  phases: Phase[];
+  tasks: Task[];
+  onSave: (task: Omit<Task, 'id'>) => void;
+  onDelete?: () => void;
+}) {
+  const [draft, setDraft] = useState<Omit<Task, 'id'>>(() => ({
+    title: task?.title || '',
+    assignees: task?.assignees || [],
+    startDate: task?.startDate || '',
+    endDate: task?.endDate || '',
+    deliverables: task?.deliverables || '',
+    phaseId: task?.phaseId,
+    dependsOn: task?.dependsOn || [],
+    reviewerId: task?.reviewerId,
+  }));
+
+  const toggleAssignee = (memberId: string) => setDraft(prev => ({
+    ...prev,
+    assignees: prev.assignees.includes(memberId) ? prev.assignees.filter(id => id !== memberId) : [...prev.assignees, memberId],
+  }));
+
+  const toggleDependency = (taskId: string) => setDraft(prev => ({
+    ...prev,
+    dependsOn: prev.dependsOn.includes(taskId) ? prev.dependsOn.filter(id => id !== taskId) : [...prev.dependsOn, taskId],
+  }));
+
+  const isValid = draft.title.trim() && draft.startDate && draft.endDate && draft.assignees.length > 0;
+
+  return (
+    <div className={`border rounded-xl p-4 space-y-3 ${task ? 'border-slate-200' : 'border-dashed border-slate-300'}`}>
+      <div className="flex items-center justify-between gap-2">
+        <input
+          placeholder={t('عنوان المهمة')}
+          value={draft.title}
+          onChange={e => setDraft({ ...draft, title: e.target.value })}
+          className={`${inputClass} flex-1 font-bold`}
+        />
+        {onDelete && (
+          <button onClick={onDelete} className={dangerButton}><Trash2 className="w-3 h-3" /> {t('حذف')}</button>
+        )}
+        <button onClick={() => onSave(draft)} disabled={!isValid} className={primaryButton}>
+          {task ? <><Save className="w-3 h-3" /> {t('حفظ')}</> : <><Plus className="w-3 h-3" /> {t('إضافة مهمة')}</>}
+        </button>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <label className="text-xs text-slate-500 space-y-1">
+          <span>{t('تاريخ البداية')}</span>
+          <input type="date" value={draft.startDate} onChange={e => setDraft({ ...draft, startDate: e.target.value })} className={`${inputClass} w-full`} />
+        </label>
+        <label className="text-xs text-slate-500 space-y-1">
+          <span>{t('تاريخ النهاية')}</span>
+          <input type="date" value={draft.endDate} onChange={e => setDraft({ ...draft, endDate: e.target.value })} className={`${inputClass} w-full`} />
+        </label>
+        <label className="text-xs text-slate-500 space-y-1">
+          <span>{t('المرحلة المرتبطة')}</span>
+          <select
+            value={draft.phaseId ?? ''}
+            onChange={e => setDraft({ ...draft, phaseId: e.target.value ? Number(e.target.value) : undefined })}
+            className={`${inputClass} w-full`}
+          >
+            <option value="">{t('بدون مرحلة')}</option>
+            {phases.map(p => <option key={p.id} value={p.id}>{t('المرحلة {number}: {title}', { number: p.number, title: p.title })}</option>)}
+          </select>
+        </label>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <label className="text-xs text-slate-500 space-y-1 md:col-span-2">
+          <span>{t('المخرجات')}</span>
+          <input value={draft.deliverables} onChange={e => setDraft({ ...draft, deliverables: e.target.value })} className={`${inputClass} w-full`} />
+        </label>
+        <label className="text-xs text-slate-500 space-y-1">
+          <span>{t('مراجع المهمة')}</span>
+          <select
+            value={draft.reviewerId ?? ''}
+            onChange={e => setDraft({ ...draft, reviewerId: e.target.value || undefined })}
+            className={`${inputClass} w-full`}
+          >
+            <option value="">{t('مدير النظام')}</option>
+            {members.filter(m => m.active || m.id === draft.reviewerId).map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+          </select>
+        </label>
+      </div>
+      <div>
+        <p className="text-xs text-slate-500 mb-1.5">{t('الأعضاء المكلفون')}</p>
+        <div className="flex flex-wrap gap-1.5">
+          {members.filter(m => m.active || draft.assignees.includes(m.id)).map(m => (
+            <button
+              key={m.id}
+              type="button"
+              onClick={() => toggleAssignee(m.id)}
+              className={`px-2 py-1 rounded-md text-[11px] font-bold border transition-colors ${draft.assignees.includes(m.id) ? 'bg-indigo-100 text-indigo-700 border-indigo-200' : 'bg-slate-50 text-slate-500 border-slate-200'}`}
+            >
+              {m.name.replace(/^(د\.|م\.|أ\.)\s*/, '')}{!m.active && ` (${t('غير نشط')})`}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div>
+        <p className="text-xs text-slate-500 mb-1.5">{t('تعتمد على (لا تبدأ قبل انتهاء)')}</p>
+        <div className="flex flex-wrap gap-1.5">
+          {tasks.filter(other => other.id !== task?.id).map(other => (
+            <button
+              key={other.id}
+              type="button"
+              onClick={() => toggleDependency(other.id)}
+              className={`px-2 py-1 rounded-md text-[11px] font-bold border transition-colors ${draft.dependsOn.includes(other.id) ? 'bg-amber-100 text-amber-800 border-amber-200' : 'bg-slate-50 text-slate-500 border-slate-200'}`}
+            >
+              {other.title}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
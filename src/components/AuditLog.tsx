@@ -0,0 +1,190 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import { ShieldCheck, ShieldAlert, RefreshCw } from 'lucide-react';
+import { api } from '../api';
+import { formatDateTime, t } from '../i18n';
+import type { AuditAction, AuditEntry, AuditFilter, AuditVerification, Member, Phase } from '../types';
+
+const inputClass = 'px-3 py-1.5 rounded-md border border-slate-200 text-sm focus:ring-2 focus:ring-indigo-500 outline-none';
+const secondaryButton = 'text-xs bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 px-3 py-1.5 rounded-md font-medium flex items-center gap-1';
+
+const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'vote.cast': 'تصويت',
+  'vote.recused': 'تنحٍّ لتعارض المصالح',
+  'vote.commented': 'تعليق على صوت',
+  'vote.changed': 'تغيير صوت',
+  'vote.withdrawn': 'سحب صوت',
+  'vote.removed': 'إلغاء صوت',
+  'phase.reset': 'إلغاء جميع أصوات المرحلة',
+  'phase.reopened': 'إعادة فتح بوابة',
+  'gate.opened': 'فتح باب التصويت',
+  'gate.extended': 'تمديد مهلة التصويت',
+  'gate.closed': 'إغلاق التصويت عند انتهاء المهلة',
+  'proxy.granted': 'منح توكيل بالتصويت',
+  'proxy.revoked': 'إلغاء توكيل بالتصويت',
+  'discussion.started': 'بدء نقاش',
+  'discussion.replied': 'رد في نقاش',
+  'discussion.edited': 'تعديل مشاركة في نقاش',
+  'discussion.resolved': 'حسم نقاش',
+  'discussion.reopened': 'إعادة فتح نقاش',
+  'task.completed': 'إنجاز مهمة',
+  'task.reopened': 'إلغاء إنجاز مهمة',
+  'task.progress': 'تحديث نسبة إنجاز',
+  'task.evidence_added': 'إضافة دليل إنجاز',
+  'task.accepted': 'اعتماد مهمة',
+  'task.returned': 'إعادة مهمة للمكلفين',
+  'member.created': 'إضافة عضو',
+  'member.updated': 'تعديل عضو',
+  'member.pin_set': 'تعيين رمز دخول',
+  'member.reminders_updated': 'تعديل تفضيلات التذكير',
+  'member.calendar_linked': 'إنشاء رابط اشتراك التقويم',
+  'member.calendar_unlinked': 'إيقاف رابط اشتراك التقويم',
+  'phase.created': 'إضافة مرحلة',
+  'phase.updated': 'تعديل مرحلة',
+  'phase.deleted': 'حذف مرحلة',
+  'task.created': 'إضافة مهمة',
+  'task.updated': 'تعديل مهمة',
+  'task.deleted': 'حذف مهمة',
+  'draft.created': 'إضافة مسودة',
+  'draft.renamed': 'تعديل عنوان مسودة',
+  'draft.deleted': 'حذف مسودة',
+  'draft.published': 'نشر نسخة مسودة',
+  'plan.created': 'إنشاء خطة',
+  'plan.updated': 'تعديل خطة',
+  'plan.archived': 'أرشفة خطة',
+  'plan.restored': 'استعادة خطة من الأرشيف',
+};
+
+const show = (value: unknown) => value === undefined ? '—' : typeof value === 'string' ? value : JSON.stringify(value);
+
+/** Field-level before/after for objects; whole values otherwise. */
+function changes(before: unknown, after: unknown): { field?: string; before: unknown; after: unknown }[] {
+  const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+  if (!isObject(before) || !isObject(after)) return [{ before, after }];
+  return [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .map(key => ({ field: key, before: before[key], after: after[key] }));
+}
+
+/** Admin view of the hash-chained audit trail, with filters and a chain integrity check. */
+export default function AuditLog({ members, phases, onError }: {
+  members: Member[];
+  phases: Phase[];
+  onError: (err: Error) => void;
+}) {
+  const [filter, setFilter] = useState<AuditFilter>({});
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [verification, setVerification] = useState<AuditVerification | null>(null);
+  const [verifying, setVerifying] = useState(false);
+
+  const load = (beforeId?: number) => {
+    api.getAudit({ ...filter, beforeId })
+      .then(page => {
+        setEntries(prev => beforeId ? [...prev, ...page] : page);
+        setHasMore(page.length >= 100);
+      })
+      .catch(onError);
+  };
+
+  useEffect(() => load(), [filter.memberId, filter.phaseId, filter.action]);
+
+  const verify = () => {
+    setVerifying(true);
+    api.verifyAudit().then(setVerification).catch(onError).finally(() => setVerifying(false));
+  };
+
+  const memberName = (id?: string) => members.find(m => m.id === id)?.name ?? id;
+  // The log spans every plan; phases of other plans are shown by their id.
+  const phaseLabel = (id: number) => {
+    const phase = phases.find(p => p.id === id);
+    return phase ? t('المرحلة {number}', { number: phase.number }) : t('مرحلة من خطة أخرى (#{id})', { id: String(id) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className={`rounded-xl border p-4 flex flex-wrap items-center justify-between gap-3 ${
+        !verification ? 'border-slate-200' : verification.valid ? 'border-emerald-200 bg-emerald-50' : 'border-red-200 bg-red-50'
+      }`}>
+        <div className="text-sm">
+          {!verification && <p className="text-slate-600">{t('يتحقق الفحص من تسلسل القيود وبصماتها للكشف عن أي تعديل أو حذف.')}</p>}
+          {verification?.valid && (
+            <>
+              <p className="font-bold text-emerald-700 flex items-center gap-1"><ShieldCheck className="w-4 h-4" /> {t('السجل سليم ({count} قيد)', { count: verification.checked })}</p>
+              <p className="text-[11px] text-emerald-700 mt-1 font-mono break-all" dir="ltr">{verification.headHash}</p>
+              <p className="text-[11px] text-slate-500 mt-1">{t('احتفظ ببصمة آخر قيد في محضر الاجتماع؛ تطابقها لاحقاً يثبت عدم حذف قيود من نهاية السجل.')}</p>
+            </>
+          )}
+          {verification && !verification.valid && (
+            <p className="font-bold text-red-700 flex items-center gap-1">
+              <ShieldAlert className="w-4 h-4" /> {t('تم اكتشاف تلاعب بالسجل عند القيد رقم {entry} (سليم حتى {count} قيد)', { entry: verification.brokenAt, count: verification.checked })}
+            </p>
+          )}
+        </div>
+        <button onClick={verify} disabled={verifying} className={secondaryButton}>
+          <RefreshCw className={`w-3 h-3 ${verifying ? 'animate-spin' : ''}`} /> {t('التحقق من سلامة السجل')}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <select value={filter.memberId ?? ''} onChange={e => setFilter({ ...filter, memberId: e.target.value || undefined })} className={inputClass}>
+          <option value="">{t('كل الأعضاء')}</option>
+          {members.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+        </select>
+        <select value={filter.phaseId ?? ''} onChange={e => setFilter({ ...filter, phaseId: e.target.value ? Number(e.target.value) : undefined })} className={inputClass}>
+          <option value="">{t('كل المراحل')}</option>
+          {phases.map(p => <option key={p.id} value={p.id}>{t('المرحلة {number}: {title}', { number: p.number, title: p.title })}</option>)}
+        </select>
+        <select value={filter.action ?? ''} onChange={e => setFilter({ ...filter, action: (e.target.value || undefined) as AuditAction | undefined })} className={inputClass}>
+          <option value="">{t('كل الإجراءات')}</option>
+          {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(a => <option key={a} value={a}>{t(AUDIT_ACTION_LABELS[a])}</option>)}
+        </select>
+      </div>
+
+      {entries.length === 0 && <p className="text-sm text-slate-500">{t('لا توجد قيود مطابقة.')}</p>}
+      <div className="space-y-2">
+        {entries.map(entry => (
+          <div key={entry.id} className="border border-slate-200 rounded-lg p-3 text-sm">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <span className="font-mono text-[10px] text-slate-400">#{entry.id}</span>
+                <span className="font-bold text-slate-800">{AUDIT_ACTION_LABELS[entry.action] ? t(AUDIT_ACTION_LABELS[entry.action]) : entry.action}</span>
+                <span className="text-slate-500">{t('بواسطة {name}', { name: entry.actorName })}</span>
+              </div>
+              <span className="text-xs text-slate-400">{formatDateTime(entry.time)}</span>
+            </div>
+            <div className="flex flex-wrap gap-x-4 text-xs text-slate-500 mt-1">
+              {entry.memberId && entry.memberId !== entry.actorId && <span>{t('العضو: {name}', { name: memberName(entry.memberId) })}</span>}
+              {entry.phaseId !== undefined && <span>{phaseLabel(entry.phaseId)}</span>}
+              {entry.taskId && <span>{t('المهمة {id}', { id: entry.taskId })}</span>}
+              {entry.draftId !== undefined && <span>{t('المسودة {id}', { id: String(entry.draftId) })}</span>}
+            </div>
+            {(entry.before !== undefined || entry.after !== undefined) && (
+              <details className="mt-2">
+                <summary className="text-xs text-indigo-600 cursor-pointer">{t('قبل / بعد')}</summary>
+                <table className="mt-2 w-full text-xs">
+                  <tbody>
+                    {changes(entry.before, entry.after).map((c, idx) => (
+                      <tr key={idx} className="border-t border-slate-100 align-top">
+                        {c.field && <td className="py-1 pe-2 font-mono text-slate-500">{c.field}</td>}
+                        <td className="py-1 pe-2 text-red-700 break-all" dir="auto">{show(c.before)}</td>
+                        <td className="py-1 text-emerald-700 break-all" dir="auto">{show(c.after)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </details>
+            )}
+          </div>
+        ))}
+      </div>
+      {hasMore && (
+        <button onClick={() => load(entries[entries.length - 1].id)} className={`${secondaryButton} mx-auto`}>{t('تحميل المزيد')}</button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import { CalendarDays, Copy, Download, Loader2, RefreshCw, Trash2, X } from 'lucide-react';
+import { api } from '../api';
+import { formatDate, t } from '../i18n';
+import type { CalendarFeed } from '../types';
+
+type CalendarSubscriptionProps = {
+  onClose: () => void;
+  onError: (err: Error) => void;
+  notify: (message: string) => void;
+};
+
+const secondaryButton = 'text-sm bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-50 px-3 py-2 rounded-lg font-medium flex items-center gap-1.5';
+const dangerButton = 'text-sm bg-red-50 text-red-600 hover:bg-red-100 disabled:opacity-50 px-3 py-2 rounded-lg font-medium flex items-center gap-1.5';
+
+export default function CalendarSubscription({ onClose, onError, notify }: CalendarSubscriptionProps) {
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    api.getCalendarFeed().then(setFeed).catch(onError);
+  }, []);
+
+  const createLink = () => {
+    if (feed?.createdAt && !confirm(t('سيتوقف الرابط الحالي عن العمل في التقويمات المشتركة به. متابعة؟'))) return;
+    setBusy(true);
+    api.createCalendarFeed().then(setFeed).catch(onError).finally(() => setBusy(false));
+  };
+
+  const removeLink = () => {
+    if (!confirm(t('إيقاف رابط الاشتراك؟ ستتوقف التقويمات المشتركة عن التحديث.'))) return;
+    setBusy(true);
+    api.deleteCalendarFeed().then(setFeed).catch(onError).finally(() => setBusy(false));
+  };
+
+  const feedUrl = feed?.token ? api.calendarFeedUrl(feed.token) : '';
+
+  const copyLink = () => {
+    navigator.clipboard.writeText(feedUrl).then(() => notify(t('تم نسخ رابط الاشتراك')), onError);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 z-[100] flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl w-full max-w-lg shadow-2xl p-6 space-y-5">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <CalendarDays className="w-5 h-5 text-indigo-600" />
+            {t('التقويم')}
+          </h2>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:bg-slate-100 rounded-full">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-slate-500">
+          {t('يتضمن التقويم مهامك المسندة إليك، ونوافذ المراحل، ومواعيد التصويت على بوابات الاعتماد.')}
+        </p>
+
+        <section className="space-y-2">
+          <h3 className="text-sm font-bold text-slate-700">{t('تنزيل لمرة واحدة')}</h3>
+          <a href={api.calendarDownloadUrl} className={`${secondaryButton} w-fit`}>
+            <Download className="w-4 h-4" />
+            {t('تنزيل ملف ‎.ics')}
+          </a>
+        </section>
+
+        <section className="space-y-2">
+          <h3 className="text-sm font-bold text-slate-700">{t('اشتراك يتحدث تلقائياً')}</h3>
+          {!feed ? (
+            <Loader2 className="w-5 h-5 text-indigo-500 animate-spin" />
+          ) : (
+            <>
+              {feedUrl ? (
+                <div className="space-y-2">
+                  <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">
+                    {t('انسخ الرابط الآن وأضفه إلى تطبيق التقويم؛ لن يُعرض مرة أخرى. لا تشاركه مع غيرك.')}
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <input readOnly dir="ltr" value={feedUrl} onFocus={e => e.target.select()} className="flex-1 px-3 py-2 rounded-lg border border-slate-300 text-xs font-mono bg-slate-50" />
+                    <button onClick={copyLink} className={secondaryButton} title={t('نسخ')}>
+                      <Copy className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <a href={feedUrl.replace(/^https?:/, 'webcal:')} className="text-xs text-indigo-600 hover:underline">{t('فتح في تطبيق التقويم')}</a>
+                </div>
+              ) : feed.createdAt ? (
+                <p className="text-sm text-slate-600">
+                  {t('لديك رابط اشتراك فعّال منذ {date}. لعرضه مجدداً أنشئ رابطاً جديداً.', { date: formatDate(feed.createdAt) })}
+                </p>
+              ) : (
+                <p className="text-sm text-slate-600">{t('لا يوجد رابط اشتراك بعد.')}</p>
+              )}
+              <div className="flex items-center gap-2">
+                <button onClick={createLink} disabled={busy} className={secondaryButton}>
+                  <RefreshCw className="w-4 h-4" />
+                  {t(feed.createdAt ? 'إنشاء رابط جديد' : 'إنشاء رابط اشتراك')}
+                </button>
+                {feed.createdAt && (
+                  <button onClick={removeLink} disabled={busy} className={dangerButton}>
+                    <Trash2 className="w-4 h-4" />
+                    {t('إيقاف الرابط')}
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
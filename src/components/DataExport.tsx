@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState } from 'react';
+import { ChevronDown, Download, FileSpreadsheet } from 'lucide-react';
+import { api } from '../api';
+import { saveFile } from '../files';
+import { t } from '../i18n';
+import type { ExportDataset } from '../types';
+
+type DataExportProps = {
+  planTitle?: string;
+  onError: (err: Error) => void;
+};
+
+const DATASET_LABELS: Record<ExportDataset | 'all', string> = {
+  all: 'جميع الجداول',
+  tasks: 'المهام',
+  assignees: 'إنجاز المكلفين',
+  votes: 'أصوات المراحل وتعليقاتها',
+  members: 'مؤشرات أداء الأعضاء',
+};
+
+const DATASETS: ExportDataset[] = ['tasks', 'assignees', 'votes', 'members'];
+
+/** Downloads the plan's tables for the board pack: one table as CSV or Excel, or all of them as one workbook. */
+export default function DataExport({ planTitle, onError }: DataExportProps) {
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const download = (dataset: ExportDataset | 'all', format: 'csv' | 'xlsx') => {
+    setBusy(true);
+    api.exportSheet(dataset, format)
+      .then(blob => {
+        saveFile(blob, `${planTitle ?? t('الخطة')} - ${t(DATASET_LABELS[dataset])}.${format}`);
+        setOpen(false);
+      })
+      .catch(onError)
+      .finally(() => setBusy(false));
+  };
+
+  const formatButton = 'text-[11px] font-bold px-2 py-0.5 rounded border border-slate-200 hover:bg-indigo-50 hover:text-indigo-700 disabled:opacity-50';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="text-sm bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 font-medium px-3 py-2 rounded-lg flex items-center gap-2 shadow-sm"
+      >
+        <Download className="w-4 h-4" />
+        {t('تصدير البيانات')}
+        <ChevronDown className={`w-3.5 h-3.5 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </button>
+      {open && (
+        <div className="absolute end-0 mt-2 w-72 bg-white border border-slate-200 rounded-xl shadow-lg z-20 p-2 space-y-1">
+          <button
+            onClick={() => download('all', 'xlsx')}
+            disabled={busy}
+            className="w-full text-start text-sm font-medium text-slate-700 hover:bg-slate-50 rounded-lg px-3 py-2 flex items-center gap-2 disabled:opacity-50"
+          >
+            <FileSpreadsheet className="w-4 h-4 text-emerald-600" />
+            {t('{label} في ملف Excel واحد', { label: t(DATASET_LABELS.all) })}
+          </button>
+          <div className="border-t border-slate-100 pt-1">
+            {DATASETS.map(dataset => (
+              <div key={dataset} className="flex items-center justify-between gap-2 px-3 py-1.5 text-sm text-slate-600">
+                <span>{t(DATASET_LABELS[dataset])}</span>
+                <span className="flex gap-1" dir="ltr">
+                  <button onClick={() => download(dataset, 'csv')} disabled={busy} className={formatButton}>CSV</button>
+                  <button onClick={() => download(dataset, 'xlsx')} disabled={busy} className={formatButton}>XLSX</button>
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
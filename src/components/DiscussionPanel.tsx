@@ -0,0 +1,249 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState } from 'react';
+import { AtSign, CheckCircle2, ChevronDown, History, MessagesSquare, Pencil, RotateCcw, Send } from 'lucide-react';
+import { api } from '../api';
+import { can } from '../board';
+import { formatDateTime, t } from '../i18n';
+import type { BoardState, DiscussionPost, DiscussionThread, Draft, Member, User } from '../types';
+
+type DiscussionPanelProps = {
+  phaseId: number;
+  threads: DiscussionThread[];
+  /** The phase's drafts, which a thread may be about instead of the phase as a whole. */
+  drafts: Draft[];
+  members: Member[];
+  user: User;
+  readOnly: boolean;
+  onStateChange: (state: BoardState) => void;
+  onError: (err: Error) => void;
+};
+
+type PostForm = { body: string; mentions: string[] };
+
+const inputClass = 'w-full px-3 py-1.5 rounded-md border border-slate-200 text-sm focus:ring-2 focus:ring-indigo-500 outline-none';
+const primaryButton = 'text-xs bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white px-3 py-1.5 rounded-md font-medium flex items-center gap-1';
+const secondaryButton = 'text-xs bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 px-3 py-1.5 rounded-md font-medium flex items-center gap-1';
+
+const EMPTY_POST: PostForm = { body: '', mentions: [] };
+
+/** Toggle chips for the plan members a post draws in. */
+function MentionPicker({ members, selected, onChange }: { members: Member[]; selected: string[]; onChange: (ids: string[]) => void }) {
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <AtSign className="w-3.5 h-3.5 text-slate-400" />
+      {members.map(m => {
+        const on = selected.includes(m.id);
+        return (
+          <button
+            key={m.id}
+            type="button"
+            onClick={() => onChange(on ? selected.filter(id => id !== m.id) : [...selected, m.id])}
+            className={`text-[11px] px-1.5 py-0.5 rounded border ${on ? 'bg-indigo-50 border-indigo-200 text-indigo-700 font-bold' : 'bg-white border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+          >
+            {m.name}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+/** Threaded discussion on one phase and its drafts, kept apart from the vote comments. */
+export default function DiscussionPanel({ phaseId, threads, drafts, members, user, readOnly, onStateChange, onError }: DiscussionPanelProps) {
+  const [starting, setStarting] = useState(false);
+  const [newThread, setNewThread] = useState({ title: '', draftId: '', ...EMPTY_POST });
+  const [expanded, setExpanded] = useState<number[]>([]);
+  const [replies, setReplies] = useState<Record<number, PostForm>>({});
+  const [editing, setEditing] = useState<({ postId: number } & PostForm) | null>(null);
+  const [showHistory, setShowHistory] = useState<number[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const nameOf = (id: string) => members.find(m => m.id === id)?.name ?? id;
+  const others = members.filter(m => m.active && m.id !== user.id);
+  const toggle = (list: number[], id: number) => list.includes(id) ? list.filter(x => x !== id) : [...list, id];
+
+  const run = (request: Promise<BoardState>, after?: () => void) => {
+    setBusy(true);
+    request
+      .then(state => {
+        onStateChange(state);
+        after?.();
+      })
+      .catch(onError)
+      .finally(() => setBusy(false));
+  };
+
+  const start = (e: React.FormEvent) => {
+    e.preventDefault();
+    const { title, draftId, body, mentions } = newThread;
+    run(api.startDiscussion({ phaseId, ...(draftId ? { draftId: Number(draftId) } : {}), title, body, mentions }), () => {
+      setStarting(false);
+      setNewThread({ title: '', draftId: '', ...EMPTY_POST });
+    });
+  };
+
+  const reply = (thread: DiscussionThread) => {
+    const form = replies[thread.id] || EMPTY_POST;
+    run(api.replyToDiscussion(thread.id, form), () => setReplies(prev => ({ ...prev, [thread.id]: EMPTY_POST })));
+  };
+
+  const saveEdit = (thread: DiscussionThread) => {
+    if (!editing) return;
+    run(api.editDiscussionPost(thread.id, editing.postId, { body: editing.body, mentions: editing.mentions }), () => setEditing(null));
+  };
+
+  const renderPost = (thread: DiscussionThread, post: DiscussionPost, index: number) => {
+    const canEdit = !readOnly && !thread.resolvedAt && post.authorId === user.id;
+    const mentionsMe = post.mentions.includes(user.id);
+    if (editing?.postId === post.id) {
+      return (
+        <li key={post.id} className="bg-white border border-indigo-200 rounded-md p-2.5 space-y-2">
+          <textarea rows={3} value={editing.body} onChange={e => setEditing({ ...editing, body: e.target.value })} className={inputClass} />
+          <MentionPicker members={others} selected={editing.mentions} onChange={mentions => setEditing({ ...editing, mentions })} />
+          <div className="flex gap-2">
+            <button onClick={() => saveEdit(thread)} disabled={busy || !editing.body.trim()} className={primaryButton}>{t('حفظ التعديل')}</button>
+            <button onClick={() => setEditing(null)} className={secondaryButton}>{t('إلغاء')}</button>
+          </div>
+        </li>
+      );
+    }
+    return (
+      <li key={post.id} className={`bg-white border rounded-md p-2.5 ${mentionsMe ? 'border-indigo-200' : 'border-slate-100'} ${index > 0 ? 'ms-4' : ''}`}>
+        <div className="flex items-center gap-2 text-xs">
+          <span className="font-bold text-slate-700">{post.authorName}</span>
+          <span className="text-slate-400">{formatDateTime(post.createdAt)}</span>
+          {post.editedAt && (
+            <button
+              onClick={() => setShowHistory(toggle(showHistory, post.id))}
+              disabled={post.history.length === 0}
+              className="text-slate-400 hover:text-slate-600 flex items-center gap-0.5"
+              title={t('عُدّلت في {time}', { time: formatDateTime(post.editedAt) })}
+            >
+              <History className="w-3 h-3" /> {t('معدّلة')}
+            </button>
+          )}
+          {canEdit && (
+            <button onClick={() => setEditing({ postId: post.id, body: post.body, mentions: post.mentions })} className="ms-auto text-slate-400 hover:text-indigo-600" title={t('تعديل المشاركة')}>
+              <Pencil className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+        <p className="text-sm text-slate-600 mt-1 whitespace-pre-wrap leading-relaxed">{post.body}</p>
+        {post.mentions.length > 0 && (
+          <p className="text-[11px] text-indigo-600 mt-1">{post.mentions.map(id => `@${nameOf(id)}`).join(' ')}</p>
+        )}
+        {showHistory.includes(post.id) && (
+          <ol className="mt-2 space-y-1 border-s-2 border-slate-200 ps-2">
+            {post.history.map((revision, i) => (
+              <li key={i} className="text-xs text-slate-500">
+                <span className="text-slate-400">{t('حتى {time}:', { time: formatDateTime(revision.replacedAt) })}</span> <span className="line-through decoration-slate-300">{revision.body}</span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </li>
+    );
+  };
+
+  const open = threads.filter(thread => !thread.resolvedAt).length;
+  if (threads.length === 0 && readOnly) return null;
+
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-200/60 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-slate-500 font-medium flex items-center gap-1">
+          <MessagesSquare className="w-3.5 h-3.5" />
+          {t('النقاشات')}
+          {threads.length > 0 && <span className="text-slate-400">{t('({open} مفتوحة من {total})', { open, total: threads.length })}</span>}
+        </p>
+        {!readOnly && !starting && (
+          <button onClick={() => setStarting(true)} className="text-xs text-indigo-600 hover:text-indigo-800 font-medium">{t('بدء نقاش')}</button>
+        )}
+      </div>
+
+      {starting && (
+        <form onSubmit={start} className="bg-white border border-slate-200 rounded-lg p-3 space-y-2">
+          <input required placeholder={t('عنوان النقاش')} value={newThread.title} onChange={e => setNewThread({ ...newThread, title: e.target.value })} className={inputClass} />
+          {drafts.length > 0 && (
+            <select value={newThread.draftId} onChange={e => setNewThread({ ...newThread, draftId: e.target.value })} className={inputClass}>
+              <option value="">{t('المرحلة كاملة')}</option>
+              {drafts.map(d => <option key={d.id} value={d.id}>{t('مسودة: {title}', { title: d.title })}</option>)}
+            </select>
+          )}
+          <textarea required rows={3} placeholder={t('اكتب أول مشاركة...')} value={newThread.body} onChange={e => setNewThread({ ...newThread, body: e.target.value })} className={inputClass} />
+          <MentionPicker members={others} selected={newThread.mentions} onChange={mentions => setNewThread({ ...newThread, mentions })} />
+          <div className="flex gap-2">
+            <button type="submit" disabled={busy || !newThread.title.trim() || !newThread.body.trim()} className={primaryButton}><Send className="w-3.5 h-3.5" /> {t('نشر')}</button>
+            <button type="button" onClick={() => setStarting(false)} className={secondaryButton}>{t('إلغاء')}</button>
+          </div>
+        </form>
+      )}
+
+      {threads.length > 0 && (
+        <ul className="space-y-2">
+          {threads.map(thread => {
+            const isOpen = expanded.includes(thread.id);
+            const draft = drafts.find(d => d.id === thread.draftId);
+            const canResolve = !readOnly && (thread.authorId === user.id || can(user, 'manage_gates'));
+            const form = replies[thread.id] || EMPTY_POST;
+            return (
+              <li key={thread.id} className={`rounded-lg border ${thread.resolvedAt ? 'border-slate-200 bg-slate-50' : 'border-slate-200 bg-white'}`}>
+                <button onClick={() => setExpanded(toggle(expanded, thread.id))} className="w-full flex items-center gap-2 px-3 py-2 text-start">
+                  <ChevronDown className={`w-4 h-4 text-slate-400 transition-transform ${isOpen ? '' : 'ltr:-rotate-90 rtl:rotate-90'}`} />
+                  <span className={`flex-1 text-sm font-bold ${thread.resolvedAt ? 'text-slate-500' : 'text-slate-700'}`}>{thread.title}</span>
+                  {draft && <span className="text-[10px] px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-600 border border-indigo-100">{draft.title}</span>}
+                  <span className="text-[11px] text-slate-400">{t('{count} مشاركة', { count: thread.posts.length })}</span>
+                  {thread.resolvedAt && (
+                    <span className="text-[10px] px-1.5 py-0.5 rounded bg-emerald-50 text-emerald-700 border border-emerald-100 font-bold flex items-center gap-0.5">
+                      <CheckCircle2 className="w-3 h-3" /> {t('محسوم')}
+                    </span>
+                  )}
+                </button>
+                {isOpen && (
+                  <div className="px-3 pb-3 space-y-2">
+                    <ul className="space-y-1.5">{thread.posts.map((post, i) => renderPost(thread, post, i))}</ul>
+                    {thread.resolvedAt && (
+                      <p className="text-xs text-emerald-700">{t('حسمه {name} في {time}', { name: thread.resolvedByName, time: formatDateTime(thread.resolvedAt) })}</p>
+                    )}
+                    {!readOnly && !thread.resolvedAt && (
+                      <div className="space-y-2">
+                        <textarea
+                          rows={2}
+                          placeholder={t('اكتب رداً...')}
+                          value={form.body}
+                          onChange={e => setReplies(prev => ({ ...prev, [thread.id]: { ...form, body: e.target.value } }))}
+                          className={inputClass}
+                        />
+                        <MentionPicker members={others} selected={form.mentions} onChange={mentions => setReplies(prev => ({ ...prev, [thread.id]: { ...form, mentions } }))} />
+                      </div>
+                    )}
+                    <div className="flex gap-2">
+                      {!readOnly && !thread.resolvedAt && (
+                        <button onClick={() => reply(thread)} disabled={busy || !form.body.trim()} className={primaryButton}><Send className="w-3.5 h-3.5" /> {t('رد')}</button>
+                      )}
+                      {canResolve && (
+                        thread.resolvedAt ? (
+                          <button onClick={() => run(api.setDiscussionResolved(thread.id, false))} disabled={busy} className={secondaryButton}>
+                            <RotateCcw className="w-3.5 h-3.5" /> {t('إعادة فتح النقاش')}
+                          </button>
+                        ) : (
+                          <button onClick={() => run(api.setDiscussionResolved(thread.id, true))} disabled={busy} className={secondaryButton}>
+                            <CheckCircle2 className="w-3.5 h-3.5" /> {t('تعليم كمحسوم')}
+                          </button>
+                        )
+                      )}
+                    </div>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
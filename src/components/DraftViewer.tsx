@@ -0,0 +1,298 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import { FileText, X, Plus, Trash2, Upload, Paperclip, GitCompare, Pencil } from 'lucide-react';
+import { api, type NewDraftVersion } from '../api';
+import { diffLines } from '../diff';
+import { formatSize, readAsBase64 } from '../files';
+import { formatDateTime, t } from '../i18n';
+import type { BoardState, Draft, DraftVersion, Phase } from '../types';
+
+type DraftViewerProps = {
+  phase: Phase;
+  drafts: Draft[];
+  initialDraftId?: number;
+  canEdit: boolean;
+  onClose: () => void;
+  onStateChange: (state: BoardState) => void;
+  onError: (err: Error) => void;
+  notify: (message: string) => void;
+};
+
+const inputClass = 'px-3 py-1.5 rounded-md border border-slate-200 text-sm focus:ring-2 focus:ring-indigo-500 outline-none';
+const primaryButton = 'text-xs bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white px-3 py-1.5 rounded-md font-medium flex items-center gap-1';
+const secondaryButton = 'text-xs bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 px-3 py-1.5 rounded-md font-medium flex items-center gap-1';
+const dangerButton = 'text-xs bg-red-50 text-red-600 hover:bg-red-100 px-3 py-1.5 rounded-md font-medium flex items-center gap-1';
+
+const DIFF_STYLES = {
+  same: { left: '', right: '' },
+  changed: { left: 'bg-red-50 text-red-800', right: 'bg-emerald-50 text-emerald-800' },
+  removed: { left: 'bg-red-50 text-red-800', right: 'bg-slate-50' },
+  added: { left: 'bg-slate-50', right: 'bg-emerald-50 text-emerald-800' },
+};
+
+/** Reads a phase's draft documents, compares versions and, for the strategy team, publishes new ones. */
+export default function DraftViewer({ phase, drafts, initialDraftId, canEdit, onClose, onStateChange, onError, notify }: DraftViewerProps) {
+  const [selectedId, setSelectedId] = useState(initialDraftId ?? drafts[0]?.id);
+  const draft = drafts.find(d => d.id === selectedId) ?? drafts[0];
+  const [versions, setVersions] = useState<DraftVersion[]>([]);
+  const [viewVersion, setViewVersion] = useState(0);
+  const [compareTo, setCompareTo] = useState<number | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [newTitle, setNewTitle] = useState('');
+
+  useEffect(() => {
+    setVersions([]);
+    setCompareTo(null);
+    setViewVersion(draft?.currentVersion ?? 0);
+    if (!draft || draft.currentVersion === 0) return;
+    api.getDraftVersions(draft.id).then(setVersions).catch(onError);
+  }, [draft?.id, draft?.currentVersion]);
+
+  const shown = versions.find(v => v.version === viewVersion);
+  const baseline = compareTo !== null ? versions.find(v => v.version === compareTo) : undefined;
+
+  const save = (request: Promise<BoardState>, message: string): Promise<boolean> =>
+    request
+      .then(state => {
+        onStateChange(state);
+        notify(message);
+        return true;
+      })
+      .catch(err => {
+        onError(err);
+        return false;
+      });
+
+  const addDraft = (e: React.FormEvent) => {
+    e.preventDefault();
+    save(api.createDraft(phase.id, newTitle), t('تمت إضافة المسودة: {title}', { title: newTitle })).then(saved => saved && setNewTitle(''));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 z-[100] flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl w-full max-w-5xl max-h-[90vh] flex flex-col shadow-2xl overflow-hidden">
+        <div className="p-4 border-b border-slate-200 flex items-center justify-between">
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <FileText className="w-5 h-5 text-indigo-600" />
+            {t('مسودات المرحلة {number}: {title}', { number: phase.number, title: phase.title })}
+          </h2>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:bg-slate-100 rounded-full">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Draft list */}
+          <div className="w-60 shrink-0 border-e border-slate-200 bg-slate-50 p-3 space-y-1 overflow-y-auto">
+            {drafts.map(d => (
+              <button
+                key={d.id}
+                onClick={() => { setSelectedId(d.id); setEditing(false); }}
+                className={`w-full text-start px-3 py-2 rounded-lg text-sm flex items-center justify-between gap-2 ${d.id === draft?.id ? 'bg-white shadow-sm border border-slate-200 font-bold text-slate-800' : 'text-slate-600 hover:bg-white'}`}
+              >
+                <span className="truncate">{d.title}</span>
+                <span className="text-[10px] text-slate-400 shrink-0">{d.currentVersion ? `v${d.currentVersion}` : '—'}</span>
+              </button>
+            ))}
+            {drafts.length === 0 && <p className="text-xs text-slate-500 p-2">{t('لا توجد مسودات في هذه المرحلة.')}</p>}
+            {canEdit && (
+              <form onSubmit={addDraft} className="pt-3 mt-3 border-t border-slate-200 space-y-2">
+                <input value={newTitle} onChange={e => setNewTitle(e.target.value)} placeholder={t('عنوان مسودة جديدة')} className={`${inputClass} w-full`} />
+                <button type="submit" disabled={!newTitle.trim()} className={`${primaryButton} w-full justify-center`}>
+                  <Plus className="w-3 h-3" /> {t('إضافة مسودة')}
+                </button>
+              </form>
+            )}
+          </div>
+
+          {/* Selected draft */}
+          <div className="flex-1 p-5 overflow-y-auto space-y-4">
+            {draft && editing && (
+              <VersionEditor
+                draft={draft}
+                latestBody={versions[versions.length - 1]?.body ?? ''}
+                onCancel={() => setEditing(false)}
+                onPublish={version => save(api.publishDraftVersion(draft.id, version), t('تم نشر النسخة {version} من {title}', { version: draft.currentVersion + 1, title: draft.title }))
+                  .then(saved => saved && setEditing(false))}
+                onError={onError}
+              />
+            )}
+
+            {draft && !editing && (
+              <>
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <DraftTitle draft={draft} canEdit={canEdit} onRename={title => save(api.renameDraft(draft.id, title), t('تم تعديل عنوان المسودة'))} />
+                  <div className="flex items-center gap-2">
+                    {versions.length > 0 && (
+                      <>
+                        <select value={viewVersion} onChange={e => { setViewVersion(Number(e.target.value)); setCompareTo(null); }} className={inputClass}>
+                          {[...versions].reverse().map(v => (
+                            <option key={v.version} value={v.version}>{t('النسخة {version}', { version: v.version })}{v.version === draft.currentVersion ? ` (${t('الحالية')})` : ''}</option>
+                          ))}
+                        </select>
+                        {viewVersion > 1 && (
+                          <select
+                            value={compareTo ?? ''}
+                            onChange={e => setCompareTo(e.target.value ? Number(e.target.value) : null)}
+                            className={inputClass}
+                            title={t('مقارنة مع نسخة سابقة')}
+                          >
+                            <option value="">{t('بدون مقارنة')}</option>
+                            {versions.filter(v => v.version < viewVersion).reverse().map(v => (
+                              <option key={v.version} value={v.version}>{t('مقارنة مع النسخة {version}', { version: v.version })}</option>
+                            ))}
+                          </select>
+                        )}
+                      </>
+                    )}
+                    {canEdit && (
+                      <button onClick={() => setEditing(true)} className={primaryButton}>
+                        <Upload className="w-3 h-3" /> {t('نشر نسخة جديدة')}
+                      </button>
+                    )}
+                    {canEdit && draft.currentVersion === 0 && (
+                      <button onClick={() => save(api.deleteDraft(draft.id), t('تم حذف المسودة: {title}', { title: draft.title }))} className={dangerButton}>
+                        <Trash2 className="w-3 h-3" /> {t('حذف')}
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {draft.currentVersion === 0 && (
+                  <p className="text-sm text-slate-500 bg-slate-50 border border-dashed border-slate-200 rounded-lg p-6 text-center">
+                    {t('لم تُنشر أي نسخة من هذه المسودة بعد.')}
+                  </p>
+                )}
+
+                {shown && (
+                  <div className="text-xs text-slate-500 flex flex-wrap gap-x-4 gap-y-1">
+                    <span>{t('نشرها: {name}', { name: shown.authorName })}</span>
+                    <span>{formatDateTime(shown.createdAt)}</span>
+                    {shown.note && <span className="text-slate-700">{t('ملاحظة النسخة: {note}', { note: shown.note })}</span>}
+                  </div>
+                )}
+
+                {shown && baseline && (
+                  <div className="border border-slate-200 rounded-lg overflow-hidden text-sm">
+                    <div className="grid grid-cols-2 bg-slate-100 text-xs font-bold text-slate-600">
+                      <div className="px-3 py-2 flex items-center gap-1"><GitCompare className="w-3 h-3" /> {t('النسخة {version}', { version: baseline.version })}</div>
+                      <div className="px-3 py-2 border-s border-slate-200">{t('النسخة {version}', { version: shown.version })}</div>
+                    </div>
+                    {diffLines(baseline.body, shown.body).map((row, idx) => (
+                      <div key={idx} className="grid grid-cols-2 border-t border-slate-100">
+                        <div className={`px-3 py-1 whitespace-pre-wrap flex gap-2 ${DIFF_STYLES[row.kind].left}`}>
+                          <span className="text-[10px] text-slate-400 w-6 shrink-0">{row.left?.number}</span>
+                          <span dir="auto">{row.left?.text}</span>
+                        </div>
+                        <div className={`px-3 py-1 whitespace-pre-wrap flex gap-2 border-s border-slate-200 ${DIFF_STYLES[row.kind].right}`}>
+                          <span className="text-[10px] text-slate-400 w-6 shrink-0">{row.right?.number}</span>
+                          <span dir="auto">{row.right?.text}</span>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {shown && !baseline && (
+                  <div dir="auto" className="bg-slate-50 border border-slate-200 rounded-lg p-4 text-sm text-slate-800 leading-relaxed whitespace-pre-wrap">
+                    {shown.body}
+                  </div>
+                )}
+
+                {shown && shown.attachments.length > 0 && (
+                  <div className="space-y-1">
+                    <h4 className="text-xs font-bold text-slate-600">{t('المرفقات')}</h4>
+                    {shown.attachments.map(a => (
+                      <a key={a.id} href={api.attachmentUrl(a.id)} className="flex items-center gap-2 text-sm text-indigo-600 hover:underline">
+                        <Paperclip className="w-3 h-3" />
+                        {a.fileName}
+                        <span className="text-[10px] text-slate-400">({formatSize(a.size)})</span>
+                      </a>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function DraftTitle({ draft, canEdit, onRename }: { draft: Draft; canEdit: boolean; onRename: (title: string) => Promise<boolean> }) {
+  const [renaming, setRenaming] = useState(false);
+  const [title, setTitle] = useState(draft.title);
+
+  if (!renaming) {
+    return (
+      <h3 className="font-bold text-slate-800 flex items-center gap-2">
+        {draft.title}
+        {canEdit && (
+          <button onClick={() => { setTitle(draft.title); setRenaming(true); }} className="text-slate-400 hover:text-indigo-600" title={t('تعديل العنوان')}>
+            <Pencil className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </h3>
+    );
+  }
+  return (
+    <form
+      onSubmit={e => { e.preventDefault(); onRename(title).then(saved => saved && setRenaming(false)); }}
+      className="flex items-center gap-2"
+    >
+      <input value={title} onChange={e => setTitle(e.target.value)} className={inputClass} autoFocus />
+      <button type="submit" disabled={!title.trim()} className={primaryButton}>{t('حفظ')}</button>
+      <button type="button" onClick={() => setRenaming(false)} className={secondaryButton}>{t('إلغاء')}</button>
+    </form>
+  );
+}
+
+function VersionEditor({ draft, latestBody, onCancel, onPublish, onError }: {
+  draft: Draft;
+  latestBody: string;
+  onCancel: () => void;
+  onPublish: (version: NewDraftVersion) => void;
+  onError: (err: Error) => void;
+}) {
+  const [body, setBody] = useState(latestBody);
+  const [note, setNote] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+
+  const publish = () => {
+    Promise.all(files.map(async file => ({ fileName: file.name, mimeType: file.type, data: await readAsBase64(file) })))
+      .then(attachments => onPublish({ body, note, attachments }))
+      .catch(onError);
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="font-bold text-slate-800">{t('النسخة {version} من: {title}', { version: draft.currentVersion + 1, title: draft.title })}</h3>
+      <label className="text-xs text-slate-500 space-y-1 block">
+        <span>{t('نص المسودة (Markdown)')}</span>
+        <textarea dir="auto" rows={16} value={body} onChange={e => setBody(e.target.value)} className={`${inputClass} w-full font-mono leading-relaxed`} />
+      </label>
+      <label className="text-xs text-slate-500 space-y-1 block">
+        <span>{t('ملاحظة النسخة (ما الذي تغير؟)')}</span>
+        <input value={note} onChange={e => setNote(e.target.value)} className={`${inputClass} w-full`} />
+      </label>
+      <label className="text-xs text-slate-500 space-y-1 block">
+        <span>{t('مرفقات (حتى 5 ملفات، 5 ميجابايت لكل ملف)')}</span>
+        <input type="file" multiple onChange={e => setFiles(Array.from(e.target.files || []))} className="block text-sm" />
+      </label>
+      <p className="text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded-md p-2">
+        {t('نشر نسخة جديدة يجعل الأصوات المسجلة على النسخ السابقة في هذه المرحلة بحاجة إلى تجديد.')}
+      </p>
+      <div className="flex gap-2">
+        <button onClick={publish} disabled={!body.trim()} className={primaryButton}>
+          <Upload className="w-3 h-3" /> {t('نشر النسخة')}
+        </button>
+        <button onClick={onCancel} className={secondaryButton}>{t('إلغاء')}</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, Route, X } from 'lucide-react';
+import { formatDate, formatDateRange, t, textDirection } from '../i18n';
+import { computeSchedule, fromDay, phaseWindows, toDay } from '../schedule';
+import type { Phase, Task } from '../types';
+
+const ROW_HEIGHT = 34;
+const HEADER_HEIGHT = 48;
+const BAR_HEIGHT = 16;
+const PHASE_COLORS = ['#e0e7ff', '#dcfce7', '#fef3c7', '#fce7f3', '#e0f2fe', '#ede9fe'];
+
+const formatDay = (day: number) => formatDate(fromDay(day), 'short');
+
+/**
+ * Timeline of the plan's tasks with their dependencies. Time runs in the page
+ * direction, right to left in Arabic; the critical path is drawn in red and
+ * each bar's slack as a dashed tail up to its latest finish.
+ */
+export default function GanttChart({ tasks, phases, isDone }: {
+  tasks: Task[];
+  phases: Phase[];
+  isDone: (task: Task) => boolean;
+}) {
+  const timelineRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const el = timelineRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(entries => setWidth(entries[0].contentRect.width));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [tasks.length > 0]);
+
+  const schedule = useMemo(() => computeSchedule(tasks), [tasks]);
+
+  const windows = phaseWindows(phases, tasks);
+
+  const today = toDay(new Date().toISOString().slice(0, 10));
+  const rangeStart = schedule.start - 2;
+  const rangeEnd = Math.max(schedule.finish, ...Object.values(schedule.tasks).map(s => s.lateFinish)) + 3;
+  const span = rangeEnd - rangeStart;
+  const chartWidth = Math.max(width, 640);
+  const rtl = textDirection() === 'rtl';
+  // +1 or -1: the on-screen direction of later days.
+  const later = rtl ? -1 : 1;
+  const px = (day: number) => {
+    const offset = ((day - rangeStart) / span) * chartWidth;
+    return rtl ? chartWidth - offset : offset;
+  };
+  /** Horizontal extent of the days from `start` up to, not including, `end`. */
+  const extent = (start: number, end: number) => ({ x: Math.min(px(start), px(end)), width: Math.abs(px(end) - px(start)) });
+  const rowY = (index: number) => HEADER_HEIGHT + index * ROW_HEIGHT;
+  const height = rowY(tasks.length);
+
+  // Everything upstream and downstream of the selected task.
+  const chain = useMemo(() => {
+    if (!selectedId) return null;
+    const related = new Set([selectedId]);
+    const walk = (id: string, next: (id: string) => string[]) => {
+      for (const other of next(id)) {
+        if (!related.has(other)) {
+          related.add(other);
+          walk(other, next);
+        }
+      }
+    };
+    walk(selectedId, id => tasks.find(t => t.id === id)?.dependsOn ?? []);
+    walk(selectedId, id => tasks.filter(t => t.dependsOn.includes(id)).map(t => t.id));
+    return related;
+  }, [selectedId, tasks]);
+
+  // Month lines follow the calendar dates are shown in, Gregorian or Hijri.
+  const months: number[] = [];
+  const weeks: number[] = [];
+  for (let day = rangeStart; day <= rangeEnd; day++) {
+    if (day > rangeStart && formatDate(fromDay(day), 'month') !== formatDate(fromDay(day - 1), 'month')) months.push(day);
+    if (new Date(fromDay(day)).getUTCDay() === 0) weeks.push(day);
+  }
+
+  const taskTitle = (id: string) => tasks.find(t => t.id === id)?.title ?? id;
+  const selected = tasks.find(t => t.id === selectedId);
+  const selectedSchedule = selected && schedule.tasks[selected.id];
+
+  if (tasks.length === 0) {
+    return <p className="text-sm text-slate-500 bg-white rounded-xl border border-slate-200 p-6 text-center">{t('لا توجد مهام لعرضها على المخطط الزمني.')}</p>;
+  }
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-5 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-slate-700 flex items-center gap-2">
+          <Route className="w-4 h-4 text-red-500" />
+          <span className="font-bold">{t('المسار الحرج ({days} يوماً):', { days: schedule.finish - schedule.start + 1 })}</span>
+          <span>{schedule.criticalPath.map(taskTitle).join(rtl ? ' ← ' : ' → ')}</span>
+        </p>
+        <div className="flex items-center gap-4 text-[11px] text-slate-500">
+          <span className="flex items-center gap-1"><span className="w-3 h-2 rounded-sm bg-red-500" /> {t('حرجة')}</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-2 rounded-sm bg-indigo-500" /> {t('لها فائض')}</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-2 rounded-sm bg-emerald-500" /> {t('مكتملة')}</span>
+          <span className="flex items-center gap-1"><span className="w-3 border-t-2 border-dashed border-slate-400" /> {t('الفائض الزمني')}</span>
+          <span className="flex items-center gap-1"><span className="w-0.5 h-3 bg-rose-600" /> {t('اليوم')}</span>
+        </div>
+      </div>
+
+      <div className="flex border border-slate-100 rounded-lg overflow-hidden">
+        <div className="w-56 shrink-0 border-e border-slate-100 bg-slate-50/60">
+          <div style={{ height: HEADER_HEIGHT }} className="px-3 flex items-end pb-1 text-[11px] font-bold text-slate-500">{t('المهمة')}</div>
+          {tasks.map(task => {
+            const s = schedule.tasks[task.id];
+            return (
+              <button
+                key={task.id}
+                onClick={() => setSelectedId(selectedId === task.id ? null : task.id)}
+                style={{ height: ROW_HEIGHT }}
+                className={`w-full px-3 flex items-center gap-1.5 text-start text-xs border-t border-slate-100 truncate transition-opacity ${
+                  selectedId === task.id ? 'bg-indigo-50 font-bold text-indigo-700' : 'text-slate-700 hover:bg-slate-100'
+                } ${chain && !chain.has(task.id) ? 'opacity-40' : ''}`}
+              >
+                {s.critical && <span className="w-1.5 h-1.5 rounded-full bg-red-500 shrink-0" />}
+                <span className="truncate">{task.title}</span>
+                {s.conflict > 0 && <AlertTriangle className="w-3 h-3 text-amber-500 shrink-0" />}
+              </button>
+            );
+          })}
+        </div>
+
+        <div ref={timelineRef} className="flex-1 overflow-x-auto">
+          <svg width={chartWidth} height={height} className="block select-none" direction="ltr">
+            <defs>
+              <marker id="gantt-arrow" viewBox="0 0 6 6" refX="5" refY="3" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                <path d="M0,0 L6,3 L0,6 z" fill="#94a3b8" />
+              </marker>
+            </defs>
+
+            {windows.map(({ phase, start, end }, idx) => (
+              <g key={phase.id}>
+                <rect {...extent(start, end + 1)} y={0} height={height} fill={PHASE_COLORS[idx % PHASE_COLORS.length]} opacity={0.35} />
+                <rect {...extent(start, end + 1)} y={idx % 2 === 0 ? 2 : 14} height={11} rx={3} fill={PHASE_COLORS[idx % PHASE_COLORS.length]} />
+                <text x={px(start) + 4 * later} y={idx % 2 === 0 ? 11 : 23} fontSize={9} fill="#475569" textAnchor="start" direction={textDirection()}>
+                  {t('المرحلة {number}: {title}', { number: phase.number, title: phase.title })}
+                </text>
+              </g>
+            ))}
+
+            {weeks.map(day => <line key={`w${day}`} x1={px(day)} x2={px(day)} y1={HEADER_HEIGHT - 8} y2={height} stroke="#f1f5f9" />)}
+            {months.map(day => (
+              <g key={`m${day}`}>
+                <line x1={px(day)} x2={px(day)} y1={28} y2={height} stroke="#cbd5e1" />
+                <text x={px(day) + 4 * later} y={HEADER_HEIGHT - 6} fontSize={10} fill="#64748b" textAnchor="start" direction={textDirection()}>
+                  {formatDate(fromDay(day), 'month')}
+                </text>
+              </g>
+            ))}
+            {tasks.map((task, idx) => <line key={task.id} x1={0} x2={chartWidth} y1={rowY(idx)} y2={rowY(idx)} stroke="#f1f5f9" />)}
+
+            {tasks.flatMap((task, idx) => task.dependsOn.map(depId => {
+              const depIdx = tasks.findIndex(other => other.id === depId);
+              if (depIdx < 0) return null;
+              const x1 = px(toDay(tasks[depIdx].endDate) + 1);
+              const x2 = px(toDay(task.startDate));
+              const y1 = rowY(depIdx) + ROW_HEIGHT / 2;
+              const y2 = rowY(idx) + ROW_HEIGHT / 2;
+              const elbow = rtl ? Math.min(x1, x2 + 8) - 6 : Math.max(x1, x2 - 8) + 6;
+              const highlighted = chain?.has(task.id) && chain.has(depId);
+              return (
+                <path
+                  key={`${depId}-${task.id}`}
+                  d={`M${x1},${y1} H${elbow} V${y2} H${x2}`}
+                  fill="none"
+                  stroke={highlighted ? '#6366f1' : '#94a3b8'}
+                  strokeWidth={highlighted ? 1.5 : 1}
+                  opacity={chain && !highlighted ? 0.15 : 0.8}
+                  markerEnd="url(#gantt-arrow)"
+                />
+              );
+            }))}
+
+            {tasks.map((task, idx) => {
+              const s = schedule.tasks[task.id];
+              const start = toDay(task.startDate);
+              const end = toDay(task.endDate);
+              const y = rowY(idx) + (ROW_HEIGHT - BAR_HEIGHT) / 2;
+              const fill = isDone(task) ? '#10b981' : s.critical ? '#ef4444' : '#6366f1';
+              return (
+                <g
+                  key={task.id}
+                  onClick={() => setSelectedId(selectedId === task.id ? null : task.id)}
+                  className="cursor-pointer"
+                  opacity={chain && !chain.has(task.id) ? 0.25 : 1}
+                >
+                  {s.slack > 0 && (
+                    <line x1={px(s.lateFinish + 1)} x2={px(end + 1)} y1={y + BAR_HEIGHT / 2} y2={y + BAR_HEIGHT / 2} stroke="#94a3b8" strokeDasharray="3 3" />
+                  )}
+                  <rect
+                    x={extent(start, end + 1).x}
+                    y={y}
+                    width={Math.max(2, extent(start, end + 1).width)}
+                    height={BAR_HEIGHT}
+                    rx={4}
+                    fill={fill}
+                    stroke={selectedId === task.id ? '#1e293b' : s.conflict > 0 ? '#f59e0b' : 'none'}
+                    strokeWidth={2}
+                  >
+                    <title>{`${task.title}\n${formatDateRange(task.startDate, task.endDate)}`}</title>
+                  </rect>
+                </g>
+              );
+            })}
+
+            {today >= rangeStart && today <= rangeEnd && (
+              <g>
+                <line x1={px(today + 0.5)} x2={px(today + 0.5)} y1={28} y2={height} stroke="#e11d48" strokeWidth={1.5} />
+                <text x={px(today + 0.5) + 3} y={36} fontSize={9} fill="#e11d48" fontWeight="bold">{t('اليوم')}</text>
+              </g>
+            )}
+          </svg>
+        </div>
+      </div>
+
+      {selected && selectedSchedule && (
+        <div className="border border-indigo-100 bg-indigo-50/40 rounded-lg p-4 text-sm">
+          <div className="flex items-start justify-between gap-3 mb-2">
+            <h4 className="font-bold text-slate-800">{selected.title}</h4>
+            <button onClick={() => setSelectedId(null)} className="p-1 text-slate-400 hover:bg-slate-100 rounded-full"><X className="w-4 h-4" /></button>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-xs text-slate-600">
+            <p><span className="font-bold">{t('الفترة المخططة:')}</span> {formatDateRange(selected.startDate, selected.endDate)}</p>
+            <p><span className="font-bold">{t('المدة:')}</span> {t('{days} يوماً', { days: selectedSchedule.duration })}</p>
+            <p><span className="font-bold">{t('أبكر بداية:')}</span> {formatDay(selectedSchedule.earlyStart)}</p>
+            <p><span className="font-bold">{t('آخر موعد للانتهاء:')}</span> {formatDay(selectedSchedule.lateFinish)}</p>
+            <p>
+              <span className="font-bold">{t('الفائض الزمني:')}</span>{' '}
+              {selectedSchedule.critical ? <span className="text-red-600 font-bold">{t('لا يوجد (مهمة حرجة)')}</span> : t('{days} يوماً', { days: selectedSchedule.slack })}
+            </p>
+            <p className="md:col-span-3">
+              <span className="font-bold">{t('تعتمد على:')}</span> {selected.dependsOn.length ? selected.dependsOn.map(taskTitle).join(t('، ')) : '—'}
+            </p>
+          </div>
+          {selectedSchedule.conflict > 0 && (
+            <p className="mt-2 text-xs text-amber-700 flex items-center gap-1">
+              <AlertTriangle className="w-3.5 h-3.5" />
+              {t('تبدأ المهمة قبل انتهاء المهام التي تعتمد عليها بـ {days} يوماً؛ يلزم تعديل التواريخ.', { days: selectedSchedule.conflict })}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
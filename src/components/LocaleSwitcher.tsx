@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Languages } from 'lucide-react';
+import { CALENDAR_LABELS, LANGUAGE_LABELS, t, type CalendarSystem, type Language, type LocaleSettings } from '../i18n';
+
+const selectClass = 'bg-transparent text-xs font-medium text-slate-600 outline-none cursor-pointer';
+
+/** Interface language and the calendar dates are shown in; each language name is written in itself. */
+export default function LocaleSwitcher({ locale, onChange }: { locale: LocaleSettings; onChange: (locale: LocaleSettings) => void }) {
+  return (
+    <div className="flex items-center gap-1.5 px-2.5 py-1 rounded-full border border-slate-200 bg-slate-50">
+      <Languages className="w-3.5 h-3.5 text-slate-400" />
+      <select
+        value={locale.language}
+        onChange={e => onChange({ ...locale, language: e.target.value as Language })}
+        className={selectClass}
+        title={t('لغة الواجهة')}
+      >
+        {(Object.keys(LANGUAGE_LABELS) as Language[]).map(language => <option key={language} value={language}>{LANGUAGE_LABELS[language]}</option>)}
+      </select>
+      <span className="w-px h-3 bg-slate-200" />
+      <select
+        value={locale.calendar}
+        onChange={e => onChange({ ...locale, calendar: e.target.value as CalendarSystem })}
+        className={selectClass}
+        title={t('التقويم المستخدم في عرض التواريخ')}
+      >
+        {(Object.keys(CALENDAR_LABELS) as CalendarSystem[]).map(calendar => <option key={calendar} value={calendar}>{t(CALENDAR_LABELS[calendar])}</option>)}
+      </select>
+    </div>
+  );
+}
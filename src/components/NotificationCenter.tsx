@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { AtSign, Bell, CalendarClock, CheckCheck, ClipboardCheck, Landmark, ListTodo, MessageSquare, MessagesSquare, RotateCcw, Undo2, Timer, UserCheck, UserX } from 'lucide-react';
+import { api } from '../api';
+import { formatDate, formatDateTime, formatNumber, t } from '../i18n';
+import type { InboxItem, InboxKind, InboxPage } from '../types';
+
+type NotificationCenterProps = {
+  /** Changes whenever a board event arrives, so the inbox picks up notices addressed to this member. */
+  refreshKey: number;
+  onOpen: (item: InboxItem) => void;
+  onError: (err: Error) => void;
+};
+
+const KIND_ICONS: Record<InboxKind, typeof Bell> = {
+  'task.assigned': ListTodo,
+  'task.awaiting_review': ClipboardCheck,
+  'task.reviewed': ClipboardCheck,
+  'phase.opened': Landmark,
+  'vote.comment': MessageSquare,
+  'vote.removed': Undo2,
+  'phase.reopened': RotateCcw,
+  'gate.extended': CalendarClock,
+  'gate.closed': Timer,
+  'proxy.granted': UserCheck,
+  'proxy.revoked': UserX,
+  'discussion.reply': MessagesSquare,
+  'discussion.mention': AtSign,
+};
+
+/** Fills the notice's template in the viewer's language, with its dates in their calendar. */
+function noticeText(item: InboxItem): string {
+  if (!item.params) return item.message;
+  const params = Object.fromEntries(Object.entries(item.params).map(([key, value]) => [
+    key,
+    typeof value !== 'string' ? value : key.endsWith('At') ? formatDateTime(value) : key.endsWith('Date') ? formatDate(value) : value,
+  ]));
+  return t(item.message, params);
+}
+
+export default function NotificationCenter({ refreshKey, onOpen, onError }: NotificationCenterProps) {
+  const [open, setOpen] = useState(false);
+  const [items, setItems] = useState<InboxItem[]>([]);
+  const [unread, setUnread] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Replaces the first page but keeps any older pages already loaded.
+  const applyFirstPage = (page: InboxPage) => {
+    setUnread(page.unread);
+    const oldest = page.items[page.items.length - 1]?.id ?? Infinity;
+    setItems(prev => [...page.items, ...prev.filter(item => item.id < oldest)]);
+    if (!items.some(item => item.id < oldest)) setHasMore(page.hasMore);
+  };
+
+  useEffect(() => {
+    api.getInbox().then(applyFirstPage).catch(onError);
+  }, [refreshKey]);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [open]);
+
+  const loadMore = () => {
+    setLoadingMore(true);
+    api.getInbox(items[items.length - 1]?.id)
+      .then(page => {
+        setItems(prev => [...prev, ...page.items]);
+        setHasMore(page.hasMore);
+        setUnread(page.unread);
+      })
+      .catch(onError)
+      .finally(() => setLoadingMore(false));
+  };
+
+  const markRead = (ids?: number[]) => {
+    setItems(prev => prev.map(item => (!ids || ids.includes(item.id) ? { ...item, read: true } : item)));
+    api.markInboxRead(ids).then(applyFirstPage).catch(onError);
+  };
+
+  const openItem = (item: InboxItem) => {
+    if (!item.read) markRead([item.id]);
+    setOpen(false);
+    onOpen(item);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative p-2 rounded-full text-slate-500 hover:text-indigo-600 hover:bg-slate-100 transition-colors"
+        title={t('الإشعارات')}
+      >
+        <Bell className="w-5 h-5" />
+        {unread > 0 && (
+          <span className="absolute -top-0.5 -end-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center">
+            {unread > 99 ? '99+' : formatNumber(unread)}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute end-0 mt-2 w-80 sm:w-96 bg-white border border-slate-200 rounded-xl shadow-xl overflow-hidden z-50">
+          <div className="flex items-center justify-between px-4 py-2.5 border-b border-slate-100 bg-slate-50">
+            <span className="text-sm font-bold text-slate-800">{t('الإشعارات')} {unread > 0 && <span className="text-xs font-medium text-slate-500">{t('({count} غير مقروءة)', { count: unread })}</span>}</span>
+            <button
+              onClick={() => markRead()}
+              disabled={unread === 0}
+              className="text-xs text-indigo-600 hover:text-indigo-800 disabled:text-slate-300 flex items-center gap-1"
+            >
+              <CheckCheck className="w-3.5 h-3.5" />
+              {t('تعليم الكل كمقروء')}
+            </button>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto divide-y divide-slate-100">
+            {items.length === 0 && <p className="text-sm text-slate-400 text-center py-8">{t('لا توجد إشعارات.')}</p>}
+            {items.map(item => {
+              const Icon = KIND_ICONS[item.kind];
+              return (
+                <button
+                  key={item.id}
+                  onClick={() => openItem(item)}
+                  className={`w-full text-start px-4 py-3 flex items-start gap-3 hover:bg-slate-50 ${item.read ? '' : 'bg-indigo-50/50'}`}
+                >
+                  <div className={`p-1.5 rounded-full shrink-0 ${item.read ? 'bg-slate-100 text-slate-400' : 'bg-indigo-100 text-indigo-600'}`}>
+                    <Icon className="w-4 h-4" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm ${item.read ? 'text-slate-600' : 'font-medium text-slate-800'}`}>{noticeText(item)}</p>
+                    <p className="text-xs text-slate-400 mt-0.5">{formatDateTime(item.createdAt)}</p>
+                  </div>
+                  {!item.read && <span className="w-2 h-2 rounded-full bg-indigo-500 mt-1.5 shrink-0" />}
+                </button>
+              );
+            })}
+          </div>
+
+          {hasMore && (
+            <button
+              onClick={loadMore}
+              disabled={loadingMore}
+              className="w-full text-xs text-indigo-600 hover:bg-slate-50 py-2.5 border-t border-slate-100 disabled:text-slate-400"
+            >
+              {t(loadingMore ? 'جاري التحميل...' : 'عرض الإشعارات الأقدم')}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
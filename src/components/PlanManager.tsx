@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState } from 'react';
+import { Archive, ArchiveRestore, Copy, Plus, Save } from 'lucide-react';
+import { api, type PlanInput } from '../api';
+import { t } from '../i18n';
+import type { BoardState, Member, Plan } from '../types';
+
+const inputClass = 'px-3 py-1.5 rounded-md border border-slate-200 text-sm focus:ring-2 focus:ring-indigo-500 outline-none';
+const primaryButton = 'text-xs bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white px-3 py-1.5 rounded-md font-medium flex items-center gap-1';
+const secondaryButton = 'text-xs bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-50 px-3 py-1.5 rounded-md font-medium flex items-center gap-1';
+
+/** Admin view of all plans: dates and members, archiving, and starting a new plan from an old one. */
+export default function PlanManager({ plans, directory, save }: {
+  plans: Plan[];
+  directory: Member[];
+  save: (request: Promise<BoardState>, message: string) => Promise<boolean>;
+}) {
+  const titleOf = (id?: number) => plans.find(p => p.id === id)?.title;
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-slate-500">
+        {t('لكل خطة مراحلها ومهامها وأعضاؤها. الخطة المؤرشفة تبقى متاحة للاطلاع ولا يمكن تعديلها، ويمكن نسخها لبدء دورة جديدة بالمراحل والمهام نفسها.')}
+      </p>
+      {plans.map(plan => (
+        <PlanEditor
+          key={`${plan.id}:${JSON.stringify(plan)}`}
+          plan={plan}
+          clonedFrom={titleOf(plan.clonedFromId)}
+          directory={directory}
+          save={save}
+        />
+      ))}
+      <PlanEditor key={`new:${plans.length}`} directory={directory} save={save} />
+    </div>
+  );
+}
+
+function PlanEditor({ plan, clonedFrom, directory, save }: {
+  plan?: Plan;
+  clonedFrom?: string;
+  directory: Member[];
+  save: (request: Promise<BoardState>, message: string) => Promise<boolean>;
+}) {
+  const [draft, setDraft] = useState<PlanInput>(() => ({
+    title: plan?.title || '',
+    startDate: plan?.startDate || '',
+    endDate: plan?.endDate || '',
+    memberIds: plan?.memberIds || directory.filter(m => m.active).map(m => m.id),
+  }));
+  const [cloning, setCloning] = useState(false);
+  const [clone, setClone] = useState({ title: '', startDate: '' });
+  const readOnly = !!plan?.archivedAt;
+  const isValid = draft.title.trim() && draft.startDate && draft.endDate && draft.endDate >= draft.startDate && draft.memberIds.length > 0;
+
+  const toggleMember = (memberId: string) => setDraft(prev => ({
+    ...prev,
+    memberIds: prev.memberIds.includes(memberId) ? prev.memberIds.filter(id => id !== memberId) : [...prev.memberIds, memberId],
+  }));
+
+  const submit = () => {
+    if (plan) save(api.updatePlan(plan.id, draft), t('تم حفظ الخطة: {title}', { title: draft.title }));
+    else save(api.createPlan(draft), t('تم إنشاء الخطة: {title}', { title: draft.title }));
+  };
+
+  const archive = () => {
+    if (!plan || !confirm(t('أرشفة "{title}"؟ ستبقى متاحة للاطلاع فقط.', { title: plan.title }))) return;
+    save(api.archivePlan(plan.id), t('تمت أرشفة الخطة: {title}', { title: plan.title }));
+  };
+
+  const submitClone = () => {
+    if (!plan) return;
+    save(api.clonePlan(plan.id, clone.title, clone.startDate), t('تم إنشاء الخطة: {title}', { title: clone.title }))
+      .then(saved => saved && setCloning(false));
+  };
+
+  return (
+    <div className={`border rounded-xl p-4 space-y-3 ${!plan ? 'border-dashed border-slate-300' : readOnly ? 'border-slate-200 bg-slate-50' : 'border-slate-200'}`}>
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          placeholder={t('عنوان الخطة')}
+          value={draft.title}
+          disabled={readOnly}
+          onChange={e => setDraft({ ...draft, title: e.target.value })}
+          className={`${inputClass} flex-1 min-w-[200px] font-bold disabled:bg-slate-100`}
+        />
+        {readOnly && <span className="text-[10px] px-2 py-0.5 rounded-full font-bold border bg-slate-100 text-slate-500 border-slate-200">{t('مؤرشفة')}</span>}
+        {plan && (readOnly
+          ? <button onClick={() => save(api.restorePlan(plan.id), t('تمت استعادة الخطة: {title}', { title: plan.title }))} className={secondaryButton}><ArchiveRestore className="w-3 h-3" /> {t('استعادة')}</button>
+          : <button onClick={archive} className={secondaryButton}><Archive className="w-3 h-3" /> {t('أرشفة')}</button>
+        )}
+        {plan && <button onClick={() => setCloning(!cloning)} className={secondaryButton}><Copy className="w-3 h-3" /> {t('نسخ كقالب')}</button>}
+        {!readOnly && (
+          <button onClick={submit} disabled={!isValid} className={primaryButton}>
+            {plan ? <><Save className="w-3 h-3" /> {t('حفظ')}</> : <><Plus className="w-3 h-3" /> {t('إنشاء خطة')}</>}
+          </button>
+        )}
+      </div>
+      {clonedFrom && <p className="text-[11px] text-slate-400">{t('منسوخة من: {title}', { title: clonedFrom })}</p>}
+
+      {cloning && (
+        <div className="bg-indigo-50 border border-indigo-100 rounded-lg p-3 flex flex-wrap items-end gap-2">
+          <label className="text-xs text-slate-500 space-y-1 flex-1 min-w-[200px]">
+            <span>{t('عنوان الخطة الجديدة')}</span>
+            <input value={clone.title} onChange={e => setClone({ ...clone, title: e.target.value })} className={`${inputClass} w-full`} />
+          </label>
+          <label className="text-xs text-slate-500 space-y-1">
+            <span>{t('تاريخ البداية (تُزاح مواعيد المهام بالفرق نفسه)')}</span>
+            <input type="date" value={clone.startDate} onChange={e => setClone({ ...clone, startDate: e.target.value })} className={`${inputClass} w-full`} />
+          </label>
+          <button onClick={submitClone} disabled={!clone.title.trim() || !clone.startDate} className={primaryButton}>
+            <Copy className="w-3 h-3" /> {t('إنشاء النسخة')}
+          </button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <label className="text-xs text-slate-500 space-y-1">
+          <span>{t('تاريخ البداية')}</span>
+          <input type="date" disabled={readOnly} value={draft.startDate} onChange={e => setDraft({ ...draft, startDate: e.target.value })} className={`${inputClass} w-full disabled:bg-slate-100`} />
+        </label>
+        <label className="text-xs text-slate-500 space-y-1">
+          <span>{t('تاريخ النهاية')}</span>
+          <input type="date" disabled={readOnly} value={draft.endDate} onChange={e => setDraft({ ...draft, endDate: e.target.value })} className={`${inputClass} w-full disabled:bg-slate-100`} />
+        </label>
+      </div>
+      <div>
+        <p className="text-xs text-slate-500 mb-1.5">{t('أعضاء الخطة ({count})', { count: draft.memberIds.length })}</p>
+        <div className="flex flex-wrap gap-1.5">
+          {directory.filter(m => m.active || draft.memberIds.includes(m.id)).map(m => (
+            <button
+              key={m.id}
+              type="button"
+              disabled={readOnly}
+              onClick={() => toggleMember(m.id)}
+              className={`px-2 py-1 rounded-md text-[11px] font-bold border transition-colors ${draft.memberIds.includes(m.id) ? 'bg-indigo-100 text-indigo-700 border-indigo-200' : 'bg-slate-50 text-slate-500 border-slate-200'}`}
+            >
+              {m.name.replace(/^(د\.|م\.|أ\.)\s*/, '')}{!m.active && ` (${t('غير نشط')})`}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
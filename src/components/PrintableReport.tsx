@@ -0,0 +1,233 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect } from 'react';
+import { Printer, X } from 'lucide-react';
+import { DECISION_LABELS, DECISION_RULE_LABELS, TASK_STATUS_LABELS, activeMembers, gateApprovedAt, getActivePhase, isTaskAccepted, phaseDrafts, tallyGate, taskStatus, votingMembers } from '../board';
+import { formatDate, formatDateRange, formatDateTime, formatNumber, t, textDirection } from '../i18n';
+import type { Draft, Member, Phase, Plan, Task, TaskCompletion, TaskCompletionTimes, TaskReview, VoteRecord, Votes } from '../types';
+
+export type ReportTarget = { kind: 'certificate'; phaseId: number } | { kind: 'plan' };
+
+type PrintableReportProps = {
+  target: ReportTarget;
+  plan?: Plan;
+  members: Member[];
+  phases: Phase[];
+  drafts: Draft[];
+  tasks: Task[];
+  votes: Votes;
+  taskCompletion: TaskCompletion;
+  taskCompletedAt: TaskCompletionTimes;
+  taskReviews: Record<string, TaskReview>;
+  onClose: () => void;
+};
+
+const ORGANIZATION = 'جمعية آزِر لمرضى الأورام بتبوك';
+
+/**
+ * Print-ready gate certificate or full-plan report. Rendered as HTML so the
+ * browser shapes the Arabic text; "Save as PDF" in the print dialog produces
+ * the file for the governance records.
+ */
+export default function PrintableReport(props: PrintableReportProps) {
+  const { target, phases, onClose } = props;
+  const phase = target.kind === 'certificate' ? phases.find(p => p.id === target.phaseId) : undefined;
+  const documentTitle = phase
+    ? t('شهادة اعتماد المرحلة {number} - {title}', { number: phase.number, title: phase.title })
+    : t('تقرير الخطة الاستراتيجية - {title}', { title: props.plan?.title });
+
+  // The print dialog uses the page title as the default PDF file name.
+  useEffect(() => {
+    const previous = document.title;
+    document.title = documentTitle;
+    return () => { document.title = previous; };
+  }, [documentTitle]);
+
+  return (
+    <div className="print-overlay fixed inset-0 bg-slate-900/60 z-[110] overflow-y-auto p-4">
+      <div className="no-print max-w-[210mm] mx-auto mb-3 flex items-center justify-between">
+        <button onClick={() => window.print()} className="bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-bold px-4 py-2 rounded-lg flex items-center gap-2">
+          <Printer className="w-4 h-4" /> {t('طباعة / حفظ PDF')}
+        </button>
+        <button onClick={onClose} className="p-2 text-white/80 hover:bg-white/10 rounded-full">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+      <div dir={textDirection()} className="print-area bg-white max-w-[210mm] mx-auto p-[14mm] shadow-2xl text-slate-900 text-[13px] leading-relaxed">
+        <header className="border-b-2 border-slate-800 pb-4 mb-6 flex items-center justify-between">
+          <div>
+            <p className="font-bold text-base">{t(ORGANIZATION)}</p>
+            <p className="text-slate-600">{t('مجلس الإدارة — نظام المسودات المتصاعدة')}</p>
+          </div>
+          <p className="text-slate-600 text-xs">{t('تاريخ الإصدار: {date}', { date: formatDate(new Date(), 'long') })}</p>
+        </header>
+        {phase ? <Certificate {...props} phase={phase} /> : <PlanReport {...props} />}
+        <footer className="mt-10 pt-3 border-t border-slate-300 text-[10px] text-slate-500">
+          {t('صدرت هذه الوثيقة آلياً من سجلات التصويت في النظام، وتُطابق مع سجل التدقيق عند الحاجة.')}
+        </footer>
+      </div>
+    </div>
+  );
+}
+
+function Certificate({ phase, plan, members, drafts, votes }: PrintableReportProps & { phase: Phase }) {
+  const phaseVotes = votes[phase.id] || [];
+  const tally = tallyGate(phase, phaseVotes, members);
+  const approvedAt = gateApprovedAt(phase, phaseVotes, members);
+
+  return (
+    <>
+      <h1 className="text-2xl font-black text-center mb-1">{t('شهادة اعتماد بوابة مرحلة')}</h1>
+      <p className="text-center text-slate-600 mb-6">{t('محضر قرار مجلس الإدارة')}</p>
+
+      {tally.outcome !== 'approved' && (
+        <p className="border border-amber-400 bg-amber-50 text-amber-800 rounded p-2 mb-4 font-bold text-center">
+          {t('مسودة غير نهائية: لم تُعتمد هذه البوابة بعد.')}
+        </p>
+      )}
+
+      <table className="w-full mb-6 border border-slate-300">
+        <tbody>
+          {plan && <InfoRow label={t('الخطة')} value={plan.title} />}
+          <InfoRow label={t('المرحلة')} value={t('المرحلة {number}: {title}', { number: phase.number, title: phase.title })} />
+          <InfoRow label={t('بوابة مجلس الإدارة')} value={phase.gate} />
+          <InfoRow label={t('قاعدة الاعتماد')} value={`${t(DECISION_RULE_LABELS[phase.decisionRule])}${phase.decisionRule !== 'unanimous' ? t(' — النصاب {percent}%', { percent: phase.quorumPercent }) : ''}`} />
+          <InfoRow
+            label={t('نتيجة التصويت')}
+            value={t('موافق {approve} · معترض {reject} · ممتنع {abstain} — من أصل {eligible} أعضاء', { approve: tally.approve, reject: tally.reject, abstain: tally.abstain, eligible: tally.eligible }) + (tally.recused ? t(' (بعد استبعاد {recused} متنحين لتعارض المصالح)', { recused: tally.recused }) : '')}
+          />
+          <InfoRow label={t('تاريخ الاعتماد')} value={approvedAt ? formatDateTime(approvedAt) : '—'} />
+        </tbody>
+      </table>
+
+      <DraftList drafts={phaseDrafts(drafts, phase.id)} />
+      <VoterTable phaseVotes={phaseVotes} />
+
+      <div className="grid grid-cols-2 gap-12 mt-12 text-center">
+        <div><div className="border-t border-slate-500 pt-2">{t('رئيس مجلس الإدارة')}</div></div>
+        <div><div className="border-t border-slate-500 pt-2">{t('أمين سر المجلس')}</div></div>
+      </div>
+    </>
+  );
+}
+
+function PlanReport({ plan, members, phases, drafts, tasks, votes, taskCompletion, taskCompletedAt, taskReviews }: PrintableReportProps) {
+  const activePhase = getActivePhase(phases, votes, members);
+  const today = new Date().toISOString().slice(0, 10);
+  const approvedCount = phases.filter(p => p.id < activePhase).length;
+  const completedTasks = tasks.filter(t => isTaskAccepted(t, taskCompletedAt[t.id], taskReviews[t.id])).length;
+  const memberName = (id: string) => members.find(m => m.id === id)?.name ?? id;
+
+  return (
+    <>
+      <h1 className="text-2xl font-black text-center mb-1">{plan ? t('تقرير الخطة الاستراتيجية: {title}', { title: plan.title }) : t('تقرير الخطة الاستراتيجية')}</h1>
+      {plan && <p className="text-center text-slate-600">{formatDateRange(plan.startDate, plan.endDate, 'long')}</p>}
+      <p className="text-center text-slate-600 mb-6">
+        {t('المراحل المعتمدة {approved} من {phases} · المهام المكتملة {completed} من {tasks} · الأعضاء أصحاب حق التصويت {voters}', {
+          approved: approvedCount,
+          phases: phases.length,
+          completed: completedTasks,
+          tasks: tasks.length,
+          voters: votingMembers(members).length,
+        })}
+      </p>
+
+      {phases.map(phase => {
+        const phaseVotes = votes[phase.id] || [];
+        const tally = tallyGate(phase, phaseVotes, members);
+        const approvedAt = gateApprovedAt(phase, phaseVotes, members);
+        const status = phase.id < activePhase
+          ? (approvedAt ? t('معتمدة بتاريخ {date}', { date: formatDate(approvedAt, 'long') }) : t('معتمدة'))
+          : t(phase.id === activePhase ? (tally.outcome === 'rejected' ? 'مرفوضة — أعيدت للمراجعة' : 'قيد التصويت') : 'قادمة');
+        return (
+          <section key={phase.id} className="mb-8 break-inside-avoid-page">
+            <h2 className="text-lg font-bold border-b border-slate-300 pb-1 mb-2">{t('المرحلة {number}: {title}', { number: phase.number, title: phase.title })}</h2>
+            <p className="mb-2">
+              <span className="font-bold">{t('الحالة:')}</span> {status} ·{' '}
+              <span className="font-bold">{t('البوابة:')}</span> {phase.gate} ·{' '}
+              <span className="font-bold">{t('القاعدة:')}</span> {t(DECISION_RULE_LABELS[phase.decisionRule])} ·{' '}
+              <span className="font-bold">{t('الأصوات:')}</span> {t('موافق {approve} / معترض {reject} / ممتنع {abstain}', { approve: tally.approve, reject: tally.reject, abstain: tally.abstain })}{tally.recused > 0 && t(' / متنحٍّ {recused}', { recused: tally.recused })}
+            </p>
+            <DraftList drafts={phaseDrafts(drafts, phase.id)} />
+            {phaseVotes.length > 0 && <VoterTable phaseVotes={phaseVotes} />}
+          </section>
+        );
+      })}
+
+      <section className="break-before-page">
+        <h2 className="text-lg font-bold border-b border-slate-300 pb-1 mb-2">{t('حالة المهام')}</h2>
+        <table className="w-full border border-slate-300 text-[11px]">
+          <thead className="bg-slate-100">
+            <tr>
+              <Th>{t('المهمة')}</Th><Th>{t('المكلفون')}</Th><Th>{t('الفترة')}</Th><Th>{t('الإنجاز')}</Th><Th>{t('الحالة')}</Th>
+            </tr>
+          </thead>
+          <tbody>
+            {tasks.map(task => {
+              const completedBy = taskCompletion[task.id] || [];
+              return (
+                <tr key={task.id} className="break-inside-avoid">
+                  <Td>{task.title}</Td>
+                  <Td>{task.assignees.length === activeMembers(members).length ? t('جميع الأعضاء') : task.assignees.map(memberName).join(t('، '))}</Td>
+                  <Td>{formatDateRange(task.startDate, task.endDate)}</Td>
+                  <Td>{formatNumber(completedBy.filter(id => task.assignees.includes(id)).length)}/{formatNumber(task.assignees.length)}</Td>
+                  <Td>{t(TASK_STATUS_LABELS[taskStatus(task, taskCompletedAt[task.id], taskReviews[task.id], today)])}</Td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </section>
+    </>
+  );
+}
+
+function DraftList({ drafts }: { drafts: Draft[] }) {
+  if (drafts.length === 0) return null;
+  return (
+    <div className="mb-4">
+      <h3 className="font-bold mb-1">{t('المسودات')}</h3>
+      <ul className="list-disc ps-5">
+        {drafts.map(d => (
+          <li key={d.id}>{d.title} — {d.currentVersion ? t('النسخة {version}', { version: d.currentVersion }) : t('لم تُنشر نسخة')}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function VoterTable({ phaseVotes }: { phaseVotes: VoteRecord[] }) {
+  return (
+    <table className="w-full border border-slate-300 mb-4 text-[11px]">
+      <thead className="bg-slate-100">
+        <tr><Th>#</Th><Th>{t('العضو')}</Th><Th>{t('القرار')}</Th><Th>{t('وقت التصويت')}</Th><Th>{t('التعليق / المبررات')}</Th></tr>
+      </thead>
+      <tbody>
+        {phaseVotes.map((v, idx) => (
+          <tr key={v.id} className="break-inside-avoid">
+            <Td>{formatNumber(idx + 1)}</Td>
+            <Td>{v.name}{v.proxyHolderName && t(' (بالإنابة: {holder})', { holder: v.proxyHolderName })}</Td>
+            <Td>{t(DECISION_LABELS[v.decision])}</Td>
+            <Td>{formatDateTime(v.votedAt)}{v.changedAt && <><br />{t('عُدّل {time}', { time: formatDateTime(v.changedAt) })}</>}</Td>
+            <Td>{v.comment || '—'}</Td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function InfoRow({ label, value }: { label: string; value: string }) {
+  return (
+    <tr className="border-b border-slate-200">
+      <th className="bg-slate-50 text-start font-bold p-2 w-40 align-top">{label}</th>
+      <td className="p-2">{value}</td>
+    </tr>
+  );
+}
+
+const Th = ({ children }: { children: React.ReactNode }) => <th className="border border-slate-300 p-1.5 text-start font-bold">{children}</th>;
+const Td = ({ children }: { children: React.ReactNode }) => <td className="border border-slate-300 p-1.5 align-top">{children}</td>;
@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import { Gauge, TrendingUp, Users } from 'lucide-react';
+import {
+  Bar, BarChart, CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis,
+} from 'recharts';
+import { api } from '../api';
+import { activeMembers } from '../board';
+import { formatDate, formatNumber, t } from '../i18n';
+import type { Member, Phase, PlanAnalytics } from '../types';
+
+type ProgressAnalyticsProps = {
+  phases: Phase[];
+  members: Member[];
+  /** Changes whenever accepted tasks or votes do, so the charts pick up today's figures. */
+  refreshKey: string;
+  onError: (err: Error) => void;
+};
+
+const MEMBER_COLORS = ['#4f46e5', '#0891b2', '#16a34a', '#ca8a04', '#dc2626', '#9333ea', '#db2777', '#475569'];
+const axisTick = { fontSize: 12, fill: '#64748b' };
+const tooltipStyle = { borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' };
+
+const shortName = (member: Member) => member.name.replace(/^(د\.|م\.|أ\.)\s*/, '').split(' ')[0];
+
+/** Progress over time: planned against actual burn-up, how long each gate took to approve, and each member's completions. */
+export default function ProgressAnalytics({ phases, members, refreshKey, onError }: ProgressAnalyticsProps) {
+  const [analytics, setAnalytics] = useState<PlanAnalytics | null>(null);
+
+  useEffect(() => {
+    api.getAnalytics().then(setAnalytics).catch(onError);
+  }, [refreshKey]);
+
+  if (!analytics) return null;
+
+  const today = new Date().toISOString().slice(0, 10);
+  const showToday = analytics.burnUp.some(p => p.day === today);
+  const approvals = analytics.approvals.map(a => ({
+    ...a,
+    name: t('المرحلة {number}', { number: phases.find(p => p.id === a.phaseId)?.number ?? a.phaseId }),
+    approved: a.approvedAt ? a.days : undefined,
+    pending: a.approvedAt ? undefined : a.days,
+  }));
+  const trendMembers = activeMembers(members);
+  const memberTrend = analytics.snapshots.map(s => ({
+    day: s.day,
+    ...Object.fromEntries(trendMembers.map(m => [m.id, s.memberCompleted[m.id] ?? 0])),
+  }));
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 lg:col-span-2">
+        <h3 className="text-lg font-bold text-slate-800 mb-1 flex items-center gap-2">
+          <TrendingUp className="w-5 h-5 text-indigo-500" />
+          {t('منحنى الإنجاز: المخطط مقابل الفعلي')}
+        </h3>
+        <p className="text-sm text-slate-500 mb-6">
+          {t('المخطط مبني على تواريخ المهام، والفعلي على المهام المقبولة كما سُجلت يوماً بيوم.')}
+        </p>
+        <div className="h-72 w-full" dir="ltr">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={analytics.burnUp} margin={{ top: 10, right: 30, left: 0, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+              <XAxis dataKey="day" tickFormatter={day => formatDate(day, 'short')} axisLine={false} tickLine={false} tick={axisTick} minTickGap={24} />
+              <YAxis domain={[0, analytics.tasksTotal]} allowDecimals={false} axisLine={false} tickLine={false} tick={axisTick} />
+              <Tooltip contentStyle={tooltipStyle} labelFormatter={day => formatDate(String(day), 'medium')} formatter={value => formatNumber(Number(value))} />
+              <Legend wrapperStyle={{ paddingTop: '20px' }} />
+              {showToday && <ReferenceLine x={today} stroke="#f59e0b" strokeDasharray="4 4" label={{ value: t('اليوم'), fill: '#b45309', fontSize: 12 }} />}
+              <Line type="monotone" dataKey="planned" name={t('المخطط')} stroke="#94a3b8" strokeDasharray="5 5" dot={false} />
+              <Line type="monotone" dataKey="actual" name={t('الفعلي')} stroke="#4f46e5" strokeWidth={2} dot={false} connectNulls />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+        <h3 className="text-lg font-bold text-slate-800 mb-6 flex items-center gap-2">
+          <Gauge className="w-5 h-5 text-indigo-500" />
+          {t('مدة اعتماد البوابات (بالأيام)')}
+        </h3>
+        {approvals.length === 0 ? (
+          <p className="text-sm text-slate-400">{t('لم تُفتح أي بوابة للتصويت بعد.')}</p>
+        ) : (
+          <div className="h-64 w-full" dir="ltr">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={approvals} margin={{ top: 10, right: 30, left: 0, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                <XAxis dataKey="name" axisLine={false} tickLine={false} tick={axisTick} />
+                <YAxis axisLine={false} tickLine={false} tick={axisTick} />
+                <Tooltip cursor={{ fill: '#f1f5f9' }} contentStyle={tooltipStyle} formatter={value => formatNumber(Number(value))} />
+                <Legend wrapperStyle={{ paddingTop: '20px' }} />
+                <Bar dataKey="approved" name={t('حتى الاعتماد')} stackId="days" fill="#16a34a" radius={[4, 4, 0, 0]} barSize={24} />
+                <Bar dataKey="pending" name={t('قيد التصويت حتى الآن')} stackId="days" fill="#f59e0b" radius={[4, 4, 0, 0]} barSize={24} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+        <h3 className="text-lg font-bold text-slate-800 mb-6 flex items-center gap-2">
+          <Users className="w-5 h-5 text-indigo-500" />
+          {t('تطور الإنجاز لكل عضو')}
+        </h3>
+        {memberTrend.length < 2 ? (
+          <p className="text-sm text-slate-400">{t('يظهر الاتجاه بعد تسجيل يومين على الأقل من تاريخ بدء التسجيل.')}</p>
+        ) : (
+          <div className="h-64 w-full" dir="ltr">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={memberTrend} margin={{ top: 10, right: 30, left: 0, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                <XAxis dataKey="day" tickFormatter={day => formatDate(day, 'short')} axisLine={false} tickLine={false} tick={axisTick} minTickGap={24} />
+                <YAxis allowDecimals={false} axisLine={false} tickLine={false} tick={axisTick} />
+                <Tooltip contentStyle={tooltipStyle} labelFormatter={day => formatDate(String(day), 'medium')} />
+                <Legend wrapperStyle={{ paddingTop: '20px' }} />
+                {trendMembers.map((m, i) => (
+                  <Line key={m.id} type="monotone" dataKey={m.id} name={shortName(m)} stroke={MEMBER_COLORS[i % MEMBER_COLORS.length]} dot={false} />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
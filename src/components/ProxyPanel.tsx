@@ -0,0 +1,181 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState } from 'react';
+import { CheckCircle2, FileSignature, MinusCircle, UserCheck, X, XCircle } from 'lucide-react';
+import { api } from '../api';
+import { isProxyActive, isVoteStale, votingMembers } from '../board';
+import { formatDate, formatDateRange, t } from '../i18n';
+import { fromDay, toDay } from '../schedule';
+import type { BoardState, Draft, Member, Phase, Proxy, User, VoteDecision, VoteRecord } from '../types';
+
+type ProxyPanelProps = {
+  phase: Phase;
+  /** Whether the phase's gate is open for voting right now. */
+  votingOpen: boolean;
+  proxies: Proxy[];
+  phaseVotes: VoteRecord[];
+  drafts: Draft[];
+  members: Member[];
+  user: User;
+  onStateChange: (state: BoardState) => void;
+  onError: (err: Error) => void;
+};
+
+const inputClass = 'w-full px-3 py-1.5 rounded-md border border-slate-200 text-sm focus:ring-2 focus:ring-indigo-500 outline-none';
+const primaryButton = 'text-xs bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white px-3 py-1.5 rounded-md font-medium flex items-center gap-1';
+const secondaryButton = 'text-xs bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 px-3 py-1.5 rounded-md font-medium flex items-center gap-1';
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+function proxyState(proxy: Proxy): { label: string; className: string } {
+  if (proxy.revokedAt) return { label: t('ملغى'), className: 'bg-slate-100 text-slate-500 border-slate-200' };
+  if (isProxyActive(proxy, today())) return { label: t('سارٍ'), className: 'bg-emerald-50 text-emerald-700 border-emerald-200' };
+  if (proxy.validFrom > today()) return { label: t('لم يبدأ'), className: 'bg-blue-50 text-blue-700 border-blue-200' };
+  return { label: t('منتهٍ'), className: 'bg-slate-100 text-slate-500 border-slate-200' };
+}
+
+/** Written proxies on one phase: granting, revoking, and casting the votes they delegate. */
+export default function ProxyPanel({ phase, votingOpen, proxies, phaseVotes, drafts, members, user, onStateChange, onError }: ProxyPanelProps) {
+  const [granting, setGranting] = useState(false);
+  const [form, setForm] = useState({ holderId: '', validFrom: today(), validUntil: fromDay(toDay(today()) + 7), statement: '' });
+  const [rejecting, setRejecting] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const nameOf = (id: string) => members.find(m => m.id === id)?.name ?? id;
+  const needsVote = (memberId: string) => {
+    const vote = phaseVotes.find(v => v.id === memberId);
+    return !vote || isVoteStale(vote, drafts);
+  };
+  const hasLiveProxy = proxies.some(p => p.grantorId === user.id && !p.revokedAt && p.validUntil >= today());
+  const canGrant = !hasLiveProxy && needsVote(user.id) && votingMembers(members).some(m => m.id === user.id);
+  const delegatedToMe = votingOpen ? proxies.filter(p => p.holderId === user.id && isProxyActive(p, today()) && needsVote(p.grantorId)) : [];
+
+  const run = (request: Promise<BoardState>, after?: () => void) => {
+    setBusy(true);
+    request
+      .then(state => {
+        onStateChange(state);
+        after?.();
+      })
+      .catch(onError)
+      .finally(() => setBusy(false));
+  };
+
+  const grant = (e: React.FormEvent) => {
+    e.preventDefault();
+    const statement = form.statement.trim()
+      || t('أنا {name} أوكّل {holder} بالتصويت نيابة عني على بوابة المرحلة {number} ({title}) خلال مدة التوكيل.', { name: user.name, holder: nameOf(form.holderId), number: phase.number, title: phase.title });
+    run(api.grantProxy({ phaseId: phase.id, holderId: form.holderId, validFrom: form.validFrom, validUntil: form.validUntil, statement }), () => setGranting(false));
+  };
+
+  const revoke = (proxy: Proxy) => {
+    if (!confirm(t('إلغاء توكيل {grantor} لـ{holder}؟', { grantor: nameOf(proxy.grantorId), holder: nameOf(proxy.holderId) }))) return;
+    run(api.revokeProxy(proxy.id));
+  };
+
+  const vote = (grantorId: string, decision: VoteDecision, comment?: string) => {
+    run(api.castVote(phase.id, grantorId, decision, comment), () => {
+      setRejecting(null);
+      setReason('');
+    });
+  };
+
+  if (proxies.length === 0 && !canGrant) return null;
+
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-200/60 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-slate-500 font-medium flex items-center gap-1"><FileSignature className="w-3.5 h-3.5" /> {t('التوكيلات بالتصويت')}</p>
+        {canGrant && !granting && (
+          <button onClick={() => setGranting(true)} className="text-xs text-indigo-600 hover:text-indigo-800 font-medium">{t('توكيل عضو آخر')}</button>
+        )}
+      </div>
+
+      {delegatedToMe.map(proxy => (
+        <div key={proxy.id} className="bg-white border border-indigo-200 rounded-lg p-3 space-y-2">
+          <p className="text-xs font-bold text-indigo-800 flex items-center gap-1">
+            <UserCheck className="w-4 h-4" />
+            {t('التصويت بالإنابة عن {name}', { name: nameOf(proxy.grantorId) })}
+          </p>
+          {rejecting === proxy.grantorId ? (
+            <div className="space-y-2">
+              <textarea rows={2} placeholder={t('مبررات الاعتراض (إلزامية)...')} value={reason} onChange={e => setReason(e.target.value)} className={inputClass} />
+              <div className="flex gap-2">
+                <button onClick={() => vote(proxy.grantorId, 'reject', reason)} disabled={busy || !reason.trim()} className={`${primaryButton} bg-red-600 hover:bg-red-700`}>{t('تأكيد الاعتراض')}</button>
+                <button onClick={() => setRejecting(null)} className={secondaryButton}>{t('تراجع')}</button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              <button onClick={() => vote(proxy.grantorId, 'approve')} disabled={busy} className={primaryButton}><CheckCircle2 className="w-3.5 h-3.5" /> {t('موافقة')}</button>
+              <button onClick={() => setRejecting(proxy.grantorId)} disabled={busy} className={`${secondaryButton} text-red-600`}><XCircle className="w-3.5 h-3.5" /> {t('اعتراض')}</button>
+              <button onClick={() => vote(proxy.grantorId, 'abstain')} disabled={busy} className={secondaryButton}><MinusCircle className="w-3.5 h-3.5" /> {t('امتناع')}</button>
+            </div>
+          )}
+        </div>
+      ))}
+
+      {granting && (
+        <form onSubmit={grant} className="bg-white border border-slate-200 rounded-lg p-3 space-y-2">
+          <select required value={form.holderId} onChange={e => setForm({ ...form, holderId: e.target.value })} className={inputClass}>
+            <option value="">{t('اختر العضو الموكَّل...')}</option>
+            {votingMembers(members).filter(m => m.id !== user.id).map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+          </select>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-slate-500 space-y-1">
+              <span>{t('من')}</span>
+              <input type="date" required value={form.validFrom} onChange={e => setForm({ ...form, validFrom: e.target.value })} className={inputClass} />
+            </label>
+            <label className="text-xs text-slate-500 space-y-1">
+              <span>{t('إلى')}</span>
+              <input type="date" required min={form.validFrom} value={form.validUntil} onChange={e => setForm({ ...form, validUntil: e.target.value })} className={inputClass} />
+            </label>
+          </div>
+          <textarea
+            rows={3}
+            placeholder={t('نص التوكيل (يُملأ تلقائياً إن تُرك فارغاً)')}
+            value={form.statement}
+            onChange={e => setForm({ ...form, statement: e.target.value })}
+            className={inputClass}
+          />
+          <div className="flex gap-2">
+            <button type="submit" disabled={busy || !form.holderId} className={primaryButton}><FileSignature className="w-3.5 h-3.5" /> {t('منح التوكيل')}</button>
+            <button type="button" onClick={() => setGranting(false)} className={secondaryButton}>{t('إلغاء')}</button>
+          </div>
+        </form>
+      )}
+
+      {proxies.length > 0 && (
+        <ul className="space-y-1.5">
+          {proxies.map(proxy => {
+            const state = proxyState(proxy);
+            const canRevoke = !proxy.revokedAt && proxy.validUntil >= today()
+              && (proxy.grantorId === user.id || proxy.holderId === user.id || user.isAdmin);
+            return (
+              <li key={proxy.id} className={`text-xs bg-white border border-slate-100 rounded-md px-2.5 py-2 ${proxy.revokedAt ? 'opacity-60' : ''}`} title={proxy.statement}>
+                <div className="flex items-center gap-2">
+                  <span className="flex-1 text-slate-700">
+                    <span className="font-bold">{nameOf(proxy.grantorId)}</span> {t('وكّل')} <span className="font-bold">{nameOf(proxy.holderId)}</span>
+                    <span className="text-slate-400"> · {formatDateRange(proxy.validFrom, proxy.validUntil, 'short')}</span>
+                  </span>
+                  <span className={`px-1.5 py-0.5 rounded border text-[10px] font-bold ${state.className}`}>{state.label}</span>
+                  {canRevoke && (
+                    <button onClick={() => revoke(proxy)} disabled={busy} className="text-slate-400 hover:text-red-600" title={t('إلغاء التوكيل')}>
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+                <p className="text-slate-500 mt-1 leading-relaxed">{proxy.statement}</p>
+                {proxy.revokedAt && <p className="text-slate-400 mt-0.5">{t('ألغاه {name} في {date}', { name: proxy.revokedByName, date: formatDate(proxy.revokedAt) })}</p>}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import { BellRing, Loader2, Play, Send, X } from 'lucide-react';
+import { api } from '../api';
+import { t } from '../i18n';
+import type { ReminderChannel, ReminderFrequency, ReminderSettings as Settings } from '../types';
+
+type ReminderSettingsProps = {
+  canRunReminders?: boolean;
+  onClose: () => void;
+  onError: (err: Error) => void;
+  notify: (message: string) => void;
+};
+
+const CHANNEL_LABELS: Record<ReminderChannel, string> = {
+  email: 'البريد الإلكتروني',
+  sms: 'رسالة نصية',
+  off: 'إيقاف التذكيرات',
+};
+
+const FREQUENCY_LABELS: Record<ReminderFrequency, string> = {
+  immediate: 'فور استحقاق كل بند',
+  daily: 'ملخص يومي',
+  weekly: 'ملخص أسبوعي (الأحد)',
+};
+
+const inputClass = 'w-full px-3 py-2 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-indigo-500 outline-none disabled:bg-slate-50';
+const secondaryButton = 'text-sm bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-50 px-3 py-2 rounded-lg font-medium flex items-center gap-1.5';
+
+export default function ReminderSettings({ canRunReminders, onClose, onError, notify }: ReminderSettingsProps) {
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    api.getReminderSettings().then(setSettings).catch(onError);
+  }, []);
+
+  const save = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!settings) return;
+    const { availableChannels: _, ...prefs } = settings;
+    setBusy(true);
+    api.saveReminderPreferences(prefs)
+      .then(saved => {
+        setSettings(saved);
+        setError('');
+        notify(t('تم حفظ تفضيلات التذكير'));
+      })
+      .catch(err => setError(err.message))
+      .finally(() => setBusy(false));
+  };
+
+  const sendTest = () => {
+    setBusy(true);
+    api.sendTestReminder()
+      .then(() => notify(t('أُرسلت رسالة تجريبية')))
+      .catch(err => setError(err.message))
+      .finally(() => setBusy(false));
+  };
+
+  const runNow = () => {
+    setBusy(true);
+    api.runReminders()
+      .then(({ sent, failed }) => notify(t('أُرسل {sent} تذكير', { sent }) + (failed ? t('، وتعذر إرسال {failed}', { failed }) : '')))
+      .catch(onError)
+      .finally(() => setBusy(false));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 z-[100] flex items-center justify-center p-4">
+      <form onSubmit={save} className="bg-white rounded-2xl w-full max-w-md shadow-2xl p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <BellRing className="w-5 h-5 text-indigo-600" />
+            {t('تفضيلات التذكير')}
+          </h2>
+          <button type="button" onClick={onClose} className="p-2 text-slate-400 hover:bg-slate-100 rounded-full">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {!settings ? (
+          <div className="flex justify-center py-8"><Loader2 className="w-6 h-6 text-indigo-500 animate-spin" /></div>
+        ) : (
+          <>
+            <p className="text-sm text-slate-500">
+              {t('تذكيرات بالتصويت المطلوب على المرحلة الحالية، وبالمهام التي يقترب موعدها أو تأخرت.')}
+            </p>
+
+            <label className="block space-y-1">
+              <span className="text-sm font-medium text-slate-700">{t('قناة التذكير')}</span>
+              <select
+                value={settings.channel}
+                onChange={e => setSettings({ ...settings, channel: e.target.value as ReminderChannel })}
+                className={inputClass}
+              >
+                {(Object.keys(CHANNEL_LABELS) as ReminderChannel[]).map(channel => (
+                  <option key={channel} value={channel} disabled={channel !== 'off' && !settings.availableChannels.includes(channel)}>
+                    {t(CHANNEL_LABELS[channel])}{channel !== 'off' && !settings.availableChannels.includes(channel) ? ` (${t('غير مفعلة')})` : ''}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="block space-y-1">
+              <span className="text-sm font-medium text-slate-700">{t('البريد الإلكتروني')}</span>
+              <input
+                type="email"
+                dir="ltr"
+                value={settings.email ?? ''}
+                onChange={e => setSettings({ ...settings, email: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+
+            <label className="block space-y-1">
+              <span className="text-sm font-medium text-slate-700">{t('رقم الجوال')}</span>
+              <input
+                type="tel"
+                dir="ltr"
+                placeholder="+9665xxxxxxxx"
+                value={settings.phone ?? ''}
+                onChange={e => setSettings({ ...settings, phone: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block space-y-1">
+                <span className="text-sm font-medium text-slate-700">{t('التكرار')}</span>
+                <select
+                  value={settings.frequency}
+                  disabled={settings.channel === 'off'}
+                  onChange={e => setSettings({ ...settings, frequency: e.target.value as ReminderFrequency })}
+                  className={inputClass}
+                >
+                  {(Object.keys(FREQUENCY_LABELS) as ReminderFrequency[]).map(f => <option key={f} value={f}>{t(FREQUENCY_LABELS[f])}</option>)}
+                </select>
+              </label>
+              <label className="block space-y-1">
+                <span className="text-sm font-medium text-slate-700">{t('التذكير قبل الموعد (أيام)')}</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={30}
+                  disabled={settings.channel === 'off'}
+                  value={settings.dueSoonDays}
+                  onChange={e => setSettings({ ...settings, dueSoonDays: Number(e.target.value) })}
+                  className={inputClass}
+                />
+              </label>
+            </div>
+
+            {error && <p className="text-red-500 text-sm font-medium">{error}</p>}
+
+            <div className="flex items-center gap-2">
+              <button type="submit" disabled={busy} className="flex-1 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white font-bold py-2 rounded-lg transition-colors">
+                {t('حفظ')}
+              </button>
+              <button type="button" onClick={sendTest} disabled={busy || settings.channel === 'off'} className={secondaryButton} title={t('يرسل إلى القناة المحفوظة')}>
+                <Send className="w-4 h-4" />
+                {t('رسالة تجريبية')}
+              </button>
+            </div>
+
+            {canRunReminders && (
+              <button type="button" onClick={runNow} disabled={busy} className={`${secondaryButton} w-full justify-center`}>
+                <Play className="w-4 h-4" />
+                {t('إرسال التذكيرات المستحقة الآن لجميع الأعضاء')}
+              </button>
+            )}
+          </>
+        )}
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import { ClipboardCheck, ExternalLink, Link2, Paperclip, Send, Undo2, X } from 'lucide-react';
+import { api, type NewTaskEvidence } from '../api';
+import { canReviewTask, isTaskAccepted } from '../board';
+import { formatSize, readAsBase64 } from '../files';
+import { formatDateTime, formatNumber, t } from '../i18n';
+import type { BoardState, Member, Task, TaskActivity, TaskProgress, TaskReview, User } from '../types';
+
+type TaskDetailsProps = {
+  task: Task;
+  members: Member[];
+  user: User;
+  progress: Record<string, TaskProgress>;
+  completedAt: Record<string, string>;
+  review?: TaskReview;
+  /** The task belongs to an archived plan. */
+  readOnly?: boolean;
+  onClose: () => void;
+  onStateChange: (state: BoardState) => void;
+  onError: (err: Error) => void;
+  notify: (message: string) => void;
+};
+
+const inputClass = 'px-3 py-1.5 rounded-md border border-slate-200 text-sm focus:ring-2 focus:ring-indigo-500 outline-none';
+const primaryButton = 'text-xs bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white px-3 py-1.5 rounded-md font-medium flex items-center gap-1';
+const secondaryButton = 'text-xs bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 px-3 py-1.5 rounded-md font-medium flex items-center gap-1';
+const dangerButton = 'text-xs bg-red-50 text-red-600 hover:bg-red-100 disabled:opacity-50 px-3 py-1.5 rounded-md font-medium flex items-center gap-1';
+
+const shortName = (name: string) => name.replace(/^(د\.|م\.|أ\.)\s*/, '');
+
+/** A task's progress reports, deliverable evidence and reviewer decision. */
+export default function TaskDetails(props: TaskDetailsProps) {
+  const { task, members, user, progress, completedAt, review, onClose, onStateChange, onError, notify } = props;
+  const [activity, setActivity] = useState<TaskActivity | null>(null);
+  const [percent, setPercent] = useState(progress[user.id]?.percent ?? 0);
+  const [progressNote, setProgressNote] = useState('');
+  const [reviewNote, setReviewNote] = useState('');
+
+  const isAssignee = task.assignees.includes(user.id);
+  const accepted = isTaskAccepted(task, completedAt, review);
+  const editable = !accepted && !props.readOnly;
+  const allFinished = task.assignees.every(id => completedAt[id]);
+  const reviewer = task.reviewerId ? members.find(m => m.id === task.reviewerId)?.name : undefined;
+
+  const loadActivity = () => api.getTaskActivity(task.id).then(setActivity).catch(onError);
+  useEffect(() => { loadActivity(); }, [task.id, review?.reviewedAt, JSON.stringify(progress)]);
+
+  const save = (request: Promise<BoardState>, message: string): Promise<boolean> =>
+    request
+      .then(state => {
+        onStateChange(state);
+        notify(message);
+        return true;
+      })
+      .catch(err => {
+        onError(err);
+        return false;
+      });
+
+  const submitProgress = (e: React.FormEvent) => {
+    e.preventDefault();
+    save(api.reportTaskProgress(task.id, user.id, percent, progressNote), t('تم تحديث نسبة الإنجاز إلى {percent}%', { percent }))
+      .then(saved => saved && setProgressNote(''));
+  };
+
+  const submitReview = (decision: 'accepted' | 'returned') => {
+    save(api.reviewTask(task.id, decision, reviewNote), t(decision === 'accepted' ? 'تم اعتماد المهمة' : 'أعيدت المهمة للمكلفين'))
+      .then(saved => saved && setReviewNote(''));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 z-[100] flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl w-full max-w-3xl max-h-[90vh] flex flex-col shadow-2xl overflow-hidden">
+        <div className="p-4 border-b border-slate-200 flex items-start justify-between gap-3">
+          <div>
+            <h2 className="text-xl font-bold text-slate-800">{task.title}</h2>
+            <p className="text-xs text-slate-500 mt-1">
+              {t('المخرجات: {deliverables} · المراجع: {reviewer}', { deliverables: task.deliverables || '—', reviewer: reviewer ?? t('مدير النظام') })}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:bg-slate-100 rounded-full">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-6">
+          {/* Review state */}
+          {review && (
+            <div className={`rounded-lg border p-3 text-sm ${
+              accepted ? 'border-emerald-200 bg-emerald-50 text-emerald-800' : review.decision === 'returned' ? 'border-amber-200 bg-amber-50 text-amber-800' : 'border-slate-200 text-slate-600'
+            }`}>
+              <p className="font-bold">
+                {t(accepted ? 'اعتمد {name} المهمة — {date}' : review.decision === 'accepted' ? 'سبق أن اعتمد {name} المهمة — {date}' : 'أعاد {name} المهمة — {date}', {
+                  name: review.reviewerName,
+                  date: formatDateTime(review.reviewedAt),
+                })}
+              </p>
+              {review.note && <p className="mt-1">{review.note}</p>}
+            </div>
+          )}
+
+          {/* Assignee progress */}
+          <section>
+            <h3 className="font-bold text-slate-800 mb-3">{t('إنجاز المكلفين')}</h3>
+            <div className="space-y-2">
+              {task.assignees.map(id => {
+                const report = progress[id];
+                const member = members.find(m => m.id === id);
+                return (
+                  <div key={id} className="text-sm">
+                    <div className="flex justify-between text-xs mb-1">
+                      <span className="font-bold text-slate-700">{shortName(member?.name ?? id)}</span>
+                      <span className="text-slate-500">{report ? `${formatNumber(report.percent)}%` : t('لم يُبلّغ بعد')}</span>
+                    </div>
+                    <div className="w-full bg-slate-100 rounded-full h-2 overflow-hidden">
+                      <div className={`h-2 rounded-full ${completedAt[id] ? 'bg-emerald-500' : 'bg-indigo-500'}`} style={{ width: `${report?.percent ?? 0}%` }} />
+                    </div>
+                    {report?.note && <p className="text-xs text-slate-500 mt-1">{report.note}</p>}
+                  </div>
+                );
+              })}
+            </div>
+
+            {isAssignee && editable && (
+              <form onSubmit={submitProgress} className="mt-4 border border-slate-200 rounded-lg p-3 space-y-2">
+                <label className="text-xs text-slate-500 flex items-center gap-3">
+                  <span className="shrink-0">{t('نسبة إنجازك')}</span>
+                  <input type="range" min={0} max={100} step={5} value={percent} onChange={e => setPercent(Number(e.target.value))} className="flex-1" />
+                  <span className="font-bold text-slate-800 w-10 text-end">{formatNumber(percent)}%</span>
+                </label>
+                <textarea
+                  value={progressNote}
+                  onChange={e => setProgressNote(e.target.value)}
+                  placeholder={t('ملاحظات عن التقدم (اختياري)')}
+                  rows={2}
+                  className={`${inputClass} w-full`}
+                />
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-[11px] text-slate-500">{t('عند 100% يُعتبر جزؤك منجزاً ويُحال للمراجعة بعد اكتمال جميع المكلفين.')}</p>
+                  <button type="submit" className={primaryButton}><Send className="w-3 h-3" /> {t('تحديث الإنجاز')}</button>
+                </div>
+              </form>
+            )}
+          </section>
+
+          {/* Evidence */}
+          <section>
+            <h3 className="font-bold text-slate-800 mb-3">{t('أدلة الإنجاز')}</h3>
+            {activity?.evidence.length === 0 && <p className="text-sm text-slate-500">{t('لم تُرفع أدلة بعد.')}</p>}
+            <ul className="space-y-2">
+              {activity?.evidence.map(e => (
+                <li key={e.id} className="border border-slate-200 rounded-lg p-2.5 text-sm flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    {e.kind === 'file' ? (
+                      <a href={api.evidenceUrl(e.id)} className="text-indigo-600 hover:underline flex items-center gap-1 font-medium">
+                        <Paperclip className="w-3.5 h-3.5 shrink-0" /> <span className="truncate">{e.fileName}</span>
+                        <span className="text-[10px] text-slate-400 shrink-0">({formatSize(e.size ?? 0)})</span>
+                      </a>
+                    ) : (
+                      <a href={e.url} target="_blank" rel="noreferrer" className="text-indigo-600 hover:underline flex items-center gap-1 font-medium">
+                        <ExternalLink className="w-3.5 h-3.5 shrink-0" /> <span className="truncate" dir="ltr">{e.url}</span>
+                      </a>
+                    )}
+                    {e.note && <p className="text-xs text-slate-600 mt-1">{e.note}</p>}
+                  </div>
+                  <span className="text-[10px] text-slate-400 shrink-0 text-end">{shortName(e.memberName)}<br />{formatDateTime(e.createdAt)}</span>
+                </li>
+              ))}
+            </ul>
+            {(isAssignee || user.isAdmin) && editable && (
+              <EvidenceForm onSubmit={evidence => api.addTaskEvidence(task.id, evidence).then(setActivity).then(() => notify(t('تمت إضافة دليل الإنجاز')))} onError={onError} />
+            )}
+          </section>
+
+          {/* Review actions */}
+          {canReviewTask(task, user) && allFinished && editable && (
+            <section className="border border-indigo-200 bg-indigo-50/50 rounded-lg p-4 space-y-2">
+              <h3 className="font-bold text-slate-800 flex items-center gap-2"><ClipboardCheck className="w-4 h-4 text-indigo-600" /> {t('مراجعة المهمة')}</h3>
+              <p className="text-xs text-slate-600">{t('أكمل جميع المكلفين المهمة. راجع الأدلة ثم اعتمدها أو أعدها مع توضيح المطلوب.')}</p>
+              <textarea value={reviewNote} onChange={e => setReviewNote(e.target.value)} placeholder={t('ملاحظات المراجعة (مطلوبة عند الإعادة)')} rows={2} className={`${inputClass} w-full`} />
+              <div className="flex gap-2">
+                <button onClick={() => submitReview('accepted')} className={primaryButton}><ClipboardCheck className="w-3 h-3" /> {t('اعتماد المهمة')}</button>
+                <button onClick={() => submitReview('returned')} disabled={!reviewNote.trim()} className={dangerButton}><Undo2 className="w-3 h-3" /> {t('إعادة للمكلفين')}</button>
+              </div>
+            </section>
+          )}
+
+          {/* History */}
+          {activity && (activity.progress.length > 0 || activity.reviews.length > 0) && (
+            <section>
+              <h3 className="font-bold text-slate-800 mb-3">{t('السجل')}</h3>
+              <ul className="space-y-1.5 text-xs text-slate-600">
+                {[
+                  ...activity.progress.map(p => ({ time: p.updatedAt, text: `${shortName(p.memberName)}: ${formatNumber(p.percent)}%${p.note ? ` — ${p.note}` : ''}` })),
+                  ...activity.reviews.map(r => ({
+                    time: r.reviewedAt,
+                    text: t(r.decision === 'accepted' ? 'اعتماد بواسطة {name}' : 'إعادة بواسطة {name}', { name: shortName(r.reviewerName) }) + (r.note ? ` — ${r.note}` : ''),
+                  })),
+                ].sort((a, b) => b.time.localeCompare(a.time)).map((entry, idx) => (
+                  <li key={idx} className="flex gap-3">
+                    <span className="text-slate-400 shrink-0 w-36">{formatDateTime(entry.time)}</span>
+                    <span>{entry.text}</span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function EvidenceForm({ onSubmit, onError }: {
+  onSubmit: (evidence: NewTaskEvidence) => Promise<unknown>;
+  onError: (err: Error) => void;
+}) {
+  const [kind, setKind] = useState<'file' | 'link'>('file');
+  const [file, setFile] = useState<File | null>(null);
+  const [url, setUrl] = useState('');
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [formKey, setFormKey] = useState(0);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      const evidence: NewTaskEvidence = kind === 'link'
+        ? { url, note }
+        : { fileName: file!.name, mimeType: file!.type || 'application/octet-stream', data: await readAsBase64(file!), note };
+      await onSubmit(evidence);
+      setFile(null);
+      setUrl('');
+      setNote('');
+      setFormKey(k => k + 1);
+    } catch (err) {
+      onError(err as Error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <form key={formKey} onSubmit={submit} className="mt-3 border border-dashed border-slate-300 rounded-lg p-3 space-y-2">
+      <div className="flex gap-2">
+        <button type="button" onClick={() => setKind('file')} className={kind === 'file' ? primaryButton : secondaryButton}><Paperclip className="w-3 h-3" /> {t('ملف')}</button>
+        <button type="button" onClick={() => setKind('link')} className={kind === 'link' ? primaryButton : secondaryButton}><Link2 className="w-3 h-3" /> {t('رابط')}</button>
+      </div>
+      {kind === 'file'
+        ? <input type="file" onChange={e => setFile(e.target.files?.[0] ?? null)} className="text-xs" />
+        : <input value={url} onChange={e => setUrl(e.target.value)} placeholder="https://" dir="ltr" className={`${inputClass} w-full`} />}
+      <input value={note} onChange={e => setNote(e.target.value)} placeholder={t('وصف الدليل (اختياري)')} className={`${inputClass} w-full`} />
+      <button type="submit" disabled={busy || (kind === 'file' ? !file : !url.trim())} className={primaryButton}>{t('إضافة الدليل')}</button>
+    </form>
+  );
+}
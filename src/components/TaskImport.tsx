@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState } from 'react';
+import { AlertCircle, CheckCircle2, FileSpreadsheet, Upload } from 'lucide-react';
+import { api } from '../api';
+import { readAsBase64 } from '../files';
+import { formatDate, t } from '../i18n';
+import type { BoardState, Member, Phase, TaskImportRow } from '../types';
+
+type TaskImportProps = {
+  directory: Member[];
+  phases: Phase[];
+  save: (request: Promise<BoardState>, message: string) => Promise<boolean>;
+  onError: (err: Error) => void;
+};
+
+type SelectedFile = { name: string; data: string };
+
+/** Adds tasks from a CSV or XLSX sheet; every row is checked and shown before anything is created. */
+export default function TaskImport({ directory, phases, save, onError }: TaskImportProps) {
+  const [file, setFile] = useState<SelectedFile | null>(null);
+  const [rows, setRows] = useState<TaskImportRow[] | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const invalid = rows?.filter(row => row.errors.length > 0).length ?? 0;
+  const memberName = (id: string) => directory.find(m => m.id === id)?.name ?? id;
+
+  const choose = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = e.target.files?.[0];
+    e.target.value = '';
+    if (!chosen) return;
+    setBusy(true);
+    setRows(null);
+    readAsBase64(chosen)
+      .then(data => {
+        setFile({ name: chosen.name, data });
+        return api.previewTaskImport(chosen.name, data);
+      })
+      .then(setRows)
+      .catch(err => {
+        setFile(null);
+        onError(err);
+      })
+      .finally(() => setBusy(false));
+  };
+
+  const submit = () => {
+    if (!file || !rows) return;
+    setBusy(true);
+    save(api.importTasks(file.name, file.data), t('تم استيراد {count} مهمة من {file}', { count: rows.length, file: file.name }))
+      .then(done => {
+        if (!done) return;
+        setFile(null);
+        setRows(null);
+      })
+      .finally(() => setBusy(false));
+  };
+
+  return (
+    <div className="bg-slate-50 border border-slate-200 rounded-xl p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="font-bold text-slate-800 flex items-center gap-2">
+            <FileSpreadsheet className="w-4 h-4 text-emerald-600" />
+            {t('استيراد المهام من جدول بيانات')}
+          </h3>
+          <p className="text-xs text-slate-500 mt-1">
+            {t('ملف CSV أو XLSX صفه الأول عناوين الأعمدة: عنوان المهمة، المكلفون (أرقام الهوية)، تاريخ البداية، تاريخ النهاية، المخرجات، المرحلة (رقمها).')}
+          </p>
+        </div>
+        <label className={`text-xs bg-white border border-slate-200 hover:bg-slate-100 text-slate-700 px-3 py-1.5 rounded-md font-medium flex items-center gap-1 ${busy ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+          <Upload className="w-3.5 h-3.5" />
+          {t('اختيار ملف')}
+          <input type="file" accept=".csv,.xlsx" onChange={choose} className="hidden" />
+        </label>
+      </div>
+
+      {file && rows && (
+        <>
+          <p className={`text-sm flex items-center gap-1.5 ${invalid ? 'text-red-700' : 'text-emerald-700'}`}>
+            {invalid ? <AlertCircle className="w-4 h-4" /> : <CheckCircle2 className="w-4 h-4" />}
+            {invalid
+              ? t('{invalid} من {total} صفوف في {file} تحتاج إلى تصحيح؛ لن تُستورد أي مهمة قبل تصحيحها.', { invalid, total: rows.length, file: file.name })
+              : t('جميع الصفوف ({total}) في {file} جاهزة للاستيراد.', { total: rows.length, file: file.name })}
+          </p>
+          <div className="max-h-72 overflow-y-auto border border-slate-200 rounded-lg bg-white">
+            <table className="w-full text-xs">
+              <thead className="bg-slate-100 text-slate-600 sticky top-0">
+                <tr>
+                  <th className="p-2 text-start">{t('الصف')}</th>
+                  <th className="p-2 text-start">{t('المهمة')}</th>
+                  <th className="p-2 text-start">{t('المكلفون')}</th>
+                  <th className="p-2 text-start">{t('المدة')}</th>
+                  <th className="p-2 text-start">{t('المرحلة')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.row} className={`border-t border-slate-100 align-top ${row.errors.length ? 'bg-red-50/60' : ''}`}>
+                    <td className="p-2 text-slate-400">{row.row}</td>
+                    <td className="p-2">
+                      <p className="font-medium text-slate-800">{row.title || '—'}</p>
+                      {row.errors.map(error => (
+                        <p key={error.message + JSON.stringify(error.params)} className="text-red-600 mt-0.5">{t(error.message, error.params)}</p>
+                      ))}
+                    </td>
+                    <td className="p-2 text-slate-600">{row.assignees.map(memberName).join('، ')}</td>
+                    <td className="p-2 text-slate-600 whitespace-nowrap">
+                      {row.startDate && row.endDate ? `${formatDate(row.startDate, 'short')} – ${formatDate(row.endDate, 'short')}` : '—'}
+                    </td>
+                    <td className="p-2 text-slate-600">{phases.find(p => p.id === row.phaseId)?.number ?? '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex gap-2 justify-end">
+            <button
+              onClick={() => { setFile(null); setRows(null); }}
+              className="text-xs bg-white border border-slate-200 hover:bg-slate-100 text-slate-600 px-3 py-1.5 rounded-md font-medium"
+            >
+              {t('تراجع')}
+            </button>
+            <button
+              onClick={submit}
+              disabled={busy || invalid > 0}
+              className="text-xs bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white px-3 py-1.5 rounded-md font-medium flex items-center gap-1"
+            >
+              <Upload className="w-3.5 h-3.5" />
+              {t('استيراد {count} مهمة', { count: rows.length })}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
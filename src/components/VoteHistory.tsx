@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import { ChevronDown, History } from 'lucide-react';
+import { api } from '../api';
+import { DECISION_LABELS } from '../board';
+import { formatDateTime, t } from '../i18n';
+import type { PhaseReopening, VoteHistoryAction, VoteHistoryEntry } from '../types';
+
+type VoteHistoryProps = {
+  phaseId: number;
+  /** Reopenings of this gate, and of earlier gates that reached this phase's votes. */
+  reopenings: PhaseReopening[];
+  /** Changes whenever the phase's votes do, so an open timeline picks up the new step. */
+  refreshKey: string;
+  onError: (err: Error) => void;
+};
+
+const ACTION_LABELS: Record<VoteHistoryAction, string> = {
+  cast: 'صوّت {name}: {decision}',
+  renewed: 'جدّد {name} تصويته على النسخة الجديدة: {decision}',
+  changed: 'غيّر {name} تصويته إلى: {decision}',
+  commented: 'أضاف {name} تعليقاً على صوته',
+  withdrawn: 'سحب {name} تصويته ({decision})',
+  removed: 'أُلغي صوت {name} ({decision})',
+  reset: 'أُلغي صوت {name} مع جميع أصوات المرحلة ({decision})',
+};
+
+const ACTION_COLORS: Record<VoteHistoryAction, string> = {
+  cast: 'bg-blue-500',
+  renewed: 'bg-blue-500',
+  changed: 'bg-amber-500',
+  commented: 'bg-slate-400',
+  withdrawn: 'bg-red-400',
+  removed: 'bg-red-400',
+  reset: 'bg-red-400',
+};
+
+type TimelineItem = { time: string; entry?: VoteHistoryEntry; reopening?: PhaseReopening };
+
+/** The phase's full voting record, oldest first, loaded when first opened. */
+export default function VoteHistory({ phaseId, reopenings, refreshKey, onError }: VoteHistoryProps) {
+  const [open, setOpen] = useState(false);
+  const [entries, setEntries] = useState<VoteHistoryEntry[] | null>(null);
+
+  useEffect(() => {
+    if (open) api.getVoteHistory(phaseId).then(setEntries).catch(onError);
+  }, [open, phaseId, refreshKey]);
+
+  const timeline: TimelineItem[] = entries
+    ? [...entries.map(entry => ({ time: entry.time, entry })), ...reopenings.map(reopening => ({ time: reopening.createdAt, reopening }))]
+      .sort((a, b) => a.time.localeCompare(b.time))
+    : [];
+
+  const reopeningLabel = (r: PhaseReopening) => {
+    if (r.phaseId === phaseId) return t('أعاد {name} فتح البوابة', { name: r.actorName });
+    const params = { name: r.actorName };
+    return r.downstream === 'invalidate'
+      ? t('أعاد {name} فتح بوابة سابقة وأُلغيت أصوات هذه المرحلة', params)
+      : t('أعاد {name} فتح بوابة سابقة وأصبح اعتماد هذه المرحلة مشروطاً بإعادة اعتمادها', params);
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-200/60">
+      <button onClick={() => setOpen(!open)} className="text-xs text-slate-500 hover:text-slate-700 font-medium flex items-center gap-1">
+        <History className="w-3.5 h-3.5" />
+        {t('سجل التصويت')}
+        <ChevronDown className={`w-3.5 h-3.5 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </button>
+      {open && entries && timeline.length === 0 && <p className="text-xs text-slate-400 mt-2">{t('لم يُسجل أي تصويت على هذه المرحلة بعد.')}</p>}
+      {open && timeline.length > 0 && (
+        <ol className="mt-3 space-y-2 border-s-2 border-slate-200 ms-1">
+          {timeline.map(({ entry, reopening }) => reopening ? (
+            <li key={`r${reopening.id}`} className="relative ps-4">
+              <span className="absolute -start-[5px] top-1.5 w-2 h-2 rounded-full bg-purple-500" />
+              <p className="text-xs font-medium text-purple-800">{reopeningLabel(reopening)}</p>
+              <p className="text-[11px] text-slate-400">{formatDateTime(reopening.createdAt)}</p>
+              <p className="text-xs text-slate-600 mt-0.5">{t('السبب: {reason}', { reason: reopening.reason })}</p>
+            </li>
+          ) : entry && (
+            <li key={entry.id} className="relative ps-4">
+              <span className={`absolute -start-[5px] top-1.5 w-2 h-2 rounded-full ${ACTION_COLORS[entry.action]}`} />
+              <p className="text-xs text-slate-700">
+                {t(ACTION_LABELS[entry.action], { name: entry.memberName, decision: t(DECISION_LABELS[entry.decision]) })}
+                {entry.actorName !== entry.memberName && <span className="text-slate-400"> {t('(بواسطة {name})', { name: entry.actorName })}</span>}
+              </p>
+              <p className="text-[11px] text-slate-400">{formatDateTime(entry.time)}</p>
+              {entry.reason && <p className="text-xs text-slate-600 mt-0.5">{t('السبب: {reason}', { reason: entry.reason })}</p>}
+              {entry.comment && entry.action !== 'withdrawn' && entry.action !== 'removed' && entry.action !== 'reset' && (
+                <p className="text-xs text-slate-500 mt-0.5">«{entry.comment}»</p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState } from 'react';
+import { api } from '../api';
+import { DECISION_LABELS } from '../board';
+import { t } from '../i18n';
+import type { BoardState, VoteDecision, VoteRecord } from '../types';
+
+type VoteRevisionFormProps = {
+  phaseId: number;
+  vote: VoteRecord;
+  onStateChange: (state: BoardState) => void;
+  onError: (err: Error) => void;
+  onClose: () => void;
+};
+
+type Revision = VoteDecision | 'withdraw';
+
+const DECISIONS: VoteDecision[] = ['approve', 'reject', 'abstain', 'recuse'];
+const inputClass = 'w-full px-3 py-1.5 rounded-md border border-slate-200 text-sm focus:ring-2 focus:ring-indigo-500 outline-none';
+
+/** Lets a member change or withdraw their own vote, with a reason, while the gate is open. */
+export default function VoteRevisionForm({ phaseId, vote, onStateChange, onError, onClose }: VoteRevisionFormProps) {
+  const [revision, setRevision] = useState<Revision>(DECISIONS.find(d => d !== vote.decision)!);
+  const [comment, setComment] = useState('');
+  const [reason, setReason] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const needsComment = revision === 'reject' || revision === 'recuse';
+  const ready = !!reason.trim() && (!needsComment || !!comment.trim());
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    const request = revision === 'withdraw'
+      ? api.withdrawVote(phaseId, vote.id, reason)
+      : api.changeVote(phaseId, vote.id, revision, reason, comment.trim() || undefined);
+    request
+      .then(state => {
+        onStateChange(state);
+        onClose();
+      })
+      .catch(onError)
+      .finally(() => setBusy(false));
+  };
+
+  return (
+    <form onSubmit={submit} className="bg-white border border-slate-200 rounded-lg p-3 space-y-2">
+      <select value={revision} onChange={e => setRevision(e.target.value as Revision)} className={inputClass}>
+        {DECISIONS.filter(d => d !== vote.decision).map(d => (
+          <option key={d} value={d}>{t('تغيير التصويت إلى: {decision}', { decision: t(DECISION_LABELS[d]) })}</option>
+        ))}
+        <option value="withdraw">{t('سحب التصويت')}</option>
+      </select>
+      {revision !== 'withdraw' && (
+        <textarea
+          rows={2}
+          placeholder={t(revision === 'reject' ? 'مبررات الاعتراض (إلزامية)...' : revision === 'recuse' ? 'سبب التنحي وطبيعة المصلحة (إلزامي)...' : 'إضافة تعليق (اختياري)...')}
+          value={comment}
+          onChange={e => setComment(e.target.value)}
+          className={inputClass}
+        />
+      )}
+      <textarea
+        rows={2}
+        placeholder={t(revision === 'withdraw' ? 'سبب سحب التصويت (إلزامي)...' : 'سبب تغيير التصويت (إلزامي)...')}
+        value={reason}
+        onChange={e => setReason(e.target.value)}
+        className={inputClass}
+      />
+      <p className="text-[11px] text-slate-500">{t('يظهر السبب في سجل التصويت لجميع الأعضاء.')}</p>
+      <div className="flex gap-2">
+        <button type="submit" disabled={busy || !ready} className="flex-1 bg-slate-700 hover:bg-slate-800 disabled:bg-slate-300 text-white font-bold py-2 rounded-lg text-sm transition-colors">
+          {t(revision === 'withdraw' ? 'تأكيد سحب التصويت' : 'تأكيد تغيير التصويت')}
+        </button>
+        <button type="button" onClick={onClose} className="flex-1 bg-white hover:bg-slate-50 text-slate-600 border border-slate-200 font-bold py-2 rounded-lg text-sm transition-colors">
+          {t('تراجع')}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,161 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import { CalendarClock, Timer } from 'lucide-react';
+import { api } from '../api';
+import { isWindowOpen } from '../board';
+import { formatDateTime, t } from '../i18n';
+import type { BoardState, Phase } from '../types';
+
+type VotingWindowPanelProps = {
+  phase: Phase;
+  /** Whether the signed-in member may open the gate and extend its deadline. */
+  canManage: boolean;
+  onStateChange: (state: BoardState) => void;
+  onError: (err: Error) => void;
+};
+
+const DEFAULT_WINDOW_DAYS = 7;
+const inputClass = 'w-full px-3 py-1.5 rounded-md border border-slate-200 text-sm bg-white focus:ring-2 focus:ring-indigo-500 outline-none';
+
+/** `datetime-local` inputs take the local time without a zone. */
+function toLocalInput(time: Date): string {
+  const local = new Date(time.getTime() - time.getTimezoneOffset() * 60_000);
+  return local.toISOString().slice(0, 16);
+}
+
+function countdown(ms: number): string {
+  const minutes = Math.floor(ms / 60_000);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return t('{days} يوم و{hours} ساعة', { days, hours });
+  if (hours > 0) return t('{hours} ساعة و{minutes} دقيقة', { hours, minutes: minutes % 60 });
+  return t('{minutes} دقيقة و{seconds} ثانية', { minutes, seconds: Math.floor(ms / 1000) % 60 });
+}
+
+/** The active gate's voting window: a countdown for everyone, and opening and extending for the chair. */
+export default function VotingWindowPanel({ phase, canManage, onStateChange, onError }: VotingWindowPanelProps) {
+  const votingWindow = phase.votingWindow;
+  const [now, setNow] = useState(() => Date.now());
+  const [form, setForm] = useState<'open' | 'extend' | null>(null);
+  const [closesAt, setClosesAt] = useState('');
+  const [reason, setReason] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const open = isWindowOpen(votingWindow, new Date(now).toISOString());
+  const remaining = votingWindow ? new Date(votingWindow.closesAt).getTime() - now : 0;
+
+  useEffect(() => {
+    if (!open) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [open]);
+
+  const showForm = (kind: 'open' | 'extend') => {
+    const from = kind === 'extend' && votingWindow ? new Date(votingWindow.closesAt) : new Date();
+    setClosesAt(toLocalInput(new Date(from.getTime() + DEFAULT_WINDOW_DAYS * 86_400_000)));
+    setReason('');
+    setForm(kind);
+  };
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const deadline = new Date(closesAt).toISOString();
+    setBusy(true);
+    (form === 'extend' ? api.extendVotingWindow(phase.id, deadline, reason) : api.openVotingWindow(phase.id, deadline))
+      .then(state => {
+        onStateChange(state);
+        setForm(null);
+      })
+      .catch(onError)
+      .finally(() => setBusy(false));
+  };
+
+  return (
+    <div className="bg-white/70 border border-blue-100 rounded-lg p-3 space-y-2">
+      {open ? (
+        <div className="flex items-start gap-2">
+          <Timer className="w-5 h-5 text-blue-600 shrink-0 mt-0.5" />
+          <div>
+            <p className="text-sm font-bold text-blue-800">{t('يُغلق التصويت بعد {time}', { time: countdown(remaining) })}</p>
+            <p className="text-xs text-slate-500">{t('موعد الإغلاق: {time}', { time: formatDateTime(votingWindow!.closesAt) })}</p>
+          </div>
+        </div>
+      ) : votingWindow && !votingWindow.closedAt && remaining <= 0 ? (
+        <p className="text-sm text-slate-600 flex items-center gap-2">
+          <Timer className="w-4 h-4 text-slate-400" />
+          {t('انتهت مهلة التصويت؛ تُحتسب النتيجة من الأصوات المستلمة.')}
+        </p>
+      ) : votingWindow?.closedAt ? (
+        <p className="text-sm text-slate-600 flex items-center gap-2">
+          <CalendarClock className="w-4 h-4 text-slate-400" />
+          {t('أُغلق التصويت في {time} دون اعتماد البوابة.', { time: formatDateTime(votingWindow.closedAt) })}
+        </p>
+      ) : (
+        <p className="text-sm text-slate-600 flex items-center gap-2">
+          <CalendarClock className="w-4 h-4 text-slate-400" />
+          {t('لم يُفتح باب التصويت على هذه البوابة بعد.')}
+        </p>
+      )}
+
+      {votingWindow && votingWindow.extensions.length > 0 && (
+        <ul className="text-xs text-slate-500 space-y-1 border-t border-blue-100 pt-2">
+          {votingWindow.extensions.map(ext => (
+            <li key={ext.createdAt}>
+              {t('مدّد {name} المهلة من {from} إلى {to}: {reason}', {
+                name: ext.actorName, from: formatDateTime(ext.previousClosesAt), to: formatDateTime(ext.closesAt), reason: ext.reason,
+              })}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canManage && !form && (
+        <button
+          onClick={() => showForm(open ? 'extend' : 'open')}
+          className="text-xs text-indigo-600 hover:text-indigo-800 font-medium flex items-center gap-1"
+        >
+          <CalendarClock className="w-3.5 h-3.5" />
+          {t(open ? 'تمديد المهلة' : votingWindow?.closedAt ? 'فتح باب تصويت جديد' : 'فتح باب التصويت على البوابة')}
+        </button>
+      )}
+
+      {form && (
+        <form onSubmit={submit} className="space-y-2 border-t border-blue-100 pt-2">
+          <label className="text-xs text-slate-500 space-y-1 block">
+            <span>{t(form === 'extend' ? 'موعد الإغلاق الجديد' : 'يُغلق التصويت في')}</span>
+            <input type="datetime-local" value={closesAt} onChange={e => setClosesAt(e.target.value)} className={inputClass} />
+          </label>
+          {form === 'extend' && (
+            <textarea
+              rows={2}
+              placeholder={t('مبرر التمديد (إلزامي، يُسجل مع المهلة)...')}
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+              className={inputClass}
+            />
+          )}
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={busy || !closesAt || (form === 'extend' && !reason.trim())}
+              className="flex-1 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white font-bold py-2 rounded-lg text-sm transition-colors"
+            >
+              {t(form === 'extend' ? 'تأكيد التمديد' : 'فتح التصويت')}
+            </button>
+            <button
+              type="button"
+              onClick={() => setForm(null)}
+              className="flex-1 bg-white hover:bg-slate-50 text-slate-600 border border-slate-200 font-bold py-2 rounded-lg text-sm transition-colors"
+            >
+              {t('تراجع')}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
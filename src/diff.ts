@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- Line diff for side-by-side draft comparison ---
+export type DiffLine = { number: number; text: string };
+export type DiffRow = {
+  kind: 'same' | 'changed' | 'removed' | 'added';
+  left?: DiffLine;
+  right?: DiffLine;
+};
+
+/**
+ * Longest-common-subsequence diff over lines. Runs of removed and added lines
+ * between two unchanged lines are paired up as "changed" so the two columns
+ * stay aligned.
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: number[] = [];
+  let added: number[] = [];
+  const line = (lines: string[], index: number): DiffLine => ({ number: index + 1, text: lines[index] });
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = k < removed.length ? line(a, removed[k]) : undefined;
+      const right = k < added.length ? line(b, added[k]) : undefined;
+      rows.push({ kind: left && right ? 'changed' : left ? 'removed' : 'added', left, right });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      flush();
+      rows.push({ kind: 'same', left: line(a, i++), right: line(b, j++) });
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      removed.push(i++);
+    } else {
+      added.push(j++);
+    }
+  }
+  while (i < a.length) removed.push(i++);
+  while (j < b.length) added.push(j++);
+  flush();
+  return rows;
+}
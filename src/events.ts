@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { BoardEvent, TaskCompletion, TaskCompletionTimes, Votes } from './types';
+
+// --- Reducers ---
+// Both are idempotent: replaying an event the client already reflects is a no-op,
+// which lets catch-up after a reconnect overlap with the last known state.
+export function applyVoteEvent(votes: Votes, event: BoardEvent): Votes {
+  const { phaseId, memberId, memberName, decision, comment, draftVersions, proxyHolderId, proxyHolderName } = event;
+  if (phaseId === undefined) return votes;
+  const phaseVotes = votes[phaseId] || [];
+
+  switch (event.type) {
+    case 'vote.cast':
+    case 'vote.changed': {
+      if (!memberId) return votes;
+      // A renewed or changed vote replaces the member's earlier one in place, keeping when it was first cast.
+      const existing = phaseVotes.find(v => v.id === memberId);
+      const record = {
+        id: memberId, name: memberName || '', decision: decision || 'approve', ...(comment ? { comment } : {}),
+        draftVersions: draftVersions || {}, votedAt: existing?.votedAt ?? event.time,
+        ...(existing ? { changedAt: event.time } : {}),
+        ...(proxyHolderId ? { proxyHolderId, proxyHolderName } : {}),
+      };
+      return existing
+        ? { ...votes, [phaseId]: phaseVotes.map(v => v.id === memberId ? record : v) }
+        : { ...votes, [phaseId]: [...phaseVotes, record] };
+    }
+    case 'vote.commented':
+      return { ...votes, [phaseId]: phaseVotes.map(v => v.id === memberId ? { ...v, comment } : v) };
+    case 'vote.withdrawn':
+    case 'vote.removed':
+      return { ...votes, [phaseId]: phaseVotes.filter(v => v.id !== memberId) };
+    case 'phase.reset':
+      return { ...votes, [phaseId]: [] };
+    default:
+      return votes;
+  }
+}
+
+export function applyTaskEvent(completion: TaskCompletion, event: BoardEvent): TaskCompletion {
+  const { taskId, memberId } = event;
+  if (!taskId || !memberId) return completion;
+  const current = completion[taskId] || [];
+
+  switch (event.type) {
+    case 'task.completed':
+      return current.includes(memberId) ? completion : { ...completion, [taskId]: [...current, memberId] };
+    case 'task.reopened':
+      return { ...completion, [taskId]: current.filter(id => id !== memberId) };
+    default:
+      return completion;
+  }
+}
+
+export function applyCompletionTimeEvent(times: TaskCompletionTimes, event: BoardEvent): TaskCompletionTimes {
+  const { taskId, memberId } = event;
+  if (!taskId || !memberId) return times;
+  const current = times[taskId] || {};
+
+  switch (event.type) {
+    case 'task.completed':
+      return current[memberId] ? times : { ...times, [taskId]: { ...current, [memberId]: event.time } };
+    case 'task.reopened': {
+      const { [memberId]: _, ...rest } = current;
+      return { ...times, [taskId]: rest };
+    }
+    default:
+      return times;
+  }
+}
+
+// --- Subscription ---
+const RECONNECT_DELAY_MS = 5000;
+
+/**
+ * Opens the live event stream starting after `since`. The browser resends
+ * `Last-Event-ID` on transient drops; if the stream is closed for good (server
+ * restart, proxy error) we reopen it ourselves from the last event we saw.
+ * Returns an unsubscribe function.
+ */
+export function subscribeToBoardEvents(
+  since: number,
+  onEvent: (event: BoardEvent) => void,
+  onConnectionChange: (connected: boolean) => void,
+): () => void {
+  let lastId = since;
+  let source: EventSource | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+
+  const connect = () => {
+    source = new EventSource(`/api/events?since=${lastId}`);
+    source.onopen = () => onConnectionChange(true);
+    source.addEventListener('board', e => {
+      const event: BoardEvent = JSON.parse((e as MessageEvent).data);
+      if (event.id <= lastId) return;
+      lastId = event.id;
+      onEvent(event);
+    });
+    source.onerror = () => {
+      onConnectionChange(false);
+      if (source?.readyState === EventSource.CLOSED && !closed) {
+        retryTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+      }
+    };
+  };
+
+  connect();
+  return () => {
+    closed = true;
+    clearTimeout(retryTimer);
+    source?.close();
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { EN } from './translations';
+
+// --- Interface language and date display ---
+// The Arabic text in the source is also the message key: `t()` returns it
+// unchanged in Arabic and looks up its English counterpart otherwise, falling
+// back to the Arabic while a string has no translation. Placeholders are
+// written `{name}`. The choice lives in this module, like the plan in ./api;
+// App re-renders the tree when it changes.
+
+export type Language = 'ar' | 'en';
+export type CalendarSystem = 'gregory' | 'islamic-umalqura';
+export type LocaleSettings = { language: Language; calendar: CalendarSystem };
+
+export const LANGUAGE_LABELS: Record<Language, string> = { ar: 'العربية', en: 'English' };
+export const CALENDAR_LABELS: Record<CalendarSystem, string> = { gregory: 'ميلادي', 'islamic-umalqura': 'هجري (أم القرى)' };
+
+const STORAGE_KEY = 'board_locale';
+
+function loadSettings(): LocaleSettings {
+  let saved: Partial<LocaleSettings> = {};
+  try {
+    saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    // A corrupt entry falls back to the defaults.
+  }
+  return {
+    language: saved.language === 'en' ? 'en' : 'ar',
+    calendar: saved.calendar === 'islamic-umalqura' ? 'islamic-umalqura' : 'gregory',
+  };
+}
+
+let settings = loadSettings();
+
+export function getLocale(): LocaleSettings {
+  return settings;
+}
+
+/** Switches language and calendar, remembers them in this browser and sets the page's `lang` and `dir`. */
+export function setLocale(next: LocaleSettings) {
+  settings = next;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  applyLocale();
+}
+
+export function applyLocale() {
+  document.documentElement.lang = settings.language;
+  document.documentElement.dir = textDirection();
+}
+
+export function textDirection(): 'rtl' | 'ltr' {
+  return settings.language === 'ar' ? 'rtl' : 'ltr';
+}
+
+/** Numbers keep Latin digits in both languages, as IDs, PINs and phone numbers are typed with them. */
+function localeTag(): string {
+  return `${settings.language === 'ar' ? 'ar-SA' : 'en-GB'}-u-ca-${settings.calendar}-nu-latn`;
+}
+
+export function t(text: string, params: Record<string, string | number | undefined> = {}): string {
+  const template = settings.language === 'en' ? EN[text] ?? text : text;
+  return template.replace(/\{(\w+)\}/g, (_, key: string) => {
+    const value = params[key];
+    return typeof value === 'number' ? formatNumber(value) : value ?? '';
+  });
+}
+
+export function formatNumber(value: number, options?: Intl.NumberFormatOptions): string {
+  return new Intl.NumberFormat(localeTag(), options).format(value);
+}
+
+// A bare YYYY-MM-DD is a calendar day, not an instant: it is shown as that day
+// whatever the viewer's time zone. Timestamps are shown in local time.
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function toInstant(value: string | Date): { date: Date; timeZone?: string } {
+  if (typeof value === 'string' && DAY_PATTERN.test(value)) return { date: new Date(`${value}T00:00:00Z`), timeZone: 'UTC' };
+  return { date: typeof value === 'string' ? new Date(value) : value };
+}
+
+type DateStyle = 'short' | 'medium' | 'long' | 'month';
+
+const DATE_STYLES: Record<DateStyle, Intl.DateTimeFormatOptions> = {
+  short: { day: 'numeric', month: 'short' },
+  medium: { day: 'numeric', month: 'short', year: 'numeric' },
+  long: { day: 'numeric', month: 'long', year: 'numeric' },
+  month: { month: 'long' },
+};
+
+export function formatDate(value: string | Date, style: DateStyle = 'medium'): string {
+  const { date, timeZone } = toInstant(value);
+  return date.toLocaleDateString(localeTag(), { ...DATE_STYLES[style], timeZone });
+}
+
+export function formatDateRange(start: string, end: string, style: DateStyle = 'medium'): string {
+  return t('{start} إلى {end}', { start: formatDate(start, style), end: formatDate(end, style) });
+}
+
+export function formatTime(value: string | Date): string {
+  return toInstant(value).date.toLocaleTimeString(localeTag(), { hour: 'numeric', minute: '2-digit' });
+}
+
+export function formatDateTime(value: string | Date): string {
+  return toInstant(value).date.toLocaleString(localeTag(), { dateStyle: 'medium', timeStyle: 'short' });
+}
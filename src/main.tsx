@@ -1,8 +1,11 @@
 import {StrictMode} from 'react';
 import {createRoot} from 'react-dom/client';
 import App from './App.tsx';
+import {applyLocale} from './i18n';
 import './index.css';
 
+applyLocale();
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
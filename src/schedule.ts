@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Phase, Task } from './types';
+
+// --- Plan scheduling (critical path method) ---
+// Shared by the Gantt view and by the server, which uses the cycle check to
+// validate dependencies. Dates are handled as whole UTC day numbers.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const toDay = (date: string): number => Math.floor(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+export const fromDay = (day: number): string => new Date(day * DAY_MS).toISOString().slice(0, 10);
+
+export type TaskSchedule = {
+  /** Inclusive length in days of the scheduled dates. */
+  duration: number;
+  earlyStart: number;
+  earlyFinish: number;
+  lateStart: number;
+  lateFinish: number;
+  /** Days the task can slip without moving the plan's finish. */
+  slack: number;
+  critical: boolean;
+  /** Days the scheduled start precedes the end of its dependencies (0 when consistent). */
+  conflict: number;
+};
+
+export type PlanSchedule = {
+  tasks: Record<string, TaskSchedule>;
+  start: number;
+  finish: number;
+  /** Critical tasks in the order they run. */
+  criticalPath: string[];
+};
+
+export type PhaseWindow = { phase: Phase; start: number; end: number };
+
+/** A phase's window spans the tasks linked to it; phases without tasks have none. */
+export function phaseWindows(phases: Phase[], tasks: Task[]): PhaseWindow[] {
+  return phases.flatMap(phase => {
+    const linked = tasks.filter(t => t.phaseId === phase.id);
+    if (linked.length === 0) return [];
+    return [{
+      phase,
+      start: Math.min(...linked.map(t => toDay(t.startDate))),
+      end: Math.max(...linked.map(t => toDay(t.endDate))),
+    }];
+  });
+}
+
+/** Returns the ids forming one dependency cycle (first id repeated at the end), or null. */
+export function findDependencyCycle(tasks: Pick<Task, 'id' | 'dependsOn'>[]): string[] | null {
+  const deps = new Map(tasks.map(t => [t.id, t.dependsOn]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (state.get(id) === 'done') return null;
+    if (state.get(id) === 'visiting') return [...stack.slice(stack.indexOf(id)), id];
+    state.set(id, 'visiting');
+    stack.push(id);
+    for (const dep of deps.get(id) || []) {
+      if (!deps.has(dep)) continue;
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    state.set(id, 'done');
+    return null;
+  };
+
+  for (const task of tasks) {
+    const cycle = visit(task.id);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Forward and backward pass over the dependency graph. Scheduled start dates
+ * act as "not earlier than" constraints; the plan finishes when the last task
+ * does, and tasks with no slack against that finish form the critical path.
+ * Assumes the graph is acyclic, which the server guarantees.
+ */
+export function computeSchedule(tasks: Task[]): PlanSchedule {
+  if (tasks.length === 0) return { tasks: {}, start: 0, finish: 0, criticalPath: [] };
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const order: Task[] = [];
+  const seen = new Set<string>();
+  const visit = (task: Task) => {
+    if (seen.has(task.id)) return;
+    seen.add(task.id);
+    for (const dep of task.dependsOn) {
+      const depTask = byId.get(dep);
+      if (depTask) visit(depTask);
+    }
+    order.push(task);
+  };
+  tasks.forEach(visit);
+
+  const result: Record<string, TaskSchedule> = {};
+  for (const task of order) {
+    const scheduledStart = toDay(task.startDate);
+    const duration = Math.max(1, toDay(task.endDate) - scheduledStart + 1);
+    const ready = Math.max(-Infinity, ...task.dependsOn.filter(d => result[d]).map(d => result[d].earlyFinish + 1));
+    const earlyStart = Math.max(scheduledStart, ready);
+    result[task.id] = {
+      duration,
+      earlyStart,
+      earlyFinish: earlyStart + duration - 1,
+      lateStart: 0,
+      lateFinish: 0,
+      slack: 0,
+      critical: false,
+      conflict: Math.max(0, ready - scheduledStart),
+    };
+  }
+
+  const start = Math.min(...tasks.map(t => toDay(t.startDate)));
+  const finish = Math.max(...Object.values(result).map(s => s.earlyFinish));
+  const successors = new Map<string, string[]>();
+  for (const task of tasks) {
+    for (const dep of task.dependsOn) successors.set(dep, [...(successors.get(dep) || []), task.id]);
+  }
+
+  for (const task of [...order].reverse()) {
+    const s = result[task.id];
+    s.lateFinish = Math.min(finish, ...(successors.get(task.id) || []).map(id => result[id].lateStart - 1));
+    s.lateStart = s.lateFinish - s.duration + 1;
+    s.slack = s.lateFinish - s.earlyFinish;
+    s.critical = s.slack <= 0;
+  }
+
+  const criticalPath = order
+    .filter(t => result[t.id].critical)
+    .sort((a, b) => result[a.id].earlyStart - result[b.id].earlyStart)
+    .map(t => t.id);
+
+  return { tasks: result, start, finish, criticalPath };
+}
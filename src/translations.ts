@@ -0,0 +1,771 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// English text for the interface, keyed by the Arabic it replaces (see ./i18n).
+// Names, plan titles, phase and task content entered by the board are shown as written,
+// as are server messages with no entry here.
+
+export const EN: Record<string, string> = {
+  // --- Shared labels ---
+  '{start} إلى {end}': '{start} to {end}',
+  'ميلادي': 'Gregorian',
+  'هجري (أم القرى)': 'Hijri (Umm al-Qura)',
+  'بالإجماع': 'unanimous',
+  'بأغلبية الثلثين': 'two-thirds majority',
+  'بالأغلبية البسيطة للحاضرين': 'simple majority of those present',
+  'موافق': 'Approve',
+  'معترض': 'Reject',
+  'ممتنع': 'Abstain',
+  'متنحٍّ لتعارض المصالح': 'Recused (conflict of interest)',
+  'لم تبدأ': 'Not started',
+  'قيد التنفيذ': 'In progress',
+  'معرضة للتأخر': 'At risk',
+  'متأخرة': 'Overdue',
+  'بانتظار المراجعة': 'Awaiting review',
+  'أنجزت في موعدها': 'Done on time',
+  'أنجزت متأخرة': 'Done late',
+  'رئيس المجلس': 'Chair',
+  'أمين السر': 'Secretary',
+  'فريق الاستراتيجية': 'Strategy team',
+  'عضو مجلس': 'Board member',
+  'مراقب بلا تصويت': 'Observer (non-voting)',
+  'التصويت على البوابات': 'Vote on gates',
+  'إدارة البوابات': 'Manage gates',
+  'إدارة المحاضر': 'Manage minutes',
+  'إدارة التذكيرات': 'Manage reminders',
+  'تحرير المسودات': 'Edit drafts',
+  'تعذر الاتصال بالخادم.': 'Could not reach the server.',
+  '{size} ك.ب': '{size} KB',
+  '{size} م.ب': '{size} MB',
+  '، ': ', ',
+  'حفظ': 'Save',
+  'إلغاء': 'Cancel',
+  'حذف': 'Delete',
+  'إضافة': 'Add',
+  'المرحلة {number}: {title}': 'Phase {number}: {title}',
+  'تاريخ البداية': 'Start date',
+  'تاريخ النهاية': 'End date',
+  'غير نشط': 'inactive',
+  'مدير النظام': 'System administrator',
+  'النسخة {version}': 'Version {version}',
+
+  // --- App ---
+  'انتهت الجلسة، يرجى تسجيل الدخول مجدداً.': 'Your session has expired. Please sign in again.',
+  'تم تغيير رمز الدخول بنجاح': 'Your PIN has been changed',
+  'المرحلة {number}': 'Phase {number}',
+  'تنحّى {name} عن التصويت على {phase} لتعارض المصالح': '{name} recused from voting on {phase} over a conflict of interest',
+  ' (بالإنابة: {holder})': ' (by proxy: {holder})',
+  'اعترض {name} على {phase}': '{name} rejected {phase}',
+  'امتنع {name} عن التصويت على {phase}': '{name} abstained on {phase}',
+  'قام {name} بالتصويت بالموافقة على {phase}': '{name} voted to approve {phase}',
+  'أضاف {name} تعليقاً على {phase}': '{name} commented on {phase}',
+  'غيّر {name} تصويته على {phase} إلى: {decision}': '{name} changed their vote on {phase} to: {decision}',
+  'سحب {name} تصويته على {phase}': '{name} withdrew their vote on {phase}',
+  'أعاد {name} فتح بوابة {phase}: {reason}': '{name} reopened the {phase} gate: {reason}',
+  'فُتح التصويت على {phase} حتى {time}': 'Voting opened on {phase} until {time}',
+  'مُدّدت مهلة التصويت على {phase} حتى {time}: {reason}': 'Voting on {phase} was extended until {time}: {reason}',
+  'انتهت مهلة التصويت على {phase} واعتُمدت البوابة': 'Voting on {phase} closed and the gate was approved',
+  'انتهت مهلة التصويت على {phase} دون اعتماد البوابة': 'Voting on {phase} closed without approving the gate',
+  'تغيير التصويت أو سحبه': 'Change or withdraw vote',
+  'عُدّل {time}': 'changed {time}',
+  'صوّت {time}': 'voted {time}',
+  'تم إلغاء صوت {name} في {phase}': '{name}\'s vote on {phase} was removed',
+  'تم إلغاء جميع الأصوات في {phase}': 'All votes on {phase} were removed',
+  'أنجز {name} مهمة: {task}': '{name} completed a task: {task}',
+  'ألغى {name} إنجاز مهمة: {task}': '{name} reopened a task: {task}',
+  'نُشرت النسخة {version} من {draft}': 'Version {version} of {draft} was published',
+  'حدّث {name} إنجاز مهمة: {task} ({percent}%)': '{name} updated progress on a task: {task} ({percent}%)',
+  'اعتمد {name} مهمة: {task}': '{name} accepted a task: {task}',
+  'أعاد {name} مهمة للمكلفين: {task}': '{name} sent a task back to its assignees: {task}',
+  'وكّل {name} {holder} بالتصويت على {phase}': '{name} gave {holder} a proxy to vote on {phase}',
+  'أُلغي توكيل {name} لـ{holder} على {phase}': '{name}\'s proxy to {holder} on {phase} was revoked',
+  'كتب {name} في نقاش «{thread}» على {phase}': '{name} posted in the discussion "{thread}" on {phase}',
+  'حسم {name} نقاش «{thread}»': '{name} resolved the discussion "{thread}"',
+  'أعاد {name} فتح نقاش «{thread}»': '{name} reopened the discussion "{thread}"',
+  'يجب ذكر مبررات الاعتراض قبل إرساله.': 'Give the reasons for the rejection before sending it.',
+  'يجب ذكر سبب التنحي قبل إرساله.': 'Give the reason for recusing before sending it.',
+  'الأعضاء المصوتين ({participating} من {eligible})': 'Members who voted ({participating} of {eligible})',
+  ' · المتنحون لتعارض المصالح: {count}': ' · recused over a conflict of interest: {count}',
+  'متنحٍّ': 'Recused',
+  ' (على نسخة سابقة من المسودات)': ' (on an earlier version of the drafts)',
+  'بالإنابة: {holder}': 'By proxy: {holder}',
+  'بالإنابة': 'By proxy',
+  'تعليقات الأعضاء:': 'Members\' comments:',
+  'مبررات الاعتراض': 'Reasons for rejecting',
+  'سبب التنحي': 'Reason for recusing',
+  'قاعدة الاعتماد:': 'Decision rule:',
+  'النصاب مكتمل': 'Quorum met',
+  'النصاب غير مكتمل': 'Quorum not met',
+  'تغيير رمز الدخول': 'Change PIN',
+  'الرمز الحالي': 'Current PIN',
+  'الرمز الجديد (6 خانات على الأقل)': 'New PIN (at least 6 digits)',
+  'حفظ الرمز الجديد': 'Save new PIN',
+  'جمعية آزِر لمرضى الأورام بتبوك | AZER': 'Azer Association for Cancer Patients in Tabuk | AZER',
+  'بوابة مجلس الإدارة': 'Board Portal',
+  'نظام المسودات المتصاعدة - تسجيل الدخول': 'Progressive Drafts System - Sign in',
+  'رقم الهوية الوطنية': 'National ID number',
+  'رمز الدخول': 'PIN',
+  'دخول للنظام': 'Sign in',
+  'نظام المسودات المتصاعدة': 'Progressive Drafts System',
+  'لوحة القيادة الاستراتيجية': 'Strategy Dashboard',
+  'التحديثات المباشرة مفعلة': 'Live updates are on',
+  'جاري إعادة الاتصال...': 'Reconnecting...',
+  'مباشر': 'Live',
+  'غير متصل': 'Offline',
+  'الخطة المعروضة': 'Plan shown',
+  ' (مؤرشفة)': ' (archived)',
+  'إدارة النظام': 'Administration',
+  'التقويم': 'Calendar',
+  'تفضيلات التذكير': 'Reminder preferences',
+  'تسجيل خروج': 'Sign out',
+  'لغة الواجهة': 'Interface language',
+  'التقويم المستخدم في عرض التواريخ': 'Calendar used to show dates',
+  '"{title}" خطة مؤرشفة؛ تُعرض للاطلاع فقط ولا يمكن التصويت عليها أو تعديلها.': '"{title}" is an archived plan. It is shown read-only and cannot be voted on or changed.',
+  'لوحة المؤشرات العامة': 'Overview',
+  'المسار الاستراتيجي والاعتمادات': 'Strategic path and approvals',
+  'المهام ومؤشرات الأداء': 'Tasks and performance',
+  'نظرة شاملة على تقدم المسار الاستراتيجي والمهام التشغيلية': 'Progress of the strategic path and operational tasks at a glance',
+  'تقرير الخطة (PDF)': 'Plan report (PDF)',
+  'التقدم الإجمالي للخطة الاستراتيجية': 'Overall strategic plan progress',
+  'يعتمد على تصويت أعضاء مجلس الإدارة ({count} أعضاء)': 'Based on the votes of the board members ({count} members)',
+  'إجمالي المراحل': 'Total phases',
+  'المسودات المعتمدة': 'Approved drafts',
+  'من {total}': 'of {total}',
+  'إجمالي التصويتات': 'Total votes',
+  'المرحلة النشطة': 'Active phase',
+  'مكتملة بالكامل': 'Fully complete',
+  'إنجاز المهام حسب العضو': 'Task completion by member',
+  'مهام مسندة': 'Assigned tasks',
+  'مهام منجزة': 'Completed tasks',
+  'حالة المهام': 'Task status',
+  'إجمالي المهام: {count}': 'Total tasks: {count}',
+  'الزمن المنقضي': 'Time elapsed',
+  'من {title} ({days} يوم)': 'of {title} ({days} days)',
+  'يوم': 'days',
+  'البداية: {date}': 'Start: {date}',
+  'النهاية: {date}': 'End: {date}',
+  'المخطط الزمني للمراحل والاعتمادات': 'Phase and approval timeline',
+  'إدارة': 'Manage',
+  'المرحلة {number}:': 'Phase {number}:',
+  'مكتملة': 'Complete',
+  'مرفوضة': 'Rejected',
+  'معتمدة بشرط': 'Conditionally approved',
+  'يبقى اعتماد هذه المرحلة مشروطاً بإعادة اعتماد {phase} بعد إعادة فتحها: {reason}': 'This approval stands on condition that {phase} is approved again after its reopening: {reason}',
+  'نشطة الآن': 'Active now',
+  'قادمة': 'Upcoming',
+  'الأدوات المنهجية': 'Methodology tools',
+  'المسودات': 'Drafts',
+  'لم تُنشر': 'Unpublished',
+  'عرض المسودات وإدارة النسخ': 'View drafts and manage versions',
+  'عرض نصوص المسودات': 'Read the drafts',
+  'بوابة مجلس الإدارة: {gate}': 'Board gate: {gate}',
+  'بانتظار اكتمال المراحل السابقة': 'Waiting for the previous phases',
+  'مغلقة': 'Closed',
+  'تم اعتماد المرحلة {rule} ({approve}/{eligible})': 'Phase approved — {rule} ({approve}/{eligible})',
+  'معتمدة': 'Approved',
+  'شهادة الاعتماد (PDF)': 'Approval certificate (PDF)',
+  'تقدم التصويت': 'Voting progress',
+  '{count} من {total}': '{count} of {total}',
+  'مرفوضة — أعيدت للمراجعة': 'Rejected — returned for revision',
+  'لم يعد بالإمكان تحقيق قاعدة الاعتماد؛ تُعاد المسودات للتعديل، وبعد نشر نسخة جديدة يجدد الأعضاء أصواتهم.': 'The decision rule can no longer be met. The drafts go back for revision, and members renew their votes once a new version is published.',
+  'انتهت مهلة التصويت دون تحقيق قاعدة الاعتماد؛ تُعاد المسودات للتعديل ثم يفتح رئيس المجلس باب تصويت جديد.': 'Voting closed without meeting the decision rule. The drafts go back for revision, then the chair opens a new vote.',
+  'نُشرت نسخة جديدة من المسودات بعد تصويتك ({decision}). راجع التعديلات ثم جدد تصويتك.': 'A new version of the drafts was published after your vote ({decision}). Review the changes, then renew your vote.',
+  'دورك ({role}) يتيح متابعة البوابة دون التصويت عليها.': 'Your role ({role}) lets you follow the gate without voting on it.',
+  'تصويت بالموافقة والاعتماد': 'Vote to approve',
+  'اعتراض': 'Reject',
+  'امتناع عن التصويت': 'Abstain',
+  'التنحي لتعارض المصالح': 'Recuse for a conflict of interest',
+  'يُستبعد المتنحي من نصاب هذه البوابة ومن حساب نتيجتها، ويُذكر تنحيه وسببه في محضر الاعتماد.': 'A recused member is left out of this gate\'s quorum and result. The recusal and its reason are recorded in the approval minutes.',
+  'مبررات الاعتراض (إلزامية)...': 'Reasons for rejecting (required)...',
+  'سبب التنحي وطبيعة المصلحة (إلزامي)...': 'Reason for recusal and the nature of the interest (required)...',
+  'تأكيد الاعتراض': 'Confirm rejection',
+  'تأكيد التنحي': 'Confirm recusal',
+  'تراجع': 'Back',
+  'تم تسجيل تنحيك لتعارض المصالح': 'Your recusal for a conflict of interest is recorded',
+  'تم تسجيل تصويتك ({decision})': 'Your vote is recorded ({decision})',
+  'إضافة تعليق (اختياري)...': 'Add a comment (optional)...',
+  'إرسال': 'Send',
+  'المهام ومؤشرات الأداء ({title})': 'Tasks and performance ({title})',
+  'متابعة إنجاز المهام المسندة لأعضاء مجلس الإدارة': 'Progress on the tasks assigned to board members',
+  'البطاقات': 'Cards',
+  'المخطط الزمني': 'Timeline',
+  'مؤشر الأداء الخاص بك': 'Your performance',
+  'إجمالي المهام': 'Total tasks',
+  'المهام المنجزة': 'Completed tasks',
+  'نسبة الإنجاز': 'Completion',
+  'مرحلة {number}': 'Phase {number}',
+  'الأعضاء المكلفون ({done}/{total} أنجزوا):': 'Assignees ({done}/{total} done):',
+  'أعادها {name}: {note}': 'Sent back by {name}: {note}',
+  'التفاصيل والأدلة': 'Details and evidence',
+  'مراجعة المهمة واعتمادها': 'Review and accept the task',
+  'تحديث الإنجاز والأدلة': 'Update progress and evidence',
+
+  // --- Admin console ---
+  'الخطط': 'Plans',
+  'الأصوات': 'Votes',
+  'الأعضاء': 'Members',
+  'المراحل': 'Phases',
+  'المهام': 'Tasks',
+  'سجل التدقيق': 'Audit log',
+  'إدارة النظام ({role})': 'Administration ({role})',
+  'صلاحيات المدير': 'administrator',
+  'الخطة "{title}" مؤرشفة للاطلاع فقط؛ استعدها من تبويب الخطط لتعديلها.': 'The plan "{title}" is archived and read-only; restore it from the Plans tab to edit it.',
+  'إلغاء جميع الأصوات': 'Remove all votes',
+  'إعادة فتح البوابة': 'Reopen gate',
+  'أُعيد فتح بوابة المرحلة {number}.': 'The phase {number} gate was reopened.',
+  'سبب إعادة فتح البوابة (إلزامي، يظهر في سجل التصويت)...': 'Reason for reopening the gate (required, shown in the voting history)...',
+  'صُوّت على مراحل لاحقة بعد اعتماد هذه البوابة: {phases}': 'Later phases were voted on after this gate was approved: {phases}',
+  'إلغاء أصوات المراحل اللاحقة أيضاً': 'Remove the votes on those phases too',
+  'الإبقاء عليها معتمدة بشرط إعادة اعتماد هذه البوابة': 'Keep them approved, on condition this gate is approved again',
+  'تأكيد إعادة الفتح': 'Confirm reopening',
+  'لا توجد أصوات في هذه المرحلة.': 'No votes in this phase.',
+  'إلغاء صوت العضو': 'Remove this member\'s vote',
+  'تم حفظ المرحلة {number}': 'Phase {number} saved',
+  'تم حذف المرحلة {number}': 'Phase {number} deleted',
+  'تمت إضافة مرحلة جديدة': 'New phase added',
+  'تم حفظ المهمة: {title}': 'Task saved: {title}',
+  'تم حذف المهمة: {title}': 'Task deleted: {title}',
+  'تمت إضافة المهمة: {title}': 'Task added: {title}',
+  'تم تعيين رمز الدخول للعضو {name}': 'PIN set for {name}',
+  'تمت إضافة العضو {name}': '{name} added',
+  'تعيين رمز دخول جديد ينهي جميع جلسات العضو الحالية. العضو المعطل لا يستطيع الدخول ولا يُحتسب في النصاب، وكذلك المراقب لا يصوّت ولا يُحتسب فيه.': 'Setting a new PIN ends all of the member\'s current sessions. A deactivated member cannot sign in and does not count towards quorum; neither does an observer, who cannot vote.',
+  'يحدد الدور صلاحيات العضو: الرئيس يدير البوابات، وأمين السر يدير المحاضر والتذكيرات، وفريق الاستراتيجية يحرر المسودات.': 'The role sets what a member may do: the chair manages gates, the secretary manages minutes and reminders, and the strategy team edits drafts.',
+  'يُضاف العضو الجديد إلى {plan}، وتُدار عضوية الخطط الأخرى من تبويب الخطط.': 'New members are added to {plan}; membership of other plans is managed from the Plans tab.',
+  'الخطة الحالية': 'the current plan',
+  'تم حفظ بيانات {name}': '{name}\'s details saved',
+  'رقم الهوية': 'National ID',
+  'الاسم مع اللقب': 'Name with title',
+  'مدير نظام': 'Administrator',
+  'إضافة عضو': 'Add member',
+  'نشط': 'Active',
+  'رمز الدخول مفعل': 'PIN set',
+  'بدون رمز دخول': 'No PIN',
+  'رمز جديد': 'New PIN',
+  'تعيين': 'Set',
+  'الدور في المجلس': 'Board role',
+  'مرحلة جديدة': 'New phase',
+  'عنوان المرحلة': 'Phase title',
+  'الأدوات المنهجية (سطر لكل أداة)': 'Methodology tools (one per line)',
+  'قاعدة الاعتماد': 'Approval rule',
+  'النصاب (% من الأعضاء النشطين)': 'Quorum (% of active members)',
+  'عنوان المهمة': 'Task title',
+  'إضافة مهمة': 'Add task',
+  'المرحلة المرتبطة': 'Related phase',
+  'بدون مرحلة': 'No phase',
+  'المخرجات': 'Deliverables',
+  'مراجع المهمة': 'Task reviewer',
+  'الأعضاء المكلفون': 'Assignees',
+  'تعتمد على (لا تبدأ قبل انتهاء)': 'Depends on (cannot start before these finish)',
+
+  // --- Plans ---
+  'لكل خطة مراحلها ومهامها وأعضاؤها. الخطة المؤرشفة تبقى متاحة للاطلاع ولا يمكن تعديلها، ويمكن نسخها لبدء دورة جديدة بالمراحل والمهام نفسها.': 'Each plan has its own phases, tasks and members. An archived plan stays available to read but cannot be edited; it can be cloned to start a new cycle with the same phases and tasks.',
+  'تم حفظ الخطة: {title}': 'Plan saved: {title}',
+  'تم إنشاء الخطة: {title}': 'Plan created: {title}',
+  'أرشفة "{title}"؟ ستبقى متاحة للاطلاع فقط.': 'Archive "{title}"? It will be read-only.',
+  'تمت أرشفة الخطة: {title}': 'Plan archived: {title}',
+  'عنوان الخطة': 'Plan title',
+  'مؤرشفة': 'Archived',
+  'تمت استعادة الخطة: {title}': 'Plan restored: {title}',
+  'استعادة': 'Restore',
+  'أرشفة': 'Archive',
+  'نسخ كقالب': 'Clone as template',
+  'منسوخة من: {title}': 'Cloned from: {title}',
+  'عنوان الخطة الجديدة': 'New plan title',
+  'تاريخ البداية (تُزاح مواعيد المهام بالفرق نفسه)': 'Start date (task dates shift by the same amount)',
+  'إنشاء النسخة': 'Create clone',
+  'أعضاء الخطة ({count})': 'Plan members ({count})',
+
+  // --- Audit log ---
+  'تصويت': 'Vote',
+  'تنحٍّ لتعارض المصالح': 'Recusal (conflict of interest)',
+  'تعليق على صوت': 'Comment on a vote',
+  'تغيير صوت': 'Vote changed',
+  'سحب صوت': 'Vote withdrawn',
+  'إلغاء صوت': 'Vote removed',
+  'إلغاء جميع أصوات المرحلة': 'All phase votes removed',
+  'إعادة فتح بوابة': 'Gate reopened',
+  'فتح باب التصويت': 'Voting opened',
+  'تمديد مهلة التصويت': 'Voting deadline extended',
+  'إغلاق التصويت عند انتهاء المهلة': 'Voting closed at the deadline',
+  'منح توكيل بالتصويت': 'Voting proxy granted',
+  'إلغاء توكيل بالتصويت': 'Voting proxy revoked',
+  'بدء نقاش': 'Discussion started',
+  'رد في نقاش': 'Reply in a discussion',
+  'تعديل مشاركة في نقاش': 'Discussion post edited',
+  'حسم نقاش': 'Discussion resolved',
+  'إعادة فتح نقاش': 'Discussion reopened',
+  'إنجاز مهمة': 'Task completed',
+  'إلغاء إنجاز مهمة': 'Task completion undone',
+  'تحديث نسبة إنجاز': 'Progress updated',
+  'إضافة دليل إنجاز': 'Evidence added',
+  'اعتماد مهمة': 'Task accepted',
+  'إعادة مهمة للمكلفين': 'Task returned to assignees',
+  'تعديل عضو': 'Member updated',
+  'تعيين رمز دخول': 'PIN set',
+  'تعديل تفضيلات التذكير': 'Reminder preferences updated',
+  'إنشاء رابط اشتراك التقويم': 'Calendar subscription link created',
+  'إيقاف رابط اشتراك التقويم': 'Calendar subscription link stopped',
+  'إضافة مرحلة': 'Phase added',
+  'تعديل مرحلة': 'Phase updated',
+  'حذف مرحلة': 'Phase deleted',
+  'تعديل مهمة': 'Task updated',
+  'حذف مهمة': 'Task deleted',
+  'إضافة مسودة': 'Add draft',
+  'تعديل عنوان مسودة': 'Draft renamed',
+  'حذف مسودة': 'Draft deleted',
+  'نشر نسخة مسودة': 'Draft version published',
+  'إنشاء خطة': 'Create plan',
+  'تعديل خطة': 'Plan updated',
+  'أرشفة خطة': 'Plan archived',
+  'استعادة خطة من الأرشيف': 'Plan restored from archive',
+  'مرحلة من خطة أخرى (#{id})': 'Phase of another plan (#{id})',
+  'يتحقق الفحص من تسلسل القيود وبصماتها للكشف عن أي تعديل أو حذف.': 'The check verifies the sequence and hashes of the entries to detect any change or deletion.',
+  'السجل سليم ({count} قيد)': 'The log is intact ({count} entries)',
+  'احتفظ ببصمة آخر قيد في محضر الاجتماع؛ تطابقها لاحقاً يثبت عدم حذف قيود من نهاية السجل.': 'Record the hash of the latest entry in the meeting minutes; a later match proves no entries were deleted from the end of the log.',
+  'تم اكتشاف تلاعب بالسجل عند القيد رقم {entry} (سليم حتى {count} قيد)': 'Tampering detected at entry {entry} (intact up to {count} entries)',
+  'التحقق من سلامة السجل': 'Verify log integrity',
+  'كل الأعضاء': 'All members',
+  'كل المراحل': 'All phases',
+  'كل الإجراءات': 'All actions',
+  'لا توجد قيود مطابقة.': 'No matching entries.',
+  'بواسطة {name}': 'by {name}',
+  'العضو: {name}': 'Member: {name}',
+  'المهمة {id}': 'Task {id}',
+  'المسودة {id}': 'Draft {id}',
+  'قبل / بعد': 'Before / after',
+  'تحميل المزيد': 'Load more',
+
+  // --- Calendar ---
+  'سيتوقف الرابط الحالي عن العمل في التقويمات المشتركة به. متابعة؟': 'Calendars subscribed to the current link will stop updating. Continue?',
+  'إيقاف رابط الاشتراك؟ ستتوقف التقويمات المشتركة عن التحديث.': 'Stop the subscription link? Subscribed calendars will stop updating.',
+  'تم نسخ رابط الاشتراك': 'Subscription link copied',
+  'يتضمن التقويم مهامك المسندة إليك، ونوافذ المراحل، ومواعيد التصويت على بوابات الاعتماد.': 'The calendar includes the tasks assigned to you, phase windows and gate voting dates.',
+  'تنزيل لمرة واحدة': 'One-time download',
+  'تنزيل ملف ‎.ics': 'Download .ics file',
+  'اشتراك يتحدث تلقائياً': 'Auto-updating subscription',
+  'انسخ الرابط الآن وأضفه إلى تطبيق التقويم؛ لن يُعرض مرة أخرى. لا تشاركه مع غيرك.': 'Copy the link now and add it to your calendar app; it will not be shown again. Do not share it.',
+  'نسخ': 'Copy',
+  'فتح في تطبيق التقويم': 'Open in calendar app',
+  'لديك رابط اشتراك فعّال منذ {date}. لعرضه مجدداً أنشئ رابطاً جديداً.': 'You have had an active subscription link since {date}. To see it again, create a new link.',
+  'لا يوجد رابط اشتراك بعد.': 'No subscription link yet.',
+  'إنشاء رابط جديد': 'Create new link',
+  'إنشاء رابط اشتراك': 'Create subscription link',
+  'إيقاف الرابط': 'Stop link',
+
+  // --- Drafts ---
+  'تمت إضافة المسودة: {title}': 'Draft added: {title}',
+  'مسودات المرحلة {number}: {title}': 'Phase {number} drafts: {title}',
+  'لا توجد مسودات في هذه المرحلة.': 'No drafts in this phase.',
+  'عنوان مسودة جديدة': 'New draft title',
+  'تم نشر النسخة {version} من {title}': 'Version {version} of {title} published',
+  'تم تعديل عنوان المسودة': 'Draft renamed',
+  'الحالية': 'current',
+  'مقارنة مع نسخة سابقة': 'Compare with an earlier version',
+  'بدون مقارنة': 'No comparison',
+  'مقارنة مع النسخة {version}': 'Compare with version {version}',
+  'نشر نسخة جديدة': 'Publish new version',
+  'تم حذف المسودة: {title}': 'Draft deleted: {title}',
+  'لم تُنشر أي نسخة من هذه المسودة بعد.': 'No version of this draft has been published yet.',
+  'نشرها: {name}': 'Published by: {name}',
+  'ملاحظة النسخة: {note}': 'Version note: {note}',
+  'المرفقات': 'Attachments',
+  'تعديل العنوان': 'Rename',
+  'النسخة {version} من: {title}': 'Version {version} of: {title}',
+  'نص المسودة (Markdown)': 'Draft text (Markdown)',
+  'ملاحظة النسخة (ما الذي تغير؟)': 'Version note (what changed?)',
+  'مرفقات (حتى 5 ملفات، 5 ميجابايت لكل ملف)': 'Attachments (up to 5 files, 5 MB each)',
+  'نشر نسخة جديدة يجعل الأصوات المسجلة على النسخ السابقة في هذه المرحلة بحاجة إلى تجديد.': 'Publishing a new version means votes cast on earlier versions in this phase must be renewed.',
+  'نشر النسخة': 'Publish version',
+
+  // --- Timeline ---
+  'لا توجد مهام لعرضها على المخطط الزمني.': 'There are no tasks to show on the timeline.',
+  'المسار الحرج ({days} يوماً):': 'Critical path ({days} days):',
+  'حرجة': 'Critical',
+  'لها فائض': 'Has slack',
+  'الفائض الزمني': 'Slack',
+  'اليوم': 'Today',
+  'المهمة': 'Task',
+  'الفترة المخططة:': 'Planned period:',
+  'المدة:': 'Duration:',
+  '{days} يوماً': '{days} days',
+  'أبكر بداية:': 'Earliest start:',
+  'آخر موعد للانتهاء:': 'Latest finish:',
+  'الفائض الزمني:': 'Slack:',
+  'لا يوجد (مهمة حرجة)': 'None (critical task)',
+  'تعتمد على:': 'Depends on:',
+  'تبدأ المهمة قبل انتهاء المهام التي تعتمد عليها بـ {days} يوماً؛ يلزم تعديل التواريخ.': 'The task starts {days} days before the tasks it depends on finish; its dates need adjusting.',
+
+  // --- Notifications ---
+  'الإشعارات': 'Notifications',
+  '({count} غير مقروءة)': '({count} unread)',
+  'تعليم الكل كمقروء': 'Mark all as read',
+  'لا توجد إشعارات.': 'No notifications.',
+  'جاري التحميل...': 'Loading...',
+  'عرض الإشعارات الأقدم': 'Show older notifications',
+  'أُسندت إليك مهمة: {task} ({startDate} — {endDate})': 'You were assigned a task: {task} ({startDate} – {endDate})',
+  'مهمة بانتظار مراجعتك: {task}': 'A task is waiting for your review: {task}',
+  'أعاد {name} مهمة {task} للمكلفين: {note}': '{name} returned {task} to its assignees: {note}',
+  'انتقلت الخطة إلى المرحلة {phase} من {plan}: {title}؛ يُعلن موعد التصويت عند فتحه.': '{plan} moved to phase {phase}: {title}. The voting deadline is announced when voting opens.',
+  'فُتح التصويت على المرحلة {phase} من {plan}: {title}، حتى {closesAt}': 'Voting opened on phase {phase} of {plan}: {title}, until {closesAt}',
+  'مُدّدت مهلة التصويت على المرحلة {phase} من {plan} حتى {closesAt}: {reason}': 'Voting on phase {phase} of {plan} was extended until {closesAt}: {reason}',
+  'انتهت مهلة التصويت على المرحلة {phase} من {plan} واعتُمدت البوابة بالأصوات المستلمة.': 'Voting on phase {phase} of {plan} closed and the gate was approved on the votes received.',
+  'انتهت مهلة التصويت على المرحلة {phase} من {plan} دون اعتماد البوابة.': 'Voting on phase {phase} of {plan} closed without approving the gate.',
+  'علّق {name} على المرحلة {phase} من {plan}: {comment}': '{name} commented on phase {phase} of {plan}: {comment}',
+  'ألغى {name} صوتك في المرحلة {phase} من {plan}؛ يمكنك التصويت مجدداً.': '{name} removed your vote on phase {phase} of {plan}; you can vote again.',
+  'أعاد {name} فتح بوابة المرحلة {phase} من {plan} وأُلغيت الأصوات عليها: {reason}': '{name} reopened the gate of phase {phase} of {plan} and its votes were cleared: {reason}',
+  'أُلغيت الأصوات على المرحلة {phase} من {plan} بعد إعادة فتح بوابة المرحلة {gate}: {reason}': 'Votes on phase {phase} of {plan} were cleared after the gate of phase {gate} was reopened: {reason}',
+  'أصبح اعتماد المرحلة {phase} من {plan} مشروطاً بإعادة اعتماد بوابة المرحلة {gate}: {reason}': 'Approval of phase {phase} of {plan} now depends on the gate of phase {gate} being approved again: {reason}',
+  'وكّل {grantor} {holder} بالتصويت على المرحلة {phase} من {plan} من {fromDate} إلى {untilDate}.': '{grantor} gave {holder} a proxy to vote on phase {phase} of {plan} from {fromDate} to {untilDate}.',
+  'ألغى {name} توكيل {grantor} لـ{holder} على المرحلة {phase} من {plan}.': '{name} revoked the proxy {grantor} gave {holder} on phase {phase} of {plan}.',
+  'أشار إليك {name} في نقاش «{thread}» على المرحلة {phase} من {plan}: {post}': '{name} mentioned you in the discussion "{thread}" on phase {phase} of {plan}: {post}',
+  'ردّ {name} في نقاش «{thread}» على المرحلة {phase} من {plan}: {post}': '{name} replied in the discussion "{thread}" on phase {phase} of {plan}: {post}',
+
+  // --- Printable report ---
+  'جمعية آزِر لمرضى الأورام بتبوك': 'Azer Society for Cancer Patients, Tabuk',
+  'شهادة اعتماد المرحلة {number} - {title}': 'Phase {number} approval certificate - {title}',
+  'تقرير الخطة الاستراتيجية - {title}': 'Strategic plan report - {title}',
+  'طباعة / حفظ PDF': 'Print / save as PDF',
+  'مجلس الإدارة — نظام المسودات المتصاعدة': 'Board of Directors — escalating drafts system',
+  'تاريخ الإصدار: {date}': 'Issued: {date}',
+  'صدرت هذه الوثيقة آلياً من سجلات التصويت في النظام، وتُطابق مع سجل التدقيق عند الحاجة.': 'This document was generated from the system\'s voting records and can be checked against the audit log when needed.',
+  'شهادة اعتماد بوابة مرحلة': 'Phase gate approval certificate',
+  'محضر قرار مجلس الإدارة': 'Record of board resolution',
+  'مسودة غير نهائية: لم تُعتمد هذه البوابة بعد.': 'Not final: this gate has not been approved yet.',
+  'الخطة': 'Plan',
+  'المرحلة': 'Phase',
+  ' — النصاب {percent}%': ' — quorum {percent}%',
+  'نتيجة التصويت': 'Vote result',
+  'موافق {approve} · معترض {reject} · ممتنع {abstain} — من أصل {eligible} أعضاء': 'Approve {approve} · Reject {reject} · Abstain {abstain} — of {eligible} members',
+  ' (بعد استبعاد {recused} متنحين لتعارض المصالح)': ' (after excluding {recused} recused for a conflict of interest)',
+  'تاريخ الاعتماد': 'Approval date',
+  'رئيس مجلس الإدارة': 'Chair of the Board',
+  'أمين سر المجلس': 'Board Secretary',
+  'تقرير الخطة الاستراتيجية: {title}': 'Strategic plan report: {title}',
+  'تقرير الخطة الاستراتيجية': 'Strategic plan report',
+  'المراحل المعتمدة {approved} من {phases} · المهام المكتملة {completed} من {tasks} · الأعضاء أصحاب حق التصويت {voters}': 'Phases approved {approved} of {phases} · Tasks completed {completed} of {tasks} · Voting members {voters}',
+  'معتمدة بتاريخ {date}': 'Approved on {date}',
+  'قيد التصويت': 'Voting in progress',
+  'الحالة:': 'Status:',
+  'البوابة:': 'Gate:',
+  'القاعدة:': 'Rule:',
+  'الأصوات:': 'Votes:',
+  'موافق {approve} / معترض {reject} / ممتنع {abstain}': 'Approve {approve} / Reject {reject} / Abstain {abstain}',
+  ' / متنحٍّ {recused}': ' / Recused {recused}',
+  'المكلفون': 'Assignees',
+  'الفترة': 'Period',
+  'الإنجاز': 'Progress',
+  'الحالة': 'Status',
+  'جميع الأعضاء': 'All members',
+  'لم تُنشر نسخة': 'No version published',
+  'العضو': 'Member',
+  'القرار': 'Decision',
+  'وقت التصويت': 'Voted at',
+  'التعليق / المبررات': 'Comment / reasons',
+
+  // --- Discussions ---
+  'حفظ التعديل': 'Save changes',
+  'عُدّلت في {time}': 'Edited {time}',
+  'معدّلة': 'edited',
+  'تعديل المشاركة': 'Edit post',
+  'حتى {time}:': 'Until {time}:',
+  'النقاشات': 'Discussions',
+  '({open} مفتوحة من {total})': '({open} open of {total})',
+  'المرحلة كاملة': 'The phase as a whole',
+  'مسودة: {title}': 'Draft: {title}',
+  'عنوان النقاش': 'Discussion title',
+  'اكتب أول مشاركة...': 'Write the first post...',
+  'نشر': 'Post',
+  '{count} مشاركة': '{count} posts',
+  'محسوم': 'Resolved',
+  'حسمه {name} في {time}': 'Resolved by {name} on {time}',
+  'اكتب رداً...': 'Write a reply...',
+  'رد': 'Reply',
+  'إعادة فتح النقاش': 'Reopen discussion',
+  'تعليم كمحسوم': 'Mark as resolved',
+
+  // --- Vote history ---
+  'صوّت {name}: {decision}': '{name} voted: {decision}',
+  'جدّد {name} تصويته على النسخة الجديدة: {decision}': '{name} renewed their vote on the new version: {decision}',
+  'غيّر {name} تصويته إلى: {decision}': '{name} changed their vote to: {decision}',
+  'أضاف {name} تعليقاً على صوته': '{name} added a comment to their vote',
+  'سحب {name} تصويته ({decision})': '{name} withdrew their vote ({decision})',
+  'أُلغي صوت {name} ({decision})': '{name}\'s vote was removed ({decision})',
+  'أُلغي صوت {name} مع جميع أصوات المرحلة ({decision})': '{name}\'s vote was removed with all votes on the phase ({decision})',
+  'سجل التصويت': 'Voting history',
+  'لم يُسجل أي تصويت على هذه المرحلة بعد.': 'No votes have been recorded on this phase yet.',
+  '(بواسطة {name})': '(by {name})',
+  'السبب: {reason}': 'Reason: {reason}',
+  'تغيير التصويت إلى: {decision}': 'Change vote to: {decision}',
+  'سحب التصويت': 'Withdraw vote',
+  'سبب سحب التصويت (إلزامي)...': 'Reason for withdrawing (required)...',
+  'سبب تغيير التصويت (إلزامي)...': 'Reason for the change (required)...',
+  'يظهر السبب في سجل التصويت لجميع الأعضاء.': 'The reason is shown to all members in the voting history.',
+  'تأكيد سحب التصويت': 'Confirm withdrawal',
+  'تأكيد تغيير التصويت': 'Confirm change',
+  'أعاد {name} فتح البوابة': '{name} reopened the gate',
+  'أعاد {name} فتح بوابة سابقة وأُلغيت أصوات هذه المرحلة': '{name} reopened an earlier gate and this phase\'s votes were removed',
+  'أعاد {name} فتح بوابة سابقة وأصبح اعتماد هذه المرحلة مشروطاً بإعادة اعتمادها': '{name} reopened an earlier gate; this phase\'s approval now depends on it being approved again',
+
+  // --- Voting windows ---
+  '{days} يوم و{hours} ساعة': '{days} d {hours} h',
+  '{hours} ساعة و{minutes} دقيقة': '{hours} h {minutes} min',
+  '{minutes} دقيقة و{seconds} ثانية': '{minutes} min {seconds} s',
+  'يُغلق التصويت بعد {time}': 'Voting closes in {time}',
+  'موعد الإغلاق: {time}': 'Closes: {time}',
+  'انتهت مهلة التصويت؛ تُحتسب النتيجة من الأصوات المستلمة.': 'The deadline has passed; the outcome is being computed from the votes received.',
+  'أُغلق التصويت في {time} دون اعتماد البوابة.': 'Voting closed on {time} without approving the gate.',
+  'لم يُفتح باب التصويت على هذه البوابة بعد.': 'Voting on this gate has not been opened yet.',
+  'مدّد {name} المهلة من {from} إلى {to}: {reason}': '{name} extended the deadline from {from} to {to}: {reason}',
+  'تمديد المهلة': 'Extend deadline',
+  'فتح باب التصويت على البوابة': 'Open voting on this gate',
+  'فتح باب تصويت جديد': 'Open a new vote',
+  'موعد الإغلاق الجديد': 'New deadline',
+  'يُغلق التصويت في': 'Voting closes on',
+  'مبرر التمديد (إلزامي، يُسجل مع المهلة)...': 'Justification for the extension (required, kept with the deadline)...',
+  'تأكيد التمديد': 'Confirm extension',
+  'فتح التصويت': 'Open voting',
+
+  // --- Progress analytics ---
+  'منحنى الإنجاز: المخطط مقابل الفعلي': 'Burn-up: planned vs actual',
+  'المخطط مبني على تواريخ المهام، والفعلي على المهام المقبولة كما سُجلت يوماً بيوم.': 'Planned follows the task dates; actual follows accepted tasks as recorded day by day.',
+  'المخطط': 'Planned',
+  'الفعلي': 'Actual',
+  'مدة اعتماد البوابات (بالأيام)': 'Time to gate approval (days)',
+  'لم تُفتح أي بوابة للتصويت بعد.': 'No gate has been opened for voting yet.',
+  'حتى الاعتماد': 'Until approval',
+  'قيد التصويت حتى الآن': 'In voting so far',
+  'تطور الإنجاز لكل عضو': 'Completions per member over time',
+  'يظهر الاتجاه بعد تسجيل يومين على الأقل من تاريخ بدء التسجيل.': 'The trend appears once at least two days have been recorded.',
+
+  // --- Spreadsheets ---
+  'تصدير البيانات': 'Export data',
+  'جميع الجداول': 'All tables',
+  '{label} في ملف Excel واحد': '{label} in one Excel file',
+  'أصوات المراحل وتعليقاتها': 'Phase votes and comments',
+  'مؤشرات أداء الأعضاء': 'Member KPIs',
+  'استيراد المهام من جدول بيانات': 'Import tasks from a spreadsheet',
+  'ملف CSV أو XLSX صفه الأول عناوين الأعمدة: عنوان المهمة، المكلفون (أرقام الهوية)، تاريخ البداية، تاريخ النهاية، المخرجات، المرحلة (رقمها).': 'A CSV or XLSX file whose first row holds the column headings: title, assignees (national IDs), start date, end date, deliverables, phase (its number).',
+  'اختيار ملف': 'Choose file',
+  '{invalid} من {total} صفوف في {file} تحتاج إلى تصحيح؛ لن تُستورد أي مهمة قبل تصحيحها.': '{invalid} of {total} rows in {file} need fixing; no task is imported until they are fixed.',
+  'جميع الصفوف ({total}) في {file} جاهزة للاستيراد.': 'All {total} rows in {file} are ready to import.',
+  'الصف': 'Row',
+  'المدة': 'Dates',
+  'استيراد {count} مهمة': 'Import {count} tasks',
+  'تم استيراد {count} مهمة من {file}': 'Imported {count} tasks from {file}',
+  'توجد مهمة بالعنوان نفسه في الخطة أو في صف سابق.': 'A task with the same title already exists in the plan or an earlier row.',
+  'رقم الهوية {id} غير صالح.': 'National ID {id} is not valid.',
+  'رقم الهوية {id} غير مسجل.': 'National ID {id} is not registered.',
+  'العضو {name} غير نشط.': '{name} is not an active member.',
+  'العضو {name} ليس من أعضاء هذه الخطة.': '{name} is not a member of this plan.',
+  'تاريخ البداية «{value}» غير صالح؛ استخدم الصيغة YYYY-MM-DD.': 'Start date "{value}" is not valid; use YYYY-MM-DD.',
+  'تاريخ النهاية «{value}» غير صالح؛ استخدم الصيغة YYYY-MM-DD.': 'End date "{value}" is not valid; use YYYY-MM-DD.',
+  'المرحلة «{value}» غير موجودة في هذه الخطة.': 'Phase "{value}" does not exist in this plan.',
+
+  // --- Proxies ---
+  'ملغى': 'Revoked',
+  'سارٍ': 'Active',
+  'لم يبدأ': 'Not yet valid',
+  'منتهٍ': 'Expired',
+  'أنا {name} أوكّل {holder} بالتصويت نيابة عني على بوابة المرحلة {number} ({title}) خلال مدة التوكيل.': 'I, {name}, authorise {holder} to vote on my behalf on the gate of phase {number} ({title}) for the duration of this proxy.',
+  'إلغاء توكيل {grantor} لـ{holder}؟': 'Revoke {grantor}\'s proxy to {holder}?',
+  'التوكيلات بالتصويت': 'Voting proxies',
+  'توكيل عضو آخر': 'Appoint a proxy',
+  'التصويت بالإنابة عن {name}': 'Voting on behalf of {name}',
+  'موافقة': 'Approve',
+  'امتناع': 'Abstain',
+  'اختر العضو الموكَّل...': 'Choose the proxy holder...',
+  'من': 'From',
+  'إلى': 'To',
+  'نص التوكيل (يُملأ تلقائياً إن تُرك فارغاً)': 'Proxy statement (filled in automatically if left blank)',
+  'منح التوكيل': 'Grant proxy',
+  'وكّل': 'appointed',
+  'إلغاء التوكيل': 'Revoke proxy',
+  'ألغاه {name} في {date}': 'Revoked by {name} on {date}',
+
+  // --- Reminders ---
+  'البريد الإلكتروني': 'Email',
+  'رسالة نصية': 'SMS',
+  'إيقاف التذكيرات': 'Reminders off',
+  'فور استحقاق كل بند': 'As each item falls due',
+  'ملخص يومي': 'Daily digest',
+  'ملخص أسبوعي (الأحد)': 'Weekly digest (Sunday)',
+  'تم حفظ تفضيلات التذكير': 'Reminder preferences saved',
+  'أُرسلت رسالة تجريبية': 'Test message sent',
+  'أُرسل {sent} تذكير': '{sent} reminders sent',
+  '، وتعذر إرسال {failed}': ', {failed} failed',
+  'تذكيرات بالتصويت المطلوب على المرحلة الحالية، وبالمهام التي يقترب موعدها أو تأخرت.': 'Reminders about votes due on the current phase and about tasks that are due soon or overdue.',
+  'قناة التذكير': 'Reminder channel',
+  'غير مفعلة': 'not configured',
+  'رقم الجوال': 'Mobile number',
+  'التكرار': 'Frequency',
+  'التذكير قبل الموعد (أيام)': 'Remind before due date (days)',
+  'يرسل إلى القناة المحفوظة': 'Sends to the saved channel',
+  'رسالة تجريبية': 'Test message',
+  'إرسال التذكيرات المستحقة الآن لجميع الأعضاء': 'Send due reminders to all members now',
+
+  // --- Task details ---
+  'تم تحديث نسبة الإنجاز إلى {percent}%': 'Progress updated to {percent}%',
+  'تم اعتماد المهمة': 'Task accepted',
+  'أعيدت المهمة للمكلفين': 'Task returned to assignees',
+  'المخرجات: {deliverables} · المراجع: {reviewer}': 'Deliverables: {deliverables} · Reviewer: {reviewer}',
+  'اعتمد {name} المهمة — {date}': '{name} accepted the task — {date}',
+  'سبق أن اعتمد {name} المهمة — {date}': '{name} previously accepted the task — {date}',
+  'أعاد {name} المهمة — {date}': '{name} returned the task — {date}',
+  'إنجاز المكلفين': 'Assignee progress',
+  'لم يُبلّغ بعد': 'Not reported yet',
+  'نسبة إنجازك': 'Your progress',
+  'ملاحظات عن التقدم (اختياري)': 'Progress notes (optional)',
+  'عند 100% يُعتبر جزؤك منجزاً ويُحال للمراجعة بعد اكتمال جميع المكلفين.': 'At 100% your part is done; the task goes to review once every assignee has finished.',
+  'تحديث الإنجاز': 'Update progress',
+  'أدلة الإنجاز': 'Evidence',
+  'لم تُرفع أدلة بعد.': 'No evidence uploaded yet.',
+  'تمت إضافة دليل الإنجاز': 'Evidence added',
+  'مراجعة المهمة': 'Task review',
+  'أكمل جميع المكلفين المهمة. راجع الأدلة ثم اعتمدها أو أعدها مع توضيح المطلوب.': 'All assignees have finished. Review the evidence, then accept the task or return it explaining what is needed.',
+  'ملاحظات المراجعة (مطلوبة عند الإعادة)': 'Review notes (required when returning)',
+  'اعتماد المهمة': 'Accept task',
+  'إعادة للمكلفين': 'Return to assignees',
+  'السجل': 'History',
+  'اعتماد بواسطة {name}': 'Accepted by {name}',
+  'إعادة بواسطة {name}': 'Returned by {name}',
+  'ملف': 'File',
+  'رابط': 'Link',
+  'وصف الدليل (اختياري)': 'Evidence description (optional)',
+  'إضافة الدليل': 'Add evidence',
+
+  // --- Server error messages ---
+  'حجم الطلب يتجاوز الحد المسموح.': 'The request is larger than allowed.',
+  'حدث خطأ غير متوقع في الخادم.': 'An unexpected server error occurred.',
+  'يجب تسجيل الدخول أولاً.': 'Please sign in first.',
+  'رقم الهوية أو رمز الدخول غير صحيح.': 'Incorrect national ID or PIN.',
+  'تم إيقاف الدخول مؤقتاً بسبب محاولات خاطئة متكررة. حاول لاحقاً.': 'Sign-in is temporarily blocked after repeated failed attempts. Try again later.',
+  'رمز الدخول الحالي غير صحيح.': 'The current PIN is incorrect.',
+  'العضو غير مسجل في النظام.': 'This member is not registered.',
+  'عضوية هذا العضو غير نشطة.': 'This member\'s membership is inactive.',
+  'هذا الإجراء متاح لمدير النظام فقط.': 'Only the system administrator can do this.',
+  'لا يمكنك تنفيذ هذا الإجراء نيابة عن عضو آخر.': 'You cannot do this on behalf of another member.',
+  'لا يمكنك إلغاء صلاحياتك أو تعطيل حسابك بنفسك.': 'You cannot remove your own administrator rights or deactivate your own account.',
+  'يجب أن يبقى مدير نظام نشط واحد على الأقل.': 'At least one active administrator must remain.',
+  'رقم الهوية مسجل مسبقاً.': 'This national ID is already registered.',
+  'رقم الهوية يجب أن يتكون من 10 أرقام.': 'The national ID must be 10 digits.',
+  'دور العضو غير معروف.': 'Unknown member role.',
+  'دور هذا العضو في المجلس لا يتضمن التصويت.': 'This member\'s board role does not include voting.',
+  'قيمة غير صالحة.': 'Invalid value.',
+  'الخطة غير موجودة.': 'Plan not found.',
+  'الخطة غير موجودة أو لست من أعضائها.': 'The plan does not exist or you are not a member of it.',
+  'الخطة غير مؤرشفة.': 'The plan is not archived.',
+  'لست عضواً في أي خطة بعد.': 'You are not a member of any plan yet.',
+  'أضف عضواً واحداً على الأقل إلى الخطة.': 'Add at least one member to the plan.',
+  'تاريخ نهاية الخطة يسبق تاريخ بدايتها.': 'The plan ends before it starts.',
+  'العضو ليس من أعضاء هذه الخطة.': 'The member is not part of this plan.',
+  'المرحلة غير موجودة.': 'Phase not found.',
+  'المرحلة المحددة ليست من مراحل هذه الخطة.': 'The selected phase is not part of this plan.',
+  'قاعدة الاعتماد غير معروفة.': 'Unknown approval rule.',
+  'نسبة النصاب يجب أن تكون بين 1 و 100.': 'Quorum must be between 1 and 100.',
+  'لا يمكن حذف مرحلة تحتوي على أصوات؛ ألغِ الأصوات أولاً.': 'A phase with votes cannot be deleted; remove the votes first.',
+  'لا يمكن حذف مرحلة تحتوي على مسودات؛ احذف المسودات أولاً.': 'A phase with drafts cannot be deleted; delete the drafts first.',
+  'لا يمكن حذف مرحلة سُجلت عليها توكيلات بالتصويت.': 'A phase with voting proxies cannot be deleted.',
+  'لا يمكن حذف مرحلة مرتبطة بمهام؛ انقل المهام أولاً.': 'A phase with tasks cannot be deleted; move the tasks first.',
+  'لا يمكن حذف مرحلة دارت عليها نقاشات.': 'A phase with discussions cannot be deleted.',
+  'لا يمكن حذف مرحلة لها سجل تصويت.': 'A phase with a voting history cannot be deleted.',
+  'التصويت متاح على المرحلة النشطة فقط.': 'Voting is only open on the active phase.',
+  'تم حسم نتيجة هذه البوابة ولا يمكن التصويت عليها.': 'This gate has been decided and can no longer be voted on.',
+  'اعتُمدت بوابة هذه المرحلة.': 'This phase\'s gate has been approved.',
+  'نوع التصويت غير معروف.': 'Unknown vote type.',
+  'نوع الإجراء غير معروف.': 'Unknown audit action.',
+  'يجب ذكر مبررات الاعتراض.': 'Reasons for rejecting are required.',
+  'يجب ذكر سبب التنحي.': 'A reason for recusal is required.',
+  'يعلن العضو تنحيه بنفسه ولا يصح التنحي بالإنابة.': 'Members declare their own recusal; it cannot be made by proxy.',
+  'لا يوجد صوت لهذا العضو على هذه المرحلة.': 'This member has no vote on this phase.',
+  'نُشرت نسخة جديدة من المسودات؛ جدّد التصويت بدلاً من تغييره.': 'A new version of the drafts has been published; renew the vote instead of changing it.',
+  'اذكر سبب تغيير التصويت.': 'Give a reason for changing the vote.',
+  'اذكر سبب سحب التصويت.': 'Give a reason for withdrawing the vote.',
+  'التوكيل غير موجود.': 'Proxy not found.',
+  'أُلغي هذا التوكيل مسبقاً.': 'This proxy has already been revoked.',
+  'حدد المرحلة التي يشملها التوكيل.': 'Choose the phase the proxy covers.',
+  'لا يمكن توكيل العضو لنفسه.': 'Members cannot appoint themselves as proxy.',
+  'التوكيل متاح بين أعضاء الخطة نفسها فقط.': 'Proxies are only possible between members of the same plan.',
+  'التوكيل متاح بين الأعضاء أصحاب حق التصويت فقط.': 'Proxies are only possible between voting members.',
+  'التوكيل متاح بين الأعضاء النشطين فقط.': 'Proxies are only possible between active members.',
+  'تاريخ نهاية التوكيل يسبق تاريخ بدايته.': 'The proxy ends before it starts.',
+  'انتهت مدة التوكيل قبل أن يبدأ.': 'The proxy period ended before it began.',
+  'يوجد توكيل قائم على هذه المرحلة؛ ألغِه أولاً.': 'A proxy already exists for this phase; revoke it first.',
+  'يلغي التوكيلَ الموكِّلُ أو الموكَّلُ أو مدير النظام فقط.': 'Only the grantor, the holder or the administrator can revoke a proxy.',
+  'المهمة غير موجودة.': 'Task not found.',
+  'تاريخ النهاية يسبق تاريخ البداية.': 'The end date is before the start date.',
+  'يجب إسناد المهمة لعضو واحد على الأقل.': 'Assign the task to at least one member.',
+  'لا يمكن إسناد مهمة لعضو غير نشط.': 'Tasks cannot be assigned to an inactive member.',
+  'لا يمكن إسناد مهمة لعضو من خارج الخطة.': 'Tasks cannot be assigned to a member outside the plan.',
+  'لا يمكن تعيين عضو غير نشط مراجعاً للمهمة.': 'An inactive member cannot review the task.',
+  'لا يمكن تعيين مراجع من خارج الخطة.': 'The reviewer must be a member of the plan.',
+  'لا يمكن أن تعتمد المهمة على نفسها.': 'A task cannot depend on itself.',
+  'لا يمكن حذف مهمة سُجّل لها تقدم أو أدلة إنجاز أو مراجعة.': 'A task with progress, evidence or a review cannot be deleted.',
+  'المهمة غير مسندة لهذا العضو.': 'The task is not assigned to this member.',
+  'نسبة الإنجاز يجب أن تكون بين 0 و 100.': 'Progress must be between 0 and 100.',
+  'اعتُمدت المهمة مسبقاً.': 'The task has already been accepted.',
+  'اعتُمدت المهمة من المراجع ولا يمكن تعديل إنجازها.': 'The reviewer has accepted the task; its progress can no longer change.',
+  'اعتُمدت المهمة من المراجع ولا يمكن إضافة أدلة جديدة.': 'The reviewer has accepted the task; no more evidence can be added.',
+  'لم يُكمل جميع المكلفين المهمة بعد.': 'Not every assignee has finished the task yet.',
+  'قرار المراجعة غير معروف.': 'Unknown review decision.',
+  'يجب توضيح سبب إعادة المهمة.': 'Explain why the task is being returned.',
+  'يرفع الأدلة المكلفون بالمهمة فقط.': 'Only the task\'s assignees can upload evidence.',
+  'الرابط يجب أن يبدأ بـ http:// أو https://': 'The link must start with http:// or https://',
+  'الملف غير موجود.': 'File not found.',
+  'الملف المرفق غير موجود.': 'Attachment not found.',
+  'المرفقات غير صالحة.': 'Invalid attachments.',
+  'المسودة غير موجودة.': 'Draft not found.',
+  'نص المسودة مطلوب.': 'The draft text is required.',
+  'لا يمكن حذف مسودة نُشرت لها نسخ.': 'A draft with published versions cannot be deleted.',
+  'لا يمكن حذف مسودة دارت عليها نقاشات.': 'A draft with discussions cannot be deleted.',
+  'النقاش غير موجود.': 'Discussion not found.',
+  'المشاركة غير موجودة.': 'Post not found.',
+  'نص المشاركة مطلوب.': 'The post text is required.',
+  'عنوان النقاش مطلوب.': 'The discussion title is required.',
+  'حدد المرحلة التي يدور عليها النقاش.': 'Choose the phase the discussion is about.',
+  'المسودة لا تتبع هذه المرحلة.': 'The draft does not belong to this phase.',
+  'النقاش متاح لأعضاء الخطة فقط.': 'Discussions are open to the plan\'s members only.',
+  'لا يمكنك الإشارة إلى نفسك.': 'You cannot mention yourself.',
+  'يمكن الإشارة إلى أعضاء الخطة فقط.': 'Only members of the plan can be mentioned.',
+  'حُسم هذا النقاش؛ أعد فتحه للرد.': 'This discussion is resolved; reopen it to reply.',
+  'حُسم هذا النقاش؛ أعد فتحه لتعديل المشاركات.': 'This discussion is resolved; reopen it to edit posts.',
+  'يعدّل المشاركةَ كاتبُها فقط.': 'Only the author can edit a post.',
+  'يحسم النقاشَ من بدأه أو من يدير البوابات فقط.': 'Only whoever started the discussion or those who manage gates can resolve it.',
+  'رقم النقاش غير صالح.': 'Invalid discussion ID.',
+  'رقم المشاركة غير صالح.': 'Invalid post ID.',
+  'قائمة الأعضاء المشار إليهم غير صالحة.': 'Invalid list of mentioned members.',
+  'أرقام الإشعارات غير صالحة.': 'Invalid notification IDs.',
+  'اختر قناة للتذكير أولاً.': 'Choose a reminder channel first.',
+  'قناة التذكير غير معروفة.': 'Unknown reminder channel.',
+  'هذه القناة غير مفعلة على الخادم.': 'This channel is not configured on the server.',
+  'تكرار التذكير غير معروف.': 'Unknown reminder frequency.',
+  'أدخل البريد الإلكتروني لتلقي التذكيرات عليه.': 'Enter an email address to receive reminders.',
+  'أدخل رقم الجوال لتلقي التذكيرات عليه.': 'Enter a mobile number to receive reminders.',
+  'البريد الإلكتروني غير صالح.': 'Invalid email address.',
+  'رقم الجوال غير صالح.': 'Invalid mobile number.',
+  'رابط التقويم غير صالح أو أُلغي.': 'The calendar link is invalid or has been revoked.',
+  'اعتُمدت هذه البوابة؛ أعد فتحها مع ذكر السبب بدلاً من إلغاء الأصوات.': 'This gate has been approved; reopen it with a reason instead of removing votes.',
+  'اذكر سبب إعادة فتح البوابة.': 'Give a reason for reopening the gate.',
+  'طريقة التعامل مع المراحل اللاحقة غير معروفة.': 'Unknown handling for later phases.',
+  'لم تُعتمد هذه البوابة بعد؛ يمكن إلغاء أصواتها مباشرة.': 'This gate has not been approved yet; its votes can be removed directly.',
+  'حدد مصير أصوات المراحل اللاحقة قبل إعادة فتح البوابة.': 'Choose what happens to the votes on later phases before reopening the gate.',
+  'يُفتح التصويت على المرحلة النشطة فقط.': 'Only the active phase can be opened for voting.',
+  'باب التصويت مفتوح بالفعل؛ مدّد المهلة بدلاً من ذلك.': 'Voting is already open; extend the deadline instead.',
+  'لا يوجد باب تصويت مفتوح على هذه البوابة لتمديده.': 'There is no open vote on this gate to extend.',
+  'يجب أن يكون الموعد الجديد بعد موعد الإغلاق الحالي.': 'The new deadline must be later than the current one.',
+  'حدد موعد إغلاق التصويت.': 'Choose when voting closes.',
+  'موعد إغلاق التصويت غير صالح.': 'Invalid voting deadline.',
+  'يجب أن يكون موعد إغلاق التصويت في المستقبل.': 'The voting deadline must be in the future.',
+  'اذكر مبرر تمديد مهلة التصويت.': 'Give a justification for extending the deadline.',
+  'انتهت مهلة التصويت على هذه البوابة.': 'The voting deadline for this gate has passed.',
+  'صيغة الملف غير مدعومة؛ استخدم CSV أو XLSX.': 'Unsupported file type; use CSV or XLSX.',
+  'ملف XLSX تالف أو غير صالح.': 'The XLSX file is damaged or not valid.',
+  'محتوى ملف XLSX أكبر من الحد المسموح.': 'The XLSX file unpacks to more than the allowed size.',
+  'لم يُعثر على ورقة بيانات في ملف XLSX.': 'No worksheet was found in the XLSX file.',
+  'اختر ملف CSV أو XLSX للاستيراد.': 'Choose a CSV or XLSX file to import.',
+  'جدول التصدير غير معروف.': 'Unknown export table.',
+  'لا يحتوي الملف على أي مهمة بعد صف العناوين.': 'The file has no tasks below the heading row.',
+  'صحّح الأخطاء الموضحة في المعاينة ثم أعد رفع الملف.': 'Fix the errors shown in the preview, then upload the file again.',
+  'عنوان المهمة مطلوب.': 'Task title is required.',
+};
@@ -0,0 +1,367 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- Shared Types (client & server) ---
+/**
+ * A member's place on the board. `isAdmin` stays a separate bit for running
+ * the system (members, plans, configuration); the role decides what the
+ * member does in the board's own work.
+ */
+export type Role = 'chair' | 'secretary' | 'strategy_team' | 'board_member' | 'observer';
+export type Capability = 'vote' | 'manage_gates' | 'manage_minutes' | 'manage_reminders' | 'edit_drafts';
+export type User = { name: string; id: string; isAdmin?: boolean; role: Role };
+export type Member = { id: string; name: string; isAdmin?: boolean; role: Role; active: boolean };
+/** `recuse` declares a conflict of interest: the member is left out of the gate tally entirely. */
+export type VoteDecision = 'approve' | 'reject' | 'abstain' | 'recuse';
+/** Draft id → version number the voter saw when casting the vote. */
+export type DraftVersions = Record<number, number>;
+export type VoteRecord = {
+  id: string;
+  name: string;
+  decision: VoteDecision;
+  comment?: string;
+  draftVersions: DraftVersions;
+  /** When the vote was first cast. */
+  votedAt: string;
+  /** When the member last changed or renewed it, if they have. */
+  changedAt?: string;
+  /** Set when the vote was cast by the holder of the member's written proxy. */
+  proxyHolderId?: string;
+  proxyHolderName?: string;
+};
+export type Votes = Record<number, VoteRecord[]>;
+/** What reopening a gate does to later phases that already have votes. */
+export type DownstreamHandling = 'invalidate' | 'conditional';
+/** A decided gate the chair put back to a vote, with the documented reason. */
+export type PhaseReopening = {
+  id: number;
+  phaseId: number;
+  reason: string;
+  downstream: DownstreamHandling;
+  /** Later phases whose votes were cleared, or whose approval now waits on this gate. */
+  affectedPhaseIds: number[];
+  actorName: string;
+  createdAt: string;
+};
+/** A voting window's deadline moved later, with the chair's justification. */
+export type WindowExtension = { previousClosesAt: string; closesAt: string; reason: string; actorName: string; createdAt: string };
+/**
+ * The period the chair opened a gate for voting. Once its deadline passes it is
+ * closed with the outcome computed from the votes received, which then stands
+ * for the gate.
+ */
+export type VotingWindow = {
+  id: number;
+  opensAt: string;
+  closesAt: string;
+  openedByName: string;
+  extensions: WindowExtension[];
+  closedAt?: string;
+  outcome?: Exclude<GateOutcome, 'pending'>;
+};
+export type VoteHistoryAction = 'cast' | 'renewed' | 'changed' | 'commented' | 'withdrawn' | 'removed' | 'reset';
+/** One step in a phase's voting record. */
+export type VoteHistoryEntry = {
+  id: number;
+  memberId: string;
+  memberName: string;
+  action: VoteHistoryAction;
+  /** The vote after this step, or the one taken back by a withdrawal, removal or reset. */
+  decision: VoteDecision;
+  comment?: string;
+  /** Why the member changed or withdrew their vote. */
+  reason?: string;
+  /** Who took the step: the member, their proxy holder, the chair or the admin. */
+  actorName: string;
+  time: string;
+};
+/** A written, phase-scoped proxy: the holder may cast the grantor's vote between the two dates (inclusive). */
+export type Proxy = {
+  id: number;
+  phaseId: number;
+  grantorId: string;
+  holderId: string;
+  validFrom: string;
+  validUntil: string;
+  statement: string;
+  createdAt: string;
+  revokedAt?: string;
+  revokedByName?: string;
+};
+/** An earlier wording of a discussion post, kept when its author edited it. */
+export type DiscussionRevision = { body: string; replacedAt: string };
+export type DiscussionPost = {
+  id: number;
+  authorId: string;
+  authorName: string;
+  body: string;
+  /** Members the author drew into the conversation; they are notified. */
+  mentions: string[];
+  createdAt: string;
+  editedAt?: string;
+  /** Oldest first. */
+  history: DiscussionRevision[];
+};
+/** A conversation on a phase, or on one of its drafts when `draftId` is set. The first post opens it. */
+export type DiscussionThread = {
+  id: number;
+  phaseId: number;
+  draftId?: number;
+  title: string;
+  authorId: string;
+  createdAt: string;
+  resolvedAt?: string;
+  resolvedByName?: string;
+  posts: DiscussionPost[];
+};
+export type TaskCompletion = Record<string, string[]>;
+/** Task id → member id → when that member marked it done. */
+export type TaskCompletionTimes = Record<string, Record<string, string>>;
+export type TaskStatus = 'not_started' | 'in_progress' | 'at_risk' | 'overdue' | 'awaiting_review' | 'done_on_time' | 'done_late';
+export type Notification = { id: string; message: string; time: Date };
+export type InboxKind =
+  | 'task.assigned' | 'task.awaiting_review' | 'task.reviewed' | 'phase.opened' | 'vote.comment' | 'vote.removed'
+  | 'proxy.granted' | 'proxy.revoked' | 'discussion.reply' | 'discussion.mention' | 'phase.reopened'
+  | 'gate.extended' | 'gate.closed';
+/**
+ * A stored, per-member notice shown in the header inbox. `message` is a template
+ * filled from `params`; params ending in `At` are timestamps and those ending in
+ * `Date` are days. Notices stored before templates have finished text and no params.
+ */
+export type InboxItem = {
+  id: number; kind: InboxKind; message: string; params?: Record<string, string | number>; phaseId?: number; taskId?: string; read: boolean; createdAt: string;
+};
+export type InboxPage = { items: InboxItem[]; unread: number; hasMore: boolean };
+export type ReminderChannel = 'email' | 'sms' | 'off';
+/** `immediate` nudges once per item per day; digests bundle everything pending. */
+export type ReminderFrequency = 'immediate' | 'daily' | 'weekly';
+export type ReminderPreferences = {
+  channel: ReminderChannel;
+  frequency: ReminderFrequency;
+  /** Remind about tasks due within this many days. */
+  dueSoonDays: number;
+  email?: string;
+  phone?: string;
+};
+/** A member's preferences plus the channels this server can actually deliver on. */
+export type ReminderSettings = ReminderPreferences & { availableChannels: Exclude<ReminderChannel, 'off'>[] };
+/** A member's calendar subscription; the token itself is only returned when the link is created. */
+export type CalendarFeed = { createdAt?: string; token?: string };
+export type Task = {
+  id: string;
+  title: string;
+  assignees: string[];
+  startDate: string;
+  endDate: string;
+  deliverables: string;
+  phaseId?: number;
+  /** Ids of tasks that must finish before this one starts. */
+  dependsOn: string[];
+  /** Member who accepts or returns the task once all assignees are done; admins when unset. */
+  reviewerId?: string;
+};
+export type DecisionRule = 'unanimous' | 'two_thirds' | 'majority';
+export type Phase = {
+  /** Unique across plans; `number` is the phase's position within its own plan. */
+  id: number;
+  number: number;
+  title: string;
+  tools: string[];
+  gate: string;
+  decisionRule: DecisionRule;
+  /** Share of active members (0–100) that must cast a vote, abstentions included. Ignored under unanimity. */
+  quorumPercent: number;
+  /** The gate's current voting window; members vote only while it is open. */
+  votingWindow?: VotingWindow;
+};
+
+// --- Plans ---
+/** A plan (the 100-day plan, an annual operating plan, a committee plan) with its own phases, tasks and members. */
+export type Plan = {
+  id: number;
+  title: string;
+  startDate: string;
+  endDate: string;
+  memberIds: string[];
+  /** Archived plans are kept for reference and can no longer be changed. */
+  archivedAt?: string;
+  /** The plan this one was cloned from as a template. */
+  clonedFromId?: number;
+  createdAt: string;
+};
+
+// --- Draft Documents ---
+/** A document under review in a phase. `currentVersion` is 0 until the first version is published. */
+export type Draft = { id: number; phaseId: number; title: string; currentVersion: number; updatedAt?: string };
+export type DraftAttachment = { id: number; fileName: string; mimeType: string; size: number };
+export type DraftVersion = {
+  version: number;
+  /** Markdown source. */
+  body: string;
+  note?: string;
+  authorName: string;
+  createdAt: string;
+  attachments: DraftAttachment[];
+};
+
+// --- Task Progress & Review ---
+/** An assignee's latest self-reported progress on a task. */
+export type TaskProgress = { percent: number; note?: string; updatedAt: string };
+export type TaskProgressReport = TaskProgress & { memberId: string; memberName: string };
+export type TaskEvidence = {
+  id: number;
+  memberId: string;
+  memberName: string;
+  kind: 'file' | 'link';
+  /** Set for files. */
+  fileName?: string;
+  mimeType?: string;
+  size?: number;
+  /** Set for links. */
+  url?: string;
+  note?: string;
+  createdAt: string;
+};
+export type TaskReviewDecision = 'accepted' | 'returned';
+export type TaskReview = { decision: TaskReviewDecision; note?: string; reviewerId: string; reviewerName: string; reviewedAt: string };
+/** Full history of a task, loaded when its detail panel opens. */
+export type TaskActivity = { progress: TaskProgressReport[]; evidence: TaskEvidence[]; reviews: TaskReview[] };
+
+export type GateOutcome = 'approved' | 'rejected' | 'pending';
+export type GateTally = {
+  approve: number;
+  reject: number;
+  abstain: number;
+  /** Members who recused themselves; already subtracted from `eligible`. */
+  recused: number;
+  eligible: number;
+  participating: number;
+  quorumRequired: number;
+  quorumMet: boolean;
+  outcome: GateOutcome;
+};
+
+/** One plan's board. `members` are that plan's members; `directory` is everyone registered. */
+export type BoardState = {
+  planId: number;
+  /** Plans the signed-in member can open. */
+  plans: Plan[];
+  directory: Member[];
+  members: Member[];
+  phases: Phase[];
+  drafts: Draft[];
+  tasks: Task[];
+  votes: Votes;
+  taskCompletion: TaskCompletion;
+  taskCompletedAt: TaskCompletionTimes;
+  /** Task id → member id → latest progress report. */
+  taskProgress: Record<string, Record<string, TaskProgress>>;
+  /** Task id → most recent review. */
+  taskReviews: Record<string, TaskReview>;
+  proxies: Proxy[];
+  discussions: DiscussionThread[];
+  reopenings: PhaseReopening[];
+  lastEventId: number;
+};
+
+// --- Analytics ---
+/** A plan's progress as recorded on one day, so its trend can be charted later. */
+export type PlanSnapshot = {
+  day: string;
+  tasksTotal: number;
+  /** Tasks whose reviewer had accepted them. */
+  tasksAccepted: number;
+  /** Member id → tasks the member had finished their part of. */
+  memberCompleted: Record<string, number>;
+};
+/** `planned` follows the task dates; `actual` is missing for days not recorded. */
+export type BurnUpPoint = { day: string; planned: number; actual?: number };
+export type GateApprovalTime = {
+  phaseId: number;
+  openedAt: string;
+  approvedAt?: string;
+  /** From opening to approval, or so far while the gate is pending. */
+  days: number;
+};
+export type PlanAnalytics = { tasksTotal: number; burnUp: BurnUpPoint[]; approvals: GateApprovalTime[]; snapshots: PlanSnapshot[] };
+
+// --- Spreadsheets ---
+/** Tables offered for download; an XLSX workbook can hold them all. */
+export type ExportDataset = 'tasks' | 'assignees' | 'votes' | 'members';
+/** A message with placeholders, so the client can translate it before filling them in. */
+export type ImportError = { message: string; params?: Record<string, string | number> };
+/** One spreadsheet row read as a task; `row` is its line number in the sheet. Rows with errors are not imported. */
+export type TaskImportRow = {
+  row: number;
+  title: string;
+  assignees: string[];
+  startDate: string;
+  endDate: string;
+  deliverables: string;
+  phaseId?: number;
+  errors: ImportError[];
+};
+
+// --- Live Events ---
+export type BoardEventType = 'vote.cast' | 'vote.commented' | 'vote.changed' | 'vote.withdrawn' | 'vote.removed' | 'phase.reset' | 'phase.reopened' | 'gate.opened' | 'gate.extended' | 'gate.closed' | 'task.completed' | 'task.reopened' | 'draft.published' | 'task.progress' | 'task.reviewed' | 'proxy.granted' | 'proxy.revoked' | 'discussion.posted' | 'discussion.edited' | 'discussion.resolved' | 'discussion.reopened' | 'config.updated';
+export type BoardEvent = {
+  id: number;
+  type: BoardEventType;
+  memberId?: string;
+  memberName?: string;
+  actorId?: string;
+  actorName?: string;
+  phaseId?: number;
+  taskId?: string;
+  decision?: VoteDecision;
+  comment?: string;
+  /** Why a vote was changed or withdrawn, a gate reopened or its voting window extended. */
+  reason?: string;
+  draftId?: number;
+  draftTitle?: string;
+  version?: number;
+  draftVersions?: DraftVersions;
+  percent?: number;
+  reviewDecision?: TaskReviewDecision;
+  proxyHolderId?: string;
+  proxyHolderName?: string;
+  threadId?: number;
+  threadTitle?: string;
+  closesAt?: string;
+  gateOutcome?: GateOutcome;
+  /** Set for changes within one plan; events without it concern every plan. */
+  planId?: number;
+  time: string;
+};
+
+// --- Audit Trail ---
+export type AuditAction =
+  | 'vote.cast' | 'vote.recused' | 'vote.commented' | 'vote.changed' | 'vote.withdrawn' | 'vote.removed' | 'phase.reset' | 'phase.reopened' | 'proxy.granted' | 'proxy.revoked'
+  | 'gate.opened' | 'gate.extended' | 'gate.closed'
+  | 'discussion.started' | 'discussion.replied' | 'discussion.edited' | 'discussion.resolved' | 'discussion.reopened'
+  | 'task.completed' | 'task.reopened' | 'task.progress' | 'task.evidence_added' | 'task.accepted' | 'task.returned'
+  | 'member.created' | 'member.updated' | 'member.pin_set' | 'member.reminders_updated' | 'member.calendar_linked' | 'member.calendar_unlinked'
+  | 'plan.created' | 'plan.updated' | 'plan.archived' | 'plan.restored'
+  | 'phase.created' | 'phase.updated' | 'phase.deleted'
+  | 'task.created' | 'task.updated' | 'task.deleted'
+  | 'draft.created' | 'draft.renamed' | 'draft.deleted' | 'draft.published';
+export type AuditEntry = {
+  id: number;
+  action: AuditAction;
+  actorId: string;
+  actorName: string;
+  phaseId?: number;
+  memberId?: string;
+  taskId?: string;
+  draftId?: number;
+  before?: unknown;
+  after?: unknown;
+  time: string;
+  prevHash: string;
+  hash: string;
+};
+export type AuditFilter = { memberId?: string; phaseId?: number; action?: AuditAction; beforeId?: number };
+/** Result of re-hashing the whole chain. `brokenAt` is the first entry that does not match. */
+export type AuditVerification = { valid: boolean; checked: number; headHash: string; brokenAt?: number };